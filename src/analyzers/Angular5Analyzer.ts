@@ -1,98 +1,147 @@
-import { AnalyzedFile, MigrationIssue, IssueType, IssueSeverity, FileType } from '../types';
+import * as ts from 'typescript';
+import { AngularProject, AnalyzedFile, MigrationIssue, MigrationOptions, MigrationPlugin, IssueType, IssueSeverity, FileType } from '../types';
+import { AstUtils, SourcePosition } from '../utils/AstUtils';
+import { TemplateParser } from '../utils/TemplateParser';
+import { AngularJsonAnalyzer } from './AngularJsonAnalyzer';
+import { TsconfigAnalyzer } from './TsconfigAnalyzer';
+import { FEATURE_VERSIONS, MigrationPhases } from '../config/MigrationPhases';
+import { PluginRegistry } from '../plugins/PluginRegistry';
 import { Logger } from '../utils/Logger';
 
+/**
+ * Version cible minimale des issues de modernisation: pour une cible antérieure, elles ne sont pas signalées
+ */
+const ISSUE_TARGETS: Partial<Record<IssueType, number>> = {
+  [IssueType.INJECT_MIGRATION]: FEATURE_VERSIONS.inject,
+  [IssueType.TYPED_FORMS_MIGRATION]: FEATURE_VERSIONS.typedForms,
+  [IssueType.STANDALONE_MIGRATION]: FEATURE_VERSIONS.standalone,
+  [IssueType.CONTROL_FLOW_MIGRATION]: FEATURE_VERSIONS.controlFlow
+};
+
 /**
  * Analyseur spécifique pour les patterns Angular 5
  * Détecte les éléments obsolètes et les opportunités de modernisation
  */
 export class Angular5Analyzer {
   private logger: Logger;
+  private templateParser: TemplateParser;
+  private angularJsonAnalyzer: AngularJsonAnalyzer;
+  private tsconfigAnalyzer: TsconfigAnalyzer;
+  private registry: PluginRegistry;
 
-  constructor() {
+  constructor(registry: PluginRegistry = new PluginRegistry()) {
     this.logger = new Logger();
+    this.templateParser = new TemplateParser();
+    this.angularJsonAnalyzer = new AngularJsonAnalyzer();
+    this.tsconfigAnalyzer = new TsconfigAnalyzer();
+    this.registry = registry;
+    this.registry.registerBuiltin(this.createBuiltinPlugin());
   }
 
   /**
    * Analyse un fichier pour détecter les patterns Angular 5
+   * Le projet donne accès aux autres fichiers (chaînes `extends` des tsconfig)
    */
-  async analyzeFile(file: AnalyzedFile): Promise<MigrationIssue[]> {
-    const issues: MigrationIssue[] = [];
-
+  async analyzeFile(file: AnalyzedFile, project?: AngularProject, options?: MigrationOptions): Promise<MigrationIssue[]> {
     try {
-      switch (file.type) {
-        case FileType.COMPONENT:
-          issues.push(...this.analyzeComponent(file));
-          break;
-        case FileType.SERVICE:
-          issues.push(...this.analyzeService(file));
-          break;
-        case FileType.MODULE:
-          issues.push(...this.analyzeModule(file));
-          break;
-        case FileType.HTML_TEMPLATE:
-          issues.push(...this.analyzeTemplate(file));
-          break;
-        case FileType.PACKAGE_JSON:
-          issues.push(...this.analyzePackageJson(file));
-          break;
-        default:
-          // Analyse générale pour les autres types de fichiers
-          issues.push(...this.analyzeGeneral(file));
-      }
-
-      return issues;
+      return await this.registry.analyze(file, { project, options });
     } catch (error) {
       this.logger.error(`Erreur lors de l'analyse de ${file.path}: ${error.message}`);
       return [];
     }
   }
 
+  /**
+   * Règles d'analyse intégrées, exposées comme un plugin
+   */
+  private createBuiltinPlugin(): MigrationPlugin {
+    return {
+      name: 'builtin:angular5-analyzer',
+      analyzers: [
+        { id: 'component', fileTypes: [FileType.COMPONENT], analyze: (file, context) => this.forTarget(this.analyzeComponent(file), context.project) },
+        { id: 'service', fileTypes: [FileType.SERVICE], analyze: (file, context) => this.forTarget(this.analyzeService(file), context.project) },
+        { id: 'module', fileTypes: [FileType.MODULE], analyze: (file, context) => this.forTarget(this.analyzeModule(file), context.project) },
+        { id: 'template', fileTypes: [FileType.HTML_TEMPLATE], analyze: (file, context) => this.forTarget(this.analyzeTemplate(file), context.project) },
+        { id: 'package-json', fileTypes: [FileType.PACKAGE_JSON], analyze: file => this.analyzePackageJson(file) },
+        { id: 'angular-cli-json', fileTypes: [FileType.ANGULAR_CLI_JSON], versionRange: '<6', analyze: file => this.analyzeAngularCliJson(file) },
+        {
+          id: 'angular-json',
+          fileTypes: [FileType.ANGULAR_JSON],
+          analyze: (file, context) => this.angularJsonAnalyzer.analyze(file, MigrationPhases.targetMajor(context.project))
+        },
+        {
+          id: 'tsconfig',
+          fileTypes: [FileType.TSCONFIG],
+          crossFile: true,
+          analyze: (file, context) => this.tsconfigAnalyzer.analyze(file, context.project, MigrationPhases.targetMajor(context.project), context.options?.strictFlagsCheck === true)
+        },
+        {
+          // Analyse générale pour les autres types de fichiers
+          id: 'general',
+          fileTypes: [FileType.ROUTING, FileType.CSS_STYLE, FileType.SCSS_STYLE, FileType.OTHER],
+          analyze: file => this.analyzeGeneral(file)
+        }
+      ]
+    };
+  }
+
+  /**
+   * Retire les issues de modernisation indisponibles dans la version cible du projet
+   */
+  private forTarget(issues: MigrationIssue[], project?: AngularProject): MigrationIssue[] {
+    const targetMajor = MigrationPhases.targetMajor(project);
+    return issues.filter(issue => (ISSUE_TARGETS[issue.type] ?? 0) <= targetMajor);
+  }
+
   /**
    * Analyse un composant Angular 5
    */
   private analyzeComponent(file: AnalyzedFile): MigrationIssue[] {
     const issues: MigrationIssue[] = [];
-    const content = file.content;
+    const sourceFile = AstUtils.getSourceFile(file);
 
-    // Détection des constructeurs avec injection manuelle
-    const constructorInjectionPattern = /constructor\s*\(\s*([^)]+)\s*\)/g;
-    let match;
-    while ((match = constructorInjectionPattern.exec(content)) !== null) {
-      const injectionParams = match[1];
-      if (injectionParams.includes('private') || injectionParams.includes('public')) {
+    AstUtils.walk(sourceFile, node => {
+      // Détection des constructeurs avec injection manuelle
+      if (ts.isConstructorDeclaration(node) && this.hasInjectedProperties(node)) {
         issues.push({
           type: IssueType.INJECT_MIGRATION,
           severity: IssueSeverity.SUGGESTION,
           message: 'Considérez l\'utilisation de la fonction inject() pour l\'injection de dépendances',
-          line: this.getLineNumber(content, match.index),
+          ...AstUtils.getPosition(sourceFile, node),
           suggestion: 'Remplacer par: constructor() { this.service = inject(MyService); }',
-          code: match[0]
+          code: this.getConstructorSignature(node, sourceFile)
         });
       }
-    }
 
-    // Détection des NgModules dans les composants
-    if (content.includes('@NgModule')) {
-      issues.push({
-        type: IssueType.STANDALONE_MIGRATION,
-        severity: IssueSeverity.INFO,
-        message: 'Ce composant peut être converti en composant standalone',
-        suggestion: 'Ajouter standalone: true et importer les dépendances directement'
-      });
-    }
+      // Détection des NgModules dans les composants
+      if (ts.isClassDeclaration(node)) {
+        const ngModule = AstUtils.findDecorator(node, 'NgModule');
+        if (ngModule) {
+          issues.push({
+            type: IssueType.STANDALONE_MIGRATION,
+            severity: IssueSeverity.INFO,
+            message: 'Ce composant peut être converti en composant standalone',
+            ...AstUtils.getPosition(sourceFile, ngModule),
+            suggestion: 'Ajouter standalone: true et importer les dépendances directement'
+          });
+        }
+      }
 
-    // Détection des formulaires non typés
-    const formGroupPattern = /FormGroup\s*\(\s*\)/g;
-    while ((match = formGroupPattern.exec(content)) !== null) {
-      issues.push({
-        type: IssueType.TYPED_FORMS_MIGRATION,
-        severity: IssueSeverity.WARNING,
-        message: 'FormGroup non typé détecté',
-        line: this.getLineNumber(content, match.index),
-        suggestion: 'Utiliser FormGroup<MyFormInterface>() pour une meilleure sécurité de type',
-        code: match[0]
-      });
-    }
+      // Détection des formulaires non typés
+      if (ts.isNewExpression(node) && this.isUntypedFormGroup(node)) {
+        issues.push({
+          type: IssueType.TYPED_FORMS_MIGRATION,
+          severity: IssueSeverity.WARNING,
+          message: 'FormGroup non typé détecté',
+          ...AstUtils.getPosition(sourceFile, node),
+          suggestion: 'Utiliser FormGroup<MyFormInterface>() pour une meilleure sécurité de type',
+          code: node.expression.getText(sourceFile)
+        });
+      }
+    });
+
+    // Analyse des templates inline
+    issues.push(...this.analyzeInlineTemplates(sourceFile));
 
     return issues;
   }
@@ -102,33 +151,35 @@ export class Angular5Analyzer {
    */
   private analyzeService(file: AnalyzedFile): MigrationIssue[] {
     const issues: MigrationIssue[] = [];
-    const content = file.content;
+    const sourceFile = AstUtils.getSourceFile(file);
 
-    // Détection des services avec injection manuelle
-    const constructorPattern = /constructor\s*\(\s*([^)]+)\s*\)/g;
-    let match;
-    while ((match = constructorPattern.exec(content)) !== null) {
-      const injectionParams = match[1];
-      if (injectionParams.includes('private') || injectionParams.includes('public')) {
+    AstUtils.walk(sourceFile, node => {
+      // Détection des services avec injection manuelle
+      if (ts.isConstructorDeclaration(node) && this.hasInjectedProperties(node)) {
         issues.push({
           type: IssueType.INJECT_MIGRATION,
           severity: IssueSeverity.SUGGESTION,
           message: 'Migration vers inject() recommandée pour ce service',
-          line: this.getLineNumber(content, match.index),
-          suggestion: 'Utiliser inject() au lieu de l\'injection par constructeur'
+          ...AstUtils.getPosition(sourceFile, node),
+          suggestion: 'Utiliser inject() au lieu de l\'injection par constructeur',
+          code: this.getConstructorSignature(node, sourceFile)
         });
       }
-    }
 
-    // Détection des services non standalone
-    if (!content.includes('providedIn: \'root\'')) {
-      issues.push({
-        type: IssueType.STANDALONE_MIGRATION,
-        severity: IssueSeverity.INFO,
-        message: 'Service non configuré en standalone',
-        suggestion: 'Ajouter providedIn: \'root\' dans le décorateur @Injectable'
-      });
-    }
+      // Détection des services non standalone
+      if (ts.isClassDeclaration(node)) {
+        const injectable = AstUtils.findDecorator(node, 'Injectable');
+        if (injectable && !this.isProvidedInRoot(injectable)) {
+          issues.push({
+            type: IssueType.STANDALONE_MIGRATION,
+            severity: IssueSeverity.INFO,
+            message: 'Service non configuré en standalone',
+            ...AstUtils.getPosition(sourceFile, injectable),
+            suggestion: 'Ajouter providedIn: \'root\' dans le décorateur @Injectable'
+          });
+        }
+      }
+    });
 
     return issues;
   }
@@ -138,16 +189,20 @@ export class Angular5Analyzer {
    */
   private analyzeModule(file: AnalyzedFile): MigrationIssue[] {
     const issues: MigrationIssue[] = [];
-    const content = file.content;
+    const sourceFile = AstUtils.getSourceFile(file);
 
     // Détection des NgModules (à migrer vers standalone)
-    if (content.includes('@NgModule')) {
-      issues.push({
-        type: IssueType.STANDALONE_MIGRATION,
-        severity: IssueSeverity.WARNING,
-        message: 'NgModule détecté - migration vers standalone recommandée',
-        suggestion: 'Considérez la migration vers les composants standalone pour simplifier l\'architecture'
-      });
+    for (const classDeclaration of AstUtils.getClasses(sourceFile)) {
+      const ngModule = AstUtils.findDecorator(classDeclaration, 'NgModule');
+      if (ngModule) {
+        issues.push({
+          type: IssueType.STANDALONE_MIGRATION,
+          severity: IssueSeverity.WARNING,
+          message: 'NgModule détecté - migration vers standalone recommandée',
+          ...AstUtils.getPosition(sourceFile, ngModule),
+          suggestion: 'Considérez la migration vers les composants standalone pour simplifier l\'architecture'
+        });
+      }
     }
 
     // Détection des imports obsolètes
@@ -157,14 +212,22 @@ export class Angular5Analyzer {
       'FormsModule', // Peut être remplacé par des formulaires réactifs
     ];
 
-    for (const importName of obsoleteImports) {
-      if (content.includes(importName)) {
-        issues.push({
-          type: IssueType.DEPRECATED_API,
-          severity: IssueSeverity.WARNING,
-          message: `Import obsolète détecté: ${importName}`,
-          suggestion: `Vérifiez si ${importName} est encore nécessaire ou peut être remplacé`
-        });
+    for (const declaration of AstUtils.getImports(sourceFile)) {
+      const namedBindings = declaration.importClause?.namedBindings;
+      if (!namedBindings || !ts.isNamedImports(namedBindings)) continue;
+
+      for (const specifier of namedBindings.elements) {
+        const importName = (specifier.propertyName || specifier.name).text;
+        if (obsoleteImports.includes(importName)) {
+          issues.push({
+            type: IssueType.DEPRECATED_API,
+            severity: IssueSeverity.WARNING,
+            message: `Import obsolète détecté: ${importName}`,
+            ...AstUtils.getPosition(sourceFile, specifier),
+            suggestion: `Vérifiez si ${importName} est encore nécessaire ou peut être remplacé`,
+            code: declaration.getText(sourceFile)
+          });
+        }
       }
     }
 
@@ -175,29 +238,30 @@ export class Angular5Analyzer {
    * Analyse un template HTML
    */
   private analyzeTemplate(file: AnalyzedFile): MigrationIssue[] {
+    return this.analyzeTemplateContent(file.content, { line: 1, column: 1 });
+  }
+
+  /**
+   * Analyse le contenu d'un template (fichier HTML ou template inline).
+   * `origin` est la position du début du template dans le fichier
+   */
+  private analyzeTemplateContent(content: string, origin: SourcePosition): MigrationIssue[] {
     const issues: MigrationIssue[] = [];
-    const content = file.content;
+    const document = this.templateParser.parse(content);
+    const toFilePosition = (offset: number): SourcePosition => {
+      const position = TemplateParser.getPosition(content, offset);
+      return position.line === 1
+        ? { line: origin.line, column: origin.column + position.column - 1 }
+        : { line: origin.line + position.line - 1, column: position.column };
+    };
 
     // Détection des directives de contrôle de flux obsolètes
-    const controlFlowPatterns = [
-      { pattern: /\*ngIf/g, replacement: '@if' },
-      { pattern: /\*ngFor/g, replacement: '@for' },
-      { pattern: /\*ngSwitch/g, replacement: '@switch' }
-    ];
-
-    for (const { pattern, replacement } of controlFlowPatterns) {
-      let match;
-      while ((match = pattern.exec(content)) !== null) {
-        issues.push({
-          type: IssueType.CONTROL_FLOW_MIGRATION,
-          severity: IssueSeverity.SUGGESTION,
-          message: `Directive de contrôle de flux obsolète: ${match[0]}`,
-          line: this.getLineNumber(content, match.index),
-          suggestion: `Remplacer par la nouvelle syntaxe: ${replacement}`,
-          code: match[0]
-        });
-      }
-    }
+    const controlFlowDirectives: Record<string, string> = {
+      '*ngIf': '@if',
+      '*ngFor': '@for',
+      '*ngSwitchCase': '@switch',
+      '*ngSwitchDefault': '@switch'
+    };
 
     // Détection des pipes obsolètes
     const obsoletePipes = [
@@ -205,18 +269,62 @@ export class Angular5Analyzer {
       'json', // Déconseillé en production
     ];
 
-    for (const pipe of obsoletePipes) {
-      const pipePattern = new RegExp(`\\|\\s*${pipe}\\b`, 'g');
-      let match;
-      while ((match = pipePattern.exec(content)) !== null) {
-        issues.push({
-          type: IssueType.DEPRECATED_API,
-          severity: IssueSeverity.INFO,
-          message: `Pipe potentiellement obsolète: ${pipe}`,
-          line: this.getLineNumber(content, match.index),
-          suggestion: `Vérifiez si le pipe ${pipe} est encore nécessaire`
-        });
+    const checkPipes = (expression: string, offset: number) => {
+      for (const pipe of obsoletePipes) {
+        const pipePattern = new RegExp(`(^|[^|])\\|\\s*${pipe}\\b`, 'g');
+        let match;
+        while ((match = pipePattern.exec(expression)) !== null) {
+          issues.push({
+            type: IssueType.DEPRECATED_API,
+            severity: IssueSeverity.INFO,
+            message: `Pipe potentiellement obsolète: ${pipe}`,
+            ...toFilePosition(offset + match.index + match[1].length),
+            suggestion: `Vérifiez si le pipe ${pipe} est encore nécessaire`
+          });
+        }
+      }
+    };
+
+    TemplateParser.walk(document.children, node => {
+      if (node.kind === 'text') {
+        checkPipes(node.value, node.start);
+        return;
+      }
+      if (node.kind !== 'element') return;
+
+      for (const attribute of node.attributes) {
+        const replacement = controlFlowDirectives[attribute.name];
+        if (replacement) {
+          issues.push({
+            type: IssueType.CONTROL_FLOW_MIGRATION,
+            severity: IssueSeverity.SUGGESTION,
+            message: `Directive de contrôle de flux obsolète: ${attribute.name}`,
+            ...toFilePosition(attribute.start),
+            suggestion: `Remplacer par la nouvelle syntaxe: ${replacement}`,
+            code: content.slice(attribute.start, attribute.end)
+          });
+        }
+
+        if (attribute.value) {
+          checkPipes(attribute.value, content.indexOf(attribute.value, attribute.start));
+        }
       }
+    });
+
+    return issues;
+  }
+
+  /**
+   * Analyse les templates inline d'un composant
+   */
+  private analyzeInlineTemplates(sourceFile: ts.SourceFile): MigrationIssue[] {
+    const issues: MigrationIssue[] = [];
+
+    for (const literal of AstUtils.findInlineTemplates(sourceFile)) {
+      // Le contenu commence après le délimiteur d'ouverture
+      const position = AstUtils.getPosition(sourceFile, literal);
+      const template = sourceFile.text.slice(literal.getStart(sourceFile) + 1, literal.getEnd() - 1);
+      issues.push(...this.analyzeTemplateContent(template, { line: position.line, column: position.column + 1 }));
     }
 
     return issues;
@@ -233,14 +341,14 @@ export class Angular5Analyzer {
       const packageJson = JSON.parse(content);
       const dependencies = { ...packageJson.dependencies, ...packageJson.devDependencies };
 
-      // Vérification des versions Angular
+      // Vérification des versions Angular: toute version à partir d'Angular 5
       const angularCore = dependencies['@angular/core'];
-      if (angularCore && !angularCore.startsWith('5.')) {
+      if (angularCore && !MigrationPhases.isSupported(angularCore)) {
         issues.push({
           type: IssueType.INCOMPATIBLE_VERSION,
           severity: IssueSeverity.ERROR,
-          message: `Version Angular incompatible: ${angularCore}`,
-          suggestion: 'Ce projet semble déjà migré ou utilise une version non supportée'
+          message: `Version Angular non prise en charge: ${angularCore}`,
+          suggestion: 'Mettre d\'abord le projet à jour vers Angular 5, version de départ minimale de la migration'
         });
       }
 
@@ -273,12 +381,42 @@ export class Angular5Analyzer {
     return issues;
   }
 
+  /**
+   * Analyse le .angular-cli.json (workspace Angular CLI 1.x)
+   */
+  private analyzeAngularCliJson(file: AnalyzedFile): MigrationIssue[] {
+    try {
+      const cliConfig = JSON.parse(file.content);
+      const apps = Array.isArray(cliConfig.apps) ? cliConfig.apps : [];
+
+      return [{
+        type: IssueType.INCOMPATIBLE_VERSION,
+        severity: IssueSeverity.WARNING,
+        message: `Workspace Angular CLI 1.x détecté (${apps.length} application(s)) : .angular-cli.json n'est plus lu depuis Angular 6`,
+        suggestion: 'Générer angular.json (apps, assets, styles, scripts, environnements → fileReplacements)'
+      }];
+    } catch (error) {
+      return [{
+        type: IssueType.INCOMPATIBLE_VERSION,
+        severity: IssueSeverity.ERROR,
+        message: 'Erreur lors de l\'analyse du .angular-cli.json',
+        suggestion: 'Vérifiez la syntaxe JSON du fichier'
+      }];
+    }
+  }
+
   /**
    * Analyse générale pour tous les types de fichiers
    */
   private analyzeGeneral(file: AnalyzedFile): MigrationIssue[] {
     const issues: MigrationIssue[] = [];
-    const content = file.content;
+
+    // Seuls les fichiers TypeScript peuvent contenir des imports
+    if (!AstUtils.isTypeScriptFile(file.path)) {
+      return issues;
+    }
+
+    const sourceFile = AstUtils.getSourceFile(file);
 
     // Détection des imports obsolètes
     const obsoleteImports = [
@@ -286,13 +424,16 @@ export class Angular5Analyzer {
       'rxjs/operators', // Peut être simplifié
     ];
 
-    for (const importPath of obsoleteImports) {
-      if (content.includes(`from '${importPath}'`) || content.includes(`from "${importPath}"`)) {
+    for (const declaration of AstUtils.getImports(sourceFile)) {
+      const importPath = AstUtils.getModuleSpecifier(declaration);
+      if (obsoleteImports.includes(importPath)) {
         issues.push({
           type: IssueType.DEPRECATED_API,
           severity: IssueSeverity.WARNING,
           message: `Import obsolète: ${importPath}`,
-          suggestion: `Migrer vers les alternatives modernes pour ${importPath}`
+          ...AstUtils.getPosition(sourceFile, declaration),
+          suggestion: `Migrer vers les alternatives modernes pour ${importPath}`,
+          code: declaration.getText(sourceFile)
         });
       }
     }
@@ -301,9 +442,37 @@ export class Angular5Analyzer {
   }
 
   /**
-   * Calcule le numéro de ligne basé sur l'index dans le contenu
+   * Indique si un constructeur déclare des dépendances injectées (private, public, protected, readonly)
+   */
+  private hasInjectedProperties(constructor: ts.ConstructorDeclaration): boolean {
+    return constructor.parameters.some(parameter => AstUtils.isParameterProperty(parameter));
+  }
+
+  /**
+   * Reconstitue la signature d'un constructeur sans son corps
+   */
+  private getConstructorSignature(constructor: ts.ConstructorDeclaration, sourceFile: ts.SourceFile): string {
+    const parameters = constructor.parameters.map(parameter => parameter.getText(sourceFile)).join(', ');
+    return `constructor(${parameters})`;
+  }
+
+  /**
+   * Indique si une expression `new FormGroup(...)` est dépourvue de paramètre de type
+   */
+  private isUntypedFormGroup(expression: ts.NewExpression): boolean {
+    return ts.isIdentifier(expression.expression)
+      && expression.expression.text === 'FormGroup'
+      && !expression.typeArguments;
+  }
+
+  /**
+   * Indique si un décorateur @Injectable déclare providedIn: 'root'
    */
-  private getLineNumber(content: string, index: number): number {
-    return content.substring(0, index).split('\n').length;
+  private isProvidedInRoot(injectable: ts.Decorator): boolean {
+    const metadata = AstUtils.getDecoratorMetadata(injectable);
+    const providedIn = metadata && AstUtils.findProperty(metadata, 'providedIn');
+    return !!providedIn
+      && ts.isStringLiteralLike(providedIn.initializer)
+      && providedIn.initializer.text === 'root';
   }
 }
@@ -0,0 +1,248 @@
+import { AnalyzedFile, MigrationIssue, IssueType, IssueSeverity } from '../types';
+import { Logger } from '../utils/Logger';
+
+/**
+ * Option de build supprimée ou remplacée au fil des versions
+ */
+export interface RemovedBuildOption {
+  /** Version majeure d'Angular qui ne supporte plus l'option */
+  removedIn: number;
+  /** Explication affichée dans le rapport */
+  reason: string;
+}
+
+/**
+ * Options d'une cible angular.json, ou de l'une de ses configurations
+ */
+export type TargetOptions = Record<string, unknown>;
+
+/**
+ * Cible d'un projet angular.json (build, serve, test...)
+ */
+export interface WorkspaceTarget {
+  builder?: string;
+  options?: TargetOptions;
+  configurations?: Record<string, TargetOptions>;
+}
+
+/**
+ * Projet d'un workspace angular.json
+ */
+export interface WorkspaceProject {
+  root?: string;
+  sourceRoot?: string;
+  projectType?: string;
+  prefix?: string;
+  /** `architect` (Angular 6+) ou son alias `targets` */
+  architect?: Record<string, WorkspaceTarget>;
+  targets?: Record<string, WorkspaceTarget>;
+}
+
+/**
+ * Contenu d'un fichier angular.json
+ */
+export interface AngularWorkspace {
+  $schema?: string;
+  version?: number;
+  newProjectRoot?: string;
+  projects?: Record<string, WorkspaceProject>;
+  defaultProject?: string;
+  schematics?: Record<string, Record<string, unknown>>;
+}
+
+/**
+ * Options des builders `browser` / `karma` qui n'existent plus
+ */
+export const REMOVED_BUILD_OPTIONS: Record<string, RemovedBuildOption> = {
+  es5BrowserSupport: { removedIn: 9, reason: 'remplacée par le fichier .browserslistrc (differential loading)' },
+  evalSourceMap: { removedIn: 9, reason: 'option supprimée sans équivalent' },
+  vendorSourceMap: { removedIn: 9, reason: 'remplacée par sourceMap.vendor' },
+  skipAppShell: { removedIn: 9, reason: 'option supprimée sans équivalent' },
+  lazyModules: { removedIn: 9, reason: 'les imports dynamiques sont détectés automatiquement' },
+  forkTypeChecker: { removedIn: 11, reason: 'la vérification de types est toujours parallélisée' },
+  extractCss: { removedIn: 12, reason: 'le CSS est toujours extrait en production' },
+  experimentalRollupPass: { removedIn: 12, reason: 'option expérimentale supprimée' },
+  showCircularDependencies: { removedIn: 14, reason: 'utiliser un outil dédié (madge)' }
+};
+
+/**
+ * Options inconnues du builder `application` (esbuild)
+ */
+export const APPLICATION_BUILDER_UNSUPPORTED_OPTIONS = [
+  'buildOptimizer',
+  'vendorChunk',
+  'commonChunk',
+  'resourcesOutputPath'
+];
+
+/**
+ * Builders s'appuyant sur une configuration webpack personnalisée
+ */
+export const CUSTOM_WEBPACK_BUILDERS = [
+  '@angular-builders/custom-webpack',
+  'ngx-build-plus',
+  '@nrwl/webpack',
+  '@nx/webpack',
+  '@angular-builders/dev-server'
+];
+
+/**
+ * Builders supprimés d'Angular et leur remplaçant
+ */
+const REMOVED_BUILDERS: Record<string, { removedIn: number; replacement: string }> = {
+  '@angular-devkit/build-angular:tslint': { removedIn: 12, replacement: '@angular-eslint/builder:lint (ng add @angular-eslint/schematics)' },
+  '@angular-devkit/build-angular:protractor': { removedIn: 15, replacement: 'Cypress ou Playwright' }
+};
+
+/**
+ * Version majeure à partir de laquelle le builder `application` est disponible
+ */
+export const APPLICATION_BUILDER_MIN_VERSION = 17;
+
+/**
+ * Analyseur d'angular.json
+ * Détecte les options de build obsolètes, les builders supprimés et ce qui bloque le passage à esbuild
+ */
+export class AngularJsonAnalyzer {
+  private logger: Logger;
+
+  constructor() {
+    this.logger = new Logger();
+  }
+
+  /**
+   * Analyse le fichier angular.json
+   */
+  analyze(file: AnalyzedFile, targetMajor: number = 20): MigrationIssue[] {
+    const issues: MigrationIssue[] = [];
+
+    try {
+      const workspace: AngularWorkspace = JSON.parse(file.content);
+
+      if (workspace.defaultProject && targetMajor >= 14) {
+        issues.push({
+          type: IssueType.BUILD_CONFIGURATION,
+          severity: IssueSeverity.INFO,
+          message: 'Option defaultProject obsolète depuis Angular 14',
+          line: this.findLine(file.content, '"defaultProject"'),
+          suggestion: 'Supprimer defaultProject : le projet est déduit du répertoire courant'
+        });
+      }
+
+      for (const [projectName, project] of Object.entries(workspace.projects || {})) {
+        const targets = project.architect || project.targets || {};
+
+        for (const [targetName, target] of Object.entries(targets)) {
+          issues.push(...this.analyzeTarget(file.content, projectName, targetName, target, targetMajor));
+        }
+      }
+    } catch (error) {
+      this.logger.warn(`Erreur lors de l'analyse de ${file.path}: ${error.message}`);
+      issues.push({
+        type: IssueType.BUILD_CONFIGURATION,
+        severity: IssueSeverity.ERROR,
+        message: 'Erreur lors de l\'analyse de l\'angular.json',
+        suggestion: 'Vérifiez la syntaxe JSON du fichier'
+      });
+    }
+
+    return issues;
+  }
+
+  /**
+   * Analyse une cible (build, serve, test...) d'un projet
+   */
+  private analyzeTarget(content: string, projectName: string, targetName: string, target: WorkspaceTarget, targetMajor: number): MigrationIssue[] {
+    const issues: MigrationIssue[] = [];
+    const builder = target.builder || '';
+    const label = `${projectName}:${targetName}`;
+
+    // Builders webpack personnalisés : bloquent le passage au builder application (esbuild)
+    if (CUSTOM_WEBPACK_BUILDERS.some(custom => builder.startsWith(custom))) {
+      issues.push({
+        type: IssueType.BUILD_CONFIGURATION,
+        severity: targetMajor >= APPLICATION_BUILDER_MIN_VERSION ? IssueSeverity.ERROR : IssueSeverity.WARNING,
+        message: `Builder webpack personnalisé (${builder}) sur ${label} : bloque le passage au builder esbuild`,
+        line: this.findLine(content, `"${builder}"`),
+        suggestion: 'Remplacer la configuration webpack par des options du builder application ou des plugins esbuild',
+        code: builder
+      });
+    }
+
+    const removedBuilder = REMOVED_BUILDERS[builder];
+    if (removedBuilder && targetMajor >= removedBuilder.removedIn) {
+      issues.push({
+        type: IssueType.BUILD_CONFIGURATION,
+        severity: IssueSeverity.ERROR,
+        message: `Builder ${builder} supprimé dans Angular ${removedBuilder.removedIn} (${label})`,
+        line: this.findLine(content, `"${builder}"`),
+        suggestion: `Remplacer par ${removedBuilder.replacement}`,
+        code: builder
+      });
+    }
+
+    if (builder === '@angular-devkit/build-angular:browser' && targetMajor >= APPLICATION_BUILDER_MIN_VERSION) {
+      issues.push({
+        type: IssueType.BUILD_CONFIGURATION,
+        severity: IssueSeverity.SUGGESTION,
+        message: `Builder browser (webpack) utilisé pour ${label}`,
+        line: this.findLine(content, `"${builder}"`),
+        suggestion: 'Migrer vers @angular-devkit/build-angular:application (esbuild, Vite pour ng serve)',
+        code: builder
+      });
+    }
+
+    // Options supprimées dans les options et chaque configuration
+    const optionSets: Array<[string, TargetOptions]> = [
+      ['options', target.options || {}],
+      ...Object.entries(target.configurations || {}).map(([name, options]): [string, TargetOptions] => [`configurations.${name}`, options || {}])
+    ];
+
+    for (const [location, options] of optionSets) {
+      for (const [option, removed] of Object.entries(REMOVED_BUILD_OPTIONS)) {
+        if (option in options && targetMajor >= removed.removedIn) {
+          issues.push({
+            type: IssueType.BUILD_CONFIGURATION,
+            severity: IssueSeverity.WARNING,
+            message: `Option ${option} supprimée dans Angular ${removed.removedIn} (${label} ${location})`,
+            line: this.findLine(content, `"${option}"`),
+            suggestion: `Supprimer ${option} : ${removed.reason}`,
+            code: `"${option}": ${JSON.stringify(options[option])}`
+          });
+        }
+      }
+
+      if (options.aot === false && targetMajor >= 9) {
+        issues.push({
+          type: IssueType.BUILD_CONFIGURATION,
+          severity: IssueSeverity.WARNING,
+          message: `Compilation JIT forcée (aot: false) sur ${label} ${location}`,
+          line: this.findLine(content, '"aot"'),
+          suggestion: 'Ivy compile en AOT par défaut depuis Angular 9 : supprimer aot: false',
+          code: '"aot": false'
+        });
+      }
+    }
+
+    // Budgets de taille en production
+    const production = target.configurations?.production;
+    if (targetName === 'build' && production && !production.budgets) {
+      issues.push({
+        type: IssueType.BUILD_CONFIGURATION,
+        severity: IssueSeverity.SUGGESTION,
+        message: `Aucun budget de taille défini pour ${label} (production)`,
+        suggestion: 'Ajouter des budgets initial et anyComponentStyle pour surveiller la taille des bundles'
+      });
+    }
+
+    return issues;
+  }
+
+  /**
+   * Retourne la ligne de la première occurrence d'un texte
+   */
+  private findLine(content: string, text: string): number | undefined {
+    const index = content.indexOf(text);
+    return index === -1 ? undefined : content.substring(0, index).split('\n').length;
+  }
+}
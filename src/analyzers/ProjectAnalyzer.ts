@@ -3,6 +3,9 @@ import * as path from 'path';
 import * as glob from 'glob';
 import { AngularProject, ProjectConfig, AngularDependencies, AnalyzedFile, FileType } from '../types';
 import { Logger } from '../utils/Logger';
+import { TsconfigUtils } from '../utils/TsconfigUtils';
+import { VersionUtils } from '../utils/VersionUtils';
+import { MigrationPhases } from '../config/MigrationPhases';
 
 /**
  * Analyseur de projet Angular
@@ -32,7 +35,8 @@ export class ProjectAnalyzer {
       
       // Détection de la version Angular
       const currentVersion = this.extractAngularVersion(config.angularDependencies);
-      const targetVersion = '20.0.0';
+      // Version la plus récente par défaut, ajustée par le moteur selon `--target`
+      const targetVersion = MigrationPhases.latestVersion();
       
       // Analyse des fichiers
       const files = await this.analyzeProjectFiles(projectPath);
@@ -76,11 +80,17 @@ export class ProjectAnalyzer {
       config.angularJsonPath = angularJsonPath;
     }
 
+    // Analyse de .angular-cli.json (workspaces Angular 5)
+    const angularCliJsonPath = path.join(projectPath, '.angular-cli.json');
+    if (await fs.pathExists(angularCliJsonPath)) {
+      config.angularCliJsonPath = angularCliJsonPath;
+    }
+
     // Analyse de tsconfig.json
     const tsconfigPath = path.join(projectPath, 'tsconfig.json');
     if (await fs.pathExists(tsconfigPath)) {
       config.tsconfigPath = tsconfigPath;
-      config.typescriptConfig = await fs.readJson(tsconfigPath);
+      config.typescriptConfig = TsconfigUtils.parse(tsconfigPath, await fs.readFile(tsconfigPath, 'utf-8'));
     }
 
     return config;
@@ -116,10 +126,10 @@ export class ProjectAnalyzer {
       throw new Error('Version d\'Angular non détectée dans package.json');
     }
     
-    // Extraire la version majeure
-    const match = coreVersion.match(/^(\d+)\./);
-    if (match) {
-      return match[1] + '.0.0';
+    // Extraire la version majeure (`5.2.0`, `^8.2.14`, `~11.0.0`)
+    const version = VersionUtils.parse(coreVersion);
+    if (version) {
+      return `${version[0]}.0.0`;
     }
     
     return coreVersion;
@@ -139,7 +149,11 @@ export class ProjectAnalyzer {
       'src/**/*.scss',
       'package.json',
       'angular.json',
-      'tsconfig.json'
+      '.angular-cli.json',
+      'tsconfig.json',
+      'tsconfig.*.json',
+      'src/tsconfig.*.json',
+      'e2e/tsconfig*.json'
     ];
 
     for (const pattern of patterns) {
@@ -185,7 +199,8 @@ export class ProjectAnalyzer {
     // Fichiers de configuration
     if (fileName === 'package.json') return FileType.PACKAGE_JSON;
     if (fileName === 'angular.json') return FileType.ANGULAR_JSON;
-    if (fileName === 'tsconfig.json') return FileType.TSCONFIG;
+    if (fileName === '.angular-cli.json') return FileType.ANGULAR_CLI_JSON;
+    if (TsconfigUtils.isTsconfigFile(fileName)) return FileType.TSCONFIG;
 
     // Fichiers TypeScript
     if (extension === '.ts') {
@@ -0,0 +1,745 @@
+import * as path from 'path';
+import * as ts from 'typescript';
+import { AnalyzedFile } from '../types';
+import { AstUtils } from '../utils/AstUtils';
+import { TemplateParser, TemplateElement } from '../utils/TemplateParser';
+import { Logger } from '../utils/Logger';
+import { ControlFlowMigrator } from '../transformers/ControlFlowMigrator';
+
+/**
+ * Classe déclarable dans un NgModule (composant, directive ou pipe)
+ */
+export interface DeclarableInfo {
+  name: string;
+  kind: 'component' | 'directive' | 'pipe';
+  filePath: string;
+  /** Sélecteur CSS (composants et directives) */
+  selector?: string;
+  /** Nom utilisé dans les templates (pipes) */
+  pipeName?: string;
+  /** Déjà déclaré `standalone: true` */
+  standalone: boolean;
+}
+
+/**
+ * Métadonnées d'un NgModule du projet
+ */
+export interface NgModuleInfo {
+  name: string;
+  filePath: string;
+  declarations: string[];
+  imports: string[];
+  exports: string[];
+  bootstrap: string[];
+  /** Fournisseurs déclarés (`providers` ou `forRoot()` / `forChild()` dans les imports) */
+  hasProviders: boolean;
+  /** La classe a un corps (constructeur, membres) */
+  hasMembers: boolean;
+}
+
+/**
+ * Symbole à importer dans un fichier (identifiant et module TypeScript)
+ */
+export interface StandaloneImport {
+  name: string;
+  moduleSpecifier: string;
+}
+
+/**
+ * Imports résolus pour le template d'un composant
+ */
+export interface StandaloneImportsResolution {
+  imports: StandaloneImport[];
+  /** Éléments et pipes du template sans déclaration connue */
+  unresolved: string[];
+  /** Modules tiers conservés faute de pouvoir résoudre leur contenu */
+  conservativeImports: string[];
+}
+
+/**
+ * Directive ou pipe fourni par un module Angular
+ */
+interface LibraryDeclarable {
+  /** Symbole importé par le composant standalone */
+  symbol: string;
+  /** Paquet qui exporte le symbole */
+  from: string;
+  /** NgModule qui rend la directive ou le pipe disponible */
+  ngModule: string;
+  selector?: string;
+  pipeName?: string;
+}
+
+/**
+ * Usage d'un template : attributs de chaque occurrence d'élément et pipes
+ */
+interface TemplateUsage {
+  elements: Map<string, Array<Map<string, string | undefined>>>;
+  pipes: Set<string>;
+}
+
+/**
+ * Vue d'ensemble des NgModules et déclarables du projet
+ */
+interface StandaloneScope {
+  declarables: Map<string, DeclarableInfo>;
+  modules: Map<string, NgModuleInfo>;
+  /** Déclarables convertis en standalone */
+  convertible: Set<string>;
+  /** NgModules vides une fois les déclarations retirées */
+  removedModules: Set<string>;
+  /** Templates (après migration du contrôle de flux) par composant */
+  templates: Map<string, string>;
+}
+
+/**
+ * Directives et pipes des modules Angular (CommonModule, FormsModule, ReactiveFormsModule, RouterModule)
+ * Les directives de formulaires ne sont pas standalone : le module est importé tel quel
+ */
+const LIBRARY_DECLARABLES: LibraryDeclarable[] = [
+  { symbol: 'NgClass', from: '@angular/common', ngModule: 'CommonModule', selector: '[ngClass]' },
+  { symbol: 'NgStyle', from: '@angular/common', ngModule: 'CommonModule', selector: '[ngStyle]' },
+  { symbol: 'NgIf', from: '@angular/common', ngModule: 'CommonModule', selector: '[ngIf]' },
+  { symbol: 'NgForOf', from: '@angular/common', ngModule: 'CommonModule', selector: '[ngFor][ngForOf]' },
+  { symbol: 'NgSwitch', from: '@angular/common', ngModule: 'CommonModule', selector: '[ngSwitch]' },
+  { symbol: 'NgSwitchCase', from: '@angular/common', ngModule: 'CommonModule', selector: '[ngSwitchCase]' },
+  { symbol: 'NgSwitchDefault', from: '@angular/common', ngModule: 'CommonModule', selector: '[ngSwitchDefault]' },
+  { symbol: 'NgTemplateOutlet', from: '@angular/common', ngModule: 'CommonModule', selector: '[ngTemplateOutlet]' },
+  { symbol: 'NgComponentOutlet', from: '@angular/common', ngModule: 'CommonModule', selector: '[ngComponentOutlet]' },
+  { symbol: 'NgPlural', from: '@angular/common', ngModule: 'CommonModule', selector: '[ngPlural]' },
+  { symbol: 'NgPluralCase', from: '@angular/common', ngModule: 'CommonModule', selector: '[ngPluralCase]' },
+  { symbol: 'AsyncPipe', from: '@angular/common', ngModule: 'CommonModule', pipeName: 'async' },
+  { symbol: 'DatePipe', from: '@angular/common', ngModule: 'CommonModule', pipeName: 'date' },
+  { symbol: 'JsonPipe', from: '@angular/common', ngModule: 'CommonModule', pipeName: 'json' },
+  { symbol: 'UpperCasePipe', from: '@angular/common', ngModule: 'CommonModule', pipeName: 'uppercase' },
+  { symbol: 'LowerCasePipe', from: '@angular/common', ngModule: 'CommonModule', pipeName: 'lowercase' },
+  { symbol: 'TitleCasePipe', from: '@angular/common', ngModule: 'CommonModule', pipeName: 'titlecase' },
+  { symbol: 'CurrencyPipe', from: '@angular/common', ngModule: 'CommonModule', pipeName: 'currency' },
+  { symbol: 'PercentPipe', from: '@angular/common', ngModule: 'CommonModule', pipeName: 'percent' },
+  { symbol: 'DecimalPipe', from: '@angular/common', ngModule: 'CommonModule', pipeName: 'number' },
+  { symbol: 'SlicePipe', from: '@angular/common', ngModule: 'CommonModule', pipeName: 'slice' },
+  { symbol: 'KeyValuePipe', from: '@angular/common', ngModule: 'CommonModule', pipeName: 'keyvalue' },
+  { symbol: 'I18nPluralPipe', from: '@angular/common', ngModule: 'CommonModule', pipeName: 'i18nPlural' },
+  { symbol: 'I18nSelectPipe', from: '@angular/common', ngModule: 'CommonModule', pipeName: 'i18nSelect' },
+  { symbol: 'FormsModule', from: '@angular/forms', ngModule: 'FormsModule', selector: '[ngModel]:not([formControlName]):not([formControl])' },
+  { symbol: 'FormsModule', from: '@angular/forms', ngModule: 'FormsModule', selector: 'form:not([ngNoForm]):not([formGroup]),ng-form,[ngForm]' },
+  { symbol: 'FormsModule', from: '@angular/forms', ngModule: 'FormsModule', selector: '[ngModelGroup]' },
+  { symbol: 'ReactiveFormsModule', from: '@angular/forms', ngModule: 'ReactiveFormsModule', selector: '[formGroup],[formControl],[formControlName],[formGroupName],[formArrayName]' },
+  { symbol: 'RouterOutlet', from: '@angular/router', ngModule: 'RouterModule', selector: 'router-outlet' },
+  { symbol: 'RouterLink', from: '@angular/router', ngModule: 'RouterModule', selector: '[routerLink]' },
+  { symbol: 'RouterLinkActive', from: '@angular/router', ngModule: 'RouterModule', selector: '[routerLinkActive]' }
+];
+
+/**
+ * Modules Angular qui réexportent un module de LIBRARY_DECLARABLES
+ */
+const LIBRARY_MODULE_ALIASES: Record<string, string> = {
+  BrowserModule: 'CommonModule'
+};
+
+/**
+ * Préfixes de liaison retirés pour comparer un attribut aux sélecteurs
+ */
+const BINDING_PREFIXES = ['bindon-', 'bind-', 'on-'];
+
+/**
+ * Analyseur de la portée des NgModules pour la conversion en standalone
+ * Résout ce que le template de chaque composant utilise (directives, pipes, sélecteurs de composants)
+ * à partir des déclarations et exports des NgModules qui le déclarent
+ */
+export class StandaloneScopeAnalyzer {
+  private logger: Logger;
+  private templateParser: TemplateParser;
+  private controlFlowMigrator: ControlFlowMigrator;
+  private scopes = new WeakMap<AnalyzedFile[], StandaloneScope>();
+
+  constructor() {
+    this.logger = new Logger();
+    this.templateParser = new TemplateParser();
+    this.controlFlowMigrator = new ControlFlowMigrator();
+  }
+
+  /**
+   * Retourne le déclarable (composant, directive, pipe) correspondant à une classe
+   */
+  getDeclarable(files: AnalyzedFile[], name: string): DeclarableInfo | undefined {
+    return this.getScope(files).declarables.get(name);
+  }
+
+  /**
+   * Retourne un NgModule du projet
+   */
+  getModule(files: AnalyzedFile[], name: string): NgModuleInfo | undefined {
+    return this.getScope(files).modules.get(name);
+  }
+
+  /**
+   * Indique si un déclarable est converti en standalone (les composants amorcés par `bootstrap` restent déclarés)
+   */
+  isConvertible(files: AnalyzedFile[], name: string): boolean {
+    return this.getScope(files).convertible.has(name);
+  }
+
+  /**
+   * Indique si un NgModule est supprimé (plus de déclarations, de fournisseurs ni de bootstrap)
+   */
+  isRemovedModule(files: AnalyzedFile[], name: string): boolean {
+    return this.getScope(files).removedModules.has(name);
+  }
+
+  /**
+   * Résout les imports standalone d'un composant pour le fichier `fromFile`
+   */
+  resolveImports(files: AnalyzedFile[], componentName: string, fromFile: string): StandaloneImportsResolution {
+    const scope = this.getScope(files);
+    const resolution: StandaloneImportsResolution = { imports: [], unresolved: [], conservativeImports: [] };
+    const template = scope.templates.get(componentName);
+    if (template === undefined) return resolution;
+
+    const usage = this.collectTemplateUsage(template);
+    const declaringModule = Array.from(scope.modules.values()).find(module => module.declarations.includes(componentName));
+    const visible = this.collectModuleScope(scope, declaringModule);
+    const matchedElements = new Set<string>();
+    const matchedPipes = new Set<string>();
+    const added = new Set<string>();
+
+    const add = (name: string, moduleSpecifier: string) => {
+      if (added.has(name)) return;
+      added.add(name);
+      resolution.imports.push({ name, moduleSpecifier });
+    };
+
+    for (const declarable of LIBRARY_DECLARABLES) {
+      if (!visible.libraries.has(declarable.ngModule)) continue;
+      if (this.matchesUsage(declarable.selector, declarable.pipeName, usage, matchedElements, matchedPipes)) {
+        add(declarable.symbol, declarable.from);
+      }
+    }
+
+    Array.from(visible.declarables)
+      .filter(name => name !== componentName)
+      .sort()
+      .forEach(name => {
+        const declarable = scope.declarables.get(name)!;
+        if (this.matchesUsage(declarable.selector, declarable.pipeName, usage, matchedElements, matchedPipes)) {
+          add(name, this.getRelativeSpecifier(fromFile, declarable.filePath));
+        }
+      });
+
+    resolution.unresolved = [
+      ...Array.from(usage.elements.keys())
+        .filter(name => name.includes('-') && !name.startsWith('ng-') && !matchedElements.has(name))
+        .map(name => `<${name}>`),
+      ...Array.from(usage.pipes).filter(name => !matchedPipes.has(name)).map(name => `| ${name}`)
+    ];
+
+    // Le contenu des modules tiers est inconnu : ils sont conservés si le template utilise autre chose
+    if (resolution.unresolved.length > 0) {
+      for (const [name, filePath] of visible.external) {
+        const specifier = this.findImportSpecifier(files, filePath, name);
+        if (!specifier) continue;
+        add(name, specifier.startsWith('.')
+          ? this.getRelativeSpecifier(fromFile, path.posix.join(path.posix.dirname(this.normalize(filePath)), specifier))
+          : specifier);
+        resolution.conservativeImports.push(name);
+      }
+    }
+
+    return resolution;
+  }
+
+  /**
+   * Construit (une seule fois par projet) l'index des NgModules, déclarables et templates
+   */
+  private getScope(files: AnalyzedFile[]): StandaloneScope {
+    const cached = this.scopes.get(files);
+    if (cached) return cached;
+
+    const scope: StandaloneScope = {
+      declarables: new Map(),
+      modules: new Map(),
+      convertible: new Set(),
+      removedModules: new Set(),
+      templates: new Map()
+    };
+
+    for (const file of files) {
+      if (!AstUtils.isTypeScriptFile(file.path) || !/@(Component|Directive|Pipe|NgModule)\b/.test(file.content)) continue;
+
+      try {
+        this.indexFile(file, files, scope);
+      } catch (error) {
+        this.logger.warn(`Analyse standalone impossible pour ${file.path}: ${error.message}`);
+      }
+    }
+
+    const bootstrapped = new Set(Array.from(scope.modules.values()).flatMap(module => module.bootstrap));
+    for (const declarable of scope.declarables.values()) {
+      if (!declarable.standalone && !bootstrapped.has(declarable.name)) {
+        scope.convertible.add(declarable.name);
+      }
+    }
+
+    this.collectRemovedModules(files, scope);
+    this.scopes.set(files, scope);
+    return scope;
+  }
+
+  /**
+   * Indexe les déclarables et NgModules d'un fichier
+   */
+  private indexFile(file: AnalyzedFile, files: AnalyzedFile[], scope: StandaloneScope): void {
+    const sourceFile = AstUtils.getSourceFile(file);
+
+    for (const classDeclaration of AstUtils.getClasses(sourceFile)) {
+      const name = classDeclaration.name?.text;
+      if (!name) continue;
+
+      const ngModule = AstUtils.findDecorator(classDeclaration, 'NgModule');
+      if (ngModule) {
+        scope.modules.set(name, this.readNgModule(name, file.path, ngModule, classDeclaration));
+        continue;
+      }
+
+      for (const kind of ['component', 'directive', 'pipe'] as const) {
+        const decorator = AstUtils.findDecorator(classDeclaration, kind.charAt(0).toUpperCase() + kind.slice(1));
+        const metadata = decorator && AstUtils.getDecoratorMetadata(decorator);
+        if (!metadata) continue;
+
+        const standalone = AstUtils.findProperty(metadata, 'standalone');
+        scope.declarables.set(name, {
+          name,
+          kind,
+          filePath: file.path,
+          selector: this.readString(metadata, 'selector'),
+          pipeName: kind === 'pipe' ? this.readString(metadata, 'name') : undefined,
+          standalone: !!standalone && standalone.initializer.kind === ts.SyntaxKind.TrueKeyword
+        });
+
+        if (kind === 'component') {
+          const template = this.readTemplate(file, files, metadata);
+          if (template !== undefined) {
+            scope.templates.set(name, this.controlFlowMigrator.migrate(template));
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Lit les tableaux de métadonnées d'un NgModule
+   */
+  private readNgModule(name: string, filePath: string, decorator: ts.Decorator, classDeclaration: ts.ClassDeclaration): NgModuleInfo {
+    const metadata = AstUtils.getDecoratorMetadata(decorator);
+    const info: NgModuleInfo = {
+      name,
+      filePath,
+      declarations: [],
+      imports: [],
+      exports: [],
+      bootstrap: [],
+      hasProviders: false,
+      hasMembers: classDeclaration.members.length > 0
+    };
+    if (!metadata) return info;
+
+    const readArray = (property: string): ts.Expression[] => {
+      const assignment = AstUtils.findProperty(metadata, property);
+      return assignment && ts.isArrayLiteralExpression(assignment.initializer) ? this.flattenArray(assignment.initializer) : [];
+    };
+    const names = (elements: ts.Expression[]) => elements.filter(ts.isIdentifier).map(element => element.text);
+
+    info.declarations = names(readArray('declarations'));
+    info.exports = names(readArray('exports'));
+    info.bootstrap = names(readArray('bootstrap'));
+
+    for (const element of readArray('imports')) {
+      if (ts.isIdentifier(element)) {
+        info.imports.push(element.text);
+      } else if (ts.isCallExpression(element) && ts.isPropertyAccessExpression(element.expression) && ts.isIdentifier(element.expression.expression)) {
+        // RouterModule.forRoot(routes) : le module est importé avec ses fournisseurs
+        info.imports.push(element.expression.expression.text);
+        info.hasProviders = true;
+      } else {
+        info.hasProviders = true;
+      }
+    }
+
+    const providers = AstUtils.findProperty(metadata, 'providers');
+    if (providers && (!ts.isArrayLiteralExpression(providers.initializer) || providers.initializer.elements.length > 0)) {
+      info.hasProviders = true;
+    }
+
+    return info;
+  }
+
+  /**
+   * Aplatit les tableaux imbriqués et les tableaux de constantes (`[...COMPONENTS]`) d'un tableau littéral
+   */
+  private flattenArray(array: ts.ArrayLiteralExpression): ts.Expression[] {
+    return array.elements.flatMap(element => {
+      if (ts.isArrayLiteralExpression(element)) return this.flattenArray(element);
+      if (ts.isSpreadElement(element) && ts.isArrayLiteralExpression(element.expression)) return this.flattenArray(element.expression);
+      return [element];
+    });
+  }
+
+  /**
+   * Recense les NgModules vides une fois les déclarables convertis
+   * Un module est conservé s'il a des fournisseurs, un bootstrap, un corps, des déclarations restantes,
+   * s'il importe un module non vide du projet ou un module tiers (fournisseurs possibles) ou s'il est chargé en lazy
+   */
+  private collectRemovedModules(files: AnalyzedFile[], scope: StandaloneScope): void {
+    const libraryModules = new Set([...LIBRARY_DECLARABLES.map(declarable => declarable.ngModule), ...Object.keys(LIBRARY_MODULE_ALIASES)]);
+    const lazyLoaded = this.collectLazyLoadedReferences(files);
+
+    const candidates = new Set(Array.from(scope.modules.values())
+      .filter(module => !module.hasProviders && !module.hasMembers && module.bootstrap.length === 0)
+      .filter(module => module.declarations.every(name => scope.convertible.has(name)))
+      .filter(module => !lazyLoaded.some(reference => reference.includes(module.name)))
+      .map(module => module.name));
+
+    // Point fixe : un module qui importe ou réexporte un module conservé est conservé
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const name of Array.from(candidates)) {
+        const module = scope.modules.get(name)!;
+        const keeps = [...module.imports, ...module.exports].some(reference =>
+          scope.modules.has(reference)
+            ? !candidates.has(reference)
+            : !scope.declarables.has(reference) && !libraryModules.has(reference)
+        );
+        if (keeps) {
+          candidates.delete(name);
+          changed = true;
+        }
+      }
+    }
+
+    scope.removedModules = candidates;
+  }
+
+  /**
+   * Retourne le texte des propriétés `loadChildren` du projet
+   */
+  private collectLazyLoadedReferences(files: AnalyzedFile[]): string[] {
+    const references: string[] = [];
+    for (const file of files) {
+      if (!AstUtils.isTypeScriptFile(file.path) || !file.content.includes('loadChildren')) continue;
+
+      const sourceFile = AstUtils.getSourceFile(file);
+      AstUtils.walk(sourceFile, node => {
+        if (ts.isPropertyAssignment(node) && AstUtils.getPropertyName(node.name) === 'loadChildren') {
+          references.push(node.initializer.getText(sourceFile));
+        }
+      });
+    }
+    return references;
+  }
+
+  /**
+   * Calcule ce qu'un NgModule rend visible à ses déclarations (déclarations et exports des modules importés)
+   */
+  private collectModuleScope(scope: StandaloneScope, module: NgModuleInfo | undefined): {
+    declarables: Set<string>;
+    libraries: Set<string>;
+    external: Map<string, string>;
+  } {
+    const visible = { declarables: new Set<string>(), libraries: new Set<string>(['CommonModule']), external: new Map<string, string>() };
+    const libraryModules = new Set(LIBRARY_DECLARABLES.map(declarable => declarable.ngModule));
+
+    // Composant déclaré hors de tout NgModule : tous les modules Angular connus sont considérés
+    if (!module) {
+      libraryModules.forEach(name => visible.libraries.add(name));
+      return visible;
+    }
+
+    const visited = new Set<string>();
+    const addReference = (name: string, contextFile: string) => {
+      const libraryName = LIBRARY_MODULE_ALIASES[name] || name;
+      if (libraryModules.has(libraryName)) {
+        visible.libraries.add(libraryName);
+      } else if (scope.declarables.has(name)) {
+        visible.declarables.add(name);
+      } else if (scope.modules.has(name)) {
+        addExports(scope.modules.get(name)!);
+      } else {
+        visible.external.set(name, contextFile);
+      }
+    };
+    const addExports = (exporting: NgModuleInfo) => {
+      if (visited.has(exporting.name)) return;
+      visited.add(exporting.name);
+      exporting.exports.forEach(name => addReference(name, exporting.filePath));
+    };
+
+    module.declarations.forEach(name => visible.declarables.add(name));
+    module.imports.forEach(name => addReference(name, module.filePath));
+    return visible;
+  }
+
+  /**
+   * Indique si un sélecteur ou un nom de pipe correspond à l'usage du template (et mémorise ce qui est résolu)
+   */
+  private matchesUsage(
+    selector: string | undefined,
+    pipeName: string | undefined,
+    usage: TemplateUsage,
+    matchedElements: Set<string>,
+    matchedPipes: Set<string>
+  ): boolean {
+    if (pipeName) {
+      if (!usage.pipes.has(pipeName)) return false;
+      matchedPipes.add(pipeName);
+      return true;
+    }
+    if (!selector) return false;
+
+    let matches = false;
+    for (const [elementName, attributeSets] of usage.elements) {
+      for (const attributes of attributeSets) {
+        const element = this.matchSelector(selector, elementName, attributes);
+        if (element === undefined) continue;
+        matches = true;
+        if (element) matchedElements.add(elementName);
+      }
+    }
+    return matches;
+  }
+
+  /**
+   * Compare un sélecteur CSS Angular à un élément
+   * Retourne `true` si le sélecteur cible la balise, `false` s'il correspond par attributs, `undefined` sinon
+   */
+  private matchSelector(selector: string, elementName: string, attributes: Map<string, string | undefined>): boolean | undefined {
+    for (const part of this.splitSelector(selector)) {
+      const negations: string[] = [];
+      const positive = part.replace(/:not\(([^)]*)\)/g, (_, inner: string) => {
+        negations.push(inner);
+        return '';
+      });
+
+      const compound = this.parseCompoundSelector(positive);
+      if (!compound || !this.matchesCompound(compound, elementName, attributes)) continue;
+
+      const excluded = negations.some(inner => {
+        const negated = this.parseCompoundSelector(inner);
+        return !!negated && this.matchesCompound(negated, elementName, attributes);
+      });
+      if (!excluded) return !!compound.element;
+    }
+    return undefined;
+  }
+
+  /**
+   * Découpe une liste de sélecteurs (`a, [b]`) en ignorant les virgules entre parenthèses
+   */
+  private splitSelector(selector: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const char of selector) {
+      if (char === '(') depth++;
+      if (char === ')') depth--;
+      if (char === ',' && depth === 0) {
+        parts.push(current.trim());
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    parts.push(current.trim());
+    return parts.filter(part => part.length > 0);
+  }
+
+  /**
+   * Parse un sélecteur composé (`input[type=text][appMask]`) ; les sélecteurs de classe ne sont pas pris en charge
+   */
+  private parseCompoundSelector(selector: string): { element?: string; attributes: Array<{ name: string; value?: string }> } | undefined {
+    const match = /^([\w-]*)((?:\[[^\]]+\])*)$/.exec(selector.trim());
+    if (!match || (!match[1] && !match[2])) return undefined;
+
+    const attributes = Array.from(match[2].matchAll(/\[([^\]=]+)(?:=["']?([^\]"']*)["']?)?\]/g))
+      .map(([, name, value]) => ({ name: name.trim(), value }));
+    return { element: match[1] || undefined, attributes };
+  }
+
+  /**
+   * Indique si un élément vérifie un sélecteur composé
+   */
+  private matchesCompound(
+    compound: { element?: string; attributes: Array<{ name: string; value?: string }> },
+    elementName: string,
+    attributes: Map<string, string | undefined>
+  ): boolean {
+    if (compound.element && compound.element.toLowerCase() !== elementName) return false;
+    return compound.attributes.every(attribute => attributes.has(attribute.name)
+      && (attribute.value === undefined || attributes.get(attribute.name) === attribute.value));
+  }
+
+  /**
+   * Recense les éléments (avec leurs attributs normalisés) et les pipes utilisés par un template
+   */
+  private collectTemplateUsage(template: string): TemplateUsage {
+    const usage: TemplateUsage = { elements: new Map(), pipes: new Set() };
+    const document = this.templateParser.parse(template);
+    const addPipes = (expression: string) => {
+      for (const [, name] of expression.matchAll(/(?<!\|)\|(?!\|)\s*([A-Za-z_$][\w$]*)/g)) {
+        usage.pipes.add(name);
+      }
+    };
+
+    TemplateParser.walk(document.children, node => {
+      if (node.kind === 'text') {
+        this.extractExpressions(node.value).forEach(addPipes);
+        return;
+      }
+      if (node.kind !== 'element') return;
+
+      const elementName = node.name.toLowerCase();
+      const attributeSets = usage.elements.get(elementName) || [];
+      attributeSets.push(this.normalizeAttributes(node));
+      usage.elements.set(elementName, attributeSets);
+
+      for (const attribute of node.attributes) {
+        if (attribute.value === undefined) continue;
+        if (/^(\[|\*|bind-|bindon-)/.test(attribute.name)) {
+          addPipes(attribute.value);
+        } else {
+          this.extractExpressions(attribute.value).forEach(addPipes);
+        }
+      }
+    });
+
+    return usage;
+  }
+
+  /**
+   * Retourne les noms d'attributs tels que les voient les sélecteurs (`*ngFor="let x of xs"` → ngFor, ngForOf)
+   */
+  private normalizeAttributes(element: TemplateElement): Map<string, string | undefined> {
+    const attributes = new Map<string, string | undefined>();
+
+    for (const attribute of element.attributes) {
+      let name = attribute.name;
+      if (/^(#|ref-|let-|@|\[(attr|class|style)\.)/.test(name) || name.startsWith('i18n')) continue;
+
+      if (name.startsWith('*')) {
+        const directive = name.slice(1);
+        attributes.set(directive, undefined);
+        this.getMicrosyntaxKeys(attribute.value || '').forEach(key =>
+          attributes.set(directive + key.charAt(0).toUpperCase() + key.slice(1), undefined)
+        );
+        continue;
+      }
+
+      const isBinding = /^[[(]/.test(name);
+      name = name.replace(/^\[\(|\)\]$|^\[|\]$|^\(|\)$/g, '');
+      const prefix = BINDING_PREFIXES.find(candidate => name.startsWith(candidate));
+      if (prefix) name = name.slice(prefix.length);
+
+      attributes.set(name, isBinding || prefix ? undefined : attribute.value);
+    }
+
+    return attributes;
+  }
+
+  /**
+   * Retourne les clés d'une micro-syntaxe structurelle (`let item of items; trackBy: id` → of, trackBy)
+   */
+  private getMicrosyntaxKeys(value: string): string[] {
+    const keys: string[] = [];
+    value.split(/[;,]/).forEach((segment, index) => {
+      const trimmed = segment.trim();
+      const letMatch = /^let\s+\w+\s+(of|in)\b/.exec(trimmed);
+      if (letMatch) {
+        keys.push(letMatch[1]);
+      } else if (index > 0) {
+        const keyMatch = /^(\w+)\s*:?\s*\S/.exec(trimmed);
+        if (keyMatch && keyMatch[1] !== 'let' && keyMatch[1] !== 'as') keys.push(keyMatch[1]);
+      }
+    });
+    return keys;
+  }
+
+  /**
+   * Extrait les expressions d'un texte : interpolations et paramètres des blocs de contrôle de flux
+   */
+  private extractExpressions(text: string): string[] {
+    const expressions = Array.from(text.matchAll(/\{\{([\s\S]*?)\}\}/g)).map(([, expression]) => expression);
+
+    for (const match of text.matchAll(/@(?:if|else if|for|switch|case|defer)\s*\(/g)) {
+      let depth = 1;
+      let position = match.index! + match[0].length;
+      const start = position;
+      while (position < text.length && depth > 0) {
+        if (text[position] === '(') depth++;
+        if (text[position] === ')') depth--;
+        position++;
+      }
+      expressions.push(text.slice(start, position - 1));
+    }
+
+    return expressions;
+  }
+
+  /**
+   * Lit le template d'un composant (inline ou fichier `templateUrl` du projet)
+   */
+  private readTemplate(file: AnalyzedFile, files: AnalyzedFile[], metadata: ts.ObjectLiteralExpression): string | undefined {
+    const inline = this.readString(metadata, 'template');
+    if (inline !== undefined) return inline;
+
+    const templateUrl = this.readString(metadata, 'templateUrl');
+    if (!templateUrl) return undefined;
+
+    const templatePath = this.normalize(path.posix.join(path.posix.dirname(this.normalize(file.path)), templateUrl));
+    const templateFile = files.find(candidate => this.normalize(candidate.path) === templatePath);
+    if (!templateFile) {
+      this.logger.warn(`Template ${templateUrl} introuvable pour ${file.path}`);
+    }
+    return templateFile?.content;
+  }
+
+  /**
+   * Lit une propriété chaîne d'un objet littéral
+   */
+  private readString(objectLiteral: ts.ObjectLiteralExpression, name: string): string | undefined {
+    const property = AstUtils.findProperty(objectLiteral, name);
+    return property && (ts.isStringLiteral(property.initializer) || ts.isNoSubstitutionTemplateLiteral(property.initializer))
+      ? property.initializer.text
+      : undefined;
+  }
+
+  /**
+   * Retourne le module d'où un fichier importe un symbole
+   */
+  private findImportSpecifier(files: AnalyzedFile[], filePath: string, name: string): string | undefined {
+    const file = files.find(candidate => candidate.path === filePath);
+    if (!file) return undefined;
+
+    for (const declaration of AstUtils.getImports(AstUtils.getSourceFile(file))) {
+      const bindings = declaration.importClause?.namedBindings;
+      if (bindings && ts.isNamedImports(bindings) && bindings.elements.some(element => element.name.text === name)) {
+        return AstUtils.getModuleSpecifier(declaration);
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Calcule le chemin d'import relatif d'un fichier TypeScript du projet
+   */
+  private getRelativeSpecifier(fromFile: string, targetFile: string): string {
+    const relative = path.posix.relative(path.posix.dirname(this.normalize(fromFile)), this.normalize(targetFile)).replace(/\.ts$/, '');
+    return relative.startsWith('.') ? relative : `./${relative}`;
+  }
+
+  /**
+   * Normalise un chemin relatif au projet (séparateurs POSIX)
+   */
+  private normalize(filePath: string): string {
+    return path.posix.normalize(filePath.split(path.sep).join('/')).replace(/^\.\//, '');
+  }
+}
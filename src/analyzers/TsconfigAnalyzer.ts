@@ -0,0 +1,339 @@
+import * as path from 'path';
+import * as ts from 'typescript';
+import { AngularProject, AnalyzedFile, MigrationIssue, IssueType, IssueSeverity } from '../types';
+import { TsconfigUtils, TsconfigChainEntry } from '../utils/TsconfigUtils';
+import { Logger } from '../utils/Logger';
+
+/**
+ * Options strictes activées par `ng new` depuis Angular 12
+ */
+export const STRICT_COMPILER_FLAGS = [
+  'noImplicitAny',
+  'strictNullChecks',
+  'strictFunctionTypes',
+  'strictBindCallApply',
+  'strictPropertyInitialization',
+  'noImplicitThis',
+  'useUnknownInCatchVariables',
+  'noImplicitReturns',
+  'noFallthroughCasesInSwitch',
+  'noImplicitOverride',
+  'noPropertyAccessFromIndexSignature'
+];
+
+/**
+ * Options strictes couvertes par `strict: true`
+ */
+const STRICT_FAMILY = new Set([
+  'noImplicitAny',
+  'strictNullChecks',
+  'strictFunctionTypes',
+  'strictBindCallApply',
+  'strictPropertyInitialization',
+  'noImplicitThis',
+  'useUnknownInCatchVariables'
+]);
+
+/**
+ * Options strictes sans effet si une autre option n'est pas active
+ */
+const STRICT_FLAG_DEPENDENCIES: Record<string, string[]> = {
+  strictPropertyInitialization: ['strictNullChecks']
+};
+
+/**
+ * Options du compilateur Angular ajoutées à la racine de la chaîne
+ */
+export const ANGULAR_COMPILER_OPTIONS: Record<string, any> = {
+  strictTemplates: true,
+  strictInjectionParameters: true
+};
+
+/**
+ * Options du compilateur Angular supprimées et version de suppression
+ */
+export const REMOVED_ANGULAR_COMPILER_OPTIONS: Record<string, number> = {
+  enableIvy: 12,
+  fullTemplateTypeCheck: 13
+};
+
+/**
+ * Version à partir de laquelle les options de templates stricts existent (Ivy)
+ */
+export const STRICT_TEMPLATES_MIN_VERSION = 9;
+
+/**
+ * Analyseur des fichiers tsconfig
+ * Compare les options à celles de la version cible, suit les chaînes `extends`
+ * et mesure les erreurs que produirait chaque option stricte
+ */
+export class TsconfigAnalyzer {
+  private logger: Logger;
+
+  constructor() {
+    this.logger = new Logger();
+  }
+
+  /**
+   * Analyse un fichier tsconfig du projet
+   * `checkStrictFlags` active la mesure des options strictes, qui compile le projet une fois par option inactive
+   */
+  analyze(file: AnalyzedFile, project?: AngularProject, targetMajor: number = 20, checkStrictFlags: boolean = false): MigrationIssue[] {
+    const issues: MigrationIssue[] = [];
+
+    try {
+      const files = project?.files || [file];
+      const chain = TsconfigUtils.resolveChain(file, files);
+      const config = chain[0].config;
+      const baseline = TsconfigUtils.getBaseline(targetMajor);
+      const isRoot = TsconfigUtils.isChainRoot(chain);
+
+      issues.push(...this.analyzeExtends(file, chain));
+
+      // Seules les options déclarées dans ce fichier sont signalées ; la racine porte les valeurs par défaut
+      const ownOptions = config.compilerOptions || {};
+      const effectiveOptions = TsconfigUtils.mergeCompilerOptions(chain);
+      const checkedOptions = isRoot ? effectiveOptions : ownOptions;
+
+      if (TsconfigUtils.isTargetOutdated(checkedOptions.target, baseline.target) || (isRoot && !checkedOptions.target)) {
+        issues.push(this.createOptionIssue(file, 'target', checkedOptions.target, baseline.target, targetMajor));
+      }
+      if (TsconfigUtils.isModuleOutdated(checkedOptions.module, baseline.module) || (isRoot && !checkedOptions.module)) {
+        issues.push(this.createOptionIssue(file, 'module', checkedOptions.module, baseline.module, targetMajor));
+      }
+      if (TsconfigUtils.isModuleResolutionOutdated(checkedOptions.moduleResolution, baseline.moduleResolution)) {
+        issues.push(this.createOptionIssue(file, 'moduleResolution', checkedOptions.moduleResolution, baseline.moduleResolution, targetMajor));
+      }
+      if (Array.isArray(checkedOptions.lib)) {
+        const updatedLib = TsconfigUtils.updateLib(checkedOptions.lib, baseline.lib);
+        if (updatedLib.join() !== checkedOptions.lib.join()) {
+          issues.push(this.createOptionIssue(file, 'lib', JSON.stringify(checkedOptions.lib), JSON.stringify(updatedLib), targetMajor));
+        }
+      }
+
+      issues.push(...this.analyzeAngularCompilerOptions(file, chain, isRoot, targetMajor));
+
+      // Le diagnostic des options strictes porte sur le tsconfig racine du workspace
+      if (checkStrictFlags && project && path.basename(file.path) === 'tsconfig.json' && path.dirname(file.path) === '.') {
+        issues.push(...this.analyzeStrictFlags(project, effectiveOptions));
+      }
+    } catch (error) {
+      this.logger.warn(`Erreur lors de l'analyse de ${file.path}: ${error.message}`);
+      issues.push({
+        type: IssueType.TYPESCRIPT_CONFIGURATION,
+        severity: IssueSeverity.ERROR,
+        message: `Erreur lors de l'analyse de ${file.path}`,
+        suggestion: 'Vérifiez la syntaxe du fichier'
+      });
+    }
+
+    return issues;
+  }
+
+  /**
+   * Signale les `extends` qui ne pointent vers aucun fichier du projet
+   */
+  private analyzeExtends(file: AnalyzedFile, chain: TsconfigChainEntry[]): MigrationIssue[] {
+    const missing = chain.find(entry => !entry.file && entry.reference.startsWith('.'));
+    if (!missing) {
+      return [];
+    }
+
+    return [{
+      type: IssueType.TYPESCRIPT_CONFIGURATION,
+      severity: IssueSeverity.ERROR,
+      message: `Configuration étendue introuvable : ${missing.reference}`,
+      line: this.findLine(file.content, '"extends"'),
+      suggestion: 'Corriger le chemin de "extends" avant la migration',
+      code: `"extends": "${missing.reference}"`
+    }];
+  }
+
+  /**
+   * Vérifie les options du compilateur Angular (templates stricts, options supprimées)
+   */
+  private analyzeAngularCompilerOptions(file: AnalyzedFile, chain: TsconfigChainEntry[], isRoot: boolean, targetMajor: number): MigrationIssue[] {
+    const issues: MigrationIssue[] = [];
+    const ownOptions = chain[0].config.angularCompilerOptions || {};
+
+    for (const [option, removedIn] of Object.entries(REMOVED_ANGULAR_COMPILER_OPTIONS)) {
+      if (option in ownOptions && targetMajor >= removedIn) {
+        issues.push({
+          type: IssueType.TYPESCRIPT_CONFIGURATION,
+          severity: IssueSeverity.WARNING,
+          message: `Option angularCompilerOptions.${option} obsolète depuis Angular ${removedIn}`,
+          line: this.findLine(file.content, `"${option}"`),
+          suggestion: option === 'fullTemplateTypeCheck' ? 'Remplacer par strictTemplates' : `Supprimer ${option}`,
+          code: `"${option}": ${JSON.stringify(ownOptions[option])}`
+        });
+      }
+    }
+
+    if (isRoot && targetMajor >= STRICT_TEMPLATES_MIN_VERSION) {
+      const effective = chain
+        .slice()
+        .reverse()
+        .reduce((options, entry) => ({ ...options, ...(entry.config.angularCompilerOptions || {}) }), {} as Record<string, any>);
+      const missing = Object.keys(ANGULAR_COMPILER_OPTIONS).filter(option => effective[option] === undefined);
+
+      if (missing.length > 0) {
+        issues.push({
+          type: IssueType.TYPESCRIPT_CONFIGURATION,
+          severity: IssueSeverity.SUGGESTION,
+          message: `angularCompilerOptions incomplet : ${missing.join(', ')} non défini(s)`,
+          suggestion: 'Activer la vérification stricte des templates et des paramètres injectés'
+        });
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Compile le projet avec chaque option stricte inactive et compte les nouvelles erreurs
+   */
+  private analyzeStrictFlags(project: AngularProject, currentOptions: Record<string, any>): MigrationIssue[] {
+    const issues: MigrationIssue[] = [];
+    const disabledFlags = STRICT_COMPILER_FLAGS.filter(flag => !this.isFlagEnabled(flag, currentOptions));
+    if (disabledFlags.length === 0) {
+      return issues;
+    }
+
+    const rootNames = project.files
+      .filter(file => file.path.endsWith('.ts'))
+      .map(file => path.resolve(project.path, file.path));
+    if (rootNames.length === 0) {
+      return issues;
+    }
+
+    const { options: baseOptions } = ts.convertCompilerOptionsFromJson(currentOptions, project.path);
+    const compilerOptions: ts.CompilerOptions = {
+      ...baseOptions,
+      noEmit: true,
+      skipLibCheck: true,
+      experimentalDecorators: true
+    };
+
+    const host = this.createCompilerHost(project, compilerOptions);
+    const baselineProgram = ts.createProgram(rootNames, compilerOptions, host);
+    const baselineKeys = new Set(this.getDiagnostics(baselineProgram).map(diagnostic => this.getDiagnosticKey(diagnostic)));
+    let previousProgram = baselineProgram;
+
+    for (const flag of disabledFlags) {
+      // Les erreurs dues aux options prérequises ne sont pas imputées à l'option testée
+      const dependencies = (STRICT_FLAG_DEPENDENCIES[flag] || []).filter(dependency => !this.isFlagEnabled(dependency, currentOptions));
+      const dependencyOptions = Object.fromEntries(dependencies.map(dependency => [dependency, true]));
+      let referenceKeys = baselineKeys;
+
+      if (dependencies.length > 0) {
+        previousProgram = ts.createProgram(rootNames, { ...compilerOptions, ...dependencyOptions }, host, previousProgram);
+        referenceKeys = new Set(this.getDiagnostics(previousProgram).map(diagnostic => this.getDiagnosticKey(diagnostic)));
+      }
+
+      const program = ts.createProgram(rootNames, { ...compilerOptions, ...dependencyOptions, [flag]: true }, host, previousProgram);
+      previousProgram = program;
+
+      const newDiagnostics = this.getDiagnostics(program)
+        .filter(diagnostic => !referenceKeys.has(this.getDiagnosticKey(diagnostic)));
+
+      if (newDiagnostics.length === 0) {
+        issues.push({
+          type: IssueType.TYPESCRIPT_CONFIGURATION,
+          severity: IssueSeverity.SUGGESTION,
+          message: `L'option stricte ${flag} peut être activée sans erreur`,
+          suggestion: `Ajouter "${flag}": true dans compilerOptions`
+        });
+        continue;
+      }
+
+      const [first] = newDiagnostics;
+      const location = first.file
+        ? `${path.relative(project.path, first.file.fileName)}:${first.file.getLineAndCharacterOfPosition(first.start || 0).line + 1}`
+        : '';
+
+      issues.push({
+        type: IssueType.TYPESCRIPT_CONFIGURATION,
+        severity: IssueSeverity.WARNING,
+        message: `L'option stricte ${flag} produirait ${newDiagnostics.length} erreur(s) (première : ${location})`,
+        suggestion: `Corriger ces erreurs avant d'activer ${flag}`,
+        code: ts.flattenDiagnosticMessageText(first.messageText, '\n')
+      });
+    }
+
+    return issues;
+  }
+
+  /**
+   * Crée un hôte de compilation qui lit les fichiers du projet depuis la mémoire
+   */
+  private createCompilerHost(project: AngularProject, options: ts.CompilerOptions): ts.CompilerHost {
+    const host = ts.createCompilerHost(options, true);
+    const contents = new Map(project.files.map(file => [path.resolve(project.path, file.path), file.content]));
+    const sourceFiles = new Map<string, ts.SourceFile>();
+    const getSourceFile = host.getSourceFile;
+
+    host.fileExists = fileName => contents.has(fileName) || ts.sys.fileExists(fileName);
+    host.readFile = fileName => contents.get(fileName) ?? ts.sys.readFile(fileName);
+    host.getSourceFile = (fileName, languageVersion, onError, shouldCreate) => {
+      let sourceFile = sourceFiles.get(fileName);
+      if (!sourceFile) {
+        const content = contents.get(fileName);
+        sourceFile = content !== undefined
+          ? ts.createSourceFile(fileName, content, languageVersion, true)
+          : getSourceFile.call(host, fileName, languageVersion, onError, shouldCreate);
+        if (sourceFile) sourceFiles.set(fileName, sourceFile);
+      }
+      return sourceFile;
+    };
+
+    return host;
+  }
+
+  /**
+   * Retourne les diagnostics sémantiques des fichiers du projet
+   */
+  private getDiagnostics(program: ts.Program): ts.Diagnostic[] {
+    return program.getSourceFiles()
+      .filter(sourceFile => !sourceFile.isDeclarationFile && !program.isSourceFileFromExternalLibrary(sourceFile))
+      .flatMap(sourceFile => [...program.getSemanticDiagnostics(sourceFile)]);
+  }
+
+  /**
+   * Identifie un diagnostic indépendamment du programme qui l'a produit
+   */
+  private getDiagnosticKey(diagnostic: ts.Diagnostic): string {
+    return `${diagnostic.file?.fileName}:${diagnostic.start}:${diagnostic.code}`;
+  }
+
+  /**
+   * Indique si une option stricte est déjà active (directement ou via `strict`)
+   */
+  private isFlagEnabled(flag: string, options: Record<string, any>): boolean {
+    if (options[flag] !== undefined) {
+      return options[flag] === true;
+    }
+    return STRICT_FAMILY.has(flag) && options.strict === true;
+  }
+
+  /**
+   * Crée une issue pour une option de compilation à mettre à jour
+   */
+  private createOptionIssue(file: AnalyzedFile, option: string, current: string | undefined, expected: string, targetMajor: number): MigrationIssue {
+    return {
+      type: IssueType.TYPESCRIPT_CONFIGURATION,
+      severity: IssueSeverity.WARNING,
+      message: `compilerOptions.${option} (${current ?? 'non défini'}) à mettre à jour pour Angular ${targetMajor}`,
+      line: this.findLine(file.content, `"${option}"`),
+      suggestion: `Utiliser "${option}": ${expected.startsWith('[') ? expected : `"${expected}"`}`,
+      code: current !== undefined ? `"${option}": ${current.startsWith('[') ? current : `"${current}"`}` : undefined
+    };
+  }
+
+  /**
+   * Retourne la ligne de la première occurrence d'un texte
+   */
+  private findLine(content: string, text: string): number | undefined {
+    const index = content.indexOf(text);
+    return index === -1 ? undefined : content.substring(0, index).split('\n').length;
+  }
+}
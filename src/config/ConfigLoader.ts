@@ -0,0 +1,311 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { createRequire } from 'module';
+import { MigrationMode, MigrationOptions, MigrationProjectConfig } from '../types';
+import { Logger } from '../utils/Logger';
+
+/**
+ * Fichiers de configuration recherchés à la racine du projet, par ordre de priorité
+ */
+export const CONFIG_FILE_NAMES = [
+  'migration.config.json',
+  'migration.config.ts',
+  'migration.config.yaml',
+  'migration.config.yml'
+];
+
+/**
+ * Valeurs par défaut, appliquées lorsque ni la configuration ni la ligne de commande ne les fixent
+ */
+const DEFAULT_OPTIONS: MigrationOptions = {
+  mode: MigrationMode.ANALYZE,
+  backup: true,
+  autoApply: false,
+  exclude: [],
+  include: [],
+  verbose: false,
+  generateReport: true,
+  interactive: false
+};
+
+/**
+ * Schéma (sous-ensemble de JSON Schema) d'une valeur de configuration
+ */
+type SchemaNode =
+  | { type: 'string'; enum?: string[] }
+  | { type: 'boolean' | 'number' }
+  | { type: 'array'; items: SchemaNode }
+  | { type: 'object'; properties?: Record<string, SchemaNode>; required?: string[] }
+  | { anyOf: SchemaNode[] };
+
+const STRING_ARRAY: SchemaNode = { type: 'array', items: { type: 'string' } };
+
+/**
+ * Schéma de `migration.config.*`: les propriétés inconnues sont refusées
+ */
+export const CONFIG_SCHEMA: SchemaNode = {
+  type: 'object',
+  properties: {
+    mode: { type: 'string', enum: ['analyze', 'migrate', 'dry-run'] },
+    targetVersion: { anyOf: [{ type: 'string' }, { type: 'number' }] },
+    autoApply: { type: 'boolean' },
+    interactive: { type: 'boolean' },
+    include: STRING_ARRAY,
+    exclude: STRING_ARRAY,
+    verbose: { type: 'boolean' },
+    plugins: {
+      type: 'array',
+      items: {
+        anyOf: [
+          { type: 'string' },
+          { type: 'object', properties: { module: { type: 'string' }, options: { type: 'object' } }, required: ['module'] }
+        ]
+      }
+    },
+    cache: { type: 'boolean' },
+    concurrency: { type: 'number' },
+    typeCheck: { type: 'boolean' },
+    idempotencyCheck: { type: 'boolean' },
+    strictFlagsCheck: { type: 'boolean' },
+    phases: STRING_ARRAY,
+    validation: {
+      type: 'object',
+      properties: {
+        enabled: { type: 'boolean' },
+        build: { type: 'boolean' },
+        tests: { type: 'boolean' },
+        linting: { type: 'boolean' },
+        performance: { type: 'boolean' },
+        thresholds: {
+          type: 'object',
+          properties: {
+            buildTime: { type: 'number' },
+            bundleSize: { type: 'number' },
+            runtimePerformance: { type: 'number' }
+          }
+        }
+      }
+    },
+    rollback: {
+      type: 'object',
+      properties: {
+        automatic: { type: 'boolean' },
+        backup: { type: 'boolean' },
+        retention: { type: 'string' }
+      }
+    },
+    reporting: {
+      type: 'object',
+      properties: {
+        enabled: { type: 'boolean' },
+        formats: { type: 'array', items: { type: 'string', enum: ['html', 'json', 'markdown'] } },
+        outputPath: { type: 'string' }
+      }
+    }
+  }
+};
+
+/**
+ * Configuration chargée et son fichier d'origine
+ */
+export interface LoadedConfig {
+  path: string;
+  config: MigrationProjectConfig;
+}
+
+/**
+ * Chargement de la configuration de migration versionnée avec le projet
+ */
+export class ConfigLoader {
+  private logger: Logger;
+
+  constructor() {
+    this.logger = new Logger();
+  }
+
+  /**
+   * Cherche et charge `migration.config.{json,ts,yaml}` à la racine du projet
+   * Retourne null si le projet n'a pas de fichier de configuration
+   */
+  async load(projectPath: string): Promise<LoadedConfig | null> {
+    for (const fileName of CONFIG_FILE_NAMES) {
+      const configPath = path.join(projectPath, fileName);
+      if (!(await fs.pathExists(configPath))) {
+        continue;
+      }
+
+      let raw: unknown;
+      try {
+        raw = await this.parse(configPath);
+      } catch (error) {
+        throw new Error(`Impossible de lire ${fileName}: ${error.message}`);
+      }
+
+      const config = this.validate(raw, fileName);
+      this.logger.info(`⚙️  Configuration chargée depuis ${fileName}`);
+      return { path: configPath, config };
+    }
+
+    return null;
+  }
+
+  /**
+   * Vérifie une configuration contre le schéma et lève une erreur listant tous les écarts
+   */
+  validate(raw: unknown, source: string = 'configuration'): MigrationProjectConfig {
+    const errors: string[] = [];
+    this.check(raw, CONFIG_SCHEMA, '', errors);
+
+    if (errors.length > 0) {
+      throw new Error(`Configuration invalide (${source}):\n${errors.map(error => `  - ${error}`).join('\n')}`);
+    }
+    return raw as MigrationProjectConfig;
+  }
+
+  /**
+   * Construit les options de migration: ligne de commande, puis configuration, puis valeurs par défaut
+   * `cliOptions` ne doit contenir que les options effectivement passées en ligne de commande
+   */
+  mergeOptions(config: MigrationProjectConfig | null, cliOptions: Partial<MigrationOptions>): MigrationOptions {
+    const fromConfig: Partial<MigrationOptions> = config
+      ? {
+        mode: config.mode ? config.mode.replace('-', '_') as MigrationMode : undefined,
+        targetVersion: config.targetVersion !== undefined ? String(config.targetVersion) : undefined,
+        backup: config.rollback?.backup,
+        autoApply: config.autoApply,
+        exclude: config.exclude,
+        include: config.include,
+        verbose: config.verbose,
+        generateReport: config.reporting?.enabled,
+        interactive: config.interactive,
+        cache: config.cache,
+        concurrency: config.concurrency,
+        typeCheck: config.typeCheck,
+        idempotencyCheck: config.idempotencyCheck,
+        strictFlagsCheck: config.strictFlagsCheck
+      }
+      : {};
+
+    const options: MigrationOptions = Object.assign({ ...DEFAULT_OPTIONS }, this.definedOnly(fromConfig), this.definedOnly(cliOptions));
+
+    // Les plugins s'ajoutent à ceux de la configuration au lieu de les remplacer
+    options.plugins = [...(config?.plugins || []), ...(cliOptions.plugins || [])];
+    options.config = config || undefined;
+    return options;
+  }
+
+  /**
+   * Retire les options non définies, qui ne doivent pas masquer celles d'une source moins prioritaire
+   */
+  private definedOnly(options: Partial<MigrationOptions>): Partial<MigrationOptions> {
+    return Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined));
+  }
+
+  /**
+   * Lit un fichier de configuration selon son extension
+   */
+  private async parse(configPath: string): Promise<unknown> {
+    const source = await fs.readFile(configPath, 'utf-8');
+
+    switch (path.extname(configPath)) {
+      case '.ts':
+        return this.evaluateTypeScript(source, configPath);
+      case '.yaml':
+      case '.yml':
+        return this.loadYaml(source);
+      default:
+        return JSON.parse(source);
+    }
+  }
+
+  /**
+   * Transpile et évalue une configuration TypeScript (`export default {...}` ou `module.exports`)
+   */
+  private evaluateTypeScript(source: string, configPath: string): unknown {
+    const { outputText } = ts.transpileModule(source, {
+      fileName: configPath,
+      compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020, esModuleInterop: true }
+    });
+
+    const module: { exports: any } = { exports: {} };
+    new Function('module', 'exports', 'require', outputText)(module, module.exports, createRequire(configPath));
+    return module.exports?.default ?? module.exports;
+  }
+
+  /**
+   * Lit une configuration YAML (js-yaml est chargé uniquement dans ce cas)
+   */
+  private loadYaml(source: string): unknown {
+    let yaml: { load(content: string): unknown };
+    try {
+      yaml = require('js-yaml');
+    } catch {
+      throw new Error('le paquet js-yaml est requis pour les configurations YAML');
+    }
+    return yaml.load(source);
+  }
+
+  /**
+   * Vérifie récursivement une valeur contre un nœud du schéma
+   */
+  private check(value: unknown, schema: SchemaNode, at: string, errors: string[]): void {
+    const label = at || 'racine';
+
+    if ('anyOf' in schema) {
+      const matches = schema.anyOf.some(candidate => {
+        const candidateErrors: string[] = [];
+        this.check(value, candidate, at, candidateErrors);
+        return candidateErrors.length === 0;
+      });
+      if (!matches) {
+        errors.push(`${label}: valeur invalide (${JSON.stringify(value)})`);
+      }
+      return;
+    }
+
+    switch (schema.type) {
+      case 'string':
+      case 'boolean':
+      case 'number':
+        if (typeof value !== schema.type) {
+          errors.push(`${label}: ${schema.type} attendu`);
+        } else if (schema.type === 'string' && schema.enum && !schema.enum.includes(value as string)) {
+          errors.push(`${label}: valeur "${value}" non autorisée (${schema.enum.join(', ')})`);
+        }
+        return;
+      case 'array':
+        if (!Array.isArray(value)) {
+          errors.push(`${label}: tableau attendu`);
+          return;
+        }
+        value.forEach((item, index) => this.check(item, schema.items, `${at}[${index}]`, errors));
+        return;
+      case 'object': {
+        if (!value || typeof value !== 'object' || Array.isArray(value)) {
+          errors.push(`${label}: objet attendu`);
+          return;
+        }
+        const record = value as Record<string, unknown>;
+        for (const key of schema.required || []) {
+          if (record[key] === undefined) {
+            errors.push(`${at ? `${at}.` : ''}${key}: propriété requise`);
+          }
+        }
+        if (!schema.properties) {
+          return;
+        }
+        for (const [key, child] of Object.entries(record)) {
+          const childPath = at ? `${at}.${key}` : key;
+          const childSchema = schema.properties[key];
+          if (!childSchema) {
+            errors.push(`${childPath}: propriété inconnue`);
+          } else if (child !== undefined) {
+            this.check(child, childSchema, childPath, errors);
+          }
+        }
+        return;
+      }
+    }
+  }
+}
@@ -0,0 +1,116 @@
+import { AngularProject, MigrationPhase } from '../types';
+import { VersionUtils } from '../utils/VersionUtils';
+
+/**
+ * Version Angular minimale prise en charge comme point de départ
+ */
+export const MINIMUM_SOURCE_VERSION = '5.0.0';
+
+/**
+ * Version Angular à partir de laquelle chaque modernisation est disponible
+ * Les règles et recommandations correspondantes sont ignorées pour une cible antérieure
+ */
+export const FEATURE_VERSIONS = {
+  providedIn: 6,
+  rxjs7: 13,
+  inject: 14,
+  typedForms: 14,
+  standalone: 15,
+  controlFlow: 17
+};
+
+/**
+ * Phases de la migration progressive, de la plus ancienne à la plus récente
+ */
+export const MIGRATION_PHASES: MigrationPhase[] = [
+  {
+    name: 'Phase 1: Angular 5 → 8 (CRITIQUE)',
+    fromVersion: '5.0.0',
+    toVersion: '8.0.0',
+    critical: true,
+    estimatedDuration: '2-3 semaines'
+  },
+  {
+    name: 'Phase 2: Angular 8 → 12 (STABILISATION)',
+    fromVersion: '8.0.0',
+    toVersion: '12.0.0',
+    critical: false,
+    estimatedDuration: '1-2 semaines'
+  },
+  {
+    name: 'Phase 3: Angular 12 → 16 (MODERNISATION)',
+    fromVersion: '12.0.0',
+    toVersion: '16.0.0',
+    critical: false,
+    estimatedDuration: '2-3 semaines'
+  },
+  {
+    name: 'Phase 4: Angular 16 → 20 (RÉVOLUTION)',
+    fromVersion: '16.0.0',
+    toVersion: '20.0.0',
+    critical: true,
+    estimatedDuration: '3-4 semaines'
+  }
+];
+
+/**
+ * Sélection des phases à partir de la version source du projet et de la version cible
+ */
+export class MigrationPhases {
+  /**
+   * Version la plus récente atteinte par la migration
+   */
+  static latestVersion(): string {
+    return MIGRATION_PHASES[MIGRATION_PHASES.length - 1].toVersion;
+  }
+
+  /**
+   * Indique si la migration peut partir de cette version (Angular 5 ou plus récent)
+   */
+  static isSupported(version: string): boolean {
+    return VersionUtils.parse(version) !== null && VersionUtils.compare(version, MINIMUM_SOURCE_VERSION) >= 0;
+  }
+
+  /**
+   * Version cible de la migration (`12` → `12.0.0`), la plus récente par défaut
+   * Refuse une cible antérieure à la version du projet ou postérieure à la dernière phase
+   */
+  static resolveTarget(currentVersion: string, targetVersion?: string): string {
+    if (targetVersion === undefined) {
+      return MigrationPhases.latestVersion();
+    }
+
+    const major = VersionUtils.parse(targetVersion)?.[0];
+    if (major === undefined) {
+      throw new Error(`Version cible invalide: ${targetVersion}`);
+    }
+    const latest = VersionUtils.major(MigrationPhases.latestVersion());
+    if (major > latest) {
+      throw new Error(`Version cible non prise en charge: Angular ${major} (Angular ${latest} maximum)`);
+    }
+    if (major < VersionUtils.major(currentVersion)) {
+      throw new Error(`Version cible Angular ${major} antérieure à la version du projet (${currentVersion})`);
+    }
+    return `${major}.0.0`;
+  }
+
+  /**
+   * Version majeure cible d'un projet (la plus récente si le projet n'en précise pas)
+   */
+  static targetMajor(project?: AngularProject): number {
+    return VersionUtils.major(project?.targetVersion || MigrationPhases.latestVersion());
+  }
+
+  /**
+   * Phases à franchir de la version source à la version cible
+   * Une phase déjà entamée (projet en Angular 11 pour la phase 8 → 12) ou
+   * terminée en cours de route (cible Angular 14 pour la phase 12 → 16) est conservée
+   */
+  static remaining(currentVersion: string, targetVersion: string = MigrationPhases.latestVersion()): MigrationPhase[] {
+    const major = VersionUtils.major(currentVersion);
+    const target = VersionUtils.major(targetVersion);
+    return MIGRATION_PHASES.filter(phase =>
+      VersionUtils.major(phase.toVersion) > major && VersionUtils.major(phase.fromVersion) < target
+    );
+  }
+}
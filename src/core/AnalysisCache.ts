@@ -0,0 +1,204 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import {
+  AnalysisCacheStats,
+  AnalyzedFile,
+  AngularProject,
+  MigrationIssue,
+  MigrationOptions,
+  Suppression,
+  Transformation
+} from '../types';
+import { Logger } from '../utils/Logger';
+
+/**
+ * Fichier du cache, à la racine du projet
+ */
+const CACHE_DIR = '.migration-cache';
+const CACHE_FILE = 'analysis.json';
+
+/**
+ * Format du fichier de cache: l'incrémenter invalide les caches existants
+ */
+const CACHE_FORMAT = 2;
+
+/**
+ * Étape dont le résultat est mis en cache
+ */
+export type CachePhase = 'analysis' | 'transformation';
+
+/**
+ * Résultat d'une étape pour un fichier
+ */
+export interface CachedResult {
+  issues: MigrationIssue[];
+  transformations: Transformation[];
+  /** Éléments ignorés par un commentaire `ng-migrate-ignore-*` pendant l'étape */
+  suppressions: Suppression[];
+}
+
+interface CacheEntry extends CachedResult {
+  /** Empreinte du contenu, du fichier, des règles et de l'outil */
+  key: string;
+}
+
+interface CacheContents {
+  format: number;
+  /** Résultats par fichier (chemin relatif) et par étape */
+  files: Record<string, Partial<Record<CachePhase, CacheEntry>>>;
+}
+
+/**
+ * Cache des résultats d'analyse et de transformation entre deux exécutions
+ * Un résultat est réutilisé tant que le contenu du fichier, les règles et la version de l'outil sont inchangés
+ */
+export class AnalysisCache {
+  private logger: Logger;
+  private enabled = true;
+  private signature = '';
+  private projectHash = '';
+  private contents: CacheContents = { format: CACHE_FORMAT, files: {} };
+  private hits = 0;
+  private misses = 0;
+
+  constructor() {
+    this.logger = new Logger();
+  }
+
+  /**
+   * Charge le cache du projet
+   * `ruleSignature` identifie les règles enregistrées (voir PluginRegistry.getSignature)
+   */
+  async open(project: AngularProject, options: MigrationOptions, ruleSignature: string): Promise<void> {
+    this.enabled = options.cache !== false;
+    this.signature = this.hash([
+      String(CACHE_FORMAT), readToolVersion(), ruleSignature, JSON.stringify(options.plugins || []), String(options.strictFlagsCheck === true),
+      project.currentVersion, project.targetVersion
+    ]);
+    // Empreinte de tout le projet, pour les règles qui lisent d'autres fichiers
+    this.projectHash = this.hash(project.files
+      .map(file => `${file.path}\0${file.content}`)
+      .sort());
+    this.contents = { format: CACHE_FORMAT, files: {} };
+    this.hits = 0;
+    this.misses = 0;
+
+    if (!this.enabled) {
+      this.logger.info('🗄️  Cache d\'analyse ignoré, tous les fichiers sont réanalysés');
+      return;
+    }
+
+    const cachePath = path.join(project.path, CACHE_DIR, CACHE_FILE);
+    try {
+      if (await fs.pathExists(cachePath)) {
+        const contents: CacheContents = await fs.readJson(cachePath);
+        if (contents.format === CACHE_FORMAT && contents.files) {
+          this.contents = contents;
+        }
+      }
+    } catch (error) {
+      this.logger.warn(`Cache d'analyse illisible, il sera reconstruit: ${error.message}`);
+    }
+  }
+
+  /**
+   * Retourne le résultat en cache d'une étape, ou le calcule et l'enregistre
+   * `crossFile` indique que le résultat dépend aussi des autres fichiers du projet
+   * Les suppressions enregistrées par l'étape sont rejouées sur le fichier lorsque le cache est utilisé
+   */
+  async resolve(
+    phase: CachePhase,
+    file: AnalyzedFile,
+    crossFile: boolean,
+    compute: () => Promise<Partial<CachedResult>>
+  ): Promise<CachedResult> {
+    const key = this.key(phase, file, crossFile);
+    const entry = this.contents.files[file.path]?.[phase];
+
+    if (this.enabled && entry && entry.key === key) {
+      this.hits++;
+      const cached = this.copy(entry);
+      if (cached.suppressions.length > 0) {
+        file.suppressions = [...(file.suppressions || []), ...cached.suppressions];
+      }
+      return cached;
+    }
+
+    this.misses++;
+    const suppressionCount = file.suppressions?.length || 0;
+    const computed = await compute();
+    const result: CachedResult = {
+      issues: computed.issues || [],
+      transformations: computed.transformations || [],
+      suppressions: (file.suppressions || []).slice(suppressionCount)
+    };
+
+    // Copie: les transformations sont ensuite modifiées (statut, revue interactive)
+    this.contents.files[file.path] = { ...this.contents.files[file.path], [phase]: { key, ...this.copy(result) } };
+    return result;
+  }
+
+  /**
+   * Enregistre le cache, sans les fichiers qui ne font plus partie du projet
+   */
+  async save(project: AngularProject): Promise<void> {
+    const paths = new Set(project.files.map(file => file.path));
+    for (const filePath of Object.keys(this.contents.files)) {
+      if (!paths.has(filePath)) {
+        delete this.contents.files[filePath];
+      }
+    }
+
+    try {
+      const cacheDir = path.join(project.path, CACHE_DIR);
+      await fs.ensureDir(cacheDir);
+      await fs.writeJson(path.join(cacheDir, CACHE_FILE), this.contents);
+      this.logger.debug(`Cache d'analyse: ${this.hits} résultat(s) réutilisé(s), ${this.misses} recalculé(s)`);
+    } catch (error) {
+      this.logger.warn(`Impossible d'enregistrer le cache d'analyse: ${error.message}`);
+    }
+  }
+
+  /**
+   * Statistiques d'utilisation depuis la dernière ouverture
+   */
+  getStats(): AnalysisCacheStats {
+    return {
+      enabled: this.enabled,
+      path: path.join(CACHE_DIR, CACHE_FILE),
+      hits: this.hits,
+      misses: this.misses
+    };
+  }
+
+  /**
+   * Clé d'un résultat: contenu et chemin du fichier, règles, version de l'outil
+   */
+  private key(phase: CachePhase, file: AnalyzedFile, crossFile: boolean): string {
+    return this.hash([this.signature, phase, file.path, file.type, file.content, crossFile ? this.projectHash : '']);
+  }
+
+  private copy<T>(value: T): T {
+    return JSON.parse(JSON.stringify(value));
+  }
+
+  /**
+   * Empreinte SHA-256 d'une liste de valeurs
+   */
+  private hash(parts: string[]): string {
+    return crypto.createHash('sha256').update(parts.join('\0')).digest('hex');
+  }
+}
+
+/**
+ * Version de l'outil (package.json): une nouvelle version invalide le cache
+ */
+function readToolVersion(): string {
+  try {
+    // src/core (ts-node) et dist/core (build) sont tous deux à deux niveaux de la racine du paquet
+    return fs.readJsonSync(path.resolve(__dirname, '..', '..', 'package.json')).version;
+  } catch {
+    return 'dev';
+  }
+}
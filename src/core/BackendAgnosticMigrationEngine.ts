@@ -1,10 +1,22 @@
 import * as fs from 'fs-extra';
 import * as path from 'path';
-import { AngularProject, MigrationOptions, MigrationReport, FileType, MigrationMode } from '../types';
+import { AnalyzedFile, AngularProject, MigrationOptions, MigrationReport, FileType, MigrationMode } from '../types';
 import { ProjectAnalyzer } from '../analyzers/ProjectAnalyzer';
 import { Angular5Analyzer } from '../analyzers/Angular5Analyzer';
 import { ModernizationTransformer } from '../transformers/ModernizationTransformer';
 import { ReportGenerator } from '../utils/ReportGenerator';
+import { PatchGenerator } from '../utils/PatchGenerator';
+import { ProfileGenerator } from '../utils/ProfileGenerator';
+import { ChangeSetApplier, ChangeSetResult } from './ChangeSetApplier';
+import { ChangeReviewer } from './ChangeReviewer';
+import { BackupStore } from './BackupStore';
+import { AnalysisCache } from './AnalysisCache';
+import { WorkerPool } from './WorkerPool';
+import { TypeCheckValidator } from './TypeCheckValidator';
+import { IdempotencyChecker } from './IdempotencyChecker';
+import { FEATURE_VERSIONS, MigrationPhases } from '../config/MigrationPhases';
+import { PluginRegistry } from '../plugins/PluginRegistry';
+import { PluginLoader } from '../plugins/PluginLoader';
 import { Logger } from '../utils/Logger';
 
 /**
@@ -17,13 +29,34 @@ export class BackendAgnosticMigrationEngine {
   private angular5Analyzer: Angular5Analyzer;
   private transformer: ModernizationTransformer;
   private reportGenerator: ReportGenerator;
+  private changeSetApplier: ChangeSetApplier;
+  private typeCheckValidator: TypeCheckValidator;
+  private idempotencyChecker: IdempotencyChecker;
+  private patchGenerator: PatchGenerator;
+  private profileGenerator: ProfileGenerator;
+  private changeReviewer: ChangeReviewer;
+  private backupStore: BackupStore;
+  private analysisCache: AnalysisCache;
+  private workerPool: WorkerPool | null = null;
+  private pluginRegistry: PluginRegistry;
+  private pluginLoader: PluginLoader;
 
   constructor() {
     this.logger = new Logger();
     this.projectAnalyzer = new ProjectAnalyzer();
-    this.angular5Analyzer = new Angular5Analyzer();
-    this.transformer = new ModernizationTransformer();
+    this.pluginRegistry = new PluginRegistry();
+    this.pluginLoader = new PluginLoader();
+    this.angular5Analyzer = new Angular5Analyzer(this.pluginRegistry);
+    this.transformer = new ModernizationTransformer(this.pluginRegistry);
     this.reportGenerator = new ReportGenerator();
+    this.changeSetApplier = new ChangeSetApplier();
+    this.typeCheckValidator = new TypeCheckValidator(this.changeSetApplier);
+    this.idempotencyChecker = new IdempotencyChecker(this.transformer, this.changeSetApplier);
+    this.patchGenerator = new PatchGenerator();
+    this.profileGenerator = new ProfileGenerator();
+    this.changeReviewer = new ChangeReviewer();
+    this.backupStore = new BackupStore();
+    this.analysisCache = new AnalysisCache();
   }
 
   /**
@@ -42,21 +75,31 @@ export class BackendAgnosticMigrationEngine {
 
       // 2. Analyse du projet Angular (frontend uniquement)
       this.logger.info('📋 Analyse du projet Angular...');
-      const project = await this.analyzeAngularProject(projectPath, backendType);
+      const project = await this.analyzeAngularProject(projectPath, backendType, options);
+
+      // Règles des plugins du projet, en plus des règles intégrées
+      await this.loadPlugins(project, options);
+      await this.analysisCache.open(project, options, this.pluginRegistry.getSignature());
+      if ((options.concurrency || 1) > 1) {
+        this.workerPool = new WorkerPool(project, options, options.concurrency!);
+      }
 
       // 3. Détection des patterns Angular 5
       this.logger.info('🔍 Détection des patterns Angular 5...');
-      await this.detectAngular5Patterns(project);
+      await this.detectAngular5Patterns(project, options);
 
       // 4. Application des transformations Angular uniquement
+      let changeSet: ChangeSetResult | null = null;
       if (options.mode !== MigrationMode.ANALYZE) {
         this.logger.info('⚡ Application des transformations Angular...');
-        await this.applyAngularTransformations(project, options);
+        changeSet = await this.applyAngularTransformations(project, options);
       }
+      // Résultats réutilisés à la prochaine exécution pour les fichiers inchangés
+      await this.analysisCache.save(project);
 
       // 5. Génération du rapport
       this.logger.info('📊 Génération du rapport...');
-      const report = await this.generateReport(project, options, startTime, backendType);
+      const report = await this.generateReport(project, options, startTime, backendType, changeSet);
 
       this.logger.success(`✅ Migration Angular terminée en ${Date.now() - startTime}ms`);
       return report;
@@ -64,6 +107,9 @@ export class BackendAgnosticMigrationEngine {
     } catch (error) {
       this.logger.error(`❌ Erreur lors de la migration: ${error.message}`);
       throw error;
+    } finally {
+      await this.workerPool?.terminate();
+      this.workerPool = null;
     }
   }
 
@@ -115,7 +161,7 @@ export class BackendAgnosticMigrationEngine {
   /**
    * Analyse uniquement la partie Angular du projet
    */
-  private async analyzeAngularProject(projectPath: string, backendType: string): Promise<AngularProject> {
+  private async analyzeAngularProject(projectPath: string, backendType: string, options: MigrationOptions): Promise<AngularProject> {
     try {
       // Rechercher le dossier frontend/angular
       const angularPaths = await this.findAngularDirectories(projectPath);
@@ -137,8 +183,18 @@ export class BackendAgnosticMigrationEngine {
         backendPath: projectPath
       };
 
+      // Toute version à partir d'Angular 5
+      if (!MigrationPhases.isSupported(project.currentVersion)) {
+        throw new Error(`Version Angular non prise en charge: ${project.currentVersion} (Angular 5 minimum)`);
+      }
+
       this.logger.info(`📦 Projet Angular ${project.currentVersion} détecté`);
+      project.targetVersion = MigrationPhases.resolveTarget(project.currentVersion, options.targetVersion);
       this.logger.info(`🎯 Migration vers Angular ${project.targetVersion}`);
+      project.phases = MigrationPhases.remaining(project.currentVersion, project.targetVersion);
+      this.logger.info(project.phases.length > 0
+        ? `🧭 Phases restantes: ${project.phases.map(phase => phase.name).join(', ')}`
+        : '🧭 Aucune phase restante: seules les règles de modernisation s\'appliquent');
       this.logger.info(`🔗 Backend associé: ${backendType}`);
 
       return project;
@@ -192,8 +248,14 @@ export class BackendAgnosticMigrationEngine {
     try {
       const packageJsonPath = path.join(dirPath, 'package.json');
       const angularJsonPath = path.join(dirPath, 'angular.json');
+      const angularCliJsonPath = path.join(dirPath, '.angular-cli.json');
 
-      if (!(await fs.pathExists(packageJsonPath)) || !(await fs.pathExists(angularJsonPath))) {
+      if (!(await fs.pathExists(packageJsonPath))) {
+        return false;
+      }
+
+      // angular.json (Angular 6+) ou .angular-cli.json (Angular 5)
+      if (!(await fs.pathExists(angularJsonPath)) && !(await fs.pathExists(angularCliJsonPath))) {
         return false;
       }
 
@@ -206,42 +268,109 @@ export class BackendAgnosticMigrationEngine {
     }
   }
 
+  /**
+   * Enregistre les plugins déclarés par le projet (configuration et options)
+   */
+  private async loadPlugins(project: AngularProject, options: MigrationOptions): Promise<void> {
+    this.pluginRegistry.clearExternal();
+    for (const plugin of await this.pluginLoader.load(project.path, options.plugins)) {
+      this.pluginRegistry.register(plugin);
+    }
+  }
+
   /**
    * Détecte les patterns spécifiques à Angular 5
    */
-  private async detectAngular5Patterns(project: AngularProject): Promise<void> {
-    for (const file of project.files) {
+  private async detectAngular5Patterns(project: AngularProject, options: MigrationOptions): Promise<void> {
+    const results = await this.processFiles(project.files, async file => {
       try {
-        const issues = await this.angular5Analyzer.analyzeFile(file);
-        file.issues.push(...issues);
-
-        if (issues.length > 0) {
-          this.logger.info(`🔍 ${issues.length} issue(s) détectée(s) dans ${file.path}`);
-        }
+        const crossFile = this.pluginRegistry.isCrossFile(file, { project, options }, 'analysis');
+        return await this.analysisCache.resolve('analysis', file, crossFile, async () => this.workerPool
+          ? this.workerPool.run('analysis', file)
+          : { issues: await this.angular5Analyzer.analyzeFile(file, project, options) });
       } catch (error) {
         this.logger.warn(`Erreur lors de l'analyse de ${file.path}: ${error.message}`);
+        return null;
       }
-    }
+    });
+
+    project.files.forEach((file, index) => {
+      const issues = results[index]?.issues || [];
+      file.issues.push(...issues);
+
+      if (issues.length > 0) {
+        this.logger.info(`🔍 ${issues.length} issue(s) détectée(s) dans ${file.path}`);
+      }
+    });
   }
 
   /**
    * Applique les transformations Angular uniquement
+   * Les fichiers ne sont écrits qu'en mode migration avec application automatique
    */
-  private async applyAngularTransformations(project: AngularProject, options: MigrationOptions): Promise<void> {
-    for (const file of project.files) {
-      if (this.shouldProcessFile(file, options)) {
-        try {
-          const transformations = await this.transformer.transformFile(file, options);
-          file.transformations.push(...transformations);
-
-          if (transformations.length > 0) {
-            this.logger.info(`⚡ ${transformations.length} transformation(s) appliquée(s) à ${file.path}`);
-          }
-        } catch (error) {
-          this.logger.error(`Erreur lors de la transformation de ${file.path}: ${error.message}`);
-        }
+  private async applyAngularTransformations(project: AngularProject, options: MigrationOptions): Promise<ChangeSetResult> {
+    const files = project.files.filter(file => this.shouldProcessFile(file, options));
+    const results = await this.processFiles(files, async file => {
+      try {
+        const crossFile = this.pluginRegistry.isCrossFile(file, { project, options }, 'transformation');
+        return await this.analysisCache.resolve('transformation', file, crossFile, async () => this.workerPool
+          ? this.workerPool.run('transformation', file)
+          : { transformations: await this.transformer.transformFile(file, options, project) });
+      } catch (error) {
+        this.logger.error(`Erreur lors de la transformation de ${file.path}: ${error.message}`);
+        return null;
       }
+    });
+
+    files.forEach((file, index) => {
+      const transformations = results[index]?.transformations || [];
+      file.transformations.push(...transformations);
+      transformations.forEach(transformation => file.issues.push(...(transformation.issues || [])));
+
+      if (transformations.length > 0) {
+        this.logger.info(`⚡ ${transformations.length} transformation(s) appliquée(s) à ${file.path}`);
+      }
+    });
+
+    // Règles qui modifieraient encore leur propre résultat: refusées en mode migrate sauf `force`
+    const idempotencyCheck = options.idempotencyCheck ?? options.mode === MigrationMode.MIGRATE;
+    const idempotency = idempotencyCheck ? await this.idempotencyChecker.check(project, options) : null;
+
+    if (options.interactive) {
+      await this.changeReviewer.review(project);
+    }
+
+    // Les transformations qui introduisent des erreurs de compilation sont annulées avant écriture
+    const typeCheck = options.typeCheck !== false ? await this.typeCheckValidator.validate(project) : null;
+
+    const write = options.mode === MigrationMode.MIGRATE && options.autoApply;
+    const backupName = options.backup ? options.backupName || 'pre-migration' : undefined;
+    const changeSet = await this.changeSetApplier.apply(project, write, backupName);
+    changeSet.typeCheck = typeCheck || undefined;
+    changeSet.idempotency = idempotency || undefined;
+
+    // Rétention des sauvegardes définie dans la configuration du projet
+    const retention = options.config?.rollback?.retention;
+    if (changeSet.backup && retention) {
+      await this.backupStore.prune(project.path, retention);
+    }
+    return changeSet;
+  }
+
+  /**
+   * Traite les fichiers dans le pool de workers, ou un par un dans le processus
+   * (les durées mesurées par règle ne se chevauchent pas). Les résultats suivent l'ordre des fichiers
+   */
+  private async processFiles<T>(files: AnalyzedFile[], task: (file: AnalyzedFile) => Promise<T>): Promise<T[]> {
+    if (this.workerPool) {
+      return Promise.all(files.map(task));
     }
+
+    const results: T[] = [];
+    for (const file of files) {
+      results.push(await task(file));
+    }
+    return results;
   }
 
   /**
@@ -251,25 +380,37 @@ export class BackendAgnosticMigrationEngine {
     project: AngularProject,
     options: MigrationOptions,
     startTime: number,
-    backendType: string
+    backendType: string,
+    changeSet: ChangeSetResult | null
   ): Promise<MigrationReport> {
     const executionTime = Date.now() - startTime;
 
     const report: MigrationReport = {
       project,
       options,
-      summary: this.calculateSummary(project),
+      summary: this.calculateSummary(project, changeSet),
       fileDetails: project.files.map(file => ({
         file,
         issues: file.issues,
         transformations: file.transformations,
-        processingTime: 0
+        processingTime: (file.timings || []).reduce((sum, timing) => sum + timing.duration, 0)
       })),
-      errors: [],
+      errors: (changeSet?.typeCheck?.unresolved || []).map(message => `Erreur de compilation non attribuée: ${message}`),
       recommendations: this.generateRecommendations(project, backendType),
-      executionTime
+      executionTime,
+      cache: this.analysisCache.getStats(),
+      typeCheck: changeSet?.typeCheck,
+      idempotency: changeSet?.idempotency
     };
 
+    if (options.mode === MigrationMode.DRY_RUN && changeSet) {
+      report.dryRun = await this.patchGenerator.generate(project.path, changeSet.changes);
+    }
+
+    if (options.profile) {
+      report.profilePath = await this.profileGenerator.generate(report, typeof options.profile === 'string' ? options.profile : undefined);
+    }
+
     if (options.generateReport) {
       await this.reportGenerator.generateReport(report);
     }
@@ -297,9 +438,9 @@ export class BackendAgnosticMigrationEngine {
   /**
    * Calcule le résumé de la migration
    */
-  private calculateSummary(project: AngularProject) {
+  private calculateSummary(project: AngularProject, changeSet: ChangeSetResult | null) {
     const totalFiles = project.files.length;
-    const modifiedFiles = project.files.filter(f => f.transformations.length > 0).length;
+    const modifiedFiles = changeSet ? changeSet.writtenFiles.length : 0;
     const totalIssues = project.files.reduce((sum, f) => sum + f.issues.length, 0);
     const appliedTransformations = project.files.reduce(
       (sum, f) => sum + f.transformations.filter(t => t.status === 'applied').length,
@@ -309,13 +450,16 @@ export class BackendAgnosticMigrationEngine {
       (sum, f) => sum + f.transformations.filter(t => t.status === 'failed').length,
       0
     );
+    const suppressions = project.files.flatMap(f => f.suppressions || []);
 
     return {
       totalFiles,
       modifiedFiles,
       totalIssues,
       appliedTransformations,
-      failedTransformations
+      failedTransformations,
+      suppressedIssues: suppressions.filter(s => s.kind === 'issue').length,
+      suppressedTransformations: suppressions.filter(s => s.kind === 'transformation').length
     };
   }
 
@@ -326,25 +470,33 @@ export class BackendAgnosticMigrationEngine {
     const recommendations: string[] = [];
 
     // Recommandations générales Angular
+    // Seules les modernisations disponibles dans la version cible sont recommandées
+    const targetMajor = MigrationPhases.targetMajor(project);
     const hasNgModules = project.files.some(f => f.type === FileType.MODULE);
-    if (hasNgModules) {
+    if (hasNgModules && targetMajor >= FEATURE_VERSIONS.standalone) {
       recommendations.push('Considérez la migration vers les composants standalone pour simplifier l\'architecture');
     }
 
     const hasOldControlFlow = project.files.some(f =>
       f.content.includes('*ngIf') || f.content.includes('*ngFor')
     );
-    if (hasOldControlFlow) {
+    if (hasOldControlFlow && targetMajor >= FEATURE_VERSIONS.controlFlow) {
       recommendations.push('Migrez vers le nouveau contrôle de flux (@if, @for) pour de meilleures performances');
     }
 
     const hasUntypedForms = project.files.some(f =>
       f.content.includes('FormGroup') && !f.content.includes('FormGroup<')
     );
-    if (hasUntypedForms) {
+    if (hasUntypedForms && targetMajor >= FEATURE_VERSIONS.typedForms) {
       recommendations.push('Ajoutez des types stricts aux formulaires réactifs pour une meilleure sécurité de type');
     }
 
+    // Cible intermédiaire: phases restant à franchir pour atteindre la dernière version
+    const nextPhases = MigrationPhases.remaining(project.targetVersion);
+    if (nextPhases.length > 0) {
+      recommendations.push(`Angular ${targetMajor} atteint: ${nextPhases.length} phase(s) restante(s) jusqu'à Angular ${MigrationPhases.latestVersion()} (${nextPhases.map(phase => phase.name).join(', ')})`);
+    }
+
     // Recommandations spécifiques au backend
     switch (backendType) {
       case 'Java':
@@ -0,0 +1,70 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { BackupStore } from './BackupStore';
+
+describe('BackupStore', () => {
+  const HOUR = 3600 * 1000;
+  let projectPath: string;
+
+  beforeEach(async () => {
+    projectPath = await fs.mkdtemp(path.join(os.tmpdir(), 'backup-store-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(projectPath);
+  });
+
+  describe('restore', () => {
+    it('refuse une sauvegarde dont l\'empreinte ne correspond plus, sans toucher au projet', async () => {
+      const store = new BackupStore();
+      await fs.outputFile(path.join(projectPath, 'src/main.ts'), 'original');
+      const manifest = await store.snapshot(projectPath, ['src/main.ts'], 'phase-1');
+
+      await fs.writeFile(path.join(projectPath, 'src/main.ts'), 'migré');
+      await fs.writeFile(path.join(projectPath, '.migration-backups', manifest.id, 'files', 'src/main.ts'), 'altéré');
+
+      await expect(store.restore(projectPath, 'phase-1')).rejects.toThrow(`Sauvegarde corrompue pour ${path.normalize('src/main.ts')}`);
+      expect(await fs.readFile(path.join(projectPath, 'src/main.ts'), 'utf-8')).toBe('migré');
+    });
+  });
+
+  describe('prune', () => {
+    const createSnapshots = async (ages: number[]) => {
+      for (const [index, age] of ages.entries()) {
+        const id = `snapshot-${index}`;
+        const manifest = { id, name: id, createdAt: new Date(Date.now() - age).toISOString(), files: [] };
+        await fs.outputFile(path.join(projectPath, '.migration-backups', id, 'manifest.json'), JSON.stringify(manifest));
+      }
+    };
+
+    const prunedIds = async (retention: string) =>
+      (await new BackupStore().prune(projectPath, retention)).map(manifest => manifest.id).sort();
+
+    it('supprime les snapshots plus anciens qu\'une durée en jours', async () => {
+      await createSnapshots([24 * HOUR, 8 * 24 * HOUR, 6 * 24 * HOUR]);
+
+      expect(await prunedIds('7days')).toEqual(['snapshot-1']);
+      expect((await new BackupStore().list(projectPath)).map(manifest => manifest.id)).toEqual(['snapshot-0', 'snapshot-2']);
+    });
+
+    it('supprime les snapshots plus anciens qu\'une durée en heures', async () => {
+      await createSnapshots([HOUR, 13 * HOUR, 11 * HOUR]);
+
+      expect(await prunedIds('12h')).toEqual(['snapshot-1']);
+    });
+
+    it('conserve un nombre de snapshots', async () => {
+      await createSnapshots([1, 2, 3, 4, 5, 6, 7].map(hours => hours * HOUR));
+
+      expect(await prunedIds('5')).toEqual(['snapshot-5', 'snapshot-6']);
+    });
+
+    it.each([
+      ['sept jours', 'Rétention invalide: sept jours'],
+      ['7 mois', 'Unité de rétention inconnue: mois']
+    ])('refuse la rétention %s', async (retention, message) => {
+      await expect(new BackupStore().prune(projectPath, retention)).rejects.toThrow(message);
+    });
+  });
+});
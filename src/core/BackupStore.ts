@@ -0,0 +1,226 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { Logger } from '../utils/Logger';
+
+/**
+ * Répertoire des sauvegardes, à la racine du projet
+ */
+const BACKUP_DIR = '.migration-backups';
+const MANIFEST_FILE = 'manifest.json';
+
+/**
+ * Unités acceptées dans une durée de rétention (`7days`, `12h`, `2w`...)
+ */
+const RETENTION_UNITS: Record<string, number> = {
+  h: 3600 * 1000,
+  hour: 3600 * 1000,
+  hours: 3600 * 1000,
+  d: 24 * 3600 * 1000,
+  day: 24 * 3600 * 1000,
+  days: 24 * 3600 * 1000,
+  w: 7 * 24 * 3600 * 1000,
+  week: 7 * 24 * 3600 * 1000,
+  weeks: 7 * 24 * 3600 * 1000
+};
+
+/**
+ * Fichier sauvegardé dans un snapshot
+ */
+export interface BackupEntry {
+  /** Chemin relatif à la racine du projet */
+  path: string;
+  /** Le fichier existait avant la migration (sinon il est supprimé à la restauration) */
+  existed: boolean;
+  /** Empreinte SHA-256 du contenu sauvegardé */
+  sha256?: string;
+  /** Taille en octets */
+  size?: number;
+}
+
+/**
+ * Manifeste d'un snapshot
+ */
+export interface BackupManifest {
+  /** Identifiant unique (horodatage + nom) */
+  id: string;
+  /** Nom du snapshot (par exemple la phase de migration) */
+  name: string;
+  /** Date de création (ISO 8601) */
+  createdAt: string;
+  /** Fichiers sauvegardés */
+  files: BackupEntry[];
+}
+
+/**
+ * Magasin de sauvegardes des fichiers modifiés par la migration
+ * Chaque snapshot ne contient que les fichiers sur le point de changer, avec leurs empreintes
+ */
+export class BackupStore {
+  private logger: Logger;
+
+  constructor() {
+    this.logger = new Logger();
+  }
+
+  /**
+   * Sauvegarde les fichiers indiqués (chemins relatifs au projet) dans un nouveau snapshot
+   */
+  async snapshot(projectPath: string, files: string[], name: string): Promise<BackupManifest> {
+    const id = await this.createId(projectPath, name);
+    const snapshotDir = path.join(projectPath, BACKUP_DIR, id);
+    const manifest: BackupManifest = { id, name, createdAt: new Date().toISOString(), files: [] };
+
+    try {
+      for (const file of Array.from(new Set(files.map(f => path.normalize(f))))) {
+        const sourcePath = path.join(projectPath, file);
+        if (!(await fs.pathExists(sourcePath))) {
+          manifest.files.push({ path: file, existed: false });
+          continue;
+        }
+
+        const content = await fs.readFile(sourcePath);
+        const backupPath = path.join(snapshotDir, 'files', file);
+        await fs.ensureDir(path.dirname(backupPath));
+        await fs.writeFile(backupPath, content);
+        manifest.files.push({ path: file, existed: true, sha256: this.checksum(content), size: content.length });
+      }
+
+      // Le manifeste est écrit en dernier: un snapshot sans manifeste est incomplet et ignoré
+      await fs.writeFile(path.join(snapshotDir, MANIFEST_FILE), JSON.stringify(manifest, null, 2), 'utf-8');
+      this.logger.success(`💾 Snapshot ${id} créé (${manifest.files.length} fichier(s))`);
+      return manifest;
+    } catch (error) {
+      this.logger.error(`Erreur lors de la création du snapshot ${name}: ${error.message}`);
+      await fs.remove(snapshotDir).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * Restaure un snapshot (identifiant, ou nom: le plus récent portant ce nom)
+   * Toutes les empreintes sont vérifiées avant de modifier le projet
+   */
+  async restore(projectPath: string, idOrName: string): Promise<BackupManifest> {
+    const manifest = (await this.list(projectPath)).find(m => m.id === idOrName || m.name === idOrName);
+    if (!manifest) {
+      throw new Error(`Snapshot introuvable: ${idOrName}`);
+    }
+
+    const snapshotDir = path.join(projectPath, BACKUP_DIR, manifest.id);
+    const contents = new Map<string, Buffer>();
+
+    for (const entry of manifest.files.filter(e => e.existed)) {
+      const content = await fs.readFile(path.join(snapshotDir, 'files', entry.path));
+      if (this.checksum(content) !== entry.sha256) {
+        throw new Error(`Sauvegarde corrompue pour ${entry.path} dans le snapshot ${manifest.id}`);
+      }
+      contents.set(entry.path, content);
+    }
+
+    for (const entry of manifest.files) {
+      const targetPath = path.join(projectPath, entry.path);
+      const content = contents.get(entry.path);
+      if (content) {
+        await fs.ensureDir(path.dirname(targetPath));
+        await fs.writeFile(targetPath, content);
+      } else {
+        await fs.remove(targetPath);
+      }
+    }
+
+    this.logger.success(`🔄 Snapshot ${manifest.id} restauré (${manifest.files.length} fichier(s))`);
+    return manifest;
+  }
+
+  /**
+   * Liste les snapshots complets, du plus récent au plus ancien
+   */
+  async list(projectPath: string): Promise<BackupManifest[]> {
+    const backupRoot = path.join(projectPath, BACKUP_DIR);
+    if (!(await fs.pathExists(backupRoot))) {
+      return [];
+    }
+
+    const manifests: BackupManifest[] = [];
+    for (const id of await fs.readdir(backupRoot)) {
+      const manifestPath = path.join(backupRoot, id, MANIFEST_FILE);
+      try {
+        if (await fs.pathExists(manifestPath)) {
+          manifests.push(JSON.parse(await fs.readFile(manifestPath, 'utf-8')));
+        }
+      } catch (error) {
+        this.logger.warn(`Manifeste illisible pour le snapshot ${id}: ${error.message}`);
+      }
+    }
+
+    return manifests.sort((a, b) => b.createdAt.localeCompare(a.createdAt) || b.id.localeCompare(a.id));
+  }
+
+  /**
+   * Supprime les snapshots hors rétention et retourne ceux supprimés
+   * `retention` suit le format de RollbackConfig.retention: durée (`7days`, `12h`, `2w`) ou nombre de snapshots (`5`)
+   */
+  async prune(projectPath: string, retention: string): Promise<BackupManifest[]> {
+    const policy = this.parseRetention(retention);
+    const manifests = await this.list(projectPath);
+    const now = Date.now();
+
+    const removed = manifests.filter((manifest, index) =>
+      policy.maxCount !== undefined
+        ? index >= policy.maxCount
+        : now - new Date(manifest.createdAt).getTime() > policy.maxAge!
+    );
+
+    for (const manifest of removed) {
+      await fs.remove(path.join(projectPath, BACKUP_DIR, manifest.id));
+    }
+
+    if (removed.length > 0) {
+      this.logger.info(`🧹 ${removed.length} snapshot(s) supprimé(s) (rétention: ${retention})`);
+    }
+    return removed;
+  }
+
+  /**
+   * Interprète une politique de rétention
+   */
+  private parseRetention(retention: string): { maxAge?: number; maxCount?: number } {
+    const match = retention.trim().toLowerCase().match(/^(\d+)\s*([a-z]*)$/);
+    if (!match) {
+      throw new Error(`Rétention invalide: ${retention}`);
+    }
+
+    const value = parseInt(match[1], 10);
+    if (!match[2]) {
+      return { maxCount: value };
+    }
+
+    const unit = RETENTION_UNITS[match[2]];
+    if (!unit) {
+      throw new Error(`Unité de rétention inconnue: ${match[2]}`);
+    }
+    return { maxAge: value * unit };
+  }
+
+  /**
+   * Construit un identifiant de snapshot unique et lisible
+   */
+  private async createId(projectPath: string, name: string): Promise<string> {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'snapshot';
+    let id = `${timestamp}-${slug}`;
+
+    for (let suffix = 2; await fs.pathExists(path.join(projectPath, BACKUP_DIR, id)); suffix++) {
+      id = `${timestamp}-${slug}-${suffix}`;
+    }
+    return id;
+  }
+
+  /**
+   * Empreinte SHA-256 d'un contenu
+   */
+  private checksum(content: Buffer): string {
+    return crypto.createHash('sha256').update(content).digest('hex');
+  }
+}
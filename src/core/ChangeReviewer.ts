@@ -0,0 +1,235 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import * as chalk from 'chalk';
+import * as inquirer from 'inquirer';
+import { AngularProject, AnalyzedFile, Transformation, TransformationStatus, TransformationType } from '../types';
+import { DiffHunk, DiffUtils, LineChange } from '../utils/DiffUtils';
+import { Logger } from '../utils/Logger';
+
+/**
+ * Fichier de persistance des décisions, dans le répertoire des rapports
+ */
+const DECISIONS_FILE = 'review-decisions.json';
+
+type ReviewAction = 'accept' | 'reject' | 'edit' | 'skip-file' | 'accept-type';
+
+/**
+ * Décision mémorisée pour un bloc
+ */
+interface HunkDecision {
+  decision: 'accept' | 'reject' | 'edit';
+  /** Lignes saisies lors d'une édition */
+  replacement?: string;
+}
+
+/**
+ * Décisions de revue persistées entre deux exécutions
+ */
+export interface ReviewDecisions {
+  /** Décisions par bloc (clé: empreinte du fichier, du type et du contenu du bloc) */
+  hunks: Record<string, HunkDecision>;
+  /** Types de transformation acceptés en totalité */
+  acceptedTypes: TransformationType[];
+  /** Fichiers ignorés (empreinte du chemin et du contenu) */
+  skippedFiles: string[];
+}
+
+/**
+ * Revue interactive, bloc par bloc, des modifications proposées
+ * Les décisions sont enregistrées pour être rejouées lors d'une nouvelle exécution
+ */
+export class ChangeReviewer {
+  private logger: Logger;
+
+  constructor() {
+    this.logger = new Logger();
+  }
+
+  /**
+   * Soumet chaque transformation en attente à l'utilisateur
+   * Les blocs refusés sont retirés de `after`, une transformation sans bloc accepté est ignorée
+   */
+  async review(project: AngularProject): Promise<void> {
+    const decisionsPath = path.join(project.path, 'migration-reports', DECISIONS_FILE);
+    const decisions = await this.loadDecisions(decisionsPath);
+
+    for (const file of project.files) {
+      const pending = file.transformations.filter(t => t.status === TransformationStatus.PENDING);
+      if (pending.length === 0) {
+        continue;
+      }
+
+      const fileKey = this.hash(file.path, file.content);
+      let skipped = decisions.skippedFiles.includes(fileKey);
+
+      for (const transformation of pending) {
+        if (!skipped && await this.reviewTransformation(file, transformation, decisions) === 'skip-file') {
+          decisions.skippedFiles.push(fileKey);
+          skipped = true;
+        }
+        if (skipped) {
+          transformation.status = TransformationStatus.SKIPPED;
+        }
+        await this.saveDecisions(decisionsPath, decisions);
+      }
+    }
+  }
+
+  /**
+   * Revoit les blocs d'une transformation et recalcule son résultat
+   */
+  private async reviewTransformation(
+    file: AnalyzedFile,
+    transformation: Transformation,
+    decisions: ReviewDecisions
+  ): Promise<'done' | 'skip-file'> {
+    const target = transformation.targetPath || file.path;
+    const after = transformation.deleteFile ? '' : transformation.after;
+    const hunks = DiffUtils.createHunks(transformation.before, after);
+    const changes: LineChange[] = [];
+    let modified = false;
+
+    for (const [index, hunk] of hunks.entries()) {
+      const key = this.hash(target, transformation.type, hunk.lines.join(''));
+      let decision: HunkDecision | undefined = decisions.acceptedTypes.includes(transformation.type)
+        ? { decision: 'accept' }
+        : decisions.hunks[key];
+
+      if (!decision) {
+        this.printHunk(target, transformation, hunk, index, hunks.length);
+        const action = await this.askAction(transformation, !transformation.deleteFile);
+
+        if (action === 'skip-file') {
+          return 'skip-file';
+        }
+        if (action === 'accept-type') {
+          decisions.acceptedTypes.push(transformation.type);
+        }
+
+        decision = action === 'edit'
+          ? { decision: 'edit', replacement: await this.editHunk(hunk) }
+          : { decision: action === 'reject' ? 'reject' : 'accept' };
+        decisions.hunks[key] = decision;
+      }
+
+      if (decision.decision === 'reject') {
+        modified = true;
+        continue;
+      }
+
+      const change = this.toLineChange(hunk);
+      if (decision.decision === 'edit') {
+        change.lines = DiffUtils.splitLines(decision.replacement || '');
+        modified = true;
+      }
+      changes.push(change);
+    }
+
+    if (hunks.length > 0 && changes.length === 0) {
+      transformation.status = TransformationStatus.SKIPPED;
+      this.logger.info(`⏭️  ${transformation.type} ignorée pour ${target}`);
+    } else if (modified) {
+      transformation.after = DiffUtils.applyChanges(transformation.before, changes);
+    }
+
+    return 'done';
+  }
+
+  /**
+   * Affiche un bloc de diff coloré
+   */
+  private printHunk(target: string, transformation: Transformation, hunk: DiffHunk, index: number, total: number): void {
+    console.log('\n' + chalk.bold(`${target} — ${transformation.type} (${index + 1}/${total})`));
+    console.log(chalk.gray(transformation.description));
+    console.log(chalk.cyan(`@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`));
+
+    for (const line of hunk.lines) {
+      const text = line.replace(/\r?\n$/, '');
+      if (line[0] === '+') {
+        console.log(chalk.green(text));
+      } else if (line[0] === '-') {
+        console.log(chalk.red(text));
+      } else {
+        console.log(chalk.gray(text));
+      }
+    }
+  }
+
+  /**
+   * Demande la décision pour le bloc affiché
+   */
+  private async askAction(transformation: Transformation, editable: boolean): Promise<ReviewAction> {
+    const choices = [
+      { key: 'y', name: 'Accepter ce bloc', value: 'accept' },
+      { key: 'n', name: 'Refuser ce bloc', value: 'reject' },
+      ...(editable ? [{ key: 'e', name: 'Modifier ce bloc', value: 'edit' }] : []),
+      { key: 's', name: 'Ignorer le reste du fichier', value: 'skip-file' },
+      { key: 'a', name: `Accepter tous les blocs ${transformation.type}`, value: 'accept-type' }
+    ];
+
+    const answers = await inquirer.prompt([
+      { type: 'expand', name: 'action', message: 'Appliquer ce bloc ?', default: 0, choices }
+    ]);
+    return answers.action as ReviewAction;
+  }
+
+  /**
+   * Ouvre l'éditeur sur les nouvelles lignes du bloc et retourne le texte saisi
+   */
+  private async editHunk(hunk: DiffHunk): Promise<string> {
+    const proposed = hunk.lines.filter(line => line[0] !== '-').map(line => line.slice(1)).join('');
+    const answers = await inquirer.prompt([
+      { type: 'editor', name: 'replacement', message: 'Modifier le bloc', default: proposed }
+    ]);
+
+    const replacement: string = answers.replacement;
+    return proposed.endsWith('\n') && !replacement.endsWith('\n') ? replacement + '\n' : replacement;
+  }
+
+  /**
+   * Convertit un bloc en remplacement des lignes qu'il couvre dans le texte d'origine
+   */
+  private toLineChange(hunk: DiffHunk): LineChange {
+    const start = hunk.oldLines === 0 ? hunk.oldStart : hunk.oldStart - 1;
+    return {
+      start,
+      end: start + hunk.oldLines,
+      lines: hunk.lines.filter(line => line[0] !== '-').map(line => line.slice(1))
+    };
+  }
+
+  /**
+   * Charge les décisions d'une exécution précédente
+   */
+  private async loadDecisions(decisionsPath: string): Promise<ReviewDecisions> {
+    const empty: ReviewDecisions = { hunks: {}, acceptedTypes: [], skippedFiles: [] };
+
+    try {
+      if (!(await fs.pathExists(decisionsPath))) {
+        return empty;
+      }
+      const stored = await fs.readJson(decisionsPath);
+      this.logger.info(`📋 Décisions de revue précédentes chargées depuis ${decisionsPath}`);
+      return { ...empty, ...stored };
+    } catch (error) {
+      this.logger.warn(`Décisions de revue illisibles, revue complète: ${error.message}`);
+      return empty;
+    }
+  }
+
+  /**
+   * Enregistre les décisions prises jusqu'ici
+   */
+  private async saveDecisions(decisionsPath: string, decisions: ReviewDecisions): Promise<void> {
+    await fs.ensureDir(path.dirname(decisionsPath));
+    await fs.writeFile(decisionsPath, JSON.stringify(decisions, null, 2), 'utf-8');
+  }
+
+  /**
+   * Empreinte stable d'un ensemble de valeurs
+   */
+  private hash(...parts: string[]): string {
+    return crypto.createHash('sha1').update(parts.join('\0')).digest('hex');
+  }
+}
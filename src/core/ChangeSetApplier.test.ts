@@ -0,0 +1,106 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { AngularProject, AnalyzedFile, FileType, Transformation, TransformationStatus, TransformationType } from '../types';
+import { ChangeSetApplier } from './ChangeSetApplier';
+
+jest.mock('fs-extra', () => {
+  const actual = jest.requireActual('fs-extra');
+  return { ...actual, rename: jest.fn(actual.rename) };
+});
+
+describe('ChangeSetApplier', () => {
+  const original = ['import { NgModule } from \'@angular/core\';', '', '@NgModule({})', 'export class AppModule {}', ''].join('\n');
+  let projectPath: string;
+
+  beforeEach(async () => {
+    projectPath = await fs.mkdtemp(path.join(os.tmpdir(), 'change-set-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(projectPath);
+  });
+
+  const createTransformation = (before: string, after: string, extra: Partial<Transformation> = {}): Transformation => ({
+    type: TransformationType.UPDATE_IMPORTS,
+    description: 'test',
+    before,
+    after,
+    status: TransformationStatus.PENDING,
+    ...extra
+  });
+
+  const createProject = async (files: Array<{ path: string; content: string; transformations: Transformation[] }>): Promise<AngularProject> => {
+    for (const file of files) {
+      await fs.outputFile(path.join(projectPath, file.path), file.content);
+    }
+    return {
+      path: projectPath,
+      currentVersion: '5.2.0',
+      targetVersion: '20.0.0',
+      config: { angularDependencies: { core: '5.2.0', cli: '1.7.0', common: '5.2.0' } },
+      files: files.map((file): AnalyzedFile => ({ ...file, type: FileType.MODULE, issues: [] }))
+    };
+  };
+
+  const read = (file: string) => fs.readFile(path.join(projectPath, file), 'utf8');
+
+  it('enchaîne deux transformations d\'un même fichier', async () => {
+    const first = createTransformation(original, original.replace('@NgModule({})', '@NgModule({ imports: [] })'));
+    const second = createTransformation(original, original.replace('@angular/core', '@angular/core/testing'));
+    const project = await createProject([{ path: 'src/app.module.ts', content: original, transformations: [first, second] }]);
+
+    const result = await new ChangeSetApplier().apply(project, true);
+
+    expect(result.writtenFiles).toEqual([path.normalize('src/app.module.ts')]);
+    expect(await read('src/app.module.ts')).toBe(original
+      .replace('@NgModule({})', '@NgModule({ imports: [] })')
+      .replace('@angular/core', '@angular/core/testing'));
+    expect([first.status, second.status]).toEqual([TransformationStatus.APPLIED, TransformationStatus.APPLIED]);
+  });
+
+  it('marque en échec une transformation en conflit au lieu de la fusionner', async () => {
+    const first = createTransformation(original, original.replace('@NgModule({})', '@NgModule({ imports: [] })'));
+    const second = createTransformation(original, original.replace('@NgModule({})', '@NgModule({ providers: [] })'));
+    const project = await createProject([{ path: 'src/app.module.ts', content: original, transformations: [first, second] }]);
+
+    const result = await new ChangeSetApplier().apply(project, true);
+
+    expect(await read('src/app.module.ts')).toBe(first.after);
+    expect(result.changes[0].transformations).toEqual([first]);
+    expect(first.status).toBe(TransformationStatus.APPLIED);
+    expect(second.status).toBe(TransformationStatus.FAILED);
+    expect(second.errors?.[0]).toContain('Conflit avec une transformation précédente (ligne');
+  });
+
+  it('supprime un fichier et en crée un autre', async () => {
+    const removal = createTransformation(original, '', { deleteFile: true });
+    const creation = createTransformation('', '{ "version": 1 }\n', { targetPath: 'angular.json' });
+    const project = await createProject([
+      { path: 'src/app.module.ts', content: original, transformations: [removal] },
+      { path: '.angular-cli.json', content: '{}', transformations: [creation] }
+    ]);
+
+    const result = await new ChangeSetApplier().apply(project, true);
+
+    expect(result.writtenFiles).toEqual([path.normalize('src/app.module.ts'), 'angular.json']);
+    expect(await fs.pathExists(path.join(projectPath, 'src/app.module.ts'))).toBe(false);
+    expect(await read('angular.json')).toBe('{ "version": 1 }\n');
+    expect(await read('.angular-cli.json')).toBe('{}');
+  });
+
+  it('laisse le fichier intact si son écriture échoue', async () => {
+    const transformation = createTransformation(original, original.replace('@NgModule({})', '@NgModule({ imports: [] })'));
+    const project = await createProject([{ path: 'src/app.module.ts', content: original, transformations: [transformation] }]);
+    jest.requireMock('fs-extra').rename.mockRejectedValueOnce(new Error('disque plein'));
+
+    const result = await new ChangeSetApplier().apply(project, true);
+
+    expect(result.writtenFiles).toEqual([]);
+    expect(result.failedFiles).toEqual([path.normalize('src/app.module.ts')]);
+    expect(await read('src/app.module.ts')).toBe(original);
+    expect(await fs.readdir(path.join(projectPath, 'src'))).toEqual(['app.module.ts']);
+    expect(transformation.status).toBe(TransformationStatus.FAILED);
+    expect(transformation.errors).toEqual(['Écriture impossible: disque plein']);
+  });
+});
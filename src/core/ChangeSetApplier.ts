@@ -0,0 +1,237 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { AngularProject, AnalyzedFile, IdempotencyResult, Transformation, TransformationStatus, TypeCheckResult } from '../types';
+import { DiffUtils } from '../utils/DiffUtils';
+import { BackupStore, BackupManifest } from './BackupStore';
+import { Logger } from '../utils/Logger';
+
+/**
+ * Modifications cumulées d'un fichier du projet
+ */
+export interface FileChange {
+  /** Chemin relatif à la racine du projet */
+  path: string;
+  /** Contenu avant migration (null si le fichier n'existait pas) */
+  originalContent: string | null;
+  /** Contenu après application de toutes les transformations */
+  content: string;
+  /** Le fichier est supprimé */
+  deleted: boolean;
+  /** Transformations appliquées, dans l'ordre */
+  transformations: Transformation[];
+}
+
+/**
+ * Résultat de l'application d'un jeu de modifications
+ */
+export interface ChangeSetResult {
+  /** Modifications par fichier */
+  changes: FileChange[];
+  /** Fichiers réellement écrits ou supprimés */
+  writtenFiles: string[];
+  /** Fichiers dont l'écriture a échoué */
+  failedFiles: string[];
+  /** Snapshot des fichiers avant écriture */
+  backup?: BackupManifest;
+  /** Vérification de types effectuée avant l'application */
+  typeCheck?: TypeCheckResult;
+  /** Vérification d'idempotence effectuée avant l'application */
+  idempotency?: IdempotencyResult;
+}
+
+/**
+ * Applique les transformations en attente sur le disque
+ * Chaîne les transformations d'un même fichier et détecte les éditions conflictuelles
+ */
+export class ChangeSetApplier {
+  private logger: Logger;
+  private backupStore: BackupStore;
+
+  constructor() {
+    this.logger = new Logger();
+    this.backupStore = new BackupStore();
+  }
+
+  /**
+   * Construit le jeu de modifications puis l'écrit si `write` est vrai
+   * Sans écriture, les transformations restent en attente (seuls les conflits sont marqués en échec)
+   * Avec `backupName`, les fichiers sur le point de changer sont sauvegardés avant toute écriture
+   */
+  async apply(project: AngularProject, write: boolean, backupName?: string): Promise<ChangeSetResult> {
+    const changes = await this.buildChangeSet(project);
+    const result: ChangeSetResult = { changes, writtenFiles: [], failedFiles: [] };
+
+    if (!write) {
+      return result;
+    }
+
+    const modified = changes.filter(change => this.isModified(change));
+    if (backupName && modified.length > 0) {
+      result.backup = await this.backupStore.snapshot(project.path, modified.map(change => change.path), backupName);
+    }
+
+    for (const change of changes) {
+      try {
+        if (this.isModified(change)) {
+          await this.writeChange(project, change);
+          result.writtenFiles.push(change.path);
+        }
+        change.transformations.forEach(transformation => {
+          transformation.status = TransformationStatus.APPLIED;
+        });
+      } catch (error) {
+        this.logger.error(`Erreur lors de l'écriture de ${change.path}: ${error.message}`);
+        result.failedFiles.push(change.path);
+        change.transformations.forEach(transformation =>
+          this.fail(transformation, `Écriture impossible: ${error.message}`)
+        );
+      }
+    }
+
+    this.logger.info(`💾 ${result.writtenFiles.length} fichier(s) écrit(s)`);
+    return result;
+  }
+
+  /**
+   * Chaîne les transformations en attente de chaque fichier, dans l'ordre du projet
+   * Avec `excluded`, simule le jeu de modifications sans ces transformations: aucun statut n'est modifié
+   */
+  async buildChangeSet(project: AngularProject, excluded?: Set<Transformation>): Promise<FileChange[]> {
+    const changes = new Map<string, FileChange>();
+    const record = excluded === undefined;
+
+    for (const file of project.files) {
+      for (const transformation of file.transformations) {
+        if (transformation.status !== TransformationStatus.PENDING || excluded?.has(transformation)) {
+          continue;
+        }
+
+        const filePath = path.normalize(transformation.targetPath || file.path);
+        let change = changes.get(filePath);
+        if (!change) {
+          change = await this.createChange(project, filePath, file);
+          changes.set(filePath, change);
+        }
+
+        if (change.deleted) {
+          if (record) {
+            this.fail(transformation, `${filePath} a déjà été supprimé par une transformation précédente`);
+          }
+          continue;
+        }
+
+        const content = this.chain(change.content, transformation, record);
+        if (content === null) {
+          continue;
+        }
+
+        change.content = content;
+        change.deleted = transformation.deleteFile === true;
+        change.transformations.push(transformation);
+      }
+    }
+
+    return Array.from(changes.values());
+  }
+
+  /**
+   * Applique une transformation au contenu courant du fichier
+   * Rejoue le diff `before` → `after` lorsque le fichier a déjà été modifié par ailleurs
+   * Un conflit marque la transformation en échec si `record` est vrai, sinon elle est seulement ignorée
+   */
+  private chain(current: string, transformation: Transformation, record: boolean): string | null {
+    if (transformation.before === current) {
+      return transformation.after;
+    }
+
+    const merge = DiffUtils.merge(transformation.before, current, transformation.after);
+    if (merge.conflicts.length > 0) {
+      if (!record) {
+        return null;
+      }
+      const ranges = merge.conflicts.map(conflict =>
+        conflict.end > conflict.start + 1 ? `${conflict.start + 1}-${conflict.end}` : `${conflict.start + 1}`
+      );
+      this.fail(transformation, `Conflit avec une transformation précédente (lignes ${ranges.join(', ')})`);
+      return null;
+    }
+
+    return merge.content;
+  }
+
+  /**
+   * Initialise les modifications d'un fichier à partir de son contenu actuel
+   */
+  private async createChange(project: AngularProject, filePath: string, source: AnalyzedFile): Promise<FileChange> {
+    const projectFile = path.normalize(source.path) === filePath
+      ? source
+      : project.files.find(f => path.normalize(f.path) === filePath);
+
+    let originalContent: string | null = projectFile ? projectFile.content : null;
+    if (originalContent === null) {
+      const absolutePath = path.join(project.path, filePath);
+      if (await fs.pathExists(absolutePath)) {
+        originalContent = await fs.readFile(absolutePath, 'utf8');
+      }
+    }
+
+    return {
+      path: filePath,
+      originalContent,
+      content: originalContent ?? '',
+      deleted: false,
+      transformations: []
+    };
+  }
+
+  /**
+   * Indique si le fichier diffère de son état initial
+   */
+  private isModified(change: FileChange): boolean {
+    if (change.deleted) {
+      return change.originalContent !== null;
+    }
+    return change.content !== change.originalContent;
+  }
+
+  /**
+   * Écrit ou supprime un fichier
+   */
+  private async writeChange(project: AngularProject, change: FileChange): Promise<void> {
+    const absolutePath = path.join(project.path, change.path);
+
+    if (change.deleted) {
+      await fs.remove(absolutePath);
+      return;
+    }
+
+    await this.writeAtomically(absolutePath, change.content);
+  }
+
+  /**
+   * Écrit dans un fichier temporaire du même répertoire puis le renomme
+   * Un fichier n'est jamais laissé à moitié écrit en cas d'interruption
+   */
+  private async writeAtomically(filePath: string, content: string): Promise<void> {
+    const directory = path.dirname(filePath);
+    const tempPath = path.join(directory, `.${path.basename(filePath)}.${process.pid}.${Date.now()}.tmp`);
+
+    await fs.ensureDir(directory);
+    try {
+      await fs.writeFile(tempPath, content, 'utf8');
+      await fs.rename(tempPath, filePath);
+    } catch (error) {
+      await fs.remove(tempPath).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * Marque une transformation en échec
+   */
+  fail(transformation: Transformation, message: string): void {
+    transformation.status = TransformationStatus.FAILED;
+    transformation.errors = [...(transformation.errors || []), message];
+    this.logger.warn(message);
+  }
+}
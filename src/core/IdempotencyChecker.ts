@@ -0,0 +1,119 @@
+import * as path from 'path';
+import {
+  AngularProject,
+  IdempotencyResult,
+  IdempotencyViolation,
+  MigrationMode,
+  MigrationOptions,
+  Transformation,
+  TransformationStatus
+} from '../types';
+import { ModernizationTransformer } from '../transformers/ModernizationTransformer';
+import { ChangeSetApplier } from './ChangeSetApplier';
+import { Logger } from '../utils/Logger';
+
+/**
+ * Vérification d'idempotence des règles de transformation
+ * Les fichiers transformés sont retransformés tels qu'ils seraient écrits: toute modification produite
+ * par cette seconde exécution désigne une règle non idempotente (elle s'appliquerait à nouveau à chaque migration)
+ */
+export class IdempotencyChecker {
+  private logger: Logger;
+  private transformer: ModernizationTransformer;
+  private changeSetApplier: ChangeSetApplier;
+
+  constructor(transformer: ModernizationTransformer, changeSetApplier: ChangeSetApplier = new ChangeSetApplier()) {
+    this.logger = new Logger();
+    this.transformer = transformer;
+    this.changeSetApplier = changeSetApplier;
+  }
+
+  /**
+   * Retransforme les fichiers modifiés par les transformations en attente
+   * En mode migrate, sans `force`, les transformations des règles non idempotentes sont refusées (marquées en échec)
+   * Retourne null si aucun fichier du projet n'est modifié
+   */
+  async check(project: AngularProject, options: MigrationOptions): Promise<IdempotencyResult | null> {
+    const changes = await this.changeSetApplier.buildChangeSet(project, new Set());
+    const contents = new Map(changes.map(change => [change.path, change]));
+    const modified = project.files.filter(file => {
+      const change = contents.get(path.normalize(file.path));
+      return change !== undefined && !change.deleted && change.content !== file.content;
+    });
+    if (modified.length === 0) {
+      return null;
+    }
+
+    this.logger.info('🔁 Vérification d\'idempotence des transformations...');
+
+    // Projet tel qu'il serait après écriture, pour les règles qui lisent d'autres fichiers
+    const transformed: AngularProject = {
+      ...project,
+      files: project.files
+        .filter(file => !contents.get(path.normalize(file.path))?.deleted)
+        .map(file => ({
+          path: file.path,
+          type: file.type,
+          content: contents.get(path.normalize(file.path))?.content ?? file.content,
+          issues: [],
+          transformations: []
+        }))
+    };
+
+    const violations: IdempotencyViolation[] = [];
+    for (const file of transformed.files.filter(f => modified.some(m => m.path === f.path))) {
+      const transformations = await this.transformer.transformFile(file, options, transformed);
+      transformations
+        .filter(transformation => this.changesContent(transformation))
+        .forEach(transformation => violations.push({
+          rule: transformation.rule || transformation.type,
+          file: file.path,
+          description: transformation.description
+        }));
+    }
+
+    const rules = Array.from(new Set(violations.map(violation => violation.rule)));
+    const refuse = options.mode === MigrationMode.MIGRATE && !options.force;
+    const result: IdempotencyResult = { checkedFiles: modified.length, violations, refusedRules: refuse ? rules : [] };
+
+    if (rules.length === 0) {
+      this.logger.success(`🔁 ${modified.length} fichier(s) vérifié(s), toutes les règles sont idempotentes`);
+      return result;
+    }
+
+    for (const rule of rules) {
+      const ruleViolations = violations.filter(violation => violation.rule === rule);
+      this.logger.warn(`🔁 Règle non idempotente ${rule}: ${ruleViolations.map(v => `${v.file} (${v.description})`).join(', ')}`);
+    }
+
+    if (refuse) {
+      this.refuse(project, violations);
+      this.logger.warn(`🔁 ${rules.length} règle(s) non idempotente(s) refusée(s), utiliser --force pour les appliquer`);
+    }
+    return result;
+  }
+
+  /**
+   * Marque en échec les transformations en attente des règles non idempotentes
+   */
+  private refuse(project: AngularProject, violations: IdempotencyViolation[]): void {
+    for (const file of project.files) {
+      for (const transformation of file.transformations) {
+        const violation = violations.find(v => v.rule === transformation.rule);
+        if (violation && transformation.status === TransformationStatus.PENDING) {
+          this.changeSetApplier.fail(
+            transformation,
+            `Règle non idempotente ${violation.rule}: une seconde exécution produit encore « ${violation.description} » dans ${violation.file}`
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Indique si la transformation modifie réellement le projet
+   */
+  private changesContent(transformation: Transformation): boolean {
+    return transformation.deleteFile === true || transformation.targetPath !== undefined || transformation.after !== transformation.before;
+  }
+}
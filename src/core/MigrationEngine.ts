@@ -1,11 +1,23 @@
 import * as fs from 'fs-extra';
 import * as path from 'path';
 import * as chalk from 'chalk';
-import { AngularProject, MigrationOptions, MigrationReport, FileType, MigrationMode } from '../types';
+import { AnalyzedFile, AngularProject, MigrationOptions, MigrationReport, FileType, MigrationMode } from '../types';
 import { ProjectAnalyzer } from '../analyzers/ProjectAnalyzer';
 import { Angular5Analyzer } from '../analyzers/Angular5Analyzer';
 import { ModernizationTransformer } from '../transformers/ModernizationTransformer';
 import { ReportGenerator } from '../utils/ReportGenerator';
+import { PatchGenerator } from '../utils/PatchGenerator';
+import { ProfileGenerator } from '../utils/ProfileGenerator';
+import { ChangeSetApplier, ChangeSetResult } from './ChangeSetApplier';
+import { ChangeReviewer } from './ChangeReviewer';
+import { BackupStore } from './BackupStore';
+import { AnalysisCache } from './AnalysisCache';
+import { WorkerPool } from './WorkerPool';
+import { TypeCheckValidator } from './TypeCheckValidator';
+import { IdempotencyChecker } from './IdempotencyChecker';
+import { FEATURE_VERSIONS, MigrationPhases } from '../config/MigrationPhases';
+import { PluginRegistry } from '../plugins/PluginRegistry';
+import { PluginLoader } from '../plugins/PluginLoader';
 import { Logger } from '../utils/Logger';
 
 /**
@@ -18,13 +30,34 @@ export class MigrationEngine {
   private angular5Analyzer: Angular5Analyzer;
   private transformer: ModernizationTransformer;
   private reportGenerator: ReportGenerator;
+  private changeSetApplier: ChangeSetApplier;
+  private typeCheckValidator: TypeCheckValidator;
+  private idempotencyChecker: IdempotencyChecker;
+  private patchGenerator: PatchGenerator;
+  private profileGenerator: ProfileGenerator;
+  private changeReviewer: ChangeReviewer;
+  private backupStore: BackupStore;
+  private analysisCache: AnalysisCache;
+  private workerPool: WorkerPool | null = null;
+  private pluginRegistry: PluginRegistry;
+  private pluginLoader: PluginLoader;
 
   constructor() {
     this.logger = new Logger();
     this.projectAnalyzer = new ProjectAnalyzer();
-    this.angular5Analyzer = new Angular5Analyzer();
-    this.transformer = new ModernizationTransformer();
+    this.pluginRegistry = new PluginRegistry();
+    this.pluginLoader = new PluginLoader();
+    this.angular5Analyzer = new Angular5Analyzer(this.pluginRegistry);
+    this.transformer = new ModernizationTransformer(this.pluginRegistry);
     this.reportGenerator = new ReportGenerator();
+    this.changeSetApplier = new ChangeSetApplier();
+    this.typeCheckValidator = new TypeCheckValidator(this.changeSetApplier);
+    this.idempotencyChecker = new IdempotencyChecker(this.transformer, this.changeSetApplier);
+    this.patchGenerator = new PatchGenerator();
+    this.profileGenerator = new ProfileGenerator();
+    this.changeReviewer = new ChangeReviewer();
+    this.backupStore = new BackupStore();
+    this.analysisCache = new AnalysisCache();
   }
 
   /**
@@ -40,19 +73,29 @@ export class MigrationEngine {
       this.logger.info('📋 Analyse du projet...');
       const project = await this.analyzeProject(projectPath, options);
       
+      // Règles des plugins du projet, en plus des règles intégrées
+      await this.loadPlugins(project, options);
+      await this.analysisCache.open(project, options, this.pluginRegistry.getSignature());
+      if ((options.concurrency || 1) > 1) {
+        this.workerPool = new WorkerPool(project, options, options.concurrency!);
+      }
+
       // 2. Détection des patterns Angular 5
       this.logger.info('🔍 Détection des patterns Angular 5...');
-      await this.detectAngular5Patterns(project);
+      await this.detectAngular5Patterns(project, options);
       
       // 3. Application des transformations
+      let changeSet: ChangeSetResult | null = null;
       if (options.mode !== MigrationMode.ANALYZE) {
         this.logger.info('⚡ Application des transformations...');
-        await this.applyTransformations(project, options);
+        changeSet = await this.applyTransformations(project, options);
       }
+      // Résultats réutilisés à la prochaine exécution pour les fichiers inchangés
+      await this.analysisCache.save(project);
       
       // 4. Génération du rapport
       this.logger.info('📊 Génération du rapport...');
-      const report = await this.generateReport(project, options, startTime);
+      const report = await this.generateReport(project, options, startTime, changeSet);
       
       this.logger.success(`✅ Migration terminée en ${Date.now() - startTime}ms`);
       return report;
@@ -60,6 +103,9 @@ export class MigrationEngine {
     } catch (error) {
       this.logger.error(`❌ Erreur lors de la migration: ${error.message}`);
       throw error;
+    } finally {
+      await this.workerPool?.terminate();
+      this.workerPool = null;
     }
   }
 
@@ -70,13 +116,18 @@ export class MigrationEngine {
     try {
       const project = await this.projectAnalyzer.analyze(projectPath);
       
-      // Validation de la version Angular
-      if (!this.isAngular5Project(project)) {
-        throw new Error(`Ce projet n'est pas un projet Angular 5. Version détectée: ${project.currentVersion}`);
+      // Validation de la version Angular: toute version à partir d'Angular 5
+      if (!MigrationPhases.isSupported(project.currentVersion)) {
+        throw new Error(`Version Angular non prise en charge: ${project.currentVersion} (Angular 5 minimum)`);
       }
       
       this.logger.info(`📦 Projet Angular ${project.currentVersion} détecté`);
+      project.targetVersion = MigrationPhases.resolveTarget(project.currentVersion, options.targetVersion);
       this.logger.info(`🎯 Migration vers Angular ${project.targetVersion}`);
+      project.phases = MigrationPhases.remaining(project.currentVersion, project.targetVersion);
+      this.logger.info(project.phases.length > 0
+        ? `🧭 Phases restantes: ${project.phases.map(phase => phase.name).join(', ')}`
+        : '🧭 Aucune phase restante: seules les règles de modernisation s\'appliquent');
       
       return project;
     } catch (error) {
@@ -85,42 +136,109 @@ export class MigrationEngine {
     }
   }
 
+  /**
+   * Enregistre les plugins déclarés par le projet (configuration et options)
+   */
+  private async loadPlugins(project: AngularProject, options: MigrationOptions): Promise<void> {
+    this.pluginRegistry.clearExternal();
+    for (const plugin of await this.pluginLoader.load(project.path, options.plugins)) {
+      this.pluginRegistry.register(plugin);
+    }
+  }
+
   /**
    * Détecte les patterns spécifiques à Angular 5
    */
-  private async detectAngular5Patterns(project: AngularProject): Promise<void> {
-    for (const file of project.files) {
+  private async detectAngular5Patterns(project: AngularProject, options: MigrationOptions): Promise<void> {
+    const results = await this.processFiles(project.files, async file => {
       try {
-        const issues = await this.angular5Analyzer.analyzeFile(file);
-        file.issues.push(...issues);
-        
-        if (issues.length > 0) {
-          this.logger.info(`🔍 ${issues.length} issue(s) détectée(s) dans ${file.path}`);
-        }
+        const crossFile = this.pluginRegistry.isCrossFile(file, { project, options }, 'analysis');
+        return await this.analysisCache.resolve('analysis', file, crossFile, async () => this.workerPool
+          ? this.workerPool.run('analysis', file)
+          : { issues: await this.angular5Analyzer.analyzeFile(file, project, options) });
       } catch (error) {
         this.logger.warn(`Erreur lors de l'analyse de ${file.path}: ${error.message}`);
+        return null;
       }
-    }
+    });
+
+    project.files.forEach((file, index) => {
+      const issues = results[index]?.issues || [];
+      file.issues.push(...issues);
+
+      if (issues.length > 0) {
+        this.logger.info(`🔍 ${issues.length} issue(s) détectée(s) dans ${file.path}`);
+      }
+    });
   }
 
   /**
    * Applique les transformations de modernisation
+   * Les fichiers ne sont écrits qu'en mode migration avec application automatique
    */
-  private async applyTransformations(project: AngularProject, options: MigrationOptions): Promise<void> {
-    for (const file of project.files) {
-      if (this.shouldProcessFile(file, options)) {
-        try {
-          const transformations = await this.transformer.transformFile(file, options);
-          file.transformations.push(...transformations);
-          
-          if (transformations.length > 0) {
-            this.logger.info(`⚡ ${transformations.length} transformation(s) appliquée(s) à ${file.path}`);
-          }
-        } catch (error) {
-          this.logger.error(`Erreur lors de la transformation de ${file.path}: ${error.message}`);
-        }
+  private async applyTransformations(project: AngularProject, options: MigrationOptions): Promise<ChangeSetResult> {
+    const files = project.files.filter(file => this.shouldProcessFile(file, options));
+    const results = await this.processFiles(files, async file => {
+      try {
+        const crossFile = this.pluginRegistry.isCrossFile(file, { project, options }, 'transformation');
+        return await this.analysisCache.resolve('transformation', file, crossFile, async () => this.workerPool
+          ? this.workerPool.run('transformation', file)
+          : { transformations: await this.transformer.transformFile(file, options, project) });
+      } catch (error) {
+        this.logger.error(`Erreur lors de la transformation de ${file.path}: ${error.message}`);
+        return null;
+      }
+    });
+
+    files.forEach((file, index) => {
+      const transformations = results[index]?.transformations || [];
+      file.transformations.push(...transformations);
+      transformations.forEach(transformation => file.issues.push(...(transformation.issues || [])));
+
+      if (transformations.length > 0) {
+        this.logger.info(`⚡ ${transformations.length} transformation(s) appliquée(s) à ${file.path}`);
       }
+    });
+
+    // Règles qui modifieraient encore leur propre résultat: refusées en mode migrate sauf `force`
+    const idempotencyCheck = options.idempotencyCheck ?? options.mode === MigrationMode.MIGRATE;
+    const idempotency = idempotencyCheck ? await this.idempotencyChecker.check(project, options) : null;
+
+    if (options.interactive) {
+      await this.changeReviewer.review(project);
     }
+
+    // Les transformations qui introduisent des erreurs de compilation sont annulées avant écriture
+    const typeCheck = options.typeCheck !== false ? await this.typeCheckValidator.validate(project) : null;
+
+    const write = options.mode === MigrationMode.MIGRATE && options.autoApply;
+    const backupName = options.backup ? options.backupName || 'pre-migration' : undefined;
+    const changeSet = await this.changeSetApplier.apply(project, write, backupName);
+    changeSet.typeCheck = typeCheck || undefined;
+    changeSet.idempotency = idempotency || undefined;
+
+    // Rétention des sauvegardes définie dans la configuration du projet
+    const retention = options.config?.rollback?.retention;
+    if (changeSet.backup && retention) {
+      await this.backupStore.prune(project.path, retention);
+    }
+    return changeSet;
+  }
+
+  /**
+   * Traite les fichiers dans le pool de workers, ou un par un dans le processus
+   * (les durées mesurées par règle ne se chevauchent pas). Les résultats suivent l'ordre des fichiers
+   */
+  private async processFiles<T>(files: AnalyzedFile[], task: (file: AnalyzedFile) => Promise<T>): Promise<T[]> {
+    if (this.workerPool) {
+      return Promise.all(files.map(task));
+    }
+
+    const results: T[] = [];
+    for (const file of files) {
+      results.push(await task(file));
+    }
+    return results;
   }
 
   /**
@@ -129,25 +247,37 @@ export class MigrationEngine {
   private async generateReport(
     project: AngularProject, 
     options: MigrationOptions, 
-    startTime: number
+    startTime: number,
+    changeSet: ChangeSetResult | null
   ): Promise<MigrationReport> {
     const executionTime = Date.now() - startTime;
     
     const report: MigrationReport = {
       project,
       options,
-      summary: this.calculateSummary(project),
+      summary: this.calculateSummary(project, changeSet),
       fileDetails: project.files.map(file => ({
         file,
         issues: file.issues,
         transformations: file.transformations,
-        processingTime: 0 // TODO: Implémenter le tracking du temps
+        processingTime: (file.timings || []).reduce((sum, timing) => sum + timing.duration, 0)
       })),
-      errors: [],
+      errors: (changeSet?.typeCheck?.unresolved || []).map(message => `Erreur de compilation non attribuée: ${message}`),
       recommendations: this.generateRecommendations(project),
-      executionTime
+      executionTime,
+      cache: this.analysisCache.getStats(),
+      typeCheck: changeSet?.typeCheck,
+      idempotency: changeSet?.idempotency
     };
 
+    if (options.mode === MigrationMode.DRY_RUN && changeSet) {
+      report.dryRun = await this.patchGenerator.generate(project.path, changeSet.changes);
+    }
+
+    if (options.profile) {
+      report.profilePath = await this.profileGenerator.generate(report, typeof options.profile === 'string' ? options.profile : undefined);
+    }
+
     if (options.generateReport) {
       await this.reportGenerator.generateReport(report);
     }
@@ -155,14 +285,6 @@ export class MigrationEngine {
     return report;
   }
 
-  /**
-   * Vérifie si le projet est bien un projet Angular 5
-   */
-  private isAngular5Project(project: AngularProject): boolean {
-    const version = project.currentVersion;
-    return version.startsWith('5.') || version === '5.0.0';
-  }
-
   /**
    * Détermine si un fichier doit être traité
    */
@@ -183,9 +305,9 @@ export class MigrationEngine {
   /**
    * Calcule le résumé de la migration
    */
-  private calculateSummary(project: AngularProject) {
+  private calculateSummary(project: AngularProject, changeSet: ChangeSetResult | null) {
     const totalFiles = project.files.length;
-    const modifiedFiles = project.files.filter(f => f.transformations.length > 0).length;
+    const modifiedFiles = changeSet ? changeSet.writtenFiles.length : 0;
     const totalIssues = project.files.reduce((sum, f) => sum + f.issues.length, 0);
     const appliedTransformations = project.files.reduce(
       (sum, f) => sum + f.transformations.filter(t => t.status === 'applied').length, 
@@ -195,13 +317,16 @@ export class MigrationEngine {
       (sum, f) => sum + f.transformations.filter(t => t.status === 'failed').length, 
       0
     );
+    const suppressions = project.files.flatMap(f => f.suppressions || []);
 
     return {
       totalFiles,
       modifiedFiles,
       totalIssues,
       appliedTransformations,
-      failedTransformations
+      failedTransformations,
+      suppressedIssues: suppressions.filter(s => s.kind === 'issue').length,
+      suppressedTransformations: suppressions.filter(s => s.kind === 'transformation').length
     };
   }
 
@@ -212,24 +337,32 @@ export class MigrationEngine {
     const recommendations: string[] = [];
     
     // Recommandations basées sur les issues détectées
+    // Seules les modernisations disponibles dans la version cible sont recommandées
+    const targetMajor = MigrationPhases.targetMajor(project);
     const hasNgModules = project.files.some(f => f.type === FileType.MODULE);
-    if (hasNgModules) {
+    if (hasNgModules && targetMajor >= FEATURE_VERSIONS.standalone) {
       recommendations.push('Considérez la migration vers les composants standalone pour simplifier l\'architecture');
     }
     
     const hasOldControlFlow = project.files.some(f => 
       f.content.includes('*ngIf') || f.content.includes('*ngFor')
     );
-    if (hasOldControlFlow) {
+    if (hasOldControlFlow && targetMajor >= FEATURE_VERSIONS.controlFlow) {
       recommendations.push('Migrez vers le nouveau contrôle de flux (@if, @for) pour de meilleures performances');
     }
     
     const hasUntypedForms = project.files.some(f => 
       f.content.includes('FormGroup') && !f.content.includes('FormGroup<')
     );
-    if (hasUntypedForms) {
+    if (hasUntypedForms && targetMajor >= FEATURE_VERSIONS.typedForms) {
       recommendations.push('Ajoutez des types stricts aux formulaires réactifs pour une meilleure sécurité de type');
     }
+
+    // Cible intermédiaire: phases restant à franchir pour atteindre la dernière version
+    const nextPhases = MigrationPhases.remaining(project.targetVersion);
+    if (nextPhases.length > 0) {
+      recommendations.push(`Angular ${targetMajor} atteint: ${nextPhases.length} phase(s) restante(s) jusqu'à Angular ${MigrationPhases.latestVersion()} (${nextPhases.map(phase => phase.name).join(', ')})`);
+    }
     
     return recommendations;
   }
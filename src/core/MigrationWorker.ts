@@ -0,0 +1,42 @@
+import { parentPort, workerData } from 'worker_threads';
+import { Angular5Analyzer } from '../analyzers/Angular5Analyzer';
+import { ModernizationTransformer } from '../transformers/ModernizationTransformer';
+import { PluginRegistry } from '../plugins/PluginRegistry';
+import { PluginLoader } from '../plugins/PluginLoader';
+import { WorkerInit, WorkerResponse, WorkerResult, WorkerTask } from './WorkerPool';
+
+/**
+ * Point d'entrée d'un worker du pool (voir WorkerPool)
+ * Analyse ou transforme les fichiers demandés avec les mêmes règles que le processus principal
+ */
+const { project, options } = workerData as WorkerInit;
+const registry = new PluginRegistry();
+const analyzer = new Angular5Analyzer(registry);
+const transformer = new ModernizationTransformer(registry);
+
+// Plugins du projet, chargés une seule fois par worker
+const ready = new PluginLoader().load(project.path, options.plugins).then(plugins => {
+  plugins.forEach(plugin => registry.register(plugin));
+});
+
+parentPort!.on('message', async (task: WorkerTask) => {
+  const file = project.files[task.fileIndex];
+  let response: WorkerResponse;
+
+  try {
+    await ready;
+    const suppressionCount = file.suppressions?.length || 0;
+    const timingCount = file.timings?.length || 0;
+    const result: WorkerResult = task.phase === 'analysis'
+      ? { issues: await analyzer.analyzeFile(file, project, options) }
+      : { transformations: await transformer.transformFile(file, options, project) };
+
+    result.suppressions = (file.suppressions || []).slice(suppressionCount);
+    result.timings = (file.timings || []).slice(timingCount);
+    response = { id: task.id, result };
+  } catch (error) {
+    response = { id: task.id, error: error.message };
+  }
+
+  parentPort!.postMessage(response);
+});
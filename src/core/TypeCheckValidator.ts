@@ -0,0 +1,322 @@
+import * as path from 'path';
+import * as ts from 'typescript';
+import { AngularProject, Transformation, TypeCheckResult } from '../types';
+import { TsconfigUtils } from '../utils/TsconfigUtils';
+import { ChangeSetApplier, FileChange } from './ChangeSetApplier';
+import { Logger } from '../utils/Logger';
+
+/**
+ * tsconfig utilisé pour la vérification, par ordre de préférence (application puis racine)
+ */
+const TSCONFIG_CANDIDATES = ['src/tsconfig.app.json', 'tsconfig.app.json', 'tsconfig.json'];
+
+/**
+ * Nombre maximal de vérifications après annulation (une annulation peut en révéler d'autres)
+ */
+const MAX_ROUNDS = 3;
+
+/**
+ * Contenu des fichiers du projet par chemin relatif (null: fichier supprimé)
+ */
+type ProjectState = Map<string, string | null>;
+
+/**
+ * Erreur de compilation d'un fichier du projet
+ */
+interface CheckedDiagnostic {
+  /** Chemin relatif au projet */
+  file: string;
+  /** Identifiant indépendant de la position (fichier, code, message) */
+  key: string;
+  /** Message affiché: `fichier:ligne - TSxxxx: message` */
+  message: string;
+}
+
+/**
+ * Vérification de types du jeu de modifications, avant écriture, avec l'API du compilateur TypeScript
+ * Les erreurs absentes du code d'origine sont attribuées aux transformations qui les provoquent,
+ * qui sont alors annulées (marquées en échec avec les erreurs du compilateur)
+ */
+export class TypeCheckValidator {
+  private logger: Logger;
+  private changeSetApplier: ChangeSetApplier;
+  private sourceFiles = new Map<string, { content: string; sourceFile: ts.SourceFile }>();
+
+  constructor(changeSetApplier: ChangeSetApplier = new ChangeSetApplier()) {
+    this.logger = new Logger();
+    this.changeSetApplier = changeSetApplier;
+  }
+
+  /**
+   * Vérifie les transformations en attente du projet
+   * Retourne null si aucune ne touche de fichier TypeScript
+   */
+  async validate(project: AngularProject): Promise<TypeCheckResult | null> {
+    const changes = await this.changeSetApplier.buildChangeSet(project, new Set());
+    if (!changes.some(change => this.isTypeScript(change.path))) {
+      return null;
+    }
+
+    this.logger.info('🧪 Vérification de types des modifications...');
+    this.sourceFiles.clear();
+
+    const tsconfig = this.findTsconfig(project);
+    const compilerOptions = this.getCompilerOptions(project, tsconfig);
+    const baselineProgram = this.createProgram(project, this.createState(project, []), compilerOptions);
+    const baselineCounts = this.countKeys(this.getDiagnostics(project, baselineProgram));
+
+    const result: TypeCheckResult = { tsconfig, newDiagnostics: 0, revertedTransformations: 0, unresolved: [] };
+
+    try {
+      for (let round = 0; ; round++) {
+        const current = await this.changeSetApplier.buildChangeSet(project, new Set());
+        const program = this.createProgram(project, this.createState(project, current), compilerOptions, baselineProgram);
+        const introduced = this.subtract(this.getDiagnostics(project, program), baselineCounts);
+        if (round === 0) {
+          result.newDiagnostics = introduced.length;
+        }
+
+        if (introduced.length === 0 || round === MAX_ROUNDS) {
+          result.unresolved = introduced.map(diagnostic => diagnostic.message);
+          break;
+        }
+
+        const culprits = await this.attribute(project, current, introduced, baselineCounts, compilerOptions, baselineProgram);
+        if (culprits.size === 0) {
+          result.unresolved = introduced.map(diagnostic => diagnostic.message);
+          break;
+        }
+
+        for (const [transformation, diagnostics] of culprits) {
+          this.changeSetApplier.fail(
+            transformation,
+            `Erreur(s) de compilation introduite(s) par « ${transformation.description} »: ${diagnostics.map(d => d.message).join(' | ')}`
+          );
+          result.revertedTransformations++;
+        }
+      }
+    } catch (error) {
+      this.logger.error(`Erreur lors de la vérification de types: ${error.message}`);
+      result.unresolved.push(`Vérification de types interrompue: ${error.message}`);
+    }
+
+    if (result.newDiagnostics === 0) {
+      this.logger.success('🧪 Aucune erreur de compilation introduite');
+    } else {
+      this.logger.warn(`🧪 ${result.newDiagnostics} erreur(s) de compilation introduite(s), ${result.revertedTransformations} transformation(s) annulée(s)`);
+    }
+    result.unresolved.forEach(message => this.logger.warn(`Erreur de compilation non attribuée: ${message}`));
+
+    return result;
+  }
+
+  /**
+   * Attribue les erreurs introduites aux transformations
+   * Pour chaque fichier en erreur, annule tour à tour ses propres modifications puis celles des fichiers qu'il importe;
+   * dans le fichier en cause, chaque transformation est ensuite retirée seule pour trouver la responsable
+   */
+  private async attribute(
+    project: AngularProject,
+    changes: FileChange[],
+    introduced: CheckedDiagnostic[],
+    baselineCounts: Map<string, number>,
+    options: ts.CompilerOptions,
+    oldProgram: ts.Program
+  ): Promise<Map<Transformation, CheckedDiagnostic[]>> {
+    const culprits = new Map<Transformation, CheckedDiagnostic[]>();
+    const state = this.createState(project, changes);
+    const byFile = new Map<string, CheckedDiagnostic[]>();
+    introduced.forEach(diagnostic => byFile.set(diagnostic.file, [...(byFile.get(diagnostic.file) || []), diagnostic]));
+
+    const probe = async (excluded: Transformation[], file: string, diagnostics: CheckedDiagnostic[]) => {
+      const probeChanges = await this.changeSetApplier.buildChangeSet(project, new Set(excluded));
+      const probeState = this.createState(project, probeChanges);
+      if (probeState.get(file) === null || probeState.get(file) === undefined) {
+        return diagnostics;
+      }
+      const program = this.createProgram(project, probeState, options, oldProgram);
+      const remaining = this.subtract(this.getDiagnostics(project, program, file), baselineCounts);
+      return this.subtract(diagnostics, this.countKeys(remaining));
+    };
+
+    for (const [file, diagnostics] of byFile) {
+      let unexplained = diagnostics;
+
+      for (const change of this.findCandidates(file, changes, state)) {
+        if (unexplained.length === 0) {
+          break;
+        }
+
+        const explained = await probe(change.transformations, file, unexplained);
+        if (explained.length === 0) {
+          continue;
+        }
+
+        const blamed: Array<[Transformation, CheckedDiagnostic[]]> = [];
+        if (change.transformations.length > 1) {
+          for (const transformation of change.transformations) {
+            const own = await probe([transformation], file, explained);
+            if (own.length > 0) {
+              blamed.push([transformation, own]);
+            }
+          }
+        }
+        // Aucune transformation seule n'explique les erreurs: c'est leur combinaison qui est annulée
+        if (blamed.length === 0) {
+          change.transformations.forEach(transformation => blamed.push([transformation, explained]));
+        }
+
+        blamed.forEach(([transformation, own]) => culprits.set(transformation, [...(culprits.get(transformation) || []), ...own]));
+        unexplained = unexplained.filter(diagnostic => !explained.includes(diagnostic));
+      }
+    }
+
+    return culprits;
+  }
+
+  /**
+   * Modifications susceptibles de provoquer les erreurs d'un fichier: les siennes, puis celles des fichiers importés
+   */
+  private findCandidates(file: string, changes: FileChange[], state: ProjectState): FileChange[] {
+    const byPath = new Map(changes.map(change => [path.normalize(change.path), change]));
+    const candidates: FileChange[] = [];
+    const own = byPath.get(path.normalize(file));
+    if (own) {
+      candidates.push(own);
+    }
+
+    const content = state.get(file);
+    if (content) {
+      for (const { fileName } of ts.preProcessFile(content, true, true).importedFiles) {
+        if (!fileName.startsWith('.')) {
+          continue;
+        }
+        const base = path.normalize(path.join(path.dirname(file), fileName));
+        const imported = [base, `${base}.ts`, path.join(base, 'index.ts')]
+          .map(candidate => byPath.get(candidate))
+          .find(change => change !== undefined);
+        if (imported && !candidates.includes(imported)) {
+          candidates.push(imported);
+        }
+      }
+    }
+
+    return candidates.filter(change => change.transformations.length > 0);
+  }
+
+  /**
+   * Contenu des fichiers du projet après application des modifications
+   */
+  private createState(project: AngularProject, changes: FileChange[]): ProjectState {
+    const state: ProjectState = new Map(project.files.map(file => [path.normalize(file.path), file.content]));
+    for (const change of changes) {
+      state.set(path.normalize(change.path), change.deleted ? null : change.content);
+    }
+    return state;
+  }
+
+  /**
+   * Crée un programme TypeScript qui lit les fichiers du projet depuis l'état simulé
+   */
+  private createProgram(project: AngularProject, state: ProjectState, options: ts.CompilerOptions, oldProgram?: ts.Program): ts.Program {
+    const host = ts.createCompilerHost(options, true);
+    const getSourceFile = host.getSourceFile;
+    const relative = (fileName: string) => path.normalize(path.relative(project.path, fileName));
+    const stateOf = (fileName: string) => path.isAbsolute(fileName) ? state.get(relative(fileName)) : undefined;
+
+    host.fileExists = fileName => {
+      const content = stateOf(fileName);
+      return content !== undefined ? content !== null : ts.sys.fileExists(fileName);
+    };
+    host.readFile = fileName => {
+      const content = stateOf(fileName);
+      return content !== undefined ? content ?? undefined : ts.sys.readFile(fileName);
+    };
+    host.getSourceFile = (fileName, languageVersion, onError, shouldCreate) => {
+      const content = stateOf(fileName);
+      if (content === null) {
+        return undefined;
+      }
+
+      const cached = this.sourceFiles.get(fileName);
+      if (cached && (content === undefined || cached.content === content)) {
+        return cached.sourceFile;
+      }
+
+      const sourceFile = content !== undefined
+        ? ts.createSourceFile(fileName, content, languageVersion, true)
+        : getSourceFile.call(host, fileName, languageVersion, onError, shouldCreate);
+      if (sourceFile) {
+        this.sourceFiles.set(fileName, { content: sourceFile.text, sourceFile });
+      }
+      return sourceFile;
+    };
+
+    const rootNames = Array.from(state.entries())
+      .filter(([file, content]) => content !== null && this.isTypeScript(file))
+      .map(([file]) => path.resolve(project.path, file));
+
+    return ts.createProgram(rootNames, options, host, oldProgram);
+  }
+
+  /**
+   * Erreurs syntaxiques et sémantiques des fichiers du projet (ou d'un seul fichier)
+   */
+  private getDiagnostics(project: AngularProject, program: ts.Program, only?: string): CheckedDiagnostic[] {
+    return program.getSourceFiles()
+      .filter(sourceFile => !sourceFile.isDeclarationFile && !program.isSourceFileFromExternalLibrary(sourceFile))
+      .map(sourceFile => ({ sourceFile, file: path.normalize(path.relative(project.path, sourceFile.fileName)) }))
+      .filter(({ file }) => !file.startsWith('..') && (only === undefined || file === path.normalize(only)))
+      .flatMap(({ sourceFile, file }) => [...program.getSyntacticDiagnostics(sourceFile), ...program.getSemanticDiagnostics(sourceFile)]
+        .map(diagnostic => {
+          const text = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
+          const line = sourceFile.getLineAndCharacterOfPosition(diagnostic.start || 0).line + 1;
+          return { file, key: `${file}\0${diagnostic.code}\0${text}`, message: `${file}:${line} - TS${diagnostic.code}: ${text}` };
+        }));
+  }
+
+  /**
+   * Retire des diagnostics ceux déjà présents dans `counts` (comptés par identifiant)
+   */
+  private subtract(diagnostics: CheckedDiagnostic[], counts: Map<string, number>): CheckedDiagnostic[] {
+    const remaining = new Map(counts);
+    return diagnostics.filter(diagnostic => {
+      const count = remaining.get(diagnostic.key) || 0;
+      if (count > 0) {
+        remaining.set(diagnostic.key, count - 1);
+        return false;
+      }
+      return true;
+    });
+  }
+
+  private countKeys(diagnostics: CheckedDiagnostic[]): Map<string, number> {
+    const counts = new Map<string, number>();
+    diagnostics.forEach(diagnostic => counts.set(diagnostic.key, (counts.get(diagnostic.key) || 0) + 1));
+    return counts;
+  }
+
+  /**
+   * Choisit le tsconfig de l'application, à défaut celui de la racine
+   */
+  private findTsconfig(project: AngularProject): string | undefined {
+    return TSCONFIG_CANDIDATES.find(candidate =>
+      project.files.some(file => path.normalize(file.path) === path.normalize(candidate))
+    );
+  }
+
+  /**
+   * Options de compilation du tsconfig (chaîne `extends` résolue), sans émission
+   */
+  private getCompilerOptions(project: AngularProject, tsconfig: string | undefined): ts.CompilerOptions {
+    const file = tsconfig ? project.files.find(f => path.normalize(f.path) === path.normalize(tsconfig)) : undefined;
+    const json = file ? TsconfigUtils.mergeCompilerOptions(TsconfigUtils.resolveChain(file, project.files)) : {};
+    const { options } = ts.convertCompilerOptionsFromJson(json, project.path);
+
+    return { ...options, noEmit: true, skipLibCheck: true };
+  }
+
+  private isTypeScript(file: string): boolean {
+    return file.endsWith('.ts') && !file.endsWith('.d.ts');
+  }
+}
@@ -0,0 +1,202 @@
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+import { AnalyzedFile, AngularProject, MigrationOptions, RuleTiming } from '../types';
+import { CachedResult, CachePhase } from './AnalysisCache';
+import { Logger } from '../utils/Logger';
+
+/**
+ * Tâche envoyée à un worker: une étape pour un fichier du projet
+ */
+export interface WorkerTask {
+  id: number;
+  phase: CachePhase;
+  /** Index du fichier dans `project.files` */
+  fileIndex: number;
+}
+
+/**
+ * Résultat d'une tâche, avec les durées des règles mesurées dans le worker
+ */
+export type WorkerResult = Partial<CachedResult> & { timings?: RuleTiming[] };
+
+/**
+ * Réponse d'un worker
+ */
+export interface WorkerResponse {
+  id: number;
+  result?: WorkerResult;
+  error?: string;
+}
+
+/**
+ * Données transmises au démarrage d'un worker
+ */
+export interface WorkerInit {
+  project: AngularProject;
+  options: MigrationOptions;
+}
+
+interface PendingTask {
+  task: WorkerTask;
+  resolve: (result: WorkerResult) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  /** Tâche en cours */
+  current?: PendingTask;
+  /** Le worker a déjà répondu (il a démarré correctement) */
+  started: boolean;
+}
+
+/**
+ * Pool de workers (worker_threads) pour l'analyse et la transformation des fichiers
+ * Chaque worker reconstruit les règles (intégrées et plugins du projet) et reçoit une copie du projet
+ * Les workers sont démarrés à la première tâche, dans la limite de `concurrency`
+ */
+export class WorkerPool {
+  private logger: Logger;
+  private workers: PoolWorker[] = [];
+  private queue: PendingTask[] = [];
+  private nextId = 0;
+
+  constructor(private project: AngularProject, private options: MigrationOptions, private concurrency: number) {
+    this.logger = new Logger();
+  }
+
+  /**
+   * Exécute une étape pour un fichier dans un worker
+   * Les suppressions et durées relevées par le worker sont reportées sur le fichier
+   */
+  async run(phase: CachePhase, file: AnalyzedFile): Promise<WorkerResult> {
+    const fileIndex = this.project.files.indexOf(file);
+    if (fileIndex < 0) {
+      throw new Error(`Fichier absent du projet: ${file.path}`);
+    }
+
+    const result = await new Promise<WorkerResult>((resolve, reject) => {
+      this.queue.push({ task: { id: this.nextId++, phase, fileIndex }, resolve, reject });
+      this.dispatch();
+    });
+
+    if (result.suppressions && result.suppressions.length > 0) {
+      file.suppressions = [...(file.suppressions || []), ...result.suppressions];
+    }
+    if (result.timings && result.timings.length > 0) {
+      file.timings = [...(file.timings || []), ...result.timings];
+    }
+    return result;
+  }
+
+  /**
+   * Arrête les workers
+   */
+  async terminate(): Promise<void> {
+    const workers = this.workers;
+    this.workers = [];
+    await Promise.all(workers.map(entry => entry.worker.terminate()));
+  }
+
+  /**
+   * Attribue les tâches en attente aux workers libres, en démarrant des workers si nécessaire
+   */
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      let idle: PoolWorker | undefined;
+      try {
+        idle = this.workers.find(entry => !entry.current)
+          || (this.workers.length < this.concurrency ? this.spawn() : undefined);
+      } catch (error) {
+        this.queue.splice(0).forEach(pending => pending.reject(error as Error));
+        return;
+      }
+      if (!idle) {
+        return;
+      }
+
+      idle.current = this.queue.shift()!;
+      idle.worker.postMessage(idle.current.task);
+    }
+  }
+
+  /**
+   * Démarre un worker
+   */
+  private spawn(): PoolWorker {
+    const init: WorkerInit = {
+      // Seuls le contenu et le type des fichiers sont utiles aux règles
+      project: {
+        ...this.project,
+        files: this.project.files.map(file => ({
+          path: file.path, type: file.type, content: file.content, issues: [], transformations: []
+        }))
+      },
+      options: this.options
+    };
+
+    const extension = path.extname(__filename);
+    const worker = new Worker(path.join(__dirname, `MigrationWorker${extension}`), {
+      workerData: init,
+      // Exécuté avec ts-node, le worker doit lui aussi compiler le TypeScript à la volée
+      execArgv: extension === '.ts' ? [...process.execArgv, '--require', this.resolveTsNode()] : undefined
+    });
+    const entry: PoolWorker = { worker, started: false };
+
+    worker.on('message', (response: WorkerResponse) => {
+      entry.started = true;
+      const pending = entry.current;
+      entry.current = undefined;
+
+      if (pending) {
+        if (response.error) {
+          pending.reject(new Error(response.error));
+        } else {
+          pending.resolve(response.result || {});
+        }
+      }
+      this.dispatch();
+    });
+
+    worker.on('error', error => this.handleFailure(entry, error));
+
+    // Arrêt sans erreur (process.exit, mémoire épuisée...) : la tâche en cours n'aurait jamais de réponse
+    worker.on('exit', code => this.handleFailure(entry, new Error(`arrêt inattendu (code ${code})`)));
+
+    this.workers.push(entry);
+    this.logger.debug(`Worker de migration ${this.workers.length}/${this.concurrency} démarré`);
+    return entry;
+  }
+
+  /**
+   * Retire un worker arrêté du pool et rejette sa tâche en cours
+   * Sans effet si le worker a déjà été retiré (erreur suivie de l'arrêt, ou arrêt demandé par terminate)
+   */
+  private handleFailure(entry: PoolWorker, error: Error): void {
+    if (!this.workers.includes(entry)) {
+      return;
+    }
+
+    this.logger.error(`Worker de migration arrêté: ${error.message}`);
+    this.workers = this.workers.filter(other => other !== entry);
+    entry.current?.reject(error);
+    entry.current = undefined;
+
+    // Un worker qui échoue au démarrage échouerait de même pour les tâches suivantes
+    if (!entry.started) {
+      this.queue.splice(0).forEach(pending => pending.reject(error));
+    }
+    this.dispatch();
+  }
+
+  /**
+   * Résout ts-node/register, nécessaire aux workers lorsque l'outil est exécuté depuis ses sources
+   */
+  private resolveTsNode(): string {
+    try {
+      return require.resolve('ts-node/register');
+    } catch {
+      throw new Error('ts-node est requis pour exécuter les workers depuis les sources TypeScript (npm install --save-dev ts-node), ou utiliser la version compilée');
+    }
+  }
+}
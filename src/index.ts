@@ -2,10 +2,14 @@
 
 import * as commander from 'commander';
 import * as inquirer from 'inquirer';
+import * as os from 'os';
 import * as path from 'path';
 import { BackendAgnosticMigrationEngine } from './core/BackendAgnosticMigrationEngine';
+import { BackupStore } from './core/BackupStore';
+import { ConfigLoader } from './config/ConfigLoader';
 import { MigrationOptions, MigrationMode } from './types';
 import { Logger } from './utils/Logger';
+import { ReportGenerator } from './utils/ReportGenerator';
 
 /**
  * Point d'entrée principal de l'outil de migration Angular
@@ -24,13 +28,24 @@ program
   .command('migrate')
   .description('Migrer un projet Angular 5 vers Angular 20')
   .option('-p, --path <path>', 'Chemin vers le projet à migrer')
-  .option('-m, --mode <mode>', 'Mode de migration (analyze|migrate|dry-run)', 'analyze')
-  .option('-a, --auto-apply', 'Appliquer les transformations automatiquement', false)
-  .option('-b, --backup', 'Créer une sauvegarde avant migration', true)
-  .option('-v, --verbose', 'Mode verbeux', false)
-  .option('-r, --report', 'Générer un rapport détaillé', true)
+  .option('-m, --mode <mode>', 'Mode de migration (analyze|migrate|dry-run, défaut: analyze)')
+  .option('-a, --auto-apply', 'Appliquer les transformations automatiquement')
+  .option('--review', 'Revoir les modifications bloc par bloc avant application')
+  .option('-b, --backup', 'Créer une sauvegarde avant migration (défaut)')
+  .option('--no-backup', 'Ne pas sauvegarder les fichiers modifiés')
+  .option('-v, --verbose', 'Mode verbeux')
+  .option('-r, --report', 'Générer un rapport détaillé (défaut)')
   .option('-e, --exclude <patterns>', 'Patterns de fichiers à exclure (séparés par des virgules)')
   .option('-i, --include <patterns>', 'Patterns de fichiers à inclure uniquement (séparés par des virgules)')
+  .option('--plugins <modules>', 'Plugins de règles à charger en plus de migration.config.json (séparés par des virgules)')
+  .option('--no-cache', 'Ignorer le cache d\'analyse et réanalyser tous les fichiers')
+  .option('-j, --concurrency <workers>', 'Nombre de workers pour analyser les fichiers en parallèle (nombre ou auto)')
+  .option('--profile [file]', 'Écrire une trace des durées par fichier et par règle (format Chrome trace-event)')
+  .option('--no-type-check', 'Ne pas vérifier les types des fichiers transformés avant écriture')
+  .option('--check-idempotency', 'Réexécuter les transformations sur leur résultat, y compris en dry-run (défaut en mode migrate)')
+  .option('--force', 'Appliquer les règles non idempotentes au lieu de les refuser')
+  .option('--check-strict-flags', 'Compiler le projet avec chaque option stricte inactive pour compter ses erreurs (lent)')
+  .option('-t, --target <version>', 'Version Angular cible (majeure, ex: 12; défaut: dernière version prise en charge)')
   .action(async (options) => {
     try {
       await runMigration(options);
@@ -46,6 +61,11 @@ program
   .option('-p, --path <path>', 'Chemin vers le projet à analyser')
   .option('-v, --verbose', 'Mode verbeux', false)
   .option('-r, --report', 'Générer un rapport détaillé', true)
+  .option('--no-cache', 'Ignorer le cache d\'analyse et réanalyser tous les fichiers')
+  .option('-j, --concurrency <workers>', 'Nombre de workers pour analyser les fichiers en parallèle (nombre ou auto)')
+  .option('--profile [file]', 'Écrire une trace des durées par fichier et par règle (format Chrome trace-event)')
+  .option('--check-strict-flags', 'Compiler le projet avec chaque option stricte inactive pour compter ses erreurs (lent)')
+  .option('-t, --target <version>', 'Version Angular cible (majeure, ex: 12; défaut: dernière version prise en charge)')
   .action(async (options) => {
     try {
       const migrationOptions: MigrationOptions = {
@@ -69,9 +89,15 @@ program
   .command('batch')
   .description('Migrer plusieurs projets en lot')
   .option('-d, --directory <path>', 'Répertoire contenant les projets à migrer')
-  .option('-m, --mode <mode>', 'Mode de migration (analyze|migrate|dry-run)', 'analyze')
-  .option('-a, --auto-apply', 'Appliquer les transformations automatiquement', false)
-  .option('-v, --verbose', 'Mode verbeux', false)
+  .option('-m, --mode <mode>', 'Mode de migration (analyze|migrate|dry-run, défaut: analyze)')
+  .option('-a, --auto-apply', 'Appliquer les transformations automatiquement')
+  .option('-v, --verbose', 'Mode verbeux')
+  .option('--no-cache', 'Ignorer le cache d\'analyse et réanalyser tous les fichiers')
+  .option('-j, --concurrency <workers>', 'Nombre de workers pour analyser les fichiers en parallèle (nombre ou auto)')
+  .option('--no-type-check', 'Ne pas vérifier les types des fichiers transformés avant écriture')
+  .option('--check-idempotency', 'Réexécuter les transformations sur leur résultat, y compris en dry-run (défaut en mode migrate)')
+  .option('--force', 'Appliquer les règles non idempotentes au lieu de les refuser')
+  .option('-t, --target <version>', 'Version Angular cible (majeure, ex: 12; défaut: dernière version prise en charge)')
   .action(async (options) => {
     try {
       await runBatchMigration(options);
@@ -81,6 +107,20 @@ program
     }
   });
 
+program
+  .command('backup <action> [snapshot]')
+  .description('Gérer les sauvegardes de migration (list|restore|prune)')
+  .option('-p, --path <path>', 'Chemin vers le projet')
+  .option('--retention <retention>', 'Rétention pour prune (ex: 7days, 12h, 5)', '7days')
+  .action(async (action: string, snapshot: string | undefined, options: any) => {
+    try {
+      await runBackupCommand(action, snapshot, options);
+    } catch (error) {
+      logger.error(`Erreur lors de la gestion des sauvegardes: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
 program
   .command('interactive')
   .description('Mode interactif pour guider la migration')
@@ -106,17 +146,31 @@ async function runMigration(options: any): Promise<void> {
 
   logger.section('🚀 Migration Angular 5 → Angular 20');
   logger.info(`📁 Projet: ${projectPath}`);
-  logger.info(`🎯 Mode: ${options.mode}`);
 
-  const migrationOptions: MigrationOptions = {
-    mode: options.mode as MigrationMode,
+  // Les options de la ligne de commande priment sur migration.config.*, elle-même prioritaire sur les valeurs par défaut
+  const configLoader = new ConfigLoader();
+  const loaded = await configLoader.load(projectPath);
+  const migrationOptions = configLoader.mergeOptions(loaded?.config || null, {
+    mode: options.mode ? parseMode(options.mode) : undefined,
     backup: options.backup,
     autoApply: options.autoApply,
-    exclude: options.exclude ? options.exclude.split(',') : [],
-    include: options.include ? options.include.split(',') : [],
+    exclude: options.exclude?.length ? parsePatterns(options.exclude) : undefined,
+    include: options.include?.length ? parsePatterns(options.include) : undefined,
     verbose: options.verbose,
-    generateReport: options.report
-  };
+    generateReport: options.report,
+    interactive: options.review || options.interactive,
+    plugins: parsePatterns(options.plugins),
+    // `--no-cache` ne fait que désactiver: sans lui, la configuration décide
+    cache: options.cache === false ? false : undefined,
+    concurrency: parseConcurrency(options.concurrency),
+    profile: options.profile,
+    typeCheck: options.typeCheck === false ? false : undefined,
+    idempotencyCheck: options.checkIdempotency,
+    strictFlagsCheck: options.checkStrictFlags,
+    force: options.force,
+    targetVersion: options.target
+  });
+  logger.info(`🎯 Mode: ${migrationOptions.mode}`);
 
   const engine = new BackendAgnosticMigrationEngine();
   const report = await engine.migrateProject(projectPath, migrationOptions);
@@ -129,9 +183,17 @@ async function runMigration(options: any): Promise<void> {
     { Métrique: 'Issues détectées', Valeur: report.summary.totalIssues },
     { Métrique: 'Transformations appliquées', Valeur: report.summary.appliedTransformations },
     { Métrique: 'Transformations échouées', Valeur: report.summary.failedTransformations },
+    { Métrique: 'Éléments ignorés', Valeur: report.summary.suppressedIssues + report.summary.suppressedTransformations },
+    { Métrique: 'Cache d\'analyse', Valeur: new ReportGenerator().formatCacheStats(report) },
+    { Métrique: 'Vérification de types', Valeur: new ReportGenerator().formatTypeCheck(report) },
+    { Métrique: 'Idempotence', Valeur: new ReportGenerator().formatIdempotency(report) },
     { Métrique: 'Temps d\'exécution', Valeur: `${report.executionTime}ms` }
   ], ['Métrique', 'Valeur']);
 
+  if (report.dryRun) {
+    new ReportGenerator().generateDryRunSummary(report);
+  }
+
   if (report.recommendations.length > 0) {
     logger.section('💡 Recommandations');
     report.recommendations.forEach(rec => logger.info(`• ${rec}`));
@@ -162,17 +224,20 @@ async function runBatchMigration(options: any): Promise<void> {
 
   logger.info(`📦 ${projects.length} projet(s) Angular trouvé(s)`);
 
-  const migrationOptions: MigrationOptions = {
-    mode: options.mode as MigrationMode,
-    backup: true,
+  const cliOptions: Partial<MigrationOptions> = {
+    mode: options.mode ? parseMode(options.mode) : undefined,
     autoApply: options.autoApply,
-    exclude: [],
-    include: [],
     verbose: options.verbose,
-    generateReport: true
+    cache: options.cache === false ? false : undefined,
+    concurrency: parseConcurrency(options.concurrency),
+    typeCheck: options.typeCheck === false ? false : undefined,
+    idempotencyCheck: options.checkIdempotency,
+    force: options.force,
+    targetVersion: options.target
   };
 
   const engine = new BackendAgnosticMigrationEngine();
+  const configLoader = new ConfigLoader();
   const results = [];
 
   for (let i = 0; i < projects.length; i++) {
@@ -180,6 +245,9 @@ async function runBatchMigration(options: any): Promise<void> {
     logger.info(`\n🔄 Migration ${i + 1}/${projects.length}: ${project}`);
 
     try {
+      // Chaque projet peut versionner sa propre configuration
+      const loaded = await configLoader.load(project);
+      const migrationOptions = configLoader.mergeOptions(loaded?.config || null, cliOptions);
       const report = await engine.migrateProject(project, migrationOptions);
       results.push({ project, report, success: true });
       logger.success(`✅ Migration réussie: ${project}`);
@@ -208,6 +276,45 @@ async function runBatchMigration(options: any): Promise<void> {
   }
 }
 
+/**
+ * Liste, restaure ou purge les snapshots de sauvegarde d'un projet
+ */
+async function runBackupCommand(action: string, snapshot: string | undefined, options: any): Promise<void> {
+  const projectPath = options.path || process.cwd();
+  const backupStore = new BackupStore();
+
+  switch (action) {
+    case 'list': {
+      const manifests = await backupStore.list(projectPath);
+      if (manifests.length === 0) {
+        logger.info('Aucune sauvegarde trouvée');
+        return;
+      }
+      logger.section('💾 Sauvegardes');
+      logger.table(manifests.map(manifest => ({
+        Snapshot: manifest.id,
+        Nom: manifest.name,
+        Date: new Date(manifest.createdAt).toLocaleString('fr-FR'),
+        Fichiers: manifest.files.length
+      })), ['Snapshot', 'Nom', 'Date', 'Fichiers']);
+      return;
+    }
+    case 'restore':
+      if (!snapshot) {
+        throw new Error('Identifiant ou nom du snapshot à restaurer requis');
+      }
+      await backupStore.restore(projectPath, snapshot);
+      return;
+    case 'prune': {
+      const removed = await backupStore.prune(projectPath, options.retention);
+      logger.info(`${removed.length} snapshot(s) supprimé(s)`);
+      return;
+    }
+    default:
+      throw new Error(`Action inconnue: ${action} (list|restore|prune)`);
+  }
+}
+
 /**
  * Mode interactif pour guider la migration
  */
@@ -266,10 +373,46 @@ async function runInteractiveMode(): Promise<void> {
     exclude: [],
     include: [],
     verbose: answers.verbose,
-    generateReport: answers.generateReport
+    generateReport: answers.generateReport,
+    interactive: answers.mode !== 'analyze'
   };
 
-  await runMigration({ path: answers.projectPath, ...migrationOptions });
+  await runMigration({ path: answers.projectPath, report: answers.generateReport, ...migrationOptions });
+}
+
+/**
+ * Convertit le mode saisi en ligne de commande (`dry-run` ou `dry_run`)
+ */
+function parseMode(mode: string): MigrationMode {
+  return mode.replace('-', '_') as MigrationMode;
+}
+
+/**
+ * Normalise une liste de patterns (chaîne séparée par des virgules ou tableau déjà construit)
+ */
+function parsePatterns(patterns: string | string[] | undefined): string[] {
+  if (!patterns) {
+    return [];
+  }
+  return Array.isArray(patterns) ? patterns : patterns.split(',');
+}
+
+/**
+ * Convertit le nombre de workers saisi (`auto`: un par cœur disponible)
+ */
+function parseConcurrency(concurrency: string | number | undefined): number | undefined {
+  if (concurrency === undefined) {
+    return undefined;
+  }
+  if (concurrency === 'auto') {
+    return os.cpus().length;
+  }
+
+  const workers = Number(concurrency);
+  if (!Number.isInteger(workers) || workers < 1) {
+    throw new Error(`Nombre de workers invalide: ${concurrency}`);
+  }
+  return workers;
 }
 
 /**
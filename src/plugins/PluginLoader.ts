@@ -0,0 +1,53 @@
+import * as path from 'path';
+import { createRequire } from 'module';
+import { MigrationPlugin, PluginSpecifier } from '../types';
+import { Logger } from '../utils/Logger';
+
+/**
+ * Charge les plugins déclarés dans la configuration du projet (`plugins`)
+ * Un module exporte un plugin (`module.exports`, `default` ou `plugin`), ou une fabrique recevant ses options
+ */
+export class PluginLoader {
+  private logger: Logger;
+
+  constructor() {
+    this.logger = new Logger();
+  }
+
+  /**
+   * Charge les plugins déclarés
+   * Les modules sont résolus depuis le projet (node_modules ou chemin relatif)
+   */
+  async load(projectPath: string, specifiers: PluginSpecifier[] = []): Promise<MigrationPlugin[]> {
+    const plugins: MigrationPlugin[] = [];
+    const projectRequire = createRequire(path.join(path.resolve(projectPath), 'package.json'));
+
+    for (const specifier of specifiers) {
+      const moduleName = typeof specifier === 'string' ? specifier : specifier.module;
+      const options = typeof specifier === 'string' ? {} : specifier.options || {};
+
+      try {
+        const resolved = projectRequire.resolve(moduleName);
+        this.logger.debug(`Chargement du plugin ${moduleName} depuis ${resolved}`);
+        plugins.push(await this.instantiate(projectRequire(resolved), options, moduleName));
+      } catch (error) {
+        throw new Error(`Impossible de charger le plugin ${moduleName}: ${error.message}`);
+      }
+    }
+
+    return plugins;
+  }
+
+  /**
+   * Extrait le plugin exporté par un module
+   */
+  private async instantiate(exported: any, options: Record<string, unknown>, moduleName: string): Promise<MigrationPlugin> {
+    const candidate = exported?.default ?? exported?.plugin ?? exported;
+    const plugin = typeof candidate === 'function' ? await candidate(options) : candidate;
+
+    if (!plugin || typeof plugin !== 'object') {
+      throw new Error(`le module ${moduleName} n'exporte pas de plugin`);
+    }
+    return plugin;
+  }
+}
@@ -0,0 +1,307 @@
+import { performance } from 'perf_hooks';
+import { threadId } from 'worker_threads';
+import {
+  AnalyzedFile,
+  MigrationIssue,
+  MigrationPlugin,
+  MigrationRule,
+  RuleContext,
+  RuleTiming,
+  Suppression,
+  Transformation,
+  TransformerRule
+} from '../types';
+import { SuppressionDirective, SuppressionUtils } from '../utils/SuppressionUtils';
+import { VersionUtils } from '../utils/VersionUtils';
+import { Logger } from '../utils/Logger';
+
+/**
+ * Ordre par défaut d'une règle de transformation
+ */
+const DEFAULT_ORDER = 100;
+
+/**
+ * Registre des plugins d'analyse et de transformation
+ * Les règles intégrées sont enregistrées comme des plugins, au même titre que les plugins externes
+ */
+export class PluginRegistry {
+  private logger: Logger;
+  private builtinPlugins: MigrationPlugin[] = [];
+  private externalPlugins: MigrationPlugin[] = [];
+
+  constructor() {
+    this.logger = new Logger();
+  }
+
+  /**
+   * Enregistre un plugin intégré à l'outil
+   */
+  registerBuiltin(plugin: MigrationPlugin): void {
+    this.validate(plugin);
+    this.builtinPlugins.push(plugin);
+  }
+
+  /**
+   * Enregistre un plugin externe (chargé depuis la configuration du projet)
+   */
+  register(plugin: MigrationPlugin): void {
+    this.validate(plugin);
+    this.externalPlugins.push(plugin);
+    this.logger.info(`🔌 Plugin ${plugin.name} chargé (${plugin.analyzers?.length || 0} analyseur(s), ${plugin.transformers?.length || 0} transformateur(s))`);
+  }
+
+  /**
+   * Retire les plugins externes (changement de projet)
+   */
+  clearExternal(): void {
+    this.externalPlugins = [];
+  }
+
+  /**
+   * Plugins enregistrés, intégrés en premier
+   */
+  getPlugins(): MigrationPlugin[] {
+    return [...this.builtinPlugins, ...this.externalPlugins];
+  }
+
+  /**
+   * Empreinte des règles enregistrées (plugins, versions, règles et paramètres)
+   * Elle change dès qu'une règle est ajoutée, retirée ou reconfigurée
+   */
+  getSignature(): string {
+    return JSON.stringify(this.getPlugins().map(plugin => ({
+      name: plugin.name,
+      version: plugin.version,
+      rules: [...(plugin.analyzers || []), ...(plugin.transformers || [])].map(rule => [
+        rule.id, rule.fileTypes, rule.versionRange, rule.targetRange, (rule as TransformerRule).order
+      ])
+    })));
+  }
+
+  /**
+   * Indique si une règle applicable au fichier lit d'autres fichiers du projet (`crossFile`)
+   */
+  isCrossFile(file: AnalyzedFile, context: RuleContext, phase: 'analysis' | 'transformation'): boolean {
+    return this.getRules<MigrationRule>(file, context, p => phase === 'analysis' ? p.analyzers : p.transformers)
+      .some(({ rule }) => rule.crossFile);
+  }
+
+  /**
+   * Exécute les règles d'analyse applicables à un fichier
+   * Une règle en erreur est ignorée sans interrompre les autres
+   * Les issues visées par un commentaire `ng-migrate-ignore-*` sont enregistrées dans `file.suppressions`
+   */
+  async analyze(file: AnalyzedFile, context: RuleContext): Promise<MigrationIssue[]> {
+    const issues: MigrationIssue[] = [];
+    const directives = SuppressionUtils.parse(file.content);
+
+    for (const { plugin, rule } of this.getRules(file, context, p => p.analyzers)) {
+      try {
+        const produced = await this.timed(file, plugin, rule, 'analysis', () => rule.analyze(file, context));
+        issues.push(...this.suppressIssues(file, produced, directives, plugin, rule));
+      } catch (error) {
+        this.logger.error(`Règle ${plugin.name}/${rule.id} en erreur sur ${file.path}: ${error.message}`);
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Exécute les règles de transformation applicables à un fichier, dans l'ordre
+   * Chaque règle reçoit le contenu produit par les précédentes
+   * Les lignes et fichiers protégés par un commentaire `ng-migrate-ignore-*` ne sont pas modifiés
+   * Chaque transformation indique la règle qui l'a produite (`rule`)
+   */
+  async transform(file: AnalyzedFile, context: RuleContext): Promise<Transformation[]> {
+    const transformations: Transformation[] = [];
+    const rules = this.getRules(file, context, p => p.transformers)
+      .map((entry, index) => ({ ...entry, index }))
+      .sort((a, b) => (a.rule.order ?? DEFAULT_ORDER) - (b.rule.order ?? DEFAULT_ORDER) || a.index - b.index);
+    let content = file.content;
+
+    for (const { plugin, rule } of rules) {
+      try {
+        const result = await this.timed(file, plugin, rule, 'transformation', () => rule.transform(content, file, context));
+        const directives = SuppressionUtils.parse(content);
+        const produced = (result ? (Array.isArray(result) ? result : [result]) : [])
+          .map(transformation => this.suppressTransformation(file, transformation, directives, plugin, rule))
+          .filter((transformation): transformation is Transformation => transformation !== null);
+
+        for (const transformation of produced) {
+          transformation.rule = transformation.rule || `${plugin.name}/${rule.id}`;
+          transformations.push(transformation);
+          // Les fichiers produits ailleurs (targetPath) ne modifient pas le contenu courant
+          if (!transformation.targetPath) {
+            content = transformation.after;
+          }
+        }
+
+        if (produced.some(transformation => transformation.deleteFile)) {
+          break;
+        }
+      } catch (error) {
+        this.logger.error(`Règle ${plugin.name}/${rule.id} en erreur sur ${file.path}: ${error.message}`);
+      }
+    }
+
+    return transformations;
+  }
+
+  /**
+   * Exécute une règle en enregistrant sa durée sur le fichier (`file.timings`), y compris en cas d'erreur
+   */
+  private async timed<T>(
+    file: AnalyzedFile,
+    plugin: MigrationPlugin,
+    rule: MigrationRule,
+    phase: RuleTiming['phase'],
+    run: () => T | Promise<T>
+  ): Promise<T> {
+    const start = performance.now();
+    try {
+      return await run();
+    } finally {
+      const timing: RuleTiming = {
+        rule: `${plugin.name}/${rule.id}`,
+        phase,
+        start: performance.timeOrigin + start,
+        duration: performance.now() - start,
+        thread: threadId
+      };
+      file.timings = [...(file.timings || []), timing];
+    }
+  }
+
+  /**
+   * Retire les issues supprimées par une directive et les enregistre sur le fichier
+   */
+  private suppressIssues(
+    file: AnalyzedFile,
+    issues: MigrationIssue[],
+    directives: SuppressionDirective[],
+    plugin: MigrationPlugin,
+    rule: MigrationRule
+  ): MigrationIssue[] {
+    if (directives.length === 0) {
+      return issues;
+    }
+
+    return issues.filter(issue => {
+      const directive = SuppressionUtils.find(directives, this.ruleNames(plugin, rule, issue.type), issue.line);
+      if (directive) {
+        this.recordSuppression(file, {
+          kind: 'issue', type: issue.type, rule: `${plugin.name}/${rule.id}`,
+          scope: directive.scope, line: directive.line, message: issue.message
+        });
+      }
+      return !directive;
+    });
+  }
+
+  /**
+   * Applique les directives à une transformation: supprimée entièrement (fichier, suppression de fichier)
+   * ou privée des blocs touchant une ligne protégée. Retourne null si rien ne reste à appliquer
+   */
+  private suppressTransformation(
+    file: AnalyzedFile,
+    transformation: Transformation,
+    directives: SuppressionDirective[],
+    plugin: MigrationPlugin,
+    rule: MigrationRule
+  ): Transformation | null {
+    if (directives.length === 0) {
+      return transformation;
+    }
+
+    const names = this.ruleNames(plugin, rule, transformation.type);
+    // Les directives sont lues dans le contenu transformé: leur ligne est rapportée au fichier d'origine
+    const original = SuppressionUtils.parse(file.content);
+    const record = (directive: SuppressionDirective) => this.recordSuppression(file, {
+      kind: 'transformation', type: transformation.type, rule: `${plugin.name}/${rule.id}`,
+      scope: directive.scope,
+      line: original.length === directives.length ? original[directives.indexOf(directive)].line : directive.line,
+      message: transformation.description
+    });
+
+    // Supprimer le fichier modifierait aussi ses lignes protégées
+    const directive = SuppressionUtils.find(directives, names) || (transformation.deleteFile
+      ? directives.find(d => d.scope === 'next-line' && SuppressionUtils.matches(d, names))
+      : undefined);
+    if (directive) {
+      record(directive);
+      return null;
+    }
+    // Un fichier produit ailleurs (targetPath) n'a pas de lignes communes avec le fichier source
+    if (transformation.targetPath) {
+      return transformation;
+    }
+
+    const { after, applied } = SuppressionUtils.filterChanges(transformation.before, transformation.after, directives, names);
+    applied.forEach(record);
+    if (after === transformation.before && applied.length > 0) {
+      return null;
+    }
+
+    transformation.after = after;
+    transformation.issues = transformation.issues
+      ? this.suppressIssues(file, transformation.issues, directives, plugin, rule)
+      : undefined;
+    return transformation;
+  }
+
+  /**
+   * Noms sous lesquels un élément peut être ciblé: type, règle, `plugin/règle`
+   */
+  private ruleNames(plugin: MigrationPlugin, rule: MigrationRule, type: string): string[] {
+    return [type, rule.id, `${plugin.name}/${rule.id}`];
+  }
+
+  private recordSuppression(file: AnalyzedFile, suppression: Suppression): void {
+    file.suppressions = [...(file.suppressions || []), suppression];
+  }
+
+  /**
+   * Sélectionne les règles applicables au type de fichier, à la version source et à la version cible du projet
+   */
+  private getRules<T extends MigrationRule>(
+    file: AnalyzedFile,
+    context: RuleContext,
+    select: (plugin: MigrationPlugin) => T[] | undefined
+  ): Array<{ plugin: MigrationPlugin; rule: T }> {
+    const version = context.project?.currentVersion;
+    const target = context.project?.targetVersion;
+
+    return this.getPlugins().flatMap(plugin => (select(plugin) || [])
+      .filter(rule => !rule.fileTypes || rule.fileTypes.includes(file.type))
+      .filter(rule => !rule.versionRange || !version || VersionUtils.satisfies(version, rule.versionRange))
+      .filter(rule => !rule.targetRange || !target || VersionUtils.satisfies(target, rule.targetRange))
+      .map(rule => ({ plugin, rule })));
+  }
+
+  /**
+   * Vérifie la forme d'un plugin avant enregistrement
+   */
+  private validate(plugin: MigrationPlugin): void {
+    if (!plugin || typeof plugin.name !== 'string' || plugin.name.length === 0) {
+      throw new Error('Plugin invalide: nom manquant');
+    }
+    if (this.getPlugins().some(p => p.name === plugin.name)) {
+      throw new Error(`Plugin déjà enregistré: ${plugin.name}`);
+    }
+
+    const rules: Array<[MigrationRule, unknown]> = [
+      ...(plugin.analyzers || []).map(rule => [rule, rule.analyze] as [MigrationRule, unknown]),
+      ...(plugin.transformers || []).map(rule => [rule, rule.transform] as [MigrationRule, unknown])
+    ];
+    for (const [rule, run] of rules) {
+      if (!rule.id || typeof run !== 'function') {
+        throw new Error(`Règle invalide dans le plugin ${plugin.name}: ${rule.id || '(sans id)'}`);
+      }
+      // Lève une erreur si un intervalle est mal formé
+      [rule.versionRange, rule.targetRange]
+        .filter((range): range is string => range !== undefined)
+        .forEach(range => VersionUtils.satisfies('0.0.0', range));
+    }
+  }
+}
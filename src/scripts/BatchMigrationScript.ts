@@ -112,9 +112,12 @@ export class BatchMigrationScript {
 
       const projectDir = path.dirname(packageJsonPath);
       const angularJsonPath = path.join(projectDir, 'angular.json');
+      const angularCliJsonPath = path.join(projectDir, '.angular-cli.json');
 
-      // Vérifier la présence d'angular.json
-      if (!await fs.pathExists(angularJsonPath)) {
+      // Vérifier la présence d'angular.json (Angular 6+) ou de .angular-cli.json (Angular 5)
+      const hasAngularJson = await fs.pathExists(angularJsonPath);
+      const hasAngularCliJson = await fs.pathExists(angularCliJsonPath);
+      if (!hasAngularJson && !hasAngularCliJson) {
         return null;
       }
 
@@ -132,7 +135,8 @@ export class BatchMigrationScript {
         isAngular5,
         backendType,
         packageJsonPath,
-        angularJsonPath
+        angularJsonPath: hasAngularJson ? angularJsonPath : undefined,
+        angularCliJsonPath: hasAngularCliJson ? angularCliJsonPath : undefined
       };
 
     } catch (error) {
@@ -349,7 +353,8 @@ export interface AngularProjectInfo {
   isAngular5: boolean;
   backendType: string;
   packageJsonPath: string;
-  angularJsonPath: string;
+  angularJsonPath?: string;
+  angularCliJsonPath?: string;
 }
 
 /**
@@ -1,71 +1,60 @@
 /**
- * Script de Migration Étape par Étape : Angular 5 → Angular 20
- * Gère les 4 phases de migration avec validation et rollback
+ * Script de Migration Étape par Étape : Angular 5+ → Angular 20
+ * Gère les phases de migration restantes avec validation et rollback
  */
 
 import { MigrationEngine } from '../core/MigrationEngine';
 import { Logger } from '../utils/Logger';
 import { ReportGenerator } from '../utils/ReportGenerator';
-import { MigrationPhase, MigrationResult, PhaseStatus } from '../types';
+import { BackupStore } from '../core/BackupStore';
+import { ConfigLoader } from '../config/ConfigLoader';
+import { MigrationPhases } from '../config/MigrationPhases';
+import { ProjectAnalyzer } from '../analyzers/ProjectAnalyzer';
+import { VersionUtils } from '../utils/VersionUtils';
+import { MigrationPhase, MigrationProjectConfig, MigrationResult, PhaseStatus, ValidationSettings } from '../types';
 
 export class PhasedMigrationScript {
   private logger = new Logger('PhasedMigrationScript');
   private migrationEngine = new MigrationEngine();
   private reportGenerator = new ReportGenerator();
+  private backupStore = new BackupStore();
+  private configLoader = new ConfigLoader();
+  private projectAnalyzer = new ProjectAnalyzer();
 
   /**
-   * Exécute la migration complète en 4 phases
+   * Exécute la migration complète, à partir de la phase correspondant à la version actuelle du projet
    */
   async executeFullMigration(projectPath: string, options: MigrationOptions): Promise<MigrationResult> {
-    this.logger.info('🚀 Début de la migration complète Angular 5 → 20');
-    
-    const phases: MigrationPhase[] = [
-      {
-        name: 'Phase 1: Angular 5 → 8 (CRITIQUE)',
-        fromVersion: '5.0.0',
-        toVersion: '8.0.0',
-        critical: true,
-        estimatedDuration: '2-3 semaines'
-      },
-      {
-        name: 'Phase 2: Angular 8 → 12 (STABILISATION)',
-        fromVersion: '8.0.0',
-        toVersion: '12.0.0',
-        critical: false,
-        estimatedDuration: '1-2 semaines'
-      },
-      {
-        name: 'Phase 3: Angular 12 → 16 (MODERNISATION)',
-        fromVersion: '12.0.0',
-        toVersion: '16.0.0',
-        critical: false,
-        estimatedDuration: '2-3 semaines'
-      },
-      {
-        name: 'Phase 4: Angular 16 → 20 (RÉVOLUTION)',
-        fromVersion: '16.0.0',
-        toVersion: '20.0.0',
-        critical: true,
-        estimatedDuration: '3-4 semaines'
-      }
-    ];
+    // Les phases déjà franchies (projet en Angular 8, 11, 14...) sont ignorées
+    const { currentVersion } = await this.projectAnalyzer.analyze(projectPath);
+    if (!MigrationPhases.isSupported(currentVersion)) {
+      throw new Error(`Version Angular non prise en charge: ${currentVersion} (Angular 5 minimum)`);
+    }
+    // Une cible intermédiaire arrête la dernière phase à cette version
+    const targetVersion = MigrationPhases.resolveTarget(currentVersion, options.targetVersion);
+    const phases = MigrationPhases.remaining(currentVersion, targetVersion);
+    this.logger.info(`🚀 Début de la migration complète Angular ${currentVersion} → ${targetVersion} (${phases.length} phase(s))`);
+
+    // Configuration versionnée avec le projet, si l'appelant ne l'a pas déjà chargée
+    const config = options.config ?? (await this.configLoader.load(projectPath))?.config;
+    const phaseOptions: MigrationOptions = { ...options, config, targetVersion };
 
     const results: PhaseResult[] = [];
     let currentPhase = 0;
 
     try {
-      // Créer un backup initial
-      await this.createBackup(projectPath, 'initial-backup');
-
       for (const phase of phases) {
         currentPhase++;
-        this.logger.info(`📋 ${phase.name} (${currentPhase}/4)`);
+        this.logger.info(`📋 ${phase.name} (${currentPhase}/${phases.length})`);
         
-        const phaseResult = await this.executePhase(projectPath, phase, options);
+        const phaseResult = await this.executePhase(projectPath, phase, phaseOptions);
         results.push(phaseResult);
 
         if (phaseResult.status === PhaseStatus.FAILED) {
           this.logger.error(`❌ Phase ${currentPhase} échouée. Arrêt de la migration.`);
+          if (config?.rollback?.automatic) {
+            await this.rollbackToBackup(projectPath, this.getBackupName(phase));
+          }
           break;
         }
 
@@ -105,22 +94,22 @@ export class PhasedMigrationScript {
     
     try {
       this.logger.info(`🔄 Début de ${phase.name}`);
-      
-      // Créer un backup avant la phase
-      await this.createBackup(projectPath, `backup-phase-${phase.fromVersion}-to-${phase.toVersion}`);
 
       // Analyser le projet avant migration
       const preAnalysis = await this.migrationEngine.analyzeProject(projectPath);
       
-      // Exécuter la migration de la phase
+      // Exécuter la migration de la phase (les fichiers modifiés sont sauvegardés dans un snapshot nommé)
       const migrationResult = await this.migrationEngine.migrateProject(projectPath, {
         ...options,
-        targetVersion: phase.toVersion,
-        phase: phase.name
+        targetVersion: options.targetVersion && VersionUtils.compare(options.targetVersion, phase.toVersion) < 0
+          ? options.targetVersion
+          : phase.toVersion,
+        phase: phase.name,
+        backupName: this.getBackupName(phase)
       });
 
       // Valider la migration
-      const validationResult = await this.validatePhase(projectPath, phase);
+      const validationResult = await this.validatePhase(projectPath, phase, options.config?.validation);
 
       const duration = Date.now() - startTime;
 
@@ -150,14 +139,24 @@ export class PhasedMigrationScript {
   /**
    * Valide une phase de migration
    */
-  private async validatePhase(projectPath: string, phase: MigrationPhase): Promise<ValidationResult> {
+  private async validatePhase(
+    projectPath: string,
+    phase: MigrationPhase,
+    settings: ValidationSettings = {}
+  ): Promise<ValidationResult> {
+    if (settings.enabled === false) {
+      this.logger.info(`⏭️  Validation de ${phase.name} désactivée par la configuration`);
+      return { success: true, buildValid: true, testsValid: true, lintingValid: true, performanceValid: true, failures: 0 };
+    }
+
     this.logger.info(`🧪 Validation de ${phase.name}`);
 
+    // Une vérification désactivée dans la configuration est considérée comme réussie
     const validations = [
-      this.validateBuild(projectPath),
-      this.validateTests(projectPath),
-      this.validateLinting(projectPath),
-      this.validatePerformance(projectPath, phase)
+      settings.build !== false ? this.validateBuild(projectPath) : Promise.resolve(),
+      settings.tests !== false ? this.validateTests(projectPath) : Promise.resolve(),
+      settings.linting !== false ? this.validateLinting(projectPath) : Promise.resolve(),
+      settings.performance !== false ? this.validatePerformance(projectPath, phase, settings) : Promise.resolve()
     ];
 
     const results = await Promise.allSettled(validations);
@@ -234,11 +233,11 @@ export class PhasedMigrationScript {
   /**
    * Valide les performances
    */
-  private async validatePerformance(projectPath: string, phase: MigrationPhase): Promise<void> {
+  private async validatePerformance(projectPath: string, phase: MigrationPhase, settings: ValidationSettings): Promise<void> {
     this.logger.info('⚡ Validation des performances...');
     
-    // Mesurer les performances selon la phase
-    const performanceThresholds = this.getPerformanceThresholds(phase);
+    // Mesurer les performances selon la phase (seuils éventuellement redéfinis par la configuration)
+    const performanceThresholds = { ...this.getPerformanceThresholds(phase), ...settings.thresholds };
     
     // Ici, vous pourriez intégrer des outils comme Lighthouse
     // ou des métriques personnalisées
@@ -247,35 +246,20 @@ export class PhasedMigrationScript {
   }
 
   /**
-   * Crée un backup du projet
+   * Nom du snapshot créé avant une phase
    */
-  private async createBackup(projectPath: string, backupName: string): Promise<void> {
-    this.logger.info(`💾 Création du backup: ${backupName}`);
-    
-    const { exec } = await import('child_process');
-    const { promisify } = await import('util');
-    const execAsync = promisify(exec);
-
-    try {
-      await execAsync(`git add . && git commit -m "Backup: ${backupName}"`, { cwd: projectPath });
-      this.logger.info(`✅ Backup créé: ${backupName}`);
-    } catch (error) {
-      this.logger.warn(`⚠️ Impossible de créer le backup: ${backupName}`, error);
-    }
+  private getBackupName(phase: MigrationPhase): string {
+    return `phase-${phase.fromVersion}-to-${phase.toVersion}`;
   }
 
   /**
-   * Effectue un rollback vers un backup
+   * Effectue un rollback vers un backup (identifiant ou nom de snapshot)
    */
   async rollbackToBackup(projectPath: string, backupName: string): Promise<void> {
     this.logger.info(`🔄 Rollback vers: ${backupName}`);
-    
-    const { exec } = await import('child_process');
-    const { promisify } = await import('util');
-    const execAsync = promisify(exec);
 
     try {
-      await execAsync(`git reset --hard HEAD~1`, { cwd: projectPath });
+      await this.backupStore.restore(projectPath, backupName);
       this.logger.info(`✅ Rollback réussi vers: ${backupName}`);
     } catch (error) {
       this.logger.error(`❌ Erreur lors du rollback vers: ${backupName}`, error);
@@ -385,14 +369,7 @@ interface MigrationOptions {
   autoApply?: boolean;
   backup?: boolean;
   validate?: boolean;
-}
-
-interface MigrationPhase {
-  name: string;
-  fromVersion: string;
-  toVersion: string;
-  critical: boolean;
-  estimatedDuration: string;
+  config?: MigrationProjectConfig;
 }
 
 interface PhaseResult {
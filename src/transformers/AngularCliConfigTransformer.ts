@@ -0,0 +1,408 @@
+import * as path from 'path';
+import { AnalyzedFile, FileType, Transformation, TransformationType, TransformationStatus } from '../types';
+import { Logger } from '../utils/Logger';
+import { AngularWorkspace, TargetOptions, WorkspaceProject, WorkspaceTarget } from '../analyzers/AngularJsonAnalyzer';
+import { AngularJsonTransformer } from './AngularJsonTransformer';
+
+/**
+ * Entrée `assets` d'une application (forme glob)
+ */
+interface AngularCliAsset {
+  glob: string;
+  input?: string;
+  output?: string;
+}
+
+/**
+ * Entrée `styles` / `scripts` d'une application (forme objet)
+ */
+interface AngularCliBundle {
+  input: string;
+  output?: string;
+  lazy?: boolean;
+}
+
+/**
+ * Application déclarée dans `apps[]`
+ */
+interface AngularCliApp {
+  name?: string;
+  root?: string;
+  outDir?: string;
+  assets?: Array<string | AngularCliAsset>;
+  index?: string;
+  main?: string;
+  polyfills?: string;
+  test?: string;
+  tsconfig?: string;
+  testTsconfig?: string;
+  prefix?: string;
+  styles?: Array<string | AngularCliBundle>;
+  scripts?: Array<string | AngularCliBundle>;
+  stylePreprocessorOptions?: { includePaths?: string[] };
+  environmentSource?: string;
+  environments?: Record<string, string>;
+  deployUrl?: string;
+  baseHref?: string;
+}
+
+/**
+ * Entrée `lint[]` (un tsconfig par entrée)
+ */
+interface AngularCliLintEntry {
+  project: string;
+  exclude?: string | string[];
+}
+
+/**
+ * Section `defaults` (options des schematics et de `ng serve`)
+ */
+interface AngularCliDefaults {
+  styleExt?: string;
+  component?: { spec?: boolean; inlineStyle?: boolean; inlineTemplate?: boolean };
+  serve?: { port?: number };
+}
+
+/**
+ * Contenu d'un fichier .angular-cli.json
+ */
+interface AngularCliConfig {
+  project?: { name?: string };
+  apps?: AngularCliApp[];
+  e2e?: { protractor?: { config?: string } };
+  lint?: AngularCliLintEntry[];
+  test?: { karma?: { config?: string } };
+  defaults?: AngularCliDefaults;
+}
+
+/**
+ * Nom de la configuration de build correspondant à chaque environnement Angular CLI 1.x
+ */
+const ENVIRONMENT_CONFIGURATIONS: Record<string, string> = {
+  prod: 'production'
+};
+
+/**
+ * Options de build appliquées à la configuration `production` (équivalent de `ng build --prod`)
+ */
+const PRODUCTION_BUILD_OPTIONS = {
+  optimization: true,
+  outputHashing: 'all',
+  sourceMap: false,
+  extractCss: true,
+  namedChunks: false,
+  aot: true,
+  extractLicenses: true,
+  vendorChunk: false,
+  buildOptimizer: true
+};
+
+/**
+ * Transformateur des workspaces Angular CLI 1.x
+ * Convertit `.angular-cli.json` (Angular 5) en `angular.json` (Angular 6+).
+ * Les builders générés sont ceux d'Angular 8 ; le workspace est ensuite mis à jour
+ * pour la version cible par AngularJsonTransformer, le fichier créé n'étant pas repris par la règle angular-json
+ */
+export class AngularCliConfigTransformer {
+  private logger: Logger;
+  private angularJsonTransformer: AngularJsonTransformer;
+
+  constructor() {
+    this.logger = new Logger();
+    this.angularJsonTransformer = new AngularJsonTransformer();
+  }
+
+  /**
+   * Génère le fichier angular.json équivalent à un .angular-cli.json, pour la version cible
+   */
+  transform(file: AnalyzedFile, targetMajor: number): Transformation | null {
+    try {
+      const cliConfig: AngularCliConfig = JSON.parse(file.content);
+      const apps = Array.isArray(cliConfig.apps) ? cliConfig.apps : [];
+
+      if (apps.length === 0) {
+        this.logger.warn(`Aucune application déclarée dans ${file.path}`);
+        return null;
+      }
+
+      const workspace = this.convertWorkspace(cliConfig, apps);
+      const targetPath = path.join(path.dirname(file.path), 'angular.json');
+      const converted: AnalyzedFile = {
+        ...file,
+        path: targetPath,
+        type: FileType.ANGULAR_JSON,
+        content: JSON.stringify(workspace, null, 2) + '\n'
+      };
+      const update = this.angularJsonTransformer.transform(converted, targetMajor);
+      const description = `Conversion de ${path.basename(file.path)} en angular.json (${Object.keys(workspace.projects || {}).length} projet(s))`;
+
+      return {
+        type: TransformationType.CONVERT_WORKSPACE_CONFIG,
+        description: update ? `${description} ; ${update.description}` : description,
+        before: '',
+        after: update ? update.after : converted.content,
+        targetPath,
+        status: TransformationStatus.PENDING
+      };
+    } catch (error) {
+      this.logger.error(`Erreur lors de la conversion de ${file.path}: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Construit le workspace angular.json complet
+   */
+  private convertWorkspace(cliConfig: AngularCliConfig, apps: AngularCliApp[]): AngularWorkspace {
+    const projects: Record<string, WorkspaceProject> = {};
+    const baseName = cliConfig.project?.name || 'app';
+    const lintEntries = Array.isArray(cliConfig.lint) ? cliConfig.lint : [];
+
+    apps.forEach((app, index) => {
+      const name = app.name || (index === 0 ? baseName : `${baseName}-${index}`);
+      projects[name] = this.convertApp(name, app, cliConfig, index === 0 ? lintEntries : []);
+    });
+
+    const defaultProject = Object.keys(projects)[0];
+
+    // Le projet e2e n'existe qu'à côté de l'application principale
+    const protractorConfig = cliConfig.e2e?.protractor?.config;
+    if (protractorConfig) {
+      projects[`${defaultProject}-e2e`] = this.convertE2e(defaultProject, protractorConfig, lintEntries);
+    }
+
+    const workspace: AngularWorkspace = {
+      $schema: './node_modules/@angular/cli/lib/config/schema.json',
+      version: 1,
+      newProjectRoot: 'projects',
+      projects,
+      defaultProject
+    };
+
+    const schematics = this.convertSchematics(cliConfig.defaults);
+    if (schematics) {
+      workspace.schematics = schematics;
+    }
+
+    return workspace;
+  }
+
+  /**
+   * Convertit une application `apps[]` en projet angular.json
+   */
+  private convertApp(name: string, app: AngularCliApp, cliConfig: AngularCliConfig, lintEntries: AngularCliLintEntry[]): WorkspaceProject {
+    const root = app.root || 'src';
+    const resolve = (file: string) => this.joinPath(root, file);
+
+    const assets = (app.assets || []).map(asset => this.convertAsset(root, asset));
+    const styles = (app.styles || []).map(style => this.convertStyle(root, style));
+    const scripts = (app.scripts || []).map(script => this.convertStyle(root, script));
+
+    const buildOptions: TargetOptions = {
+      outputPath: app.outDir || 'dist',
+      index: resolve(app.index || 'index.html'),
+      main: resolve(app.main || 'main.ts'),
+      polyfills: resolve(app.polyfills || 'polyfills.ts'),
+      tsConfig: resolve(app.tsconfig || 'tsconfig.app.json'),
+      assets,
+      styles,
+      scripts
+    };
+
+    if (app.deployUrl) buildOptions.deployUrl = app.deployUrl;
+    if (app.baseHref) buildOptions.baseHref = app.baseHref;
+    if (app.stylePreprocessorOptions) {
+      buildOptions.stylePreprocessorOptions = {
+        includePaths: (app.stylePreprocessorOptions.includePaths || []).map(resolve)
+      };
+    }
+
+    const architect: Record<string, WorkspaceTarget> = {
+      build: {
+        builder: '@angular-devkit/build-angular:browser',
+        options: buildOptions,
+        configurations: this.convertEnvironments(root, app)
+      },
+      serve: {
+        builder: '@angular-devkit/build-angular:dev-server',
+        options: this.compact({ browserTarget: `${name}:build`, port: cliConfig.defaults?.serve?.port }),
+        configurations: {
+          production: { browserTarget: `${name}:build:production` }
+        }
+      },
+      'extract-i18n': {
+        builder: '@angular-devkit/build-angular:extract-i18n',
+        options: { browserTarget: `${name}:build` }
+      }
+    };
+
+    if (app.test) {
+      architect.test = {
+        builder: '@angular-devkit/build-angular:karma',
+        options: this.compact({
+          main: resolve(app.test),
+          polyfills: resolve(app.polyfills || 'polyfills.ts'),
+          tsConfig: resolve(app.testTsconfig || 'tsconfig.spec.json'),
+          karmaConfig: cliConfig.test?.karma?.config,
+          styles,
+          scripts,
+          assets
+        })
+      };
+    }
+
+    const appLint = lintEntries.filter(entry => !this.isE2eLintEntry(entry));
+    if (appLint.length > 0) {
+      architect.lint = this.convertLint(appLint);
+    }
+
+    return {
+      root: '',
+      sourceRoot: root,
+      projectType: 'application',
+      prefix: app.prefix || 'app',
+      architect
+    };
+  }
+
+  /**
+   * Convertit la configuration e2e (Protractor) en projet dédié
+   */
+  private convertE2e(appName: string, protractorConfig: string, lintEntries: AngularCliLintEntry[]): WorkspaceProject {
+    const architect: Record<string, WorkspaceTarget> = {
+      e2e: {
+        builder: '@angular-devkit/build-angular:protractor',
+        options: {
+          protractorConfig,
+          devServerTarget: `${appName}:serve`
+        },
+        configurations: {
+          production: { devServerTarget: `${appName}:serve:production` }
+        }
+      }
+    };
+
+    const e2eLint = lintEntries.filter(entry => this.isE2eLintEntry(entry));
+    if (e2eLint.length > 0) {
+      architect.lint = this.convertLint(e2eLint);
+    }
+
+    return {
+      root: 'e2e',
+      projectType: 'application',
+      architect
+    };
+  }
+
+  /**
+   * Convertit les environnements en configurations avec fileReplacements
+   */
+  private convertEnvironments(root: string, app: AngularCliApp): Record<string, TargetOptions> {
+    const configurations: Record<string, TargetOptions> = {};
+    const environmentSource = app.environmentSource;
+    const environments = app.environments || {};
+
+    for (const [environment, file] of Object.entries(environments)) {
+      if (!environmentSource || file === environmentSource) continue;
+
+      const configurationName = ENVIRONMENT_CONFIGURATIONS[environment] || environment;
+      configurations[configurationName] = {
+        fileReplacements: [
+          { replace: this.joinPath(root, environmentSource), with: this.joinPath(root, file) }
+        ]
+      };
+    }
+
+    configurations.production = {
+      ...(configurations.production || {}),
+      ...PRODUCTION_BUILD_OPTIONS
+    };
+
+    return configurations;
+  }
+
+  /**
+   * Convertit une entrée `assets` (chaîne ou glob) relative à la racine de l'application
+   */
+  private convertAsset(root: string, asset: string | AngularCliAsset): string | AngularCliAsset {
+    if (typeof asset === 'string') {
+      return this.joinPath(root, asset);
+    }
+    return { ...asset, input: this.joinPath(root, asset.input || '') };
+  }
+
+  /**
+   * Convertit une entrée `styles` / `scripts` relative à la racine de l'application
+   */
+  private convertStyle(root: string, entry: string | AngularCliBundle): string | TargetOptions {
+    if (typeof entry === 'string') {
+      return this.joinPath(root, entry);
+    }
+
+    // `output` est devenu `bundleName` dans angular.json
+    const { output, ...options } = entry;
+    return this.compact({ ...options, input: this.joinPath(root, entry.input), bundleName: output });
+  }
+
+  /**
+   * Convertit les entrées `lint` en cible tslint
+   */
+  private convertLint(entries: AngularCliLintEntry[]): WorkspaceTarget {
+    const excludes = entries
+      .flatMap(entry => (Array.isArray(entry.exclude) ? entry.exclude : [entry.exclude]))
+      .filter(Boolean);
+
+    return {
+      builder: '@angular-devkit/build-angular:tslint',
+      options: {
+        tsConfig: entries.map(entry => this.normalizePath(entry.project)),
+        exclude: Array.from(new Set(['**/node_modules/**', ...excludes]))
+      }
+    };
+  }
+
+  /**
+   * Convertit la section `defaults` en options de schematics
+   */
+  private convertSchematics(defaults: AngularCliDefaults | undefined): Record<string, Record<string, unknown>> | null {
+    if (!defaults) return null;
+
+    const component: Record<string, unknown> = {};
+    if (defaults.styleExt) component.styleext = defaults.styleExt;
+    if (defaults.component?.spec === false) component.spec = false;
+    if (defaults.component?.inlineStyle) component.inlineStyle = true;
+    if (defaults.component?.inlineTemplate) component.inlineTemplate = true;
+
+    return Object.keys(component).length > 0
+      ? { '@schematics/angular:component': component }
+      : null;
+  }
+
+  /**
+   * Indique si une entrée lint concerne les tests e2e
+   */
+  private isE2eLintEntry(entry: AngularCliLintEntry): boolean {
+    return typeof entry.project === 'string' && entry.project.includes('e2e');
+  }
+
+  /**
+   * Joint un chemin relatif à la racine de l'application (séparateurs POSIX)
+   */
+  private joinPath(root: string, file: string): string {
+    return this.normalizePath(path.posix.join(root, file));
+  }
+
+  /**
+   * Normalise un chemin de configuration (`./src/` → `src`)
+   */
+  private normalizePath(file: string): string {
+    return path.posix.normalize(file).replace(/^\.\//, '').replace(/\/$/, '');
+  }
+
+  /**
+   * Supprime les propriétés non définies d'un objet
+   */
+  private compact(options: TargetOptions): TargetOptions {
+    return Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined));
+  }
+}
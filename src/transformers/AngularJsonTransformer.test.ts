@@ -0,0 +1,50 @@
+import { FileType } from '../types';
+import { AngularJsonTransformer } from './AngularJsonTransformer';
+
+describe('AngularJsonTransformer', () => {
+  const transform = (build: object, targetMajor: number) => {
+    const content = JSON.stringify({ version: 1, projects: { app: { architect: { build } } } });
+    const transformation = new AngularJsonTransformer().transform({
+      path: '/app/angular.json',
+      type: FileType.ANGULAR_JSON,
+      content,
+      issues: [],
+      transformations: []
+    }, targetMajor);
+    return JSON.parse(transformation?.after ?? content).projects.app.architect.build;
+  };
+
+  describe('aot', () => {
+    it('supprime les aot: true redondants', () => {
+      const build = transform({
+        builder: '@angular-devkit/build-angular:browser',
+        options: { main: 'src/main.ts', aot: true },
+        configurations: { production: { aot: true } }
+      }, 12);
+
+      expect(build.options.aot).toBeUndefined();
+      expect(build.configurations.production.aot).toBeUndefined();
+    });
+
+    it('conserve un aot: false explicite et la configuration qui le surcharge', () => {
+      const build = transform({
+        builder: '@angular-devkit/build-angular:browser',
+        options: { main: 'src/main.ts', aot: false },
+        configurations: { production: { aot: true } }
+      }, 12);
+
+      expect(build.options.aot).toBe(false);
+      expect(build.configurations.production.aot).toBe(true);
+    });
+
+    it('conserve aot: false lors du passage au builder application', () => {
+      const build = transform({
+        builder: '@angular-devkit/build-angular:browser',
+        options: { main: 'src/main.ts', aot: false, buildOptimizer: false }
+      }, 17);
+
+      expect(build.builder).toBe('@angular-devkit/build-angular:application');
+      expect(build.options).toEqual({ browser: 'src/main.ts', aot: false });
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import { AnalyzedFile, Transformation, TransformationType, TransformationStatus } from '../types';
+import { Logger } from '../utils/Logger';
+import {
+  AngularWorkspace,
+  TargetOptions,
+  WorkspaceTarget,
+  REMOVED_BUILD_OPTIONS,
+  APPLICATION_BUILDER_UNSUPPORTED_OPTIONS,
+  APPLICATION_BUILDER_MIN_VERSION,
+  CUSTOM_WEBPACK_BUILDERS
+} from '../analyzers/AngularJsonAnalyzer';
+
+const BROWSER_BUILDER = '@angular-devkit/build-angular:browser';
+const APPLICATION_BUILDER = '@angular-devkit/build-angular:application';
+
+/**
+ * Budgets ajoutés à la configuration `production` (valeurs des projets générés par `ng new`)
+ */
+const DEFAULT_BUDGETS = [
+  { type: 'initial', maximumWarning: '2mb', maximumError: '5mb' },
+  { type: 'anyComponentStyle', maximumWarning: '6kb', maximumError: '10kb' }
+];
+
+/**
+ * Transformateur d'angular.json
+ * Supprime les options de build obsolètes, ajoute les budgets et migre le builder
+ * `browser` (webpack) vers le builder `application` (esbuild)
+ */
+export class AngularJsonTransformer {
+  private logger: Logger;
+
+  constructor() {
+    this.logger = new Logger();
+  }
+
+  /**
+   * Met à jour la configuration de build pour la version cible
+   */
+  transform(file: AnalyzedFile, targetMajor: number = 20): Transformation | null {
+    try {
+      const workspace: AngularWorkspace = JSON.parse(file.content);
+      const changes: string[] = [];
+
+      if (workspace.defaultProject && targetMajor >= 14) {
+        delete workspace.defaultProject;
+        changes.push('defaultProject supprimé');
+      }
+
+      for (const [projectName, project] of Object.entries(workspace.projects || {})) {
+        const targets = project.architect || project.targets || {};
+        const usesCustomBuilder = Object.values(targets).some(target => this.isCustomBuilder(target.builder));
+
+        for (const [targetName, target] of Object.entries(targets)) {
+          const label = `${projectName}:${targetName}`;
+
+          if (targetName === 'build') {
+            changes.push(...this.addBudgets(target, label));
+
+            if (target.builder === BROWSER_BUILDER && targetMajor >= APPLICATION_BUILDER_MIN_VERSION) {
+              if (usesCustomBuilder) {
+                this.logger.warn(`${label} : builder webpack personnalisé, passage au builder application ignoré`);
+              } else {
+                changes.push(...this.migrateToApplicationBuilder(target, targets, label));
+              }
+            }
+          }
+
+          changes.push(...this.removeObsoleteOptions(target, label, targetMajor));
+        }
+      }
+
+      if (changes.length === 0) {
+        return null;
+      }
+
+      return {
+        type: TransformationType.UPDATE_BUILD_CONFIG,
+        description: `Mise à jour de la configuration de build : ${changes.join(', ')}`,
+        before: file.content,
+        after: JSON.stringify(workspace, null, 2) + '\n',
+        status: TransformationStatus.PENDING
+      };
+    } catch (error) {
+      this.logger.error(`Erreur lors de la transformation de ${file.path}: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Supprime les options retirées d'Angular et les `aot: true` redondants
+   */
+  private removeObsoleteOptions(target: WorkspaceTarget, label: string, targetMajor: number): string[] {
+    const changes: string[] = [];
+    const optionSets = this.getOptionSets(target);
+
+    for (const options of optionSets) {
+      for (const [option, removed] of Object.entries(REMOVED_BUILD_OPTIONS)) {
+        if (option in options && targetMajor >= removed.removedIn) {
+          delete options[option];
+          changes.push(`${label} ${option} supprimé`);
+        }
+      }
+    }
+
+    // Depuis Ivy (Angular 9), `aot: true` est la valeur par défaut. Un `aot: false` explicite est conservé
+    // (signalé par l'analyseur), ainsi que le `aot: true` d'une configuration qui le surcharge
+    if (targetMajor >= 9 && (target.builder === BROWSER_BUILDER || target.builder === APPLICATION_BUILDER)) {
+      const jitByDefault = target.options?.aot === false;
+      const redundantSets = jitByDefault ? [] : optionSets.filter(options => options.aot === true);
+
+      if (redundantSets.length > 0) {
+        redundantSets.forEach(options => delete options.aot);
+        changes.push(`${label} aot: true redondant supprimé`);
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Ajoute les budgets de taille à la configuration production
+   */
+  private addBudgets(target: WorkspaceTarget, label: string): string[] {
+    const production = target.configurations?.production;
+    if (!production || production.budgets) {
+      return [];
+    }
+
+    production.budgets = DEFAULT_BUDGETS.map(budget => ({ ...budget }));
+    return [`${label} budgets ajoutés`];
+  }
+
+  /**
+   * Migre une cible `browser` vers le builder `application` et met à jour les cibles qui la référencent
+   */
+  private migrateToApplicationBuilder(buildTarget: WorkspaceTarget, targets: Record<string, WorkspaceTarget>, label: string): string[] {
+    buildTarget.builder = APPLICATION_BUILDER;
+
+    for (const options of this.getOptionSets(buildTarget)) {
+      if ('main' in options) {
+        options.browser = options.main;
+        delete options.main;
+      }
+      if (typeof options.polyfills === 'string') {
+        options.polyfills = [options.polyfills];
+      }
+      APPLICATION_BUILDER_UNSUPPORTED_OPTIONS.forEach(option => delete options[option]);
+    }
+
+    // `browserTarget` est renommé en `buildTarget` (dev-server, extract-i18n)
+    for (const target of Object.values(targets)) {
+      for (const options of this.getOptionSets(target)) {
+        if ('browserTarget' in options) {
+          options.buildTarget = options.browserTarget;
+          delete options.browserTarget;
+        }
+      }
+    }
+
+    return [`${label} migré vers le builder application`];
+  }
+
+  /**
+   * Options d'une cible suivies de celles de chacune de ses configurations
+   */
+  private getOptionSets(target: WorkspaceTarget): TargetOptions[] {
+    return [target.options, ...Object.values(target.configurations || {})].filter((options): options is TargetOptions => !!options);
+  }
+
+  /**
+   * Indique si un builder repose sur une configuration webpack personnalisée
+   */
+  private isCustomBuilder(builder: string | undefined): boolean {
+    return !!builder && CUSTOM_WEBPACK_BUILDERS.some(custom => builder.startsWith(custom));
+  }
+}
@@ -0,0 +1,510 @@
+import { TemplateParser, TemplateDocument, TemplateElement, TemplateNode, TemplateAttribute } from '../utils/TemplateParser';
+
+/**
+ * Directive `*ngIf` décomposée
+ */
+interface NgIfDirective {
+  expression: string;
+  alias?: string;
+  thenTemplate?: string;
+  elseTemplate?: string;
+}
+
+/**
+ * Directive `*ngFor` décomposée
+ */
+interface NgForDirective {
+  item: string;
+  iterable: string;
+  trackBy?: string;
+  /** Variables locales (`i` → `$index`) */
+  variables: Array<{ name: string; value: string }>;
+}
+
+/**
+ * Indentation utilisée pour les blocs générés
+ */
+const INDENT_UNIT = '  ';
+
+/**
+ * Éléments dont le contenu est conservé tel quel
+ */
+const RAW_TEXT_ELEMENTS = ['style', 'script'];
+
+/**
+ * Variables contextuelles de *ngFor et leur équivalent @for
+ */
+const FOR_CONTEXT_VARIABLES: Record<string, string> = {
+  index: '$index',
+  first: '$first',
+  last: '$last',
+  even: '$even',
+  odd: '$odd',
+  count: '$count'
+};
+
+/**
+ * Migrateur du contrôle de flux des templates
+ * Réécrit *ngIf / *ngFor / *ngSwitch en blocs @if / @for / @switch correctement imbriqués
+ */
+export class ControlFlowMigrator {
+  private parser = new TemplateParser();
+  private source = '';
+  private templates = new Map<string, TemplateElement>();
+  private inlinedTemplates = new Set<string>();
+
+  /**
+   * Migre un template et retourne le nouveau contenu (identique si rien à migrer)
+   */
+  migrate(template: string): string {
+    const document = this.parser.parse(template);
+    this.source = template;
+    this.collectTemplates(document);
+
+    let hasControlFlow = false;
+    TemplateParser.walk(document.children, node => {
+      if (node.kind === 'element' && this.getControlFlowAttribute(node)) {
+        hasControlFlow = true;
+      }
+    });
+
+    if (!hasControlFlow) {
+      return template;
+    }
+
+    return this.printNodes(document.children);
+  }
+
+  /**
+   * Recense les <ng-template #ref> pouvant être intégrés dans un bloc @else
+   */
+  private collectTemplates(document: TemplateDocument): void {
+    this.templates.clear();
+    this.inlinedTemplates.clear();
+
+    const references = new Map<string, number>();
+    const ngIfReferences = new Map<string, number>();
+
+    TemplateParser.walk(document.children, node => {
+      if (node.kind !== 'element') return;
+
+      if (node.name === 'ng-template') {
+        const reference = node.attributes.find(attribute => /^(#|ref-)/.test(attribute.name));
+        if (reference) {
+          this.templates.set(reference.name.replace(/^(#|ref-)/, ''), node);
+        }
+      }
+
+      for (const attribute of node.attributes) {
+        for (const word of (attribute.value || '').match(/[A-Za-z_$][\w$]*/g) || []) {
+          references.set(word, (references.get(word) || 0) + 1);
+        }
+      }
+
+      const ngIf = TemplateParser.findAttribute(node, '*ngIf');
+      const directive = ngIf && this.parseNgIf(ngIf.value || '');
+      if (directive) {
+        for (const name of [directive.thenTemplate, directive.elseTemplate]) {
+          if (name) ngIfReferences.set(name, (ngIfReferences.get(name) || 0) + 1);
+        }
+      }
+    });
+
+    // Un template n'est intégré que s'il n'est utilisé que par des *ngIf
+    for (const [name, count] of ngIfReferences) {
+      if (this.templates.has(name) && references.get(name) === count) {
+        this.inlinedTemplates.add(name);
+      }
+    }
+  }
+
+  /**
+   * Imprime une liste de nœuds
+   */
+  private printNodes(nodes: TemplateNode[]): string {
+    let output = '';
+
+    for (const node of nodes) {
+      if (node.kind === 'element' && this.isInlinedTemplate(node)) {
+        // Le template est déplacé dans le bloc @else : on supprime aussi sa ligne
+        output = output.replace(/\n[ \t]*$/, '');
+        continue;
+      }
+
+      output += this.printNode(node);
+    }
+
+    return output;
+  }
+
+  /**
+   * Imprime un nœud en appliquant les migrations nécessaires
+   */
+  private printNode(node: TemplateNode): string {
+    if (node.kind === 'comment') {
+      return node.value;
+    }
+    if (node.kind === 'text') {
+      return this.escapeText(node.value);
+    }
+
+    const ngIf = TemplateParser.findAttribute(node, '*ngIf');
+    if (ngIf) {
+      const migrated = this.migrateNgIf(node, ngIf);
+      if (migrated !== null) return migrated;
+    }
+
+    const ngFor = TemplateParser.findAttribute(node, '*ngFor');
+    if (ngFor) {
+      const migrated = this.migrateNgFor(node, ngFor);
+      if (migrated !== null) return migrated;
+    }
+
+    const ngSwitch = TemplateParser.findAttribute(node, '[ngSwitch]');
+    if (ngSwitch) {
+      return this.migrateNgSwitch(node, ngSwitch);
+    }
+
+    return this.printElement(node);
+  }
+
+  /**
+   * Imprime un élément en retirant éventuellement un attribut
+   */
+  private printElement(element: TemplateElement, removed?: TemplateAttribute): string {
+    let startTag = this.source.slice(element.start, element.startTagEnd);
+
+    if (removed) {
+      const before = this.source.slice(element.start, removed.start).replace(/\s+$/, '');
+      startTag = before + this.source.slice(removed.end, element.startTagEnd);
+    }
+
+    if (element.selfClosing) {
+      return startTag;
+    }
+
+    // Le contenu des balises <style> et <script> n'est pas du template
+    const content = RAW_TEXT_ELEMENTS.includes(element.name.toLowerCase())
+      ? this.source.slice(element.startTagEnd, element.endTagStart)
+      : this.printNodes(element.children);
+
+    return startTag
+      + content
+      + this.source.slice(element.endTagStart, element.end);
+  }
+
+  /**
+   * Imprime le contenu d'un élément porteur d'une directive structurelle.
+   * Les <ng-container> sans autre attribut disparaissent au profit du bloc
+   */
+  private printBlockContent(element: TemplateElement, directive: TemplateAttribute): string {
+    if (this.isUnwrappable(element, directive)) {
+      return this.printNodes(element.children);
+    }
+    return this.printElement(element, directive);
+  }
+
+  /**
+   * Migre *ngIf vers @if / @else
+   */
+  private migrateNgIf(element: TemplateElement, attribute: TemplateAttribute): string | null {
+    const directive = this.parseNgIf(attribute.value || '');
+    if (!directive) return null;
+
+    const indent = this.getLineIndent(element.start);
+    const header = directive.alias
+      ? `@if (${directive.expression}; as ${directive.alias})`
+      : `@if (${directive.expression})`;
+
+    const content = directive.thenTemplate
+      ? this.printTemplateReference(directive.thenTemplate)
+      : this.printBlockContent(element, attribute);
+
+    let output = this.formatBlock(header, content, indent);
+
+    if (directive.elseTemplate) {
+      output += ' ' + this.formatBlock('@else', this.printTemplateReference(directive.elseTemplate), indent);
+    }
+
+    return output;
+  }
+
+  /**
+   * Migre *ngFor vers @for
+   */
+  private migrateNgFor(element: TemplateElement, attribute: TemplateAttribute): string | null {
+    const directive = this.parseNgFor(attribute.value || '');
+    if (!directive) return null;
+
+    const track = directive.trackBy
+      ? `${directive.trackBy}($index, ${directive.item})`
+      : directive.item;
+
+    let header = `@for (${directive.item} of ${directive.iterable}; track ${track}`;
+    if (directive.variables.length > 0) {
+      header += '; let ' + directive.variables.map(variable => `${variable.name} = ${variable.value}`).join(', ');
+    }
+    header += ')';
+
+    return this.formatBlock(header, this.printBlockContent(element, attribute), this.getLineIndent(element.start));
+  }
+
+  /**
+   * Migre [ngSwitch] / *ngSwitchCase / *ngSwitchDefault vers @switch / @case / @default
+   */
+  private migrateNgSwitch(element: TemplateElement, attribute: TemplateAttribute): string {
+    const unwrap = this.isUnwrappable(element, attribute);
+    const cases: string[] = [];
+    const others: string[] = [];
+    let trailing = '';
+
+    const elementIndent = this.getLineIndent(element.start);
+    const firstChild = element.children.find(child => child.kind !== 'text' || child.value.trim());
+    let switchIndent: string | null;
+    if (unwrap) {
+      switchIndent = elementIndent;
+    } else if (firstChild) {
+      switchIndent = this.getLineIndent(firstChild.start);
+    } else {
+      switchIndent = (elementIndent ?? '') + INDENT_UNIT;
+    }
+
+    element.children.forEach((child, index) => {
+      if (child.kind === 'text' && !child.value.trim()) {
+        if (index === element.children.length - 1) trailing = child.value;
+        return;
+      }
+
+      if (child.kind === 'element') {
+        const switchCase = TemplateParser.findAttribute(child, '*ngSwitchCase');
+        const switchDefault = TemplateParser.findAttribute(child, '*ngSwitchDefault');
+        const caseIndent = switchIndent === null ? null : switchIndent + INDENT_UNIT;
+        const childIndent = this.getLineIndent(child.start) ?? caseIndent;
+
+        if (switchCase) {
+          cases.push(this.formatBlock(`@case (${(switchCase.value || '').trim()})`, this.printBlockContent(child, switchCase), caseIndent, childIndent));
+          return;
+        }
+        if (switchDefault) {
+          cases.push(this.formatBlock('@default', this.printBlockContent(child, switchDefault), caseIndent, childIndent));
+          return;
+        }
+      }
+
+      others.push(this.printNode(child));
+    });
+
+    const header = `@switch (${(attribute.value || '').trim()})`;
+    let block: string;
+    if (switchIndent === null) {
+      block = `${header} {${cases.join('')}}`;
+    } else {
+      const caseLines = cases.map(caseBlock => `\n${switchIndent}${INDENT_UNIT}${caseBlock}`).join('');
+      block = `${header} {${caseLines}\n${switchIndent}}`;
+    }
+
+    // Les nœuds qui ne sont pas des cas sont conservés avant le @switch
+    const prefix = others.map(other => (switchIndent === null ? other : `${other}\n${switchIndent}`)).join('');
+
+    if (unwrap) {
+      return prefix + block;
+    }
+
+    const startTag = this.printElement({ ...element, children: [], selfClosing: true }, attribute);
+    const opening = switchIndent === null ? '' : `\n${switchIndent}`;
+    if (!trailing && switchIndent !== null) {
+      trailing = `\n${elementIndent ?? ''}`;
+    }
+    return startTag + opening + prefix + block + trailing + this.source.slice(element.endTagStart, element.end);
+  }
+
+  /**
+   * Imprime le contenu d'un <ng-template #ref> référencé par un *ngIf
+   */
+  private printTemplateReference(name: string): string {
+    const template = this.templates.get(name);
+    if (template && this.inlinedTemplates.has(name)) {
+      return this.printNodes(template.children);
+    }
+    return `<ng-container *ngTemplateOutlet="${name}"></ng-container>`;
+  }
+
+  /**
+   * Met en forme un bloc `header { content }` en respectant l'indentation du template.
+   * `contentIndent` est l'indentation d'origine de la première ligne du contenu
+   */
+  private formatBlock(header: string, content: string, indent: string | null, contentIndent: string | null = indent): string {
+    if (indent === null) {
+      return `${header} {${content.trim()}}`;
+    }
+
+    const body = this.reindent(content, indent + INDENT_UNIT, contentIndent ?? indent);
+    return `${header} {\n${body}\n${indent}}`;
+  }
+
+  /**
+   * Réindente un bloc de contenu à l'indentation cible
+   */
+  private reindent(content: string, targetIndent: string, firstLineIndent: string): string {
+    const lines = content.replace(/^\s*\n/, '').replace(/\s+$/, '').split('\n');
+
+    // La première ligne commence à la position de l'élément : on lui restitue son indentation
+    if (lines.length > 0 && !/^\s/.test(lines[0])) {
+      lines[0] = firstLineIndent + lines[0];
+    }
+
+    const indents = lines
+      .filter(line => line.trim())
+      .map(line => (line.match(/^[ \t]*/) as RegExpMatchArray)[0].length);
+    const common = indents.length > 0 ? Math.min(...indents) : 0;
+
+    return lines
+      .map(line => (line.trim() ? targetIndent + line.slice(common) : ''))
+      .join('\n');
+  }
+
+  /**
+   * Retourne l'indentation de la ligne si l'offset est en début de ligne, sinon null
+   */
+  private getLineIndent(offset: number): string | null {
+    const lineStart = this.source.lastIndexOf('\n', offset - 1) + 1;
+    const prefix = this.source.slice(lineStart, offset);
+    return /^[ \t]*$/.test(prefix) ? prefix : null;
+  }
+
+  /**
+   * Indique si un élément est un <ng-container> (ou <ng-template>) sans autre attribut
+   */
+  private isUnwrappable(element: TemplateElement, directive: TemplateAttribute): boolean {
+    return (element.name === 'ng-container' || element.name === 'ng-template')
+      && element.attributes.every(attribute => attribute === directive);
+  }
+
+  /**
+   * Indique si un <ng-template> est intégré dans un bloc @if / @else
+   */
+  private isInlinedTemplate(element: TemplateElement): boolean {
+    if (element.name !== 'ng-template') return false;
+    for (const name of this.inlinedTemplates) {
+      if (this.templates.get(name) === element) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Retourne la première directive de contrôle de flux portée par un élément
+   */
+  private getControlFlowAttribute(element: TemplateElement): TemplateAttribute | undefined {
+    return element.attributes.find(attribute =>
+      ['*ngIf', '*ngFor', '[ngSwitch]', '*ngSwitchCase', '*ngSwitchDefault'].includes(attribute.name)
+    );
+  }
+
+  /**
+   * Décompose la micro-syntaxe de *ngIf (`cond as alias; then a; else b`)
+   */
+  private parseNgIf(value: string): NgIfDirective | null {
+    const [first, ...segments] = this.splitMicrosyntax(value, false);
+    if (!first) return null;
+
+    const directive: NgIfDirective = { expression: first };
+    const aliasMatch = /^([\s\S]+?)\s+as\s+([A-Za-z_$][\w$]*)$/.exec(first);
+    if (aliasMatch) {
+      directive.expression = aliasMatch[1].trim();
+      directive.alias = aliasMatch[2];
+    }
+
+    for (const segment of segments) {
+      const keywordMatch = /^(then|else)\s*:?\s*([A-Za-z_$][\w$]*)$/.exec(segment);
+      const letMatch = /^let\s+([A-Za-z_$][\w$]*)\s*=\s*ngIf$/.exec(segment);
+
+      if (keywordMatch && keywordMatch[1] === 'then') {
+        directive.thenTemplate = keywordMatch[2];
+      } else if (keywordMatch) {
+        directive.elseTemplate = keywordMatch[2];
+      } else if (letMatch) {
+        directive.alias = letMatch[1];
+      } else {
+        return null;
+      }
+    }
+
+    return directive;
+  }
+
+  /**
+   * Décompose la micro-syntaxe de *ngFor (`let item of items; trackBy: fn; let i = index`)
+   */
+  private parseNgFor(value: string): NgForDirective | null {
+    const [first, ...segments] = this.splitMicrosyntax(value, true);
+    const ofMatch = first && /^let\s+([A-Za-z_$][\w$]*)\s+of\s+([\s\S]+)$/.exec(first);
+    if (!ofMatch) return null;
+
+    const directive: NgForDirective = { item: ofMatch[1], iterable: ofMatch[2].trim(), variables: [] };
+
+    for (const segment of segments) {
+      const trackByMatch = /^trackBy\s*:?\s*([\s\S]+)$/.exec(segment);
+      const letMatch = /^let\s+([A-Za-z_$][\w$]*)\s*=\s*(\w+)$/.exec(segment);
+      const asMatch = /^(\w+)\s+as\s+([A-Za-z_$][\w$]*)$/.exec(segment);
+
+      if (trackByMatch) {
+        directive.trackBy = trackByMatch[1].trim();
+      } else if (letMatch && FOR_CONTEXT_VARIABLES[letMatch[2]]) {
+        directive.variables.push({ name: letMatch[1], value: FOR_CONTEXT_VARIABLES[letMatch[2]] });
+      } else if (asMatch && FOR_CONTEXT_VARIABLES[asMatch[1]]) {
+        directive.variables.push({ name: asMatch[2], value: FOR_CONTEXT_VARIABLES[asMatch[1]] });
+      } else {
+        return null;
+      }
+    }
+
+    return directive;
+  }
+
+  /**
+   * Découpe une micro-syntaxe sur les `;` (et `,` si demandé) de premier niveau
+   */
+  private splitMicrosyntax(value: string, splitOnComma: boolean): string[] {
+    const segments: string[] = [];
+    let depth = 0;
+    let quote: string | null = null;
+    let current = '';
+
+    for (const char of value) {
+      if (quote) {
+        if (char === quote) quote = null;
+      } else if (char === '\'' || char === '"' || char === '`') {
+        quote = char;
+      } else if ('([{'.includes(char)) {
+        depth++;
+      } else if (')]}'.includes(char)) {
+        depth--;
+      } else if (depth === 0 && (char === ';' || (splitOnComma && char === ','))) {
+        segments.push(current.trim());
+        current = '';
+        continue;
+      }
+      current += char;
+    }
+
+    segments.push(current.trim());
+    return segments.filter(segment => segment.length > 0);
+  }
+
+  /**
+   * Échappe les caractères réservés par la nouvelle syntaxe de blocs (@, {, })
+   * en dehors des interpolations et des expressions ICU
+   */
+  private escapeText(text: string): string {
+    if (/\{\s*[\w.$]+\s*,\s*(plural|select|selectordinal)\s*,/.test(text)) {
+      return text;
+    }
+
+    return text
+      .split(/(\{\{[\s\S]*?\}\})/)
+      .map(part => (part.startsWith('{{')
+        ? part
+        : part.replace(/@/g, '&#64;').replace(/\{/g, '&#123;').replace(/\}/g, '&#125;')))
+      .join('');
+  }
+}
@@ -0,0 +1,662 @@
+import * as ts from 'typescript';
+import { MigrationIssue, IssueType, IssueSeverity } from '../types';
+import { AstUtils } from '../utils/AstUtils';
+
+/**
+ * Modification textuelle du source
+ */
+interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+  /** Point à reprendre manuellement, retenu uniquement si la modification est appliquée */
+  issue?: MigrationIssue;
+}
+
+/**
+ * Résultat de la migration d'un fichier
+ */
+export interface HttpClientMigrationResult {
+  /** Nouveau contenu (identique si rien à migrer) */
+  content: string;
+  /** Points à reprendre manuellement (réponses non typées, API sans équivalent) */
+  issues: MigrationIssue[];
+}
+
+/**
+ * Équivalent `@angular/common/http` des symboles de `@angular/http`
+ */
+const SYMBOL_REPLACEMENTS: Record<string, string> = {
+  Http: 'HttpClient',
+  Headers: 'HttpHeaders',
+  URLSearchParams: 'HttpParams'
+};
+
+/**
+ * Symboles de `@angular/http` pris en charge par la migration
+ */
+const HANDLED_SYMBOLS = new Set([
+  'Http', 'Headers', 'URLSearchParams', 'Response', 'RequestOptions', 'RequestOptionsArgs',
+  'ResponseContentType', 'RequestMethod', 'HttpModule', 'JsonpModule'
+]);
+
+/**
+ * Valeurs de `ResponseContentType` et `responseType` équivalent
+ */
+const RESPONSE_TYPES: Record<string, string> = {
+  Json: 'json',
+  Text: 'text',
+  Blob: 'blob',
+  ArrayBuffer: 'arraybuffer'
+};
+
+/**
+ * Méthodes de lecture du corps d'une Response et `responseType` HttpClient correspondant
+ */
+const BODY_READERS: Record<string, string> = {
+  json: 'json',
+  text: 'text',
+  blob: 'blob',
+  arrayBuffer: 'arraybuffer'
+};
+
+/**
+ * Méthodes d'un client HTTP
+ */
+const HTTP_METHODS = new Set(['get', 'post', 'put', 'patch', 'delete', 'head', 'options', 'request', 'jsonp']);
+
+/**
+ * Méthodes de HttpHeaders / HttpParams qui retournent une nouvelle instance (objets immuables)
+ */
+const IMMUTABLE_METHODS = new Set(['append', 'set', 'delete']);
+
+/**
+ * Version à partir de laquelle `provideHttpClient()` remplace HttpClientModule
+ */
+const PROVIDE_HTTP_CLIENT_MIN_VERSION = 15;
+
+/**
+ * Nombre maximal de passes (les constructions imbriquées sont converties de l'extérieur vers l'intérieur)
+ */
+const MAX_PASSES = 5;
+
+/**
+ * Transformateur @angular/http → HttpClient
+ * Remplace Http, Headers, URLSearchParams et RequestOptions par leurs équivalents de `@angular/common/http`,
+ * supprime les `.map(res => res.json())` devenus inutiles et remplace HttpModule dans les NgModules
+ */
+export class HttpClientTransformer {
+  private localNames = new Map<string, string>();
+  private issues: MigrationIssue[] = [];
+
+  /**
+   * Migre un fichier utilisant `@angular/http`
+   */
+  migrate(content: string, fileName: string, targetMajor: number = 20): HttpClientMigrationResult {
+    if (!/['"]@angular\/http['"]/.test(content)) {
+      return { content, issues: [] };
+    }
+
+    this.issues = [];
+    let current = content;
+
+    for (let pass = 0; pass < MAX_PASSES; pass++) {
+      const sourceFile = AstUtils.parse(fileName, current);
+      this.localNames = this.collectLocalNames(sourceFile);
+      const edits = this.selectEdits(this.collectEdits(sourceFile, targetMajor));
+      if (edits.length === 0) break;
+      edits.forEach(edit => edit.issue && this.issues.push(edit.issue));
+      current = this.applyEdits(current, edits);
+    }
+
+    current = this.rewriteImports(current, fileName);
+    this.reportUntypedRequests(AstUtils.parse(fileName, current));
+
+    return { content: current, issues: this.issues };
+  }
+
+  /**
+   * Associe chaque symbole importé de `@angular/http` à son nom local
+   */
+  private collectLocalNames(sourceFile: ts.SourceFile): Map<string, string> {
+    const names = new Map<string, string>();
+
+    for (const declaration of AstUtils.getImports(sourceFile)) {
+      if (AstUtils.getModuleSpecifier(declaration) !== '@angular/http') continue;
+
+      const bindings = declaration.importClause?.namedBindings;
+      if (bindings && ts.isNamedImports(bindings)) {
+        bindings.elements.forEach(element => names.set(element.name.text, (element.propertyName || element.name).text));
+      }
+    }
+
+    return names;
+  }
+
+  /**
+   * Collecte les réécritures d'une passe
+   */
+  private collectEdits(sourceFile: ts.SourceFile, targetMajor: number): TextEdit[] {
+    const edits: TextEdit[] = [];
+    const immutableTargets = this.collectImmutableTargets(sourceFile);
+
+    AstUtils.walk(sourceFile, node => {
+      if (ts.isImportDeclaration(node)) return;
+
+      if (ts.isTypeReferenceNode(node)) {
+        const edit = this.convertTypeReference(node, sourceFile);
+        if (edit) edits.push(edit);
+      } else if (ts.isNewExpression(node)) {
+        const edit = this.convertNewExpression(node, sourceFile);
+        if (edit) edits.push(edit);
+      } else if (ts.isPropertyAccessExpression(node)) {
+        const edit = this.convertEnumMember(node);
+        if (edit) edits.push(edit);
+      } else if (ts.isCallExpression(node)) {
+        const edit = this.convertJsonCall(node, sourceFile) || this.removeIdentityMap(node, sourceFile);
+        if (edit) edits.push(edit);
+      } else if (ts.isExpressionStatement(node)) {
+        edits.push(...this.convertImmutableMutation(node, sourceFile, immutableTargets));
+      } else if (ts.isClassDeclaration(node)) {
+        edits.push(...this.convertNgModule(node, sourceFile, targetMajor));
+      }
+    });
+
+    return edits;
+  }
+
+  /**
+   * Remplace les annotations de type `Http`, `Headers`, `Response`, `RequestOptions`...
+   */
+  private convertTypeReference(node: ts.TypeReferenceNode, sourceFile: ts.SourceFile): TextEdit | null {
+    if (!ts.isIdentifier(node.typeName)) return null;
+
+    const symbol = this.localNames.get(node.typeName.text);
+    if (!symbol) return null;
+
+    const replacement = SYMBOL_REPLACEMENTS[symbol];
+    if (replacement) {
+      return { start: node.typeName.getStart(sourceFile), end: node.typeName.getEnd(), text: replacement };
+    }
+
+    if (symbol === 'Response') {
+      let owner: ts.Node = node.parent;
+      while (ts.isUnionTypeNode(owner) || ts.isParenthesizedTypeNode(owner)) owner = owner.parent;
+      const parameter = ts.isParameter(owner) ? owner : undefined;
+      if (parameter && /err/i.test(parameter.name.getText(sourceFile))) {
+        return { start: node.getStart(sourceFile), end: node.getEnd(), text: 'HttpErrorResponse' };
+      }
+
+      // Callback d'opérateur : le type est inféré depuis la requête
+      if (parameter && parameter.type === node && ts.isArrowFunction(parameter.parent)) {
+        return { start: parameter.name.getEnd(), end: node.getEnd(), text: '' };
+      }
+
+      return {
+        start: node.getStart(sourceFile),
+        end: node.getEnd(),
+        text: 'any',
+        issue: this.createIssue(sourceFile, node, 'Réponse HTTP typée Response : le corps est désormais retourné directement', 'Remplacer any par l\'interface de la réponse')
+      };
+    }
+
+    if (symbol === 'RequestOptions' || symbol === 'RequestOptionsArgs') {
+      // Variable initialisée : le type est inféré depuis l'objet littéral
+      if (ts.isVariableDeclaration(node.parent) && node.parent.initializer) {
+        const colon = node.parent.name.getEnd();
+        return { start: colon, end: node.getEnd(), text: '' };
+      }
+      return {
+        start: node.getStart(sourceFile),
+        end: node.getEnd(),
+        text: 'any',
+        issue: this.createIssue(sourceFile, node, `${symbol} n'existe plus : les options sont un objet { headers, params, responseType... }`, 'Remplacer any par le type des options')
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Remplace `new Headers()`, `new URLSearchParams()` et `new RequestOptions({...})`
+   */
+  private convertNewExpression(node: ts.NewExpression, sourceFile: ts.SourceFile): TextEdit | null {
+    if (!ts.isIdentifier(node.expression)) return null;
+
+    const symbol = this.localNames.get(node.expression.text);
+    const args = node.arguments || ts.factory.createNodeArray();
+    const start = node.getStart(sourceFile);
+
+    switch (symbol) {
+      case 'Headers':
+        return { start, end: node.getEnd(), text: `new HttpHeaders(${args.map(arg => arg.getText(sourceFile)).join(', ')})` };
+      case 'URLSearchParams':
+        // URLSearchParams prenait une query string brute
+        return {
+          start,
+          end: node.getEnd(),
+          text: args.length > 0 ? `new HttpParams({ fromString: ${args[0].getText(sourceFile)} })` : 'new HttpParams()'
+        };
+      case 'RequestOptions':
+        return { start, end: node.getEnd(), text: args.length > 0 ? this.convertRequestOptions(args[0], sourceFile) : '{}' };
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Convertit l'argument de `new RequestOptions(...)` en objet d'options HttpClient (`search` → `params`)
+   */
+  private convertRequestOptions(argument: ts.Expression, sourceFile: ts.SourceFile): string {
+    const text = argument.getText(sourceFile);
+    if (!ts.isObjectLiteralExpression(argument)) {
+      return text;
+    }
+
+    const offset = argument.getStart(sourceFile);
+    const search = AstUtils.findProperty(argument, 'search');
+    if (!search) {
+      return text;
+    }
+
+    const nameStart = search.name.getStart(sourceFile) - offset;
+    return text.slice(0, nameStart) + 'params' + text.slice(search.name.getEnd() - offset);
+  }
+
+  /**
+   * Remplace `ResponseContentType.Blob` et `RequestMethod.Post` par les chaînes attendues par HttpClient
+   */
+  private convertEnumMember(node: ts.PropertyAccessExpression): TextEdit | null {
+    if (!ts.isIdentifier(node.expression)) return null;
+
+    const symbol = this.localNames.get(node.expression.text);
+    const member = node.name.text;
+
+    if (symbol === 'ResponseContentType' && RESPONSE_TYPES[member]) {
+      return { start: node.getStart(), end: node.getEnd(), text: `'${RESPONSE_TYPES[member]}'` };
+    }
+    if (symbol === 'RequestMethod') {
+      return { start: node.getStart(), end: node.getEnd(), text: `'${member.toUpperCase()}'` };
+    }
+    return null;
+  }
+
+  /**
+   * Remplace `res.json()` par `res` (HttpClient retourne directement le corps JSON)
+   */
+  private convertJsonCall(node: ts.CallExpression, sourceFile: ts.SourceFile): TextEdit | null {
+    const callee = node.expression;
+    if (!ts.isPropertyAccessExpression(callee) || node.arguments.length > 0 || !ts.isIdentifier(callee.expression)) {
+      return null;
+    }
+
+    const responseType = BODY_READERS[callee.name.text];
+    if (!responseType || !this.isFunctionParameter(callee.expression)) return null;
+
+    return {
+      start: node.getStart(sourceFile),
+      end: node.getEnd(),
+      text: callee.expression.text,
+      issue: responseType !== 'json'
+        ? this.createIssue(sourceFile, node, `Réponse lue avec .${callee.name.text}()`, `Vérifier que la requête précise { responseType: '${responseType}' }`)
+        : undefined
+    };
+  }
+
+  /**
+   * Supprime les `map(res => res)` devenus inutiles (chaîne patchée ou argument de pipe)
+   */
+  private removeIdentityMap(node: ts.CallExpression, sourceFile: ts.SourceFile): TextEdit | null {
+    if (node.arguments.length !== 1 || !this.isIdentityFunction(node.arguments[0])) return null;
+
+    const callee = node.expression;
+
+    // Chaîne patchée sur une requête : `this.http.get(url).map(res => res)`
+    if (ts.isPropertyAccessExpression(callee) && callee.name.text === 'map' && /http/i.test(callee.expression.getText(sourceFile))) {
+      const receiverEnd = callee.expression.getEnd();
+      return { start: receiverEnd, end: node.getEnd(), text: '' };
+    }
+
+    // Opérateur dans pipe() : `pipe(map(res => res), ...)`
+    if (ts.isIdentifier(callee) && callee.text === 'map' && ts.isCallExpression(node.parent)) {
+      const pipe = node.parent;
+      if (!ts.isPropertyAccessExpression(pipe.expression) || pipe.expression.name.text !== 'pipe') return null;
+      if (!/http/i.test(pipe.expression.expression.getText(sourceFile))) return null;
+
+      if (pipe.arguments.length === 1) {
+        return { start: pipe.expression.expression.getEnd(), end: pipe.getEnd(), text: '' };
+      }
+
+      const index = pipe.arguments.indexOf(node);
+      const start = index === 0 ? node.getStart(sourceFile) : pipe.arguments[index - 1].getEnd();
+      const end = index === 0 ? pipe.arguments[1].getStart(sourceFile) : node.getEnd();
+      return { start, end, text: '' };
+    }
+
+    return null;
+  }
+
+  /**
+   * Réaffecte les appels `headers.append(...)` : HttpHeaders et HttpParams sont immuables
+   */
+  private convertImmutableMutation(node: ts.ExpressionStatement, sourceFile: ts.SourceFile, targets: Map<string, ts.Node>): TextEdit[] {
+    const expression = node.expression;
+    if (!ts.isCallExpression(expression) || !ts.isPropertyAccessExpression(expression.expression)) return [];
+
+    const callee = expression.expression;
+    if (!IMMUTABLE_METHODS.has(callee.name.text)) return [];
+
+    const receiver = callee.expression.getText(sourceFile);
+    const declaration = targets.get(receiver);
+    if (!declaration) return [];
+
+    const edits: TextEdit[] = [{
+      start: expression.getStart(sourceFile),
+      end: expression.getStart(sourceFile),
+      text: `${receiver} = `
+    }];
+
+    // const → let pour permettre la réaffectation
+    const declarationList = declaration.parent;
+    if (ts.isVariableDeclarationList(declarationList) && (declarationList.flags & ts.NodeFlags.Const)) {
+      const keywordStart = declarationList.getStart(sourceFile);
+      edits.push({ start: keywordStart, end: keywordStart + 'const'.length, text: 'let' });
+    }
+
+    return edits;
+  }
+
+  /**
+   * Recense les variables et propriétés initialisées avec des en-têtes ou paramètres HTTP
+   */
+  private collectImmutableTargets(sourceFile: ts.SourceFile): Map<string, ts.Node> {
+    const targets = new Map<string, ts.Node>();
+    const immutableTypes = new Set(['HttpHeaders', 'HttpParams']);
+
+    AstUtils.walk(sourceFile, node => {
+      if (!(ts.isVariableDeclaration(node) || ts.isPropertyDeclaration(node)) || !node.initializer || !ts.isIdentifier(node.name)) return;
+      if (!ts.isNewExpression(node.initializer) || !ts.isIdentifier(node.initializer.expression)) return;
+
+      const className = node.initializer.expression.text;
+      if (immutableTypes.has(className) || immutableTypes.has(SYMBOL_REPLACEMENTS[this.localNames.get(className) || ''])) {
+        targets.set(ts.isPropertyDeclaration(node) ? `this.${node.name.text}` : node.name.text, node);
+      }
+    });
+
+    return targets;
+  }
+
+  /**
+   * Remplace HttpModule / JsonpModule dans les imports d'un NgModule
+   */
+  private convertNgModule(node: ts.ClassDeclaration, sourceFile: ts.SourceFile, targetMajor: number): TextEdit[] {
+    const decorator = AstUtils.findDecorator(node, 'NgModule');
+    const metadata = decorator && AstUtils.getDecoratorMetadata(decorator);
+    const importsProperty = metadata && AstUtils.findProperty(metadata, 'imports');
+    if (!metadata || !importsProperty || !ts.isArrayLiteralExpression(importsProperty.initializer)) return [];
+
+    const imports = importsProperty.initializer;
+    const findModule = (name: string) => imports.elements.find(element =>
+      ts.isIdentifier(element) && this.localNames.get(element.text) === name
+    );
+    const httpModule = findModule('HttpModule');
+    const jsonpModule = findModule('JsonpModule');
+    if (!httpModule && !jsonpModule) return [];
+
+    const hasHttpClientModule = imports.elements.some(element => ts.isIdentifier(element) && element.text === 'HttpClientModule');
+
+    if (targetMajor < PROVIDE_HTTP_CLIENT_MIN_VERSION) {
+      const edits: TextEdit[] = [];
+      if (httpModule) {
+        edits.push(...(hasHttpClientModule
+          ? this.removeArrayElements(imports, [httpModule], sourceFile)
+          : [{ start: httpModule.getStart(sourceFile), end: httpModule.getEnd(), text: 'HttpClientModule' }]));
+      }
+      if (jsonpModule) {
+        edits.push({ start: jsonpModule.getStart(sourceFile), end: jsonpModule.getEnd(), text: 'HttpClientJsonpModule' });
+      }
+      return edits;
+    }
+
+    // Angular 15+ : les fournisseurs remplacent les modules
+    const features = ['withInterceptorsFromDi()', ...(jsonpModule ? ['withJsonpSupport()'] : [])];
+    const provider = `provideHttpClient(${features.join(', ')})`;
+    const edits = this.removeArrayElements(imports, [httpModule, jsonpModule], sourceFile);
+
+    if (hasHttpClientModule) {
+      return edits;
+    }
+
+    const providers = AstUtils.findProperty(metadata, 'providers');
+    if (providers && ts.isArrayLiteralExpression(providers.initializer)) {
+      const array = providers.initializer;
+      const last = array.elements[array.elements.length - 1];
+      edits.push(last
+        ? { start: last.getEnd(), end: last.getEnd(), text: `, ${provider}` }
+        : { start: array.getStart(sourceFile) + 1, end: array.getStart(sourceFile) + 1, text: provider });
+    } else {
+      const indent = this.getLineIndent(sourceFile.text, importsProperty.getStart(sourceFile));
+      edits.push({ start: importsProperty.getEnd(), end: importsProperty.getEnd(), text: `,\n${indent}providers: [${provider}]` });
+    }
+
+    return edits;
+  }
+
+  /**
+   * Supprime des éléments d'un tableau littéral avec leurs virgules
+   */
+  private removeArrayElements(array: ts.ArrayLiteralExpression, removed: Array<ts.Expression | undefined>, sourceFile: ts.SourceFile): TextEdit[] {
+    const elements = array.elements;
+    const indexes = removed
+      .filter((element): element is ts.Expression => !!element)
+      .map(element => elements.indexOf(element));
+    const keptIndexes = elements.map((_, index) => index).filter(index => !indexes.includes(index));
+
+    if (keptIndexes.length === 0) {
+      return [{ start: elements[0].getStart(sourceFile), end: elements[elements.length - 1].getEnd(), text: '' }];
+    }
+
+    const lastKept = keptIndexes[keptIndexes.length - 1];
+    const edits: TextEdit[] = indexes
+      .filter(index => index < lastKept)
+      .map(index => ({ start: elements[index].getStart(sourceFile), end: elements[index + 1].getStart(sourceFile), text: '' }));
+
+    // Les éléments en fin de tableau sont supprimés avec la virgule qui les précède
+    const trailing = indexes.filter(index => index > lastKept);
+    if (trailing.length > 0) {
+      edits.push({ start: elements[lastKept].getEnd(), end: elements[Math.max(...trailing)].getEnd(), text: '' });
+    }
+
+    return edits;
+  }
+
+  /**
+   * Remplace l'import `@angular/http` par les symboles de `@angular/common/http` utilisés
+   */
+  private rewriteImports(content: string, fileName: string): string {
+    const sourceFile = AstUtils.parse(fileName, content);
+    const referenced = this.collectReferencedIdentifiers(sourceFile);
+    const edits: TextEdit[] = [];
+    const needed = [
+      'HttpClient', 'HttpHeaders', 'HttpParams', 'HttpErrorResponse', 'HttpClientModule', 'HttpClientJsonpModule',
+      'provideHttpClient', 'withInterceptorsFromDi', 'withJsonpSupport'
+    ].filter(name => referenced.has(name));
+
+    const imports = AstUtils.getImports(sourceFile);
+    const commonHttp = imports.find(declaration => AstUtils.getModuleSpecifier(declaration) === '@angular/common/http');
+    const legacy = imports.find(declaration => AstUtils.getModuleSpecifier(declaration) === '@angular/http');
+    const quote = content.includes('from "') && !content.includes('from \'') ? '"' : '\'';
+
+    if (legacy) {
+      const bindings = legacy.importClause?.namedBindings;
+      const remaining = bindings && ts.isNamedImports(bindings)
+        ? bindings.elements.filter(element => !HANDLED_SYMBOLS.has((element.propertyName || element.name).text))
+        : [];
+
+      remaining.forEach(element => this.issues.push(this.createIssue(sourceFile, element, `${element.getText(sourceFile)} (@angular/http) n'a pas d'équivalent direct`, 'Migrer manuellement vers HttpClient / HttpBackend')));
+
+      const text = remaining.length > 0
+        ? `import { ${remaining.map(element => element.getText(sourceFile)).join(', ')} } from ${quote}@angular/http${quote};`
+        : '';
+      const end = text ? legacy.getEnd() : this.getLineEnd(content, legacy.getEnd());
+      edits.push({ start: legacy.getStart(sourceFile), end, text });
+    }
+
+    if (commonHttp) {
+      const bindings = commonHttp.importClause?.namedBindings;
+      if (bindings && ts.isNamedImports(bindings)) {
+        const existing = bindings.elements.map(element => element.name.text);
+        const added = needed.filter(name => !existing.includes(name));
+        if (added.length > 0) {
+          const last = bindings.elements[bindings.elements.length - 1];
+          edits.push({ start: last.getEnd(), end: last.getEnd(), text: `, ${added.join(', ')}` });
+        }
+      }
+    } else if (needed.length > 0) {
+      const statement = `import { ${needed.join(', ')} } from ${quote}@angular/common/http${quote};`;
+      if (legacy && !edits[0].text) {
+        edits[0] = { ...edits[0], end: legacy.getEnd(), text: statement };
+      } else {
+        const anchor = legacy || imports[imports.length - 1];
+        edits.push({ start: anchor.getEnd(), end: anchor.getEnd(), text: `\n${statement}` });
+      }
+    }
+
+    return this.applyEdits(content, edits);
+  }
+
+  /**
+   * Signale les requêtes HttpClient sans type de réponse (`get<T>()`)
+   */
+  private reportUntypedRequests(sourceFile: ts.SourceFile): void {
+    const clients = new Set<string>();
+
+    AstUtils.walk(sourceFile, node => {
+      if ((ts.isParameter(node) || ts.isPropertyDeclaration(node)) && ts.isIdentifier(node.name)
+        && node.type && ts.isTypeReferenceNode(node.type) && node.type.typeName.getText(sourceFile) === 'HttpClient') {
+        clients.add(node.name.text);
+      }
+    });
+
+    AstUtils.walk(sourceFile, node => {
+      if (!ts.isCallExpression(node) || node.typeArguments || !ts.isPropertyAccessExpression(node.expression)) return;
+
+      const callee = node.expression;
+      const receiver = callee.expression;
+      const clientName = ts.isPropertyAccessExpression(receiver) && receiver.expression.kind === ts.SyntaxKind.ThisKeyword
+        ? receiver.name.text
+        : ts.isIdentifier(receiver) ? receiver.text : undefined;
+
+      if (clientName && clients.has(clientName) && HTTP_METHODS.has(callee.name.text) && callee.name.text !== 'delete') {
+        this.issues.push(this.createIssue(sourceFile, node, `Réponse HTTP non typée : ${callee.getText(sourceFile)}()`, `Préciser le type : ${callee.getText(sourceFile)}<MonType>(...)`, IssueSeverity.SUGGESTION));
+      }
+    });
+  }
+
+  /**
+   * Indique si un identifiant est un paramètre de la fonction qui l'entoure (`res => res.json()`)
+   */
+  private isFunctionParameter(identifier: ts.Identifier): boolean {
+    let node: ts.Node | undefined = identifier.parent;
+    while (node) {
+      if (ts.isFunctionLike(node)) {
+        return node.parameters.some(parameter => ts.isIdentifier(parameter.name) && parameter.name.text === identifier.text);
+      }
+      node = node.parent;
+    }
+    return false;
+  }
+
+  /**
+   * Indique si une fonction retourne son unique paramètre (`res => res`)
+   */
+  private isIdentityFunction(node: ts.Expression): boolean {
+    if (!ts.isArrowFunction(node) || node.parameters.length !== 1 || !ts.isIdentifier(node.parameters[0].name)) {
+      return false;
+    }
+
+    const name = node.parameters[0].name.text;
+    let body: ts.ConciseBody = node.body;
+    while (ts.isParenthesizedExpression(body)) body = body.expression;
+
+    if (ts.isBlock(body)) {
+      const [statement] = body.statements;
+      return body.statements.length === 1 && ts.isReturnStatement(statement)
+        && !!statement.expression && ts.isIdentifier(statement.expression) && statement.expression.text === name;
+    }
+    return ts.isIdentifier(body) && body.text === name;
+  }
+
+  /**
+   * Retourne les identifiants utilisés en dehors des déclarations d'import
+   */
+  private collectReferencedIdentifiers(sourceFile: ts.SourceFile): Set<string> {
+    const identifiers = new Set<string>();
+    for (const statement of sourceFile.statements) {
+      if (ts.isImportDeclaration(statement)) continue;
+      AstUtils.walk(statement, node => {
+        if (ts.isIdentifier(node)) identifiers.add(node.text);
+      });
+    }
+    return identifiers;
+  }
+
+  /**
+   * Crée un point à reprendre manuellement
+   */
+  private createIssue(sourceFile: ts.SourceFile, node: ts.Node, message: string, suggestion: string, severity: IssueSeverity = IssueSeverity.WARNING): MigrationIssue {
+    const position = AstUtils.getPosition(sourceFile, node);
+    return {
+      type: IssueType.HTTP_CLIENT_MIGRATION,
+      severity,
+      message,
+      line: position.line,
+      column: position.column,
+      suggestion,
+      code: node.getText(sourceFile)
+    };
+  }
+
+  /**
+   * Retient les modifications sans chevauchement (la plus englobante l'emporte)
+   */
+  private selectEdits(candidates: TextEdit[]): TextEdit[] {
+    const accepted: TextEdit[] = [];
+    candidates
+      .sort((a, b) => a.start - b.start || b.end - a.end)
+      .forEach(edit => {
+        const overlaps = accepted.some(other =>
+          edit.start < other.end && other.start < edit.end
+          || (edit.start === edit.end && edit.start > other.start && edit.start < other.end)
+        );
+        if (!overlaps) accepted.push(edit);
+      });
+    return accepted;
+  }
+
+  /**
+   * Retourne l'indentation de la ligne contenant une position
+   */
+  private getLineIndent(text: string, position: number): string {
+    const lineStart = text.lastIndexOf('\n', position - 1) + 1;
+    return /^[ \t]*/.exec(text.slice(lineStart))![0];
+  }
+
+  /**
+   * Étend la fin d'une déclaration supprimée jusqu'à la fin de sa ligne
+   */
+  private getLineEnd(text: string, position: number): number {
+    const match = /^[ \t]*\r?\n/.exec(text.slice(position));
+    return match ? position + match[0].length : position;
+  }
+
+  /**
+   * Applique des modifications non chevauchantes en partant de la fin
+   */
+  private applyEdits(content: string, edits: TextEdit[]): string {
+    return edits
+      .slice()
+      .sort((a, b) => b.start - a.start || b.end - a.end)
+      .reduce((text, edit) => text.slice(0, edit.start) + edit.text + text.slice(edit.end), content);
+  }
+}
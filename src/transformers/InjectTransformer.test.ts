@@ -0,0 +1,74 @@
+import { InjectTransformer } from './InjectTransformer';
+
+describe('InjectTransformer', () => {
+  const migrate = (lines: string[], targetVersion?: string) =>
+    new InjectTransformer().migrate(lines.join('\n'), 'test.ts', [], targetVersion);
+
+  describe('fonctions du constructeur', () => {
+    it('réécrit les propriétés lues dans une fonction fléchée', () => {
+      const { content } = migrate([
+        `import { Component } from '@angular/core';`,
+        `import { UserService } from './user.service';`,
+        ``,
+        `@Component({ selector: 'app-user', template: '' })`,
+        `export class UserComponent {`,
+        `  constructor(private users: UserService) {`,
+        `    const load = () => users.load();`,
+        `  }`,
+        `}`
+      ]);
+
+      expect(content).toContain('private users = inject(UserService);');
+      expect(content).toContain('const load = () => this.users.load();');
+    });
+
+    it.each([
+      ['une fonction anonyme', 'const load = function () { return users.load(); };'],
+      ['une fonction nommée', 'function load() { return users.load(); }'],
+      ['une méthode d\'objet', 'const loader = { load() { return users.load(); } };']
+    ])('conserve le constructeur si une propriété est lue dans %s', (_label, statement) => {
+      const { content, issues } = migrate([
+        `import { Component } from '@angular/core';`,
+        `import { UserService } from './user.service';`,
+        ``,
+        `@Component({ selector: 'app-user', template: '' })`,
+        `export class UserComponent {`,
+        `  constructor(private users: UserService) {`,
+        `    ${statement}`,
+        `  }`,
+        `}`
+      ]);
+
+      expect(content).toContain('constructor(private users: UserService)');
+      expect(content).not.toContain('this.users.load()');
+      expect(issues).toHaveLength(1);
+      expect(issues[0].message).toContain('this est redéfini');
+    });
+  });
+
+  describe('@Attribute', () => {
+    const component = [
+      `import { Attribute, Component } from '@angular/core';`,
+      ``,
+      `@Component({ selector: 'app-button', template: '' })`,
+      `export class ButtonComponent {`,
+      `  constructor(@Attribute('type') private type: string) {}`,
+      `}`
+    ];
+
+    it('utilise HostAttributeToken à partir d\'Angular 17.3', () => {
+      const { content } = migrate(component, '18.0.0');
+
+      expect(content).toContain(`private type = inject(new HostAttributeToken('type'));`);
+      expect(content).toContain(`import { Component, inject, HostAttributeToken } from '@angular/core';`);
+    });
+
+    it('conserve le constructeur pour une cible antérieure à Angular 17.3', () => {
+      const { content, issues } = migrate(component, '17.0.0');
+
+      expect(content).toBe(component.join('\n'));
+      expect(issues).toHaveLength(1);
+      expect(issues[0].message).toContain('HostAttributeToken');
+    });
+  });
+});
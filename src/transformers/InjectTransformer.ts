@@ -0,0 +1,391 @@
+import * as ts from 'typescript';
+import { AnalyzedFile, MigrationIssue, IssueType, IssueSeverity } from '../types';
+import { AstUtils } from '../utils/AstUtils';
+import { Logger } from '../utils/Logger';
+import { VersionUtils } from '../utils/VersionUtils';
+
+/**
+ * Modification textuelle du source
+ */
+interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Résultat de la migration d'un fichier
+ */
+export interface InjectMigrationResult {
+  /** Nouveau contenu (identique si rien à migrer) */
+  content: string;
+  /** Classes laissées en injection par constructeur */
+  issues: MigrationIssue[];
+}
+
+/**
+ * Paramètre de constructeur converti en appel à inject()
+ */
+interface InjectedParameter {
+  name: string;
+  /** Appel `inject(...)` généré */
+  call: string;
+  /** Modificateurs de la propriété (absent pour un simple paramètre) */
+  modifiers?: string;
+}
+
+/**
+ * Décorateurs Angular dont les classes reçoivent leurs dépendances par injection
+ */
+const INJECTABLE_DECORATORS = ['Component', 'Directive', 'Pipe', 'Injectable'];
+
+/**
+ * Décorateurs de paramètre et option correspondante de inject()
+ */
+const FLAG_DECORATORS: Record<string, string> = {
+  Optional: 'optional',
+  Self: 'self',
+  SkipSelf: 'skipSelf',
+  Host: 'host'
+};
+
+/**
+ * Version Angular introduisant HostAttributeToken (équivalent de @Attribute pour inject())
+ */
+const HOST_ATTRIBUTE_TOKEN_MIN_VERSION = '17.3.0';
+
+/**
+ * Transformateur de l'injection par constructeur vers la fonction inject()
+ * Conserve les tokens (@Inject), les options (@Optional, @Self, @SkipSelf, @Host), les modificateurs
+ * et le corps du constructeur ; les classes héritées par d'autres classes ne sont pas migrées
+ */
+export class InjectTransformer {
+  private logger: Logger;
+
+  constructor() {
+    this.logger = new Logger();
+  }
+
+  /**
+   * Migre les constructeurs d'un fichier
+   * `files` permet de détecter les sous-classes déclarées dans les autres fichiers du projet
+   */
+  migrate(content: string, fileName: string, files: AnalyzedFile[] = [], targetVersion: string = '20.0.0'): InjectMigrationResult {
+    const issues: MigrationIssue[] = [];
+
+    try {
+      const sourceFile = AstUtils.parse(fileName, content);
+      const edits: TextEdit[] = [];
+      let needsHostAttributeToken = false;
+
+      for (const classDeclaration of AstUtils.getClasses(sourceFile)) {
+        const isInjectable = INJECTABLE_DECORATORS.some(name => !!AstUtils.findDecorator(classDeclaration, name));
+        const constructor = classDeclaration.members.find(ts.isConstructorDeclaration);
+        if (!isInjectable || !constructor || constructor.parameters.length === 0 || !constructor.body) continue;
+
+        const skipReason = this.getSkipReason(classDeclaration, constructor, sourceFile, files, targetVersion);
+        if (skipReason) {
+          issues.push(this.createIssue(sourceFile, constructor, `${classDeclaration.name?.text || 'Classe'} conserve l'injection par constructeur : ${skipReason}`));
+          continue;
+        }
+
+        const parameters = constructor.parameters.map(parameter => this.convertParameter(parameter, sourceFile));
+        needsHostAttributeToken = needsHostAttributeToken || parameters.some(parameter => parameter.call.includes('HostAttributeToken'));
+        edits.push(...this.rewriteClass(classDeclaration, constructor, parameters, sourceFile));
+      }
+
+      if (edits.length === 0) {
+        return { content, issues };
+      }
+
+      const updated = this.applyEdits(content, edits);
+      return { content: this.updateCoreImports(updated, fileName, needsHostAttributeToken ? ['inject', 'HostAttributeToken'] : ['inject']), issues };
+    } catch (error) {
+      this.logger.error(`Erreur lors de la migration vers inject() de ${fileName}: ${error.message}`);
+      return { content, issues: [] };
+    }
+  }
+
+  /**
+   * Retourne la raison pour laquelle une classe ne peut pas être migrée (undefined si migrable)
+   */
+  private getSkipReason(
+    classDeclaration: ts.ClassDeclaration,
+    constructor: ts.ConstructorDeclaration,
+    sourceFile: ts.SourceFile,
+    files: AnalyzedFile[],
+    targetVersion: string
+  ): string | undefined {
+    const name = classDeclaration.name?.text;
+    const isAbstract = ts.getModifiers(classDeclaration)?.some(modifier => modifier.kind === ts.SyntaxKind.AbstractKeyword);
+
+    // Les sous-classes appellent super(...) avec les paramètres dans cet ordre
+    if (isAbstract) {
+      return 'classe abstraite, l\'ordre des paramètres est imposé aux sous-classes';
+    }
+    if (name) {
+      const extendsPattern = new RegExp(`\\bextends\\s+${name}\\b`);
+      if (extendsPattern.test(sourceFile.text) || files.some(file => file.path !== sourceFile.fileName && AstUtils.isTypeScriptFile(file.path) && extendsPattern.test(file.content))) {
+        return 'classe étendue, l\'ordre des paramètres est imposé aux sous-classes';
+      }
+    }
+
+    if (constructor.parameters.some(parameter => !ts.isIdentifier(parameter.name) || parameter.dotDotDotToken)) {
+      return 'paramètre déstructuré ou rest';
+    }
+    const withoutToken = constructor.parameters.find(parameter =>
+      !this.findDecoratorArgument(parameter, 'Inject', sourceFile) && !this.findDecoratorArgument(parameter, 'Attribute', sourceFile) && !this.getTokenType(parameter.type)
+    );
+    if (withoutToken) {
+      return `paramètre ${withoutToken.name.getText(sourceFile)} sans token injectable (type de classe ou @Inject)`;
+    }
+    const attribute = constructor.parameters.find(parameter => this.findDecoratorArgument(parameter, 'Attribute', sourceFile));
+    if (attribute && VersionUtils.compare(targetVersion, HOST_ATTRIBUTE_TOKEN_MIN_VERSION) < 0) {
+      return `paramètre @Attribute ${attribute.name.getText(sourceFile)}, HostAttributeToken n'existe qu'à partir d'Angular 17.3`;
+    }
+    const rebound = this.findReboundReference(constructor, sourceFile);
+    if (rebound) {
+      return `${rebound} est lu dans une fonction du constructeur où this est redéfini`;
+    }
+    return undefined;
+  }
+
+  /**
+   * Retourne la propriété de paramètre lue dans une fonction (hors fonction fléchée) du corps du constructeur
+   * Sa réécriture en `this.x` désignerait le this de la fonction, pas l'instance
+   */
+  private findReboundReference(constructor: ts.ConstructorDeclaration, sourceFile: ts.SourceFile): string | undefined {
+    const propertyNames = new Set(constructor.parameters
+      .filter(parameter => AstUtils.isParameterProperty(parameter))
+      .map(parameter => parameter.name.getText(sourceFile)));
+    let found: string | undefined;
+
+    AstUtils.walk(constructor.body!, node => {
+      if (found || !(ts.isFunctionExpression(node) || ts.isFunctionDeclaration(node) || ts.isMethodDeclaration(node) || ts.isAccessor(node))) return;
+      AstUtils.walk(node, child => {
+        if (!found && ts.isIdentifier(child) && propertyNames.has(child.text) && this.isValueReference(child)) {
+          found = child.text;
+        }
+      });
+    });
+
+    return found;
+  }
+
+  /**
+   * Convertit un paramètre de constructeur en appel inject()
+   */
+  private convertParameter(parameter: ts.ParameterDeclaration, sourceFile: ts.SourceFile): InjectedParameter {
+    const flags = AstUtils.getDecorators(parameter)
+      .map(decorator => FLAG_DECORATORS[AstUtils.getDecoratorName(decorator) || ''])
+      .filter((flag): flag is string => !!flag);
+    const options = flags.length > 0 ? `, { ${flags.map(flag => `${flag}: true`).join(', ')} }` : '';
+
+    const typeText = parameter.type ? this.stripNullable(parameter.type.getText(sourceFile)) : undefined;
+    const attribute = this.findDecoratorArgument(parameter, 'Attribute', sourceFile);
+    const token = this.findDecoratorArgument(parameter, 'Inject', sourceFile)
+      || (attribute ? `new HostAttributeToken(${attribute})` : this.getTokenType(parameter.type)!.typeName.getText(sourceFile));
+
+    // Le type est explicité lorsqu'il ne se déduit pas du token (InjectionToken, classe générique)
+    const typeArgument = typeText && typeText !== token && !attribute ? `<${typeText}>` : '';
+    const modifiers = ts.getModifiers(parameter)
+      ?.map(modifier => modifier.getText(sourceFile))
+      .join(' ');
+
+    return {
+      name: (parameter.name as ts.Identifier).text,
+      call: `inject${typeArgument}(${token}${options})`,
+      modifiers: AstUtils.isParameterProperty(parameter) ? modifiers : undefined
+    };
+  }
+
+  /**
+   * Retourne le texte de l'argument d'un décorateur de paramètre (`@Inject(TOKEN)` → TOKEN)
+   */
+  private findDecoratorArgument(parameter: ts.ParameterDeclaration, name: string, sourceFile: ts.SourceFile): string | undefined {
+    const decorator = AstUtils.getDecorators(parameter).find(candidate => AstUtils.getDecoratorName(candidate) === name);
+    return decorator && ts.isCallExpression(decorator.expression) ? decorator.expression.arguments[0]?.getText(sourceFile) : undefined;
+  }
+
+  /**
+   * Retourne la classe servant de token d'injection (`Store<State>`, `Logger | null` → Store, Logger)
+   */
+  private getTokenType(type: ts.TypeNode | undefined): ts.TypeReferenceNode | undefined {
+    if (!type) return undefined;
+    if (ts.isTypeReferenceNode(type)) return type;
+    if (ts.isUnionTypeNode(type)) {
+      const members = type.types.filter(member =>
+        !(ts.isLiteralTypeNode(member) && member.literal.kind === ts.SyntaxKind.NullKeyword) && member.kind !== ts.SyntaxKind.UndefinedKeyword
+      );
+      return members.length === 1 && ts.isTypeReferenceNode(members[0]) ? members[0] : undefined;
+    }
+    return undefined;
+  }
+
+  /**
+   * Déclare les champs inject() en tête de classe et réécrit le constructeur
+   */
+  private rewriteClass(classDeclaration: ts.ClassDeclaration, constructor: ts.ConstructorDeclaration, parameters: InjectedParameter[], sourceFile: ts.SourceFile): TextEdit[] {
+    const edits: TextEdit[] = [];
+    const text = sourceFile.text;
+    const body = constructor.body!;
+    const properties = parameters.filter(parameter => parameter.modifiers !== undefined);
+    const propertyNames = new Set(properties.map(parameter => parameter.name));
+    const superCall = body.statements.find(statement =>
+      ts.isExpressionStatement(statement) && ts.isCallExpression(statement.expression) && statement.expression.expression.kind === ts.SyntaxKind.SuperKeyword
+    ) as ts.ExpressionStatement | undefined;
+
+    // Paramètres lus par le corps : variable locale (avant super) ou accès via this pour les propriétés
+    const locals = new Set<string>();
+    const bodyEdits: TextEdit[] = [];
+    AstUtils.walk(body, node => {
+      if (!ts.isIdentifier(node) || !this.isValueReference(node)) return;
+      if (parameters.some(parameter => parameter.modifiers === undefined && parameter.name === node.text)) {
+        locals.add(node.text);
+        return;
+      }
+      if (!propertyNames.has(node.text)) return;
+      if (superCall && node.pos >= superCall.pos && node.end <= superCall.end) {
+        locals.add(node.text);
+      } else {
+        const prefix = ts.isShorthandPropertyAssignment(node.parent) ? `${node.text}: ` : '';
+        bodyEdits.push({ start: node.getStart(sourceFile), end: node.getEnd(), text: `${prefix}this.${node.text}` });
+      }
+    });
+
+    const localStatements = parameters
+      .filter(parameter => locals.has(parameter.name))
+      .map(parameter => `const ${parameter.name} = ${parameter.call};`);
+    const remainingStatements = body.statements.length > 0;
+    const removeConstructor = localStatements.length === 0 && !remainingStatements;
+
+    // Champs inject() en tête de classe : ils doivent précéder les initialiseurs qui les utilisent
+    const firstMember = classDeclaration.members[0];
+    const memberIndent = this.getLineIndent(text, firstMember.getStart(sourceFile));
+    const fields = properties.map(parameter => `${memberIndent}${parameter.modifiers ? `${parameter.modifiers} ` : ''}${parameter.name} = ${parameter.call};`);
+    const fieldsStart = this.getLineStart(text, firstMember.getStart(sourceFile));
+    const separator = removeConstructor && classDeclaration.members.length === 1 ? '' : '\n';
+    if (fields.length > 0) {
+      edits.push({ start: fieldsStart, end: fieldsStart, text: `${fields.join('\n')}\n${separator}` });
+    }
+
+    if (removeConstructor) {
+      // Constructeur vide : supprimé avec sa ligne et la ligne vide qui le suit
+      const start = this.getLineStart(text, constructor.getStart(sourceFile));
+      const end = this.getLineEnd(text, constructor.getEnd());
+      const blankLine = /^[ \t]*\r?\n/.exec(text.slice(end));
+      edits.push({ start, end: blankLine ? end + blankLine[0].length : end, text: '' });
+      return edits;
+    }
+
+    const openParen = text.indexOf('(', constructor.getStart(sourceFile));
+    const closeParen = text.lastIndexOf(')', body.getStart(sourceFile));
+    edits.push({ start: openParen + 1, end: closeParen, text: '' });
+    edits.push(...bodyEdits);
+
+    if (localStatements.length > 0) {
+      const statementIndent = body.statements.length > 0
+        ? this.getLineIndent(text, body.statements[0].getStart(sourceFile))
+        : `${this.getLineIndent(text, constructor.getStart(sourceFile))}  `;
+      const position = body.getStart(sourceFile) + 1;
+      edits.push({ start: position, end: position, text: `\n${localStatements.map(statement => `${statementIndent}${statement}`).join('\n')}${remainingStatements ? '' : '\n' + this.getLineIndent(text, constructor.getStart(sourceFile))}` });
+    }
+
+    return edits;
+  }
+
+  /**
+   * Indique si un identifiant désigne une valeur (et non un nom de propriété ou de membre)
+   */
+  private isValueReference(node: ts.Identifier): boolean {
+    const parent = node.parent;
+    if (ts.isPropertyAccessExpression(parent) && parent.name === node) return false;
+    if (ts.isPropertyAssignment(parent) && parent.name === node) return false;
+    if ((ts.isMethodDeclaration(parent) || ts.isPropertyDeclaration(parent)) && parent.name === node) return false;
+    if (ts.isVariableDeclaration(parent) && parent.name === node) return false;
+    return true;
+  }
+
+  /**
+   * Retire `| null` / `| undefined` d'un type (implicites avec l'option optional)
+   */
+  private stripNullable(typeText: string): string {
+    return typeText.replace(/\s*\|\s*(null|undefined)\b/g, '').replace(/\b(null|undefined)\s*\|\s*/g, '');
+  }
+
+  /**
+   * Ajoute les symboles à l'import `@angular/core` et retire les décorateurs de paramètre devenus inutilisés
+   */
+  private updateCoreImports(content: string, fileName: string, names: string[]): string {
+    const sourceFile = AstUtils.parse(fileName, content);
+    const coreImport = AstUtils.getImports(sourceFile).find(declaration => AstUtils.getModuleSpecifier(declaration) === '@angular/core');
+    const bindings = coreImport?.importClause?.namedBindings;
+
+    if (!coreImport || !bindings || !ts.isNamedImports(bindings)) {
+      return `import { ${names.join(', ')} } from '@angular/core';\n${content}`;
+    }
+
+    const referenced = new Set<string>();
+    sourceFile.statements.filter(statement => !ts.isImportDeclaration(statement)).forEach(statement =>
+      AstUtils.walk(statement, node => {
+        if (ts.isIdentifier(node)) referenced.add(node.text);
+      })
+    );
+    const parameterDecorators = ['Inject', 'Attribute', ...Object.keys(FLAG_DECORATORS)];
+    const kept = bindings.elements
+      .filter(element => !parameterDecorators.includes(element.name.text) || referenced.has(element.name.text))
+      .map(element => element.getText(sourceFile));
+    const existing = new Set(bindings.elements.map(element => element.name.text));
+    const elements = [...kept, ...names.filter(name => !existing.has(name))];
+
+    if (elements.join() === bindings.elements.map(element => element.getText(sourceFile)).join()) return content;
+    return this.applyEdits(content, [{ start: bindings.getStart(sourceFile), end: bindings.getEnd(), text: `{ ${elements.join(', ')} }` }]);
+  }
+
+  /**
+   * Crée un point à reprendre manuellement
+   */
+  private createIssue(sourceFile: ts.SourceFile, node: ts.Node, message: string): MigrationIssue {
+    const position = AstUtils.getPosition(sourceFile, node);
+    return {
+      type: IssueType.INJECT_MIGRATION,
+      severity: IssueSeverity.WARNING,
+      message,
+      line: position.line,
+      column: position.column,
+      suggestion: 'Migrer la hiérarchie de classes vers inject() en une seule fois'
+    };
+  }
+
+  /**
+   * Retourne le début de la ligne contenant une position
+   */
+  private getLineStart(text: string, position: number): number {
+    return text.lastIndexOf('\n', position - 1) + 1;
+  }
+
+  /**
+   * Retourne l'indentation de la ligne contenant une position
+   */
+  private getLineIndent(text: string, position: number): string {
+    return /^[ \t]*/.exec(text.slice(this.getLineStart(text, position)))![0];
+  }
+
+  /**
+   * Étend la fin d'une déclaration supprimée jusqu'à la fin de sa ligne
+   */
+  private getLineEnd(text: string, position: number): number {
+    const match = /^[ \t]*\r?\n/.exec(text.slice(position));
+    return match ? position + match[0].length : position;
+  }
+
+  /**
+   * Applique des modifications non chevauchantes en partant de la fin
+   */
+  private applyEdits(content: string, edits: TextEdit[]): string {
+    return edits
+      .slice()
+      .sort((a, b) => b.start - a.start || b.end - a.end)
+      .reduce((text, edit) => text.slice(0, edit.start) + edit.text + text.slice(edit.end), content);
+  }
+}
@@ -0,0 +1,150 @@
+import { AngularProject, AnalyzedFile, FileType, MigrationMode, MigrationOptions } from '../types';
+import { ModernizationTransformer } from './ModernizationTransformer';
+
+describe('ModernizationTransformer', () => {
+  const options: MigrationOptions = {
+    mode: MigrationMode.DRY_RUN,
+    backup: false,
+    autoApply: false,
+    exclude: [],
+    include: [],
+    verbose: false,
+    generateReport: false
+  };
+
+  const createFile = (path: string, type: FileType, content: string): AnalyzedFile => ({
+    path,
+    type,
+    content,
+    issues: [],
+    transformations: []
+  });
+
+  const transform = async (file: AnalyzedFile, targetVersion: string, files: AnalyzedFile[] = [file]) => {
+    const project: AngularProject = {
+      path: '/app',
+      currentVersion: '5.2.0',
+      targetVersion,
+      config: { angularDependencies: { core: '5.2.0', cli: '1.7.0', common: '5.2.0' } },
+      files
+    };
+    return new ModernizationTransformer().transformFile(file, options, project);
+  };
+
+  const resultOf = async (file: AnalyzedFile, targetVersion: string, rule: string, files?: AnalyzedFile[]) => {
+    const transformations = await transform(file, targetVersion, files);
+    return transformations.find(transformation => transformation.rule === `builtin:modernization/${rule}`);
+  };
+
+  describe('version cible', () => {
+    const appModule = createFile('/app/src/app/app.module.ts', FileType.MODULE, [
+      `import { NgModule } from '@angular/core';`,
+      `import { HttpModule } from '@angular/http';`,
+      ``,
+      `@NgModule({`,
+      `  imports: [HttpModule]`,
+      `})`,
+      `export class AppModule {}`
+    ].join('\n'));
+
+    it('conserve HttpClientModule pour une cible antérieure à Angular 15', async () => {
+      const transformation = await resultOf(appModule, '12.0.0', 'http-client');
+
+      expect(transformation?.after).toContain('imports: [HttpClientModule]');
+      expect(transformation?.after).not.toContain('provideHttpClient');
+    });
+
+    it('utilise provideHttpClient à partir d\'Angular 15', async () => {
+      const transformation = await resultOf(appModule, '20.0.0', 'http-client');
+
+      expect(transformation?.after).toContain('provideHttpClient(withInterceptorsFromDi())');
+    });
+
+    const component = createFile('/app/src/app/list.component.ts', FileType.COMPONENT, [
+      `import { Component } from '@angular/core';`,
+      `import { map } from 'rxjs/operators';`,
+      ``,
+      `@Component({ selector: 'app-list', template: '' })`,
+      `export class ListComponent {`,
+      `  readonly double = map((value: number) => value * 2);`,
+      `}`
+    ].join('\n'));
+
+    it('conserve rxjs/operators pour une cible en RxJS 6', async () => {
+      const transformations = await transform(component, '12.0.0');
+
+      expect(transformations.every(transformation => !transformation.after.includes(`from 'rxjs';`))).toBe(true);
+    });
+
+    it('importe les opérateurs depuis rxjs à partir de RxJS 7', async () => {
+      const transformations = await transform(component, '20.0.0');
+
+      expect(transformations[transformations.length - 1].after).toContain(`import { map } from 'rxjs';`);
+    });
+
+    const packageJson = () => createFile('/app/package.json', FileType.PACKAGE_JSON, JSON.stringify({
+      dependencies: { '@angular/core': '^5.2.0', 'rxjs': '^5.5.0' }
+    }));
+
+    it('ajoute rxjs-compat pour une cible en RxJS 6', async () => {
+      const transformation = await resultOf(packageJson(), '12.0.0', 'package-json');
+
+      expect(JSON.parse(transformation!.after).dependencies).toEqual({
+        '@angular/core': '^12.0.0',
+        'rxjs': '~6.6.0',
+        'rxjs-compat': '~6.6.0'
+      });
+    });
+
+    it('n\'ajoute pas rxjs-compat pour une cible en RxJS 7', async () => {
+      const transformation = await resultOf(packageJson(), '20.0.0', 'package-json');
+
+      expect(JSON.parse(transformation!.after).dependencies['rxjs-compat']).toBeUndefined();
+    });
+
+    const button = createFile('/app/src/app/button.component.ts', FileType.COMPONENT, [
+      `import { Component } from '@angular/core';`,
+      ``,
+      `@Component({ selector: 'app-button', template: '<button>{{ label | uppercase }}</button>' })`,
+      `export class ButtonComponent {`,
+      `  label = 'ok';`,
+      `}`
+    ].join('\n'));
+    const buttonModule = createFile('/app/src/app/button.module.ts', FileType.MODULE, [
+      `import { NgModule } from '@angular/core';`,
+      `import { ButtonComponent } from './button.component';`,
+      ``,
+      `@NgModule({ declarations: [ButtonComponent], exports: [ButtonComponent] })`,
+      `export class ButtonModule {}`
+    ].join('\n'));
+
+    it('déclare standalone: true pour une cible antérieure à Angular 19', async () => {
+      const transformation = await resultOf(button, '16.0.0', 'standalone', [button, buttonModule]);
+
+      expect(transformation?.after).toContain('standalone: true');
+    });
+
+    it('omet standalone: true à partir d\'Angular 19', async () => {
+      const transformation = await resultOf(button, '20.0.0', 'standalone', [button, buttonModule]);
+
+      expect(transformation?.after).toContain('imports: [UpperCasePipe]');
+      expect(transformation?.after).not.toContain('standalone');
+    });
+
+    const angularCliJson = createFile('/app/.angular-cli.json', FileType.ANGULAR_CLI_JSON, JSON.stringify({
+      project: { name: 'shop' },
+      apps: [{ root: 'src', outDir: 'dist', main: 'main.ts', environmentSource: 'environments/environment.ts', environments: { dev: 'environments/environment.ts', prod: 'environments/environment.prod.ts' } }]
+    }));
+
+    it('génère un angular.json à jour pour la version cible', async () => {
+      const transformation = await resultOf(angularCliJson, '16.0.0', 'angular-cli-json');
+      const workspace = JSON.parse(transformation!.after);
+      const production = workspace.projects.shop.architect.build.configurations.production;
+
+      expect(transformation?.targetPath).toBe('/app/angular.json');
+      expect(workspace.defaultProject).toBeUndefined();
+      expect(production.budgets).toHaveLength(2);
+      expect(production.extractCss).toBeUndefined();
+    });
+  });
+});
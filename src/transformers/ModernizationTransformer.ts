@@ -1,5 +1,61 @@
-import { AnalyzedFile, Transformation, TransformationType, TransformationStatus, MigrationOptions, FileType } from '../types';
+import * as ts from 'typescript';
+import { AngularProject, AnalyzedFile, Transformation, TransformationType, TransformationStatus, MigrationOptions, MigrationPlugin, FileType } from '../types';
+import { AstUtils } from '../utils/AstUtils';
 import { Logger } from '../utils/Logger';
+import { VersionUtils } from '../utils/VersionUtils';
+import { PluginRegistry } from '../plugins/PluginRegistry';
+import { AngularCliConfigTransformer } from './AngularCliConfigTransformer';
+import { AngularJsonTransformer } from './AngularJsonTransformer';
+import { TsconfigTransformer } from './TsconfigTransformer';
+import { RxjsTransformer } from './RxjsTransformer';
+import { HttpClientTransformer } from './HttpClientTransformer';
+import { StandaloneTransformer } from './StandaloneTransformer';
+import { TypedFormsTransformer } from './TypedFormsTransformer';
+import { InjectTransformer } from './InjectTransformer';
+import { ControlFlowMigrator } from './ControlFlowMigrator';
+import { FEATURE_VERSIONS, MigrationPhases } from '../config/MigrationPhases';
+
+/**
+ * Fichiers TypeScript sans type dédié (routing, utilitaires, guards, directives, pipes...)
+ */
+const GENERAL_FILE_TYPES = [FileType.ROUTING, FileType.CSS_STYLE, FileType.SCSS_STYLE, FileType.OTHER];
+
+/**
+ * Paquets Angular alignés sur la version cible
+ */
+const ANGULAR_PACKAGES = [
+  '@angular/core',
+  '@angular/common',
+  '@angular/compiler',
+  '@angular/platform-browser',
+  '@angular/platform-browser-dynamic',
+  '@angular/router',
+  '@angular/forms',
+  '@angular/cli',
+  '@angular-devkit/build-angular'
+];
+
+/**
+ * Versions de TypeScript, RxJS et zone.js compatibles avec chaque version majeure d'Angular
+ */
+const COMPANION_DEPENDENCIES: Record<number, Record<string, string>> = {
+  5: { 'typescript': '~2.4.2', 'rxjs': '^5.5.0', 'zone.js': '^0.8.19' },
+  6: { 'typescript': '~2.7.2', 'rxjs': '^6.0.0', 'zone.js': '^0.8.26' },
+  7: { 'typescript': '~3.1.6', 'rxjs': '~6.3.3', 'zone.js': '~0.8.26' },
+  8: { 'typescript': '~3.4.5', 'rxjs': '~6.4.0', 'zone.js': '~0.9.1' },
+  9: { 'typescript': '~3.7.5', 'rxjs': '~6.5.4', 'zone.js': '~0.10.2' },
+  10: { 'typescript': '~3.9.7', 'rxjs': '~6.5.5', 'zone.js': '~0.10.3' },
+  11: { 'typescript': '~4.0.5', 'rxjs': '~6.6.0', 'zone.js': '~0.11.3' },
+  12: { 'typescript': '~4.2.4', 'rxjs': '~6.6.0', 'zone.js': '~0.11.4' },
+  13: { 'typescript': '~4.4.4', 'rxjs': '~7.4.0', 'zone.js': '~0.11.4' },
+  14: { 'typescript': '~4.7.4', 'rxjs': '~7.5.0', 'zone.js': '~0.11.4' },
+  15: { 'typescript': '~4.8.4', 'rxjs': '~7.5.0', 'zone.js': '~0.12.0' },
+  16: { 'typescript': '~5.1.3', 'rxjs': '~7.8.0', 'zone.js': '~0.13.0' },
+  17: { 'typescript': '~5.2.2', 'rxjs': '~7.8.0', 'zone.js': '~0.14.2' },
+  18: { 'typescript': '~5.4.5', 'rxjs': '~7.8.0', 'zone.js': '~0.14.3' },
+  19: { 'typescript': '~5.6.2', 'rxjs': '~7.8.0', 'zone.js': '~0.15.0' },
+  20: { 'typescript': '~5.8.2', 'rxjs': '~7.8.0', 'zone.js': '~0.15.0' }
+};
 
 /**
  * Transformateur de modernisation Angular
@@ -7,37 +63,39 @@ import { Logger } from '../utils/Logger';
  */
 export class ModernizationTransformer {
   private logger: Logger;
-
-  constructor() {
+  private controlFlowMigrator: ControlFlowMigrator;
+  private angularCliConfigTransformer: AngularCliConfigTransformer;
+  private angularJsonTransformer: AngularJsonTransformer;
+  private tsconfigTransformer: TsconfigTransformer;
+  private rxjsTransformer: RxjsTransformer;
+  private httpClientTransformer: HttpClientTransformer;
+  private standaloneTransformer: StandaloneTransformer;
+  private typedFormsTransformer: TypedFormsTransformer;
+  private injectTransformer: InjectTransformer;
+  private registry: PluginRegistry;
+
+  constructor(registry: PluginRegistry = new PluginRegistry()) {
     this.logger = new Logger();
+    this.controlFlowMigrator = new ControlFlowMigrator();
+    this.angularCliConfigTransformer = new AngularCliConfigTransformer();
+    this.angularJsonTransformer = new AngularJsonTransformer();
+    this.tsconfigTransformer = new TsconfigTransformer();
+    this.rxjsTransformer = new RxjsTransformer();
+    this.httpClientTransformer = new HttpClientTransformer();
+    this.standaloneTransformer = new StandaloneTransformer();
+    this.typedFormsTransformer = new TypedFormsTransformer();
+    this.injectTransformer = new InjectTransformer();
+    this.registry = registry;
+    this.registry.registerBuiltin(this.createBuiltinPlugin());
   }
 
   /**
    * Transforme un fichier selon les bonnes pratiques modernes
+   * Le projet donne accès aux autres fichiers (chaînes `extends` des tsconfig, NgModules et templates)
    */
-  async transformFile(file: AnalyzedFile, options: MigrationOptions): Promise<Transformation[]> {
-    const transformations: Transformation[] = [];
-
+  async transformFile(file: AnalyzedFile, options: MigrationOptions, project?: AngularProject): Promise<Transformation[]> {
     try {
-      switch (file.type) {
-        case FileType.COMPONENT:
-          transformations.push(...await this.transformComponent(file, options));
-          break;
-        case FileType.SERVICE:
-          transformations.push(...await this.transformService(file, options));
-          break;
-        case FileType.MODULE:
-          transformations.push(...await this.transformModule(file, options));
-          break;
-        case FileType.HTML_TEMPLATE:
-          transformations.push(...await this.transformTemplate(file, options));
-          break;
-        case FileType.PACKAGE_JSON:
-          transformations.push(...await this.transformPackageJson(file, options));
-          break;
-      }
-
-      return transformations;
+      return await this.registry.transform(file, { project, options });
     } catch (error) {
       this.logger.error(`Erreur lors de la transformation de ${file.path}: ${error.message}`);
       return [];
@@ -45,131 +103,157 @@ export class ModernizationTransformer {
   }
 
   /**
-   * Transforme un composant vers les standards modernes
+   * Règles de transformation intégrées, exposées comme un plugin
+   * L'ordre reproduit les chaînes historiques par type de fichier (composant, service, module, autres)
+   * Une règle liée à une version (`versionRange`) ne s'exécute que si le projet ne l'a pas encore franchie
    */
-  private async transformComponent(file: AnalyzedFile, options: MigrationOptions): Promise<Transformation[]> {
-    const transformations: Transformation[] = [];
-    let content = file.content;
-
-    // 1. Conversion vers standalone
-    if (content.includes('@Component') && !content.includes('standalone: true')) {
-      const standaloneTransformation = this.convertToStandalone(content);
-      if (standaloneTransformation) {
-        transformations.push(standaloneTransformation);
-        content = standaloneTransformation.after;
-      }
-    }
+  private createBuiltinPlugin(): MigrationPlugin {
+    const typeScriptOnly = (file: AnalyzedFile) => AstUtils.isTypeScriptFile(file.path);
 
-    // 2. Migration vers inject()
-    const injectTransformation = this.migrateToInject(content);
-    if (injectTransformation) {
-      transformations.push(injectTransformation);
-      content = injectTransformation.after;
-    }
-
-    // 3. Migration des formulaires typés
-    const typedFormsTransformation = this.migrateToTypedForms(content);
-    if (typedFormsTransformation) {
-      transformations.push(typedFormsTransformation);
-      content = typedFormsTransformation.after;
-    }
-
-    // 4. Mise à jour des imports
-    const importsTransformation = this.updateImports(content);
-    if (importsTransformation) {
-      transformations.push(importsTransformation);
-      content = importsTransformation.after;
-    }
-
-    return transformations;
+    return {
+      name: 'builtin:modernization',
+      transformers: [
+        {
+          id: 'standalone',
+          order: 10,
+          targetRange: `>=${FEATURE_VERSIONS.standalone}`,
+          fileTypes: [FileType.COMPONENT, ...GENERAL_FILE_TYPES],
+          crossFile: true,
+          transform: (content, file, context) => typeScriptOnly(file)
+            ? this.convertToStandalone(content, file, MigrationPhases.targetMajor(context.project), context.project)
+            : null
+        },
+        {
+          id: 'inject',
+          order: 20,
+          targetRange: `>=${FEATURE_VERSIONS.inject}`,
+          fileTypes: [FileType.COMPONENT, FileType.SERVICE, ...GENERAL_FILE_TYPES],
+          crossFile: true,
+          transform: (content, file, context) => typeScriptOnly(file) ? this.migrateToInject(content, file, context.project) : null
+        },
+        {
+          id: 'provided-in-root',
+          order: 25,
+          targetRange: `>=${FEATURE_VERSIONS.providedIn}`,
+          fileTypes: [FileType.SERVICE],
+          transform: content => content.includes('@Injectable') && !content.includes('providedIn: \'root\'')
+            ? this.configureStandaloneService(content)
+            : null
+        },
+        {
+          id: 'typed-forms',
+          order: 30,
+          targetRange: `>=${FEATURE_VERSIONS.typedForms}`,
+          fileTypes: [FileType.COMPONENT],
+          transform: (content, file) => this.migrateToTypedForms(content, file.path)
+        },
+        {
+          id: 'inline-templates',
+          order: 40,
+          targetRange: `>=${FEATURE_VERSIONS.controlFlow}`,
+          fileTypes: [FileType.COMPONENT],
+          transform: (content, file) => this.migrateInlineTemplates(content, file.path)
+        },
+        {
+          id: 'http-client',
+          order: 50,
+          // @angular/http est retiré en Angular 8
+          versionRange: '<8',
+          fileTypes: [FileType.COMPONENT, FileType.SERVICE, FileType.MODULE, ...GENERAL_FILE_TYPES],
+          transform: (content, file, context) => typeScriptOnly(file)
+            ? this.migrateHttpClient(content, file.path, MigrationPhases.targetMajor(context.project))
+            : null
+        },
+        {
+          id: 'remove-ngmodule',
+          order: 55,
+          targetRange: `>=${FEATURE_VERSIONS.standalone}`,
+          fileTypes: [FileType.MODULE],
+          crossFile: true,
+          transform: (content, file, context) => this.removeNgModule(content, file, context.project)
+        },
+        {
+          id: 'rxjs',
+          order: 60,
+          // Le code produit utilise les fonctions de RxJS 7 (firstValueFrom...)
+          targetRange: `>=${FEATURE_VERSIONS.rxjs7}`,
+          fileTypes: [FileType.COMPONENT, FileType.SERVICE, ...GENERAL_FILE_TYPES],
+          transform: (content, file) => typeScriptOnly(file) ? this.migrateRxjs(content, file.path) : null
+        },
+        {
+          id: 'imports',
+          order: 70,
+          fileTypes: [FileType.COMPONENT],
+          transform: (content, _file, context) => this.updateImports(content, MigrationPhases.targetMajor(context.project))
+        },
+        {
+          id: 'control-flow',
+          fileTypes: [FileType.HTML_TEMPLATE],
+          targetRange: `>=${FEATURE_VERSIONS.controlFlow}`,
+          transform: content => this.migrateControlFlow(content)
+        },
+        {
+          id: 'package-json',
+          fileTypes: [FileType.PACKAGE_JSON],
+          transform: (content, _file, context) => this.transformPackageJson(content, MigrationPhases.targetMajor(context.project))
+        },
+        {
+          id: 'angular-cli-json',
+          fileTypes: [FileType.ANGULAR_CLI_JSON],
+          // .angular-cli.json est remplacé par angular.json en Angular 6
+          versionRange: '<6',
+          transform: (content, file, context) => this.angularCliConfigTransformer.transform({ ...file, content }, MigrationPhases.targetMajor(context.project))
+        },
+        {
+          id: 'angular-json',
+          fileTypes: [FileType.ANGULAR_JSON],
+          transform: (content, file, context) => this.angularJsonTransformer.transform({ ...file, content }, MigrationPhases.targetMajor(context.project))
+        },
+        {
+          id: 'tsconfig',
+          fileTypes: [FileType.TSCONFIG],
+          crossFile: true,
+          transform: (content, file, context) => this.tsconfigTransformer.transform({ ...file, content }, context.project, MigrationPhases.targetMajor(context.project))
+        }
+      ]
+    };
   }
 
   /**
-   * Transforme un service vers les standards modernes
+   * Retire du module les déclarations converties en standalone, et supprime le module s'il devient vide
    */
-  private async transformService(file: AnalyzedFile, options: MigrationOptions): Promise<Transformation[]> {
-    const transformations: Transformation[] = [];
-    let content = file.content;
-
-    // 1. Migration vers inject()
-    const injectTransformation = this.migrateToInject(content);
-    if (injectTransformation) {
-      transformations.push(injectTransformation);
-      content = injectTransformation.after;
-    }
-
-    // 2. Configuration standalone
-    if (content.includes('@Injectable') && !content.includes('providedIn: \'root\'')) {
-      const standaloneTransformation = this.configureStandaloneService(content);
-      if (standaloneTransformation) {
-        transformations.push(standaloneTransformation);
-        content = standaloneTransformation.after;
-      }
-    }
+  private removeNgModule(content: string, file: AnalyzedFile, project?: AngularProject): Transformation | null {
+    const { content: newContent, issues, deleteFile } = this.standaloneTransformer.migrateNgModules(content, file.path, project?.files || [file]);
+    if (newContent === content && !deleteFile) return null;
 
-    return transformations;
-  }
-
-  /**
-   * Transforme un module (vers standalone)
-   */
-  private async transformModule(file: AnalyzedFile, options: MigrationOptions): Promise<Transformation[]> {
-    const transformations: Transformation[] = [];
-    
-    // Pour les modules, on génère des recommandations plutôt que des transformations automatiques
-    const transformation: Transformation = {
+    return {
       type: TransformationType.REMOVE_NGMODULE,
-      description: 'Migration du NgModule vers les composants standalone',
-      before: file.content,
-      after: file.content, // Pas de transformation automatique
-      status: TransformationStatus.PENDING
+      description: deleteFile
+        ? 'Suppression du NgModule devenu vide après la conversion standalone'
+        : 'Retrait des déclarations converties en standalone du NgModule',
+      before: content,
+      after: newContent,
+      deleteFile: deleteFile || undefined,
+      status: TransformationStatus.PENDING,
+      issues
     };
-
-    transformations.push(transformation);
-    return transformations;
-  }
-
-  /**
-   * Transforme un template HTML
-   */
-  private async transformTemplate(file: AnalyzedFile, options: MigrationOptions): Promise<Transformation[]> {
-    const transformations: Transformation[] = [];
-    let content = file.content;
-
-    // Migration du contrôle de flux
-    const controlFlowTransformation = this.migrateControlFlow(content);
-    if (controlFlowTransformation) {
-      transformations.push(controlFlowTransformation);
-      content = controlFlowTransformation.after;
-    }
-
-    return transformations;
   }
 
   /**
-   * Transforme le package.json
+   * Transforme le package.json vers la version cible
    */
-  private async transformPackageJson(file: AnalyzedFile, options: MigrationOptions): Promise<Transformation[]> {
+  private async transformPackageJson(content: string, targetMajor: number): Promise<Transformation[]> {
     const transformations: Transformation[] = [];
     
     try {
-      const packageJson = JSON.parse(file.content);
+      const packageJson = JSON.parse(content);
       const updatedPackageJson = { ...packageJson };
+      const rxjsVersion: string | undefined = packageJson.dependencies?.rxjs || packageJson.devDependencies?.rxjs;
       
-      // Mise à jour des dépendances Angular
-      const angularDependencies = {
-        '@angular/core': '^20.0.0',
-        '@angular/common': '^20.0.0',
-        '@angular/compiler': '^20.0.0',
-        '@angular/platform-browser': '^20.0.0',
-        '@angular/platform-browser-dynamic': '^20.0.0',
-        '@angular/router': '^20.0.0',
-        '@angular/forms': '^20.0.0',
-        '@angular/cli': '^20.0.0',
-        '@angular-devkit/build-angular': '^20.0.0',
-        'typescript': '^5.0.0',
-        'rxjs': '^7.8.0',
-        'zone.js': '^0.14.0'
+      // Mise à jour des dépendances Angular et des dépendances compatibles avec la version cible
+      const angularDependencies: Record<string, string> = {
+        ...Object.fromEntries(ANGULAR_PACKAGES.map(dep => [dep, `^${targetMajor}.0.0`])),
+        ...COMPANION_DEPENDENCIES[targetMajor]
       };
 
       // Mise à jour des dépendances
@@ -182,8 +266,18 @@ export class ModernizationTransformer {
         }
       });
 
+      // Le code RxJS 5 (opérateurs patchés) n'est converti que pour une cible en RxJS 7 :
+      // jusque-là, rxjs-compat le maintient compilable avec RxJS 6
+      const needsRxjsCompat = targetMajor >= 6 && targetMajor < FEATURE_VERSIONS.rxjs7
+        && (this.hasDependency(packageJson, 'rxjs-compat') || (rxjsVersion !== undefined && VersionUtils.major(rxjsVersion) < 6));
+      if (needsRxjsCompat) {
+        const section = ['dependencies', 'devDependencies'].find(key => packageJson[key]?.['rxjs-compat'])
+          || (packageJson.dependencies?.rxjs ? 'dependencies' : 'devDependencies');
+        updatedPackageJson[section] = { ...updatedPackageJson[section], 'rxjs-compat': COMPANION_DEPENDENCIES[targetMajor].rxjs };
+      }
+
       // Suppression des dépendances obsolètes
-      const obsoleteDeps = ['@angular/http', 'rxjs-compat'];
+      const obsoleteDeps = ['@angular/http', ...(needsRxjsCompat ? [] : ['rxjs-compat'])];
       obsoleteDeps.forEach(dep => {
         if (updatedPackageJson.dependencies && updatedPackageJson.dependencies[dep]) {
           delete updatedPackageJson.dependencies[dep];
@@ -195,8 +289,8 @@ export class ModernizationTransformer {
 
       const transformation: Transformation = {
         type: TransformationType.UPDATE_DEPENDENCIES,
-        description: 'Mise à jour des dépendances Angular vers la version 20',
-        before: file.content,
+        description: `Mise à jour des dépendances Angular vers la version ${targetMajor}`,
+        before: content,
         after: JSON.stringify(updatedPackageJson, null, 2),
         status: TransformationStatus.PENDING
       };
@@ -210,132 +304,62 @@ export class ModernizationTransformer {
   }
 
   /**
-   * Convertit un composant vers standalone
+   * Indique si le package.json déclare une dépendance (dependencies ou devDependencies)
    */
-  private convertToStandalone(content: string): Transformation | null {
-    const componentRegex = /@Component\s*\(\s*\{([^}]+)\}\s*\)/;
-    const match = content.match(componentRegex);
-    
-    if (!match) return null;
+  private hasDependency(packageJson: any, name: string): boolean {
+    return !!(packageJson.dependencies?.[name] || packageJson.devDependencies?.[name]);
+  }
 
-    const componentConfig = match[1];
-    if (componentConfig.includes('standalone: true')) return null;
+  /**
+   * Convertit les composants, directives et pipes vers standalone (imports résolus depuis le template)
+   * Avant Angular 19, `standalone: true` doit être explicite
+   */
+  private convertToStandalone(content: string, file: AnalyzedFile, targetMajor: number, project?: AngularProject): Transformation | null {
+    if (!/@(Component|Directive|Pipe)\b/.test(content)) return null;
 
-    // Ajouter standalone: true et imports
-    const updatedConfig = componentConfig.trim();
-    const newConfig = `{
-  standalone: true,
-  imports: [CommonModule], // TODO: Ajouter les imports nécessaires
-  ${updatedConfig}
-}`;
+    const { content: newContent, issues } = this.standaloneTransformer.migrateDeclarables(content, file.path, project?.files || [file], targetMajor);
 
-    const newContent = content.replace(componentRegex, `@Component(${newConfig})`);
+    if (newContent === content) return null;
 
     return {
       type: TransformationType.CONVERT_TO_STANDALONE,
       description: 'Conversion vers composant standalone',
       before: content,
       after: newContent,
-      status: TransformationStatus.PENDING
+      status: TransformationStatus.PENDING,
+      issues
     };
   }
 
   /**
-   * Migre vers la fonction inject()
+   * Migre l'injection par constructeur vers la fonction inject()
    */
-  private migrateToInject(content: string): Transformation | null {
-    // Pattern pour détecter l'injection par constructeur
-    const constructorPattern = /constructor\s*\(\s*([^)]+)\s*\)/;
-    const match = content.match(constructorPattern);
-    
-    if (!match) return null;
-
-    const injectionParams = match[1];
-    if (!injectionParams.includes('private') && !injectionParams.includes('public')) {
-      return null;
-    }
-
-    // Extraire les services injectés
-    const serviceMatches = injectionParams.match(/(\w+):\s*(\w+)/g);
-    if (!serviceMatches) return null;
-
-    // Générer le nouveau code avec inject()
-    let newContent = content;
-    let injectStatements = '';
-    let newConstructor = 'constructor() {';
-
-    serviceMatches.forEach(serviceMatch => {
-      const [, serviceName, serviceType] = serviceMatch.match(/(\w+):\s*(\w+)/) || [];
-      if (serviceName && serviceType) {
-        injectStatements += `  private ${serviceName} = inject(${serviceType});\n`;
-      }
-    });
+  private migrateToInject(content: string, file: AnalyzedFile, project?: AngularProject): Transformation | null {
+    if (!content.includes('constructor')) return null;
 
-    newConstructor += '\n  }';
-    
-    // Remplacer le constructeur
-    newContent = newContent.replace(constructorPattern, newConstructor);
-    
-    // Ajouter les imports inject() si nécessaire
-    if (!newContent.includes('import { inject }')) {
-      const importMatch = newContent.match(/import\s*\{([^}]+)\}\s*from\s*['"]@angular\/core['"]/);
-      if (importMatch) {
-        const imports = importMatch[1];
-        newContent = newContent.replace(
-          importMatch[0],
-          `import { ${imports}, inject } from '@angular/core'`
-        );
-      } else {
-        // Ajouter l'import inject
-        const firstImport = newContent.match(/import.*from.*['"]@angular\/core['"]/);
-        if (firstImport) {
-          newContent = newContent.replace(
-            firstImport[0],
-            `${firstImport[0]}\nimport { inject } from '@angular/core';`
-          );
-        }
-      }
-    }
+    const { content: newContent, issues } = this.injectTransformer.migrate(content, file.path, project?.files, project?.targetVersion);
 
-    // Ajouter les déclarations inject
-    const classMatch = newContent.match(/export class \w+\s*\{/);
-    if (classMatch) {
-      newContent = newContent.replace(
-        classMatch[0],
-        `${classMatch[0]}\n${injectStatements}`
-      );
-    }
+    if (newContent === content && issues.length === 0) return null;
 
     return {
       type: TransformationType.REPLACE_INJECT,
       description: 'Migration vers la fonction inject()',
       before: content,
       after: newContent,
-      status: TransformationStatus.PENDING
+      status: newContent === content ? TransformationStatus.SKIPPED : TransformationStatus.PENDING,
+      issues
     };
   }
 
   /**
-   * Migre vers les formulaires typés
+   * Migre vers les formulaires typés (interfaces générées, UntypedFormGroup en repli)
    */
-  private migrateToTypedForms(content: string): Transformation | null {
-    if (!content.includes('FormGroup') && !content.includes('FormControl')) {
+  private migrateToTypedForms(content: string, filePath: string): Transformation | null {
+    if (!/Form(Group|Control|Array|Builder)\b/.test(content)) {
       return null;
     }
 
-    let newContent = content;
-
-    // Remplacer FormGroup() par FormGroup<Interface>()
-    newContent = newContent.replace(
-      /FormGroup\s*\(\s*\)/g,
-      'FormGroup<MyFormInterface>()' // TODO: Générer l'interface automatiquement
-    );
-
-    // Remplacer FormControl() par FormControl<Type>()
-    newContent = newContent.replace(
-      /FormControl\s*\(\s*\)/g,
-      'FormControl<string>()'
-    );
+    const { content: newContent, issues } = this.typedFormsTransformer.migrate(content, filePath);
 
     if (newContent === content) return null;
 
@@ -344,20 +368,21 @@ export class ModernizationTransformer {
       description: 'Migration vers les formulaires typés',
       before: content,
       after: newContent,
-      status: TransformationStatus.PENDING
+      status: TransformationStatus.PENDING,
+      issues
     };
   }
 
   /**
    * Met à jour les imports
    */
-  private updateImports(content: string): Transformation | null {
+  private updateImports(content: string, targetMajor: number): Transformation | null {
     let newContent = content;
 
-    // Remplacer les imports obsolètes
+    // Remplacer les imports obsolètes (les opérateurs ne sont exportés par `rxjs` qu'à partir de RxJS 7)
     const importReplacements = [
       { from: '@angular/http', to: '@angular/common/http' },
-      { from: 'rxjs/operators', to: 'rxjs' }
+      ...(targetMajor >= FEATURE_VERSIONS.rxjs7 ? [{ from: 'rxjs/operators', to: 'rxjs' }] : [])
     ];
 
     let hasChanges = false;
@@ -411,34 +436,84 @@ export class ModernizationTransformer {
    * Migre le contrôle de flux dans les templates
    */
   private migrateControlFlow(content: string): Transformation | null {
-    let newContent = content;
-    let hasChanges = false;
+    const newContent = this.controlFlowMigrator.migrate(content);
 
-    // Migration *ngIf vers @if
-    if (newContent.includes('*ngIf')) {
-      newContent = newContent.replace(/\*ngIf="([^"]+)"/g, '@if ($1) {');
-      newContent = newContent.replace(/<\/ng-container>/g, '}');
-      hasChanges = true;
-    }
+    if (newContent === content) return null;
+
+    return {
+      type: TransformationType.UPDATE_CONTROL_FLOW,
+      description: 'Migration vers le nouveau contrôle de flux',
+      before: content,
+      after: newContent,
+      status: TransformationStatus.PENDING
+    };
+  }
+
+  /**
+   * Migre les services et modules de @angular/http vers HttpClient
+   * Avant Angular 15 (provideHttpClient indisponible), les NgModules importent HttpClientModule
+   */
+  private migrateHttpClient(content: string, filePath: string, targetMajor: number): Transformation | null {
+    const { content: newContent, issues } = this.httpClientTransformer.migrate(content, filePath, targetMajor);
+
+    if (newContent === content) return null;
+
+    return {
+      type: TransformationType.MIGRATE_HTTP_CLIENT,
+      description: 'Migration de @angular/http vers HttpClient',
+      before: content,
+      after: newContent,
+      status: TransformationStatus.PENDING,
+      issues
+    };
+  }
+
+  /**
+   * Migre le code RxJS 5 (opérateurs patchés, méthodes statiques, toPromise) vers RxJS 7
+   */
+  private migrateRxjs(content: string, filePath: string): Transformation | null {
+    const newContent = this.rxjsTransformer.migrate(content, filePath);
 
-    // Migration *ngFor vers @for
-    if (newContent.includes('*ngFor')) {
-      newContent = newContent.replace(
-        /\*ngFor="let (\w+) of ([^;]+); let (\w+) = index"/g,
-        '@for ($1 of $2; track $1; let $3 = $index) {'
-      );
-      newContent = newContent.replace(
-        /\*ngFor="let (\w+) of ([^;]+)"/g,
-        '@for ($1 of $2; track $1) {'
-      );
-      hasChanges = true;
+    if (newContent === content) return null;
+
+    return {
+      type: TransformationType.MIGRATE_RXJS,
+      description: 'Migration RxJS 5 → 7 (pipe, fonctions de création, firstValueFrom/lastValueFrom)',
+      before: content,
+      after: newContent,
+      status: TransformationStatus.PENDING
+    };
+  }
+
+  /**
+   * Migre le contrôle de flux des templates inline (`template:` dans @Component)
+   */
+  private migrateInlineTemplates(content: string, filePath: string): Transformation | null {
+    const sourceFile = AstUtils.parse(filePath, content);
+    let newContent = content;
+
+    // Remplacement depuis la fin pour conserver les positions
+    const literals = AstUtils.findInlineTemplates(sourceFile).reverse();
+    for (const literal of literals) {
+      const start = literal.getStart(sourceFile);
+      const end = literal.getEnd();
+      const isTemplateLiteral = ts.isNoSubstitutionTemplateLiteral(literal);
+      const template = isTemplateLiteral ? content.slice(start + 1, end - 1) : literal.text;
+
+      const migrated = this.controlFlowMigrator.migrate(template);
+      if (migrated === template) continue;
+
+      const replacement = isTemplateLiteral
+        ? `\`${migrated}\``
+        : `\`${migrated.replace(/\\/g, '\\\\').replace(/`/g, '\\`').replace(/\$\{/g, '\\${')}\``;
+      newContent = newContent.slice(0, start) + replacement + newContent.slice(end);
     }
 
-    if (!hasChanges) return null;
+    if (newContent === content) return null;
 
     return {
       type: TransformationType.UPDATE_CONTROL_FLOW,
-      description: 'Migration vers le nouveau contrôle de flux',
+      description: 'Migration vers le nouveau contrôle de flux (template inline)',
       before: content,
       after: newContent,
       status: TransformationStatus.PENDING
@@ -0,0 +1,57 @@
+import { RxjsTransformer } from './RxjsTransformer';
+
+describe('RxjsTransformer', () => {
+  const migrate = (content: string) => new RxjsTransformer().migrate(content, 'test.ts');
+
+  describe('chaînes d\'opérateurs patchés', () => {
+    it('convertit une chaîne sur une source Observable', () => {
+      const output = migrate([
+        `import { Observable } from 'rxjs/Observable';`,
+        `import 'rxjs/add/operator/debounceTime';`,
+        `const search$: Observable<string> = source;`,
+        `search$.debounceTime(300).subscribe();`
+      ].join('\n'));
+
+      expect(output).toContain('search$.pipe(debounceTime(300)).subscribe();');
+      expect(output).toContain(`import { Observable, debounceTime } from 'rxjs';`);
+    });
+
+    it.each([
+      ['Math.max(1, 2)', 'max'],
+      ['Promise.race([a, b])', 'raceWith'],
+      ['_.debounce(fn, 100)', 'debounce'],
+      ['JSON.stringify(value).concat(suffix)', 'concatWith'],
+      ['Object.keys(value).filter(Boolean)', 'filter']
+    ])('ne convertit pas %s', (call, operator) => {
+      const source = [
+        `import { Observable } from 'rxjs/Observable';`,
+        `import 'rxjs/add/operator/map';`,
+        `const result = ${call};`
+      ].join('\n');
+      const output = migrate(source);
+
+      expect(output).toContain(`const result = ${call};`);
+      expect(output).not.toContain('.pipe(');
+      expect(output).not.toMatch(new RegExp(`import \\{[^}]*\\b${operator}\\b[^}]*\\} from 'rxjs'`));
+    });
+
+    it('ne convertit pas les appels sur un espace de noms importé', () => {
+      const source = [
+        `import * as utils from './utils';`,
+        `import { Subject } from 'rxjs/Subject';`,
+        `const value = utils.max(1, 2);`
+      ].join('\n');
+
+      expect(migrate(source)).toContain('const value = utils.max(1, 2);');
+    });
+
+    it('ne convertit pas une variable sans indice de type', () => {
+      const source = [
+        `import { Subject } from 'rxjs/Subject';`,
+        `const value = items.take(3);`
+      ].join('\n');
+
+      expect(migrate(source)).toContain('const value = items.take(3);');
+    });
+  });
+});
@@ -0,0 +1,665 @@
+import * as ts from 'typescript';
+import { AstUtils } from '../utils/AstUtils';
+import { Logger } from '../utils/Logger';
+
+/**
+ * Modification textuelle du source
+ */
+interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Informations collectées sur un fichier avant réécriture
+ */
+interface RxjsContext {
+  /** Le fichier importe RxJS (condition pour convertir les chaînes sans indice de type) */
+  usesRxjs: boolean;
+  /** Variables et propriétés typées Observable / Subject */
+  observableNames: Set<string>;
+  /** Méthodes et fonctions qui retournent un Observable */
+  observableMethods: Set<string>;
+  /** Fonctions de création importées depuis RxJS (nom local → fonction RxJS 7) */
+  creationImports: Map<string, string>;
+  /** Espaces de noms importés (`import * as utils from '...'`), jamais des Observables */
+  namespaceImports: Set<string>;
+}
+
+/**
+ * Opérateurs ajoutés au prototype par `import 'rxjs/add/operator/...'` (RxJS 5)
+ */
+const PATCH_OPERATORS = new Set([
+  'audit', 'auditTime', 'buffer', 'bufferCount', 'bufferTime', 'bufferToggle', 'bufferWhen', 'catch',
+  'combineAll', 'combineLatest', 'concat', 'concatAll', 'concatMap', 'concatMapTo', 'count', 'debounce',
+  'debounceTime', 'defaultIfEmpty', 'delay', 'delayWhen', 'dematerialize', 'distinct', 'distinctUntilChanged',
+  'distinctUntilKeyChanged', 'do', 'elementAt', 'every', 'exhaust', 'exhaustMap', 'expand', 'filter', 'finally',
+  'find', 'findIndex', 'first', 'flatMap', 'groupBy', 'ignoreElements', 'isEmpty', 'last', 'map', 'mapTo',
+  'materialize', 'max', 'merge', 'mergeAll', 'mergeMap', 'mergeMapTo', 'mergeScan', 'min', 'multicast',
+  'observeOn', 'onErrorResumeNext', 'pairwise', 'pluck', 'publish', 'publishBehavior', 'publishLast',
+  'publishReplay', 'race', 'reduce', 'repeat', 'repeatWhen', 'retry', 'retryWhen', 'sample', 'sampleTime',
+  'scan', 'sequenceEqual', 'share', 'shareReplay', 'single', 'skip', 'skipLast', 'skipUntil', 'skipWhile',
+  'startWith', 'subscribeOn', 'switch', 'switchMap', 'switchMapTo', 'take', 'takeLast', 'takeUntil',
+  'takeWhile', 'throttle', 'throttleTime', 'timeInterval', 'timeout', 'timeoutWith', 'timestamp', 'toArray',
+  'window', 'windowCount', 'windowTime', 'windowToggle', 'windowWhen', 'withLatestFrom', 'zip', 'zipAll'
+]);
+
+/**
+ * Receveurs dont les méthodes homonymes d'opérateurs (`Math.max`, `Promise.race`, `_.debounce`) ne sont pas des Observables
+ */
+const NON_OBSERVABLE_RECEIVERS = new Set(['Math', 'Promise', 'Object', 'JSON', 'Array', 'Number', 'String', 'Reflect', 'Date', '_']);
+
+/**
+ * Opérateurs renommés en RxJS 6/7
+ */
+const OPERATOR_RENAMES: Record<string, string> = {
+  do: 'tap',
+  catch: 'catchError',
+  switch: 'switchAll',
+  finally: 'finalize',
+  flatMap: 'mergeMap',
+  combineAll: 'combineLatestAll',
+  combineLatest: 'combineLatestWith',
+  concat: 'concatWith',
+  merge: 'mergeWith',
+  race: 'raceWith',
+  zip: 'zipWith'
+};
+
+/**
+ * Méthodes statiques d'Observable et fonction de création équivalente
+ */
+const STATIC_CREATIONS: Record<string, string> = {
+  of: 'of',
+  from: 'from',
+  fromPromise: 'from',
+  fromEvent: 'fromEvent',
+  fromEventPattern: 'fromEventPattern',
+  forkJoin: 'forkJoin',
+  combineLatest: 'combineLatest',
+  merge: 'merge',
+  concat: 'concat',
+  zip: 'zip',
+  race: 'race',
+  interval: 'interval',
+  timer: 'timer',
+  defer: 'defer',
+  range: 'range',
+  bindCallback: 'bindCallback',
+  bindNodeCallback: 'bindNodeCallback',
+  if: 'iif',
+  throw: 'throwError',
+  empty: 'EMPTY',
+  never: 'NEVER'
+};
+
+/**
+ * Fonctions de création importées depuis `rxjs/observable/...` (RxJS 5) et leur équivalent
+ */
+const DEEP_CREATION_RENAMES: Record<string, string> = {
+  _throw: 'throwError',
+  fromPromise: 'from',
+  empty: 'EMPTY',
+  never: 'NEVER',
+  _if: 'iif'
+};
+
+/**
+ * Types dont les instances sont des Observables
+ */
+const OBSERVABLE_TYPES = new Set([
+  'Observable', 'Subject', 'BehaviorSubject', 'ReplaySubject', 'AsyncSubject', 'ConnectableObservable', 'EventEmitter'
+]);
+
+/**
+ * Propriétés Angular exposant un Observable
+ */
+const OBSERVABLE_PROPERTIES = new Set(['valueChanges', 'statusChanges', 'paramMap', 'queryParamMap']);
+
+/**
+ * Méthodes d'un client HTTP (Http ou HttpClient)
+ */
+const HTTP_METHODS = new Set(['get', 'post', 'put', 'patch', 'delete', 'head', 'options', 'request', 'jsonp']);
+
+/**
+ * Opérateurs qui conservent le nombre de valeurs émises (requête HTTP → une seule valeur)
+ */
+const SINGLE_VALUE_OPERATORS = new Set(['map', 'tap', 'do', 'catch', 'catchError', 'retry', 'retryWhen', 'timeout', 'finally', 'finalize', 'delay', 'pluck', 'mapTo']);
+
+/**
+ * Modules RxJS 7 qui restent valides
+ */
+const SUPPORTED_SUBPATHS = ['rxjs/testing', 'rxjs/ajax', 'rxjs/webSocket', 'rxjs/fetch'];
+
+/**
+ * Nombre maximal de passes (les chaînes imbriquées sont converties de l'extérieur vers l'intérieur)
+ */
+const MAX_PASSES = 10;
+
+/**
+ * Transformateur RxJS 5 → RxJS 7
+ * Convertit les chaînes d'opérateurs patchés en `pipe()`, renomme les opérateurs,
+ * remplace les méthodes statiques d'Observable par les fonctions de création et `toPromise()`
+ * par `firstValueFrom` / `lastValueFrom`, puis regroupe les imports sur `rxjs`
+ */
+export class RxjsTransformer {
+  private logger: Logger;
+  private usedSymbols = new Set<string>();
+
+  constructor() {
+    this.logger = new Logger();
+  }
+
+  /**
+   * Migre le code RxJS d'un fichier TypeScript et retourne le nouveau contenu (identique si rien à migrer)
+   */
+  migrate(content: string, fileName: string): string {
+    if (!/from\s+['"]rxjs|import\s+['"]rxjs|\.toPromise\s*\(/.test(content)) {
+      return content;
+    }
+
+    this.usedSymbols = new Set<string>();
+    let current = content;
+
+    for (let pass = 0; pass < MAX_PASSES; pass++) {
+      const sourceFile = AstUtils.parse(fileName, current);
+      const edits = this.collectEdits(sourceFile, this.collectContext(sourceFile));
+      if (edits.length === 0) break;
+      current = this.applyEdits(current, edits);
+    }
+
+    return this.rewriteImports(current, fileName);
+  }
+
+  /**
+   * Recense les indices de type disponibles dans le fichier
+   */
+  private collectContext(sourceFile: ts.SourceFile): RxjsContext {
+    const context: RxjsContext = {
+      usesRxjs: false,
+      observableNames: new Set<string>(),
+      observableMethods: new Set<string>(),
+      creationImports: new Map<string, string>(),
+      namespaceImports: new Set<string>()
+    };
+
+    for (const declaration of AstUtils.getImports(sourceFile)) {
+      const namespace = declaration.importClause?.namedBindings;
+      if (namespace && ts.isNamespaceImport(namespace)) {
+        context.namespaceImports.add(namespace.name.text);
+      }
+
+      const moduleName = AstUtils.getModuleSpecifier(declaration);
+      if (!this.isRxjsModule(moduleName)) continue;
+      context.usesRxjs = true;
+
+      const bindings = declaration.importClause?.namedBindings;
+      if (bindings && ts.isNamedImports(bindings)) {
+        for (const element of bindings.elements) {
+          const imported = (element.propertyName || element.name).text;
+          const creation = DEEP_CREATION_RENAMES[imported] || (Object.values(STATIC_CREATIONS).includes(imported) ? imported : undefined);
+          if (creation && (moduleName === 'rxjs' || moduleName.startsWith('rxjs/observable'))) {
+            context.creationImports.set(element.name.text, creation);
+          }
+        }
+      }
+    }
+
+    AstUtils.walk(sourceFile, node => {
+      if ((ts.isPropertyDeclaration(node) || ts.isParameter(node) || ts.isVariableDeclaration(node)) && ts.isIdentifier(node.name)) {
+        if (this.isObservableType(node.type) || (node.initializer && ts.isNewExpression(node.initializer) && this.isObservableConstructor(node.initializer))) {
+          context.observableNames.add(node.name.text);
+        }
+      }
+      if ((ts.isMethodDeclaration(node) || ts.isFunctionDeclaration(node) || ts.isGetAccessorDeclaration(node)) && node.name && ts.isIdentifier(node.name)) {
+        if (this.isObservableType(node.type)) {
+          (ts.isGetAccessorDeclaration(node) ? context.observableNames : context.observableMethods).add(node.name.text);
+        }
+      }
+    });
+
+    return context;
+  }
+
+  /**
+   * Collecte les réécritures d'une passe (sans chevauchement, de l'extérieur vers l'intérieur)
+   */
+  private collectEdits(sourceFile: ts.SourceFile, context: RxjsContext): TextEdit[] {
+    const candidates: TextEdit[] = [];
+
+    AstUtils.walk(sourceFile, node => {
+      if (!ts.isCallExpression(node)) return;
+
+      const edit = this.convertPatchChain(node, sourceFile, context)
+        || this.convertStaticCall(node, sourceFile, context)
+        || this.convertCreationCall(node, sourceFile, context)
+        || this.convertToPromise(node, sourceFile, context);
+
+      if (edit) {
+        candidates.push(edit);
+      }
+    });
+
+    const accepted: TextEdit[] = [];
+    candidates
+      .sort((a, b) => a.start - b.start || b.end - a.end)
+      .forEach(edit => {
+        if (!accepted.some(other => edit.start < other.end && other.start < edit.end)) {
+          accepted.push(edit);
+        }
+      });
+
+    return accepted;
+  }
+
+  /**
+   * Convertit `source.map(f).filter(g)` en `source.pipe(map(f), filter(g))`
+   */
+  private convertPatchChain(node: ts.CallExpression, sourceFile: ts.SourceFile, context: RxjsContext): TextEdit | null {
+    if (!this.isPatchCall(node) || this.isChainLink(node)) return null;
+
+    const links: ts.CallExpression[] = [];
+    let base: ts.Expression = node;
+    while (ts.isCallExpression(base) && this.isPatchCall(base)) {
+      links.unshift(base);
+      base = (base.expression as ts.PropertyAccessExpression).expression;
+    }
+
+    // La source elle-même doit ressembler à un Observable : importer RxJS ne suffit pas (`Math.max(1, 2)`)
+    if (this.isNonObservableReceiver(base, context)) return null;
+
+    const consumer = ts.isPropertyAccessExpression(node.parent) && node.parent.expression === node ? node.parent.name.text : undefined;
+    const isObservable = this.isObservableExpression(base, context)
+      || consumer === 'subscribe' || consumer === 'pipe' || (consumer === 'toPromise' && context.usesRxjs);
+
+    if (!isObservable) return null;
+
+    const calls = links.map(link => {
+      const name = (link.expression as ts.PropertyAccessExpression).name.text;
+      const operator = OPERATOR_RENAMES[name] || name;
+      this.usedSymbols.add(operator);
+      const typeArguments = link.typeArguments ? `<${link.typeArguments.map(type => type.getText(sourceFile)).join(', ')}>` : '';
+      return `${operator}${typeArguments}(${link.arguments.map(argument => argument.getText(sourceFile)).join(', ')})`;
+    });
+
+    const baseText = base.getText(sourceFile);
+    const firstDot = (links[0].expression as ts.PropertyAccessExpression).name.getStart(sourceFile) - 1;
+    const isMultiline = sourceFile.text.slice(base.getEnd(), node.getEnd()).includes('\n');
+
+    let text: string;
+    if (isMultiline) {
+      const indent = this.getLineIndent(sourceFile.text, firstDot);
+      const closingIndent = this.getLineIndent(sourceFile.text, base.getStart(sourceFile));
+      text = `${baseText}.pipe(\n${calls.map(call => indent + call).join(',\n')}\n${closingIndent})`;
+    } else {
+      text = `${baseText}.pipe(${calls.join(', ')})`;
+    }
+
+    return { start: base.getStart(sourceFile), end: node.getEnd(), text };
+  }
+
+  /**
+   * Convertit `Observable.of(...)`, `Observable.throw(e)`... en fonctions de création
+   */
+  private convertStaticCall(node: ts.CallExpression, sourceFile: ts.SourceFile, context: RxjsContext): TextEdit | null {
+    const callee = node.expression;
+    if (!ts.isPropertyAccessExpression(callee) || !ts.isIdentifier(callee.expression) || callee.expression.text !== 'Observable') {
+      return null;
+    }
+    if (!context.usesRxjs) return null;
+
+    const method = callee.name.text;
+    const args = node.arguments.map(argument => argument.getText(sourceFile));
+
+    if (method === 'create') {
+      return { start: node.getStart(sourceFile), end: node.getEnd(), text: `new Observable(${args.join(', ')})` };
+    }
+
+    const creation = STATIC_CREATIONS[method];
+    if (!creation) return null;
+
+    return { start: node.getStart(sourceFile), end: node.getEnd(), text: this.printCreation(creation, args) };
+  }
+
+  /**
+   * Convertit les fonctions de création importées depuis `rxjs/observable/...` renommées en RxJS 6+
+   */
+  private convertCreationCall(node: ts.CallExpression, sourceFile: ts.SourceFile, context: RxjsContext): TextEdit | null {
+    if (!ts.isIdentifier(node.expression)) return null;
+
+    const localName = node.expression.text;
+    const creation = context.creationImports.get(localName);
+    if (!creation || (creation === localName && creation !== 'throwError')) return null;
+
+    // throwError(err) est déprécié au profit de throwError(() => err)
+    if (creation === 'throwError' && node.arguments.length === 1 && ts.isArrowFunction(node.arguments[0])) {
+      return null;
+    }
+
+    const args = node.arguments.map(argument => argument.getText(sourceFile));
+    return { start: node.getStart(sourceFile), end: node.getEnd(), text: this.printCreation(creation, args) };
+  }
+
+  /**
+   * Remplace `obs.toPromise()` par `firstValueFrom(obs)` ou `lastValueFrom(obs)`
+   */
+  private convertToPromise(node: ts.CallExpression, sourceFile: ts.SourceFile, context: RxjsContext): TextEdit | null {
+    const callee = node.expression;
+    if (!ts.isPropertyAccessExpression(callee) || callee.name.text !== 'toPromise' || node.arguments.length > 0) {
+      return null;
+    }
+    if (!context.usesRxjs && !this.isObservableExpression(callee.expression, context)) return null;
+
+    // toPromise() résout la dernière valeur : firstValueFrom n'est équivalent que pour une source à valeur unique
+    const converter = this.isSingleValueSource(callee.expression) ? 'firstValueFrom' : 'lastValueFrom';
+    this.usedSymbols.add(converter);
+
+    return {
+      start: node.getStart(sourceFile),
+      end: node.getEnd(),
+      text: `${converter}(${callee.expression.getText(sourceFile)})`
+    };
+  }
+
+  /**
+   * Génère l'appel à une fonction de création RxJS 7
+   */
+  private printCreation(creation: string, args: string[]): string {
+    this.usedSymbols.add(creation);
+
+    if (creation === 'EMPTY' || creation === 'NEVER') {
+      return creation;
+    }
+    if (creation === 'throwError') {
+      return `throwError(() => ${args[0] ?? 'undefined'})`;
+    }
+    return `${creation}(${args.join(', ')})`;
+  }
+
+  /**
+   * Regroupe les imports RxJS sur le module `rxjs` et supprime les imports de patch
+   */
+  private rewriteImports(content: string, fileName: string): string {
+    const sourceFile = AstUtils.parse(fileName, content);
+    const managed: ts.ImportDeclaration[] = [];
+    const specifiers: Array<{ imported: string; local: string }> = [];
+
+    for (const declaration of AstUtils.getImports(sourceFile)) {
+      const moduleName = AstUtils.getModuleSpecifier(declaration);
+      if (!this.isRxjsModule(moduleName) || SUPPORTED_SUBPATHS.some(subpath => moduleName.startsWith(subpath))) continue;
+
+      const clause = declaration.importClause;
+      // Imports d'espace de noms ou de type : seul le chemin est mis à jour
+      if (clause && (clause.isTypeOnly || clause.name || (clause.namedBindings && !ts.isNamedImports(clause.namedBindings)))) {
+        continue;
+      }
+
+      managed.push(declaration);
+      if (clause?.namedBindings && ts.isNamedImports(clause.namedBindings)) {
+        for (const element of clause.namedBindings.elements) {
+          const imported = (element.propertyName || element.name).text;
+          const local = element.name.text;
+          const renamed = moduleName.startsWith('rxjs/observable') ? DEEP_CREATION_RENAMES[imported] || imported : imported;
+          specifiers.push({ imported: renamed, local: local === imported ? renamed : local });
+        }
+      }
+    }
+
+    const hasDeepImports = managed.some(declaration => AstUtils.getModuleSpecifier(declaration) !== 'rxjs');
+    if (!hasDeepImports && this.usedSymbols.size === 0) {
+      return this.rewriteNamespaceImports(content, sourceFile);
+    }
+
+    this.usedSymbols.forEach(symbol => {
+      if (!specifiers.some(specifier => specifier.local === symbol)) {
+        specifiers.push({ imported: symbol, local: symbol });
+      }
+    });
+
+    // Seuls les symboles encore référencés sont importés
+    const referenced = this.collectReferencedIdentifiers(sourceFile);
+    const kept = specifiers.filter((specifier, index) =>
+      referenced.has(specifier.local) && specifiers.findIndex(other => other.local === specifier.local) === index
+    );
+
+    this.warnOnConflicts(sourceFile, kept);
+
+    const quote = content.includes('from "') && !content.includes('from \'') ? '"' : '\'';
+    const statement = kept.length > 0
+      ? `import { ${kept.map(specifier => specifier.imported === specifier.local ? specifier.local : `${specifier.imported} as ${specifier.local}`).join(', ')} } from ${quote}rxjs${quote};`
+      : '';
+
+    const edits: TextEdit[] = managed.map((declaration, index) => ({
+      start: declaration.getStart(sourceFile),
+      end: this.getLineEnd(content, declaration.getEnd(), index > 0 || !statement),
+      text: index === 0 ? statement : ''
+    }));
+
+    if (managed.length === 0 && statement) {
+      const imports = AstUtils.getImports(sourceFile);
+      const position = imports.length > 0 ? imports[imports.length - 1].getEnd() : 0;
+      edits.push({ start: position, end: position, text: imports.length > 0 ? `\n${statement}` : `${statement}\n` });
+    }
+
+    return this.rewriteNamespaceImports(this.applyEdits(content, edits), fileName);
+  }
+
+  /**
+   * Remplace `rxjs/Rx` par `rxjs` dans les imports d'espace de noms (`import * as Rx from 'rxjs/Rx'`)
+   */
+  private rewriteNamespaceImports(content: string, sourceFileOrName: ts.SourceFile | string): string {
+    const sourceFile = typeof sourceFileOrName === 'string' ? AstUtils.parse(sourceFileOrName, content) : sourceFileOrName;
+    const edits: TextEdit[] = AstUtils.getImports(sourceFile)
+      .filter(declaration => AstUtils.getModuleSpecifier(declaration) === 'rxjs/Rx')
+      .map(declaration => {
+        const specifier = declaration.moduleSpecifier;
+        return { start: specifier.getStart(sourceFile) + 1, end: specifier.getEnd() - 1, text: 'rxjs' };
+      });
+    return this.applyEdits(content, edits);
+  }
+
+  /**
+   * Signale les symboles RxJS importés qui entrent en conflit avec un autre import
+   */
+  private warnOnConflicts(sourceFile: ts.SourceFile, specifiers: Array<{ local: string }>): void {
+    for (const declaration of AstUtils.getImports(sourceFile)) {
+      if (this.isRxjsModule(AstUtils.getModuleSpecifier(declaration))) continue;
+
+      const bindings = declaration.importClause?.namedBindings;
+      if (!bindings || !ts.isNamedImports(bindings)) continue;
+
+      for (const element of bindings.elements) {
+        if (specifiers.some(specifier => specifier.local === element.name.text)) {
+          this.logger.warn(`${sourceFile.fileName} : ${element.name.text} est aussi importé depuis ${AstUtils.getModuleSpecifier(declaration)}`);
+        }
+      }
+    }
+  }
+
+  /**
+   * Retourne les identifiants utilisés en dehors des déclarations d'import
+   */
+  private collectReferencedIdentifiers(sourceFile: ts.SourceFile): Set<string> {
+    const identifiers = new Set<string>();
+    for (const statement of sourceFile.statements) {
+      if (ts.isImportDeclaration(statement)) continue;
+      AstUtils.walk(statement, node => {
+        if (ts.isIdentifier(node)) {
+          identifiers.add(node.text);
+        }
+      });
+    }
+    return identifiers;
+  }
+
+  /**
+   * Indique si une expression produit un Observable (d'après les indices disponibles dans le fichier)
+   */
+  private isObservableExpression(expression: ts.Expression, context: RxjsContext): boolean {
+    const node = this.skipOuterExpressions(expression);
+
+    if (ts.isCallExpression(node)) {
+      const callee = node.expression;
+      if (ts.isPropertyAccessExpression(callee)) {
+        const name = callee.name.text;
+        if (name === 'pipe' || name === 'asObservable') return true;
+        if (ts.isIdentifier(callee.expression) && callee.expression.text === 'Observable' && STATIC_CREATIONS[name]) return true;
+        if (this.isPatchCall(node) && this.isObservableExpression(callee.expression, context)) return true;
+        if (HTTP_METHODS.has(name) && /http/i.test(callee.expression.getText())) return true;
+        if (callee.expression.kind === ts.SyntaxKind.ThisKeyword && context.observableMethods.has(name)) return true;
+        return false;
+      }
+      if (ts.isIdentifier(callee)) {
+        return context.creationImports.has(callee.text) || context.observableMethods.has(callee.text);
+      }
+      return false;
+    }
+
+    if (ts.isNewExpression(node)) {
+      return this.isObservableConstructor(node);
+    }
+
+    if (ts.isIdentifier(node)) {
+      return node.text.endsWith('$') || context.observableNames.has(node.text);
+    }
+
+    if (ts.isPropertyAccessExpression(node)) {
+      const name = node.name.text;
+      const receiver = node.expression.getText();
+      return name.endsWith('$')
+        || OBSERVABLE_PROPERTIES.has(name)
+        || (name === 'events' && /router/i.test(receiver))
+        || ((name === 'params' || name === 'queryParams' || name === 'data') && /route/i.test(receiver))
+        || (node.expression.kind === ts.SyntaxKind.ThisKeyword && context.observableNames.has(name));
+    }
+
+    return false;
+  }
+
+  /**
+   * Indique si une expression désigne un objet global, un espace de noms importé ou lodash (`Math`, `utils.max`)
+   */
+  private isNonObservableReceiver(expression: ts.Expression, context: RxjsContext): boolean {
+    let node = this.skipOuterExpressions(expression);
+    while (ts.isPropertyAccessExpression(node)) {
+      node = this.skipOuterExpressions(node.expression);
+    }
+    return ts.isIdentifier(node) && (NON_OBSERVABLE_RECEIVERS.has(node.text) || context.namespaceImports.has(node.text));
+  }
+
+  /**
+   * Indique si une source n'émet qu'une seule valeur (requête HTTP, take(1), first())
+   */
+  private isSingleValueSource(expression: ts.Expression): boolean {
+    let node = this.skipOuterExpressions(expression);
+    const operators: Array<{ name: string; call: ts.CallExpression }> = [];
+
+    // Déroule les chaînes patchées et les appels à pipe()
+    while (ts.isCallExpression(node) && ts.isPropertyAccessExpression(node.expression)) {
+      const name = node.expression.name.text;
+      if (name === 'pipe') {
+        node.arguments.slice().reverse().forEach(argument => {
+          if (ts.isCallExpression(argument) && ts.isIdentifier(argument.expression)) {
+            operators.unshift({ name: argument.expression.text, call: argument });
+          }
+        });
+      } else if (this.isPatchCall(node)) {
+        operators.unshift({ name, call: node });
+      } else {
+        break;
+      }
+      node = this.skipOuterExpressions(node.expression.expression);
+    }
+
+    const last = operators[operators.length - 1];
+    if (last && (last.name === 'first' || (last.name === 'take' && last.call.arguments[0]?.getText() === '1'))) {
+      return true;
+    }
+
+    const isHttpCall = ts.isCallExpression(node)
+      && ts.isPropertyAccessExpression(node.expression)
+      && HTTP_METHODS.has(node.expression.name.text)
+      && /http/i.test(node.expression.expression.getText());
+
+    return isHttpCall && operators.every(operator => SINGLE_VALUE_OPERATORS.has(operator.name));
+  }
+
+  /**
+   * Indique si un appel utilise un opérateur patché (`obs.map(...)`)
+   */
+  private isPatchCall(node: ts.CallExpression): boolean {
+    return ts.isPropertyAccessExpression(node.expression) && PATCH_OPERATORS.has(node.expression.name.text);
+  }
+
+  /**
+   * Indique si un appel patché est le receveur d'un autre maillon de la chaîne
+   */
+  private isChainLink(node: ts.CallExpression): boolean {
+    const parent = node.parent;
+    return ts.isPropertyAccessExpression(parent)
+      && parent.expression === node
+      && PATCH_OPERATORS.has(parent.name.text)
+      && ts.isCallExpression(parent.parent)
+      && parent.parent.expression === parent;
+  }
+
+  /**
+   * Indique si une annotation de type désigne un Observable
+   */
+  private isObservableType(type: ts.TypeNode | undefined): boolean {
+    return !!type && ts.isTypeReferenceNode(type) && ts.isIdentifier(type.typeName) && OBSERVABLE_TYPES.has(type.typeName.text);
+  }
+
+  /**
+   * Indique si une instanciation crée un Observable (`new Subject()`)
+   */
+  private isObservableConstructor(node: ts.NewExpression): boolean {
+    return ts.isIdentifier(node.expression) && OBSERVABLE_TYPES.has(node.expression.text);
+  }
+
+  /**
+   * Indique si un module appartient à RxJS
+   */
+  private isRxjsModule(moduleName: string): boolean {
+    return moduleName === 'rxjs' || moduleName.startsWith('rxjs/');
+  }
+
+  /**
+   * Retire les parenthèses, assertions de type et `!` autour d'une expression
+   */
+  private skipOuterExpressions(expression: ts.Expression): ts.Expression {
+    let node = expression;
+    while (ts.isParenthesizedExpression(node) || ts.isNonNullExpression(node) || ts.isAsExpression(node) || ts.isTypeAssertionExpression(node)) {
+      node = node.expression;
+    }
+    return node;
+  }
+
+  /**
+   * Retourne l'indentation de la ligne contenant une position
+   */
+  private getLineIndent(text: string, position: number): string {
+    const lineStart = text.lastIndexOf('\n', position - 1) + 1;
+    return /^[ \t]*/.exec(text.slice(lineStart))![0];
+  }
+
+  /**
+   * Étend la fin d'une déclaration supprimée jusqu'à la fin de sa ligne
+   */
+  private getLineEnd(text: string, position: number, includeNewline: boolean): number {
+    if (!includeNewline) return position;
+    const match = /^[ \t]*\r?\n/.exec(text.slice(position));
+    return match ? position + match[0].length : position;
+  }
+
+  /**
+   * Applique des modifications non chevauchantes en partant de la fin
+   */
+  private applyEdits(content: string, edits: TextEdit[]): string {
+    return edits
+      .slice()
+      .sort((a, b) => b.start - a.start)
+      .reduce((text, edit) => text.slice(0, edit.start) + edit.text + text.slice(edit.end), content);
+  }
+}
@@ -0,0 +1,433 @@
+import * as ts from 'typescript';
+import { AnalyzedFile, MigrationIssue, IssueType, IssueSeverity } from '../types';
+import { AstUtils } from '../utils/AstUtils';
+import { Logger } from '../utils/Logger';
+import { StandaloneScopeAnalyzer, StandaloneImport } from '../analyzers/StandaloneScopeAnalyzer';
+
+/**
+ * Modification textuelle du source
+ */
+interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Résultat de la conversion d'un fichier
+ */
+export interface StandaloneMigrationResult {
+  /** Nouveau contenu (identique si rien à convertir, vide si le fichier est supprimé) */
+  content: string;
+  /** Points à reprendre manuellement */
+  issues: MigrationIssue[];
+  /** Le fichier ne contenait que des NgModules devenus vides */
+  deleteFile: boolean;
+}
+
+/**
+ * Décorateurs des classes déclarables
+ */
+const DECLARABLE_DECORATORS = ['Component', 'Directive', 'Pipe'];
+
+/**
+ * Version à partir de laquelle `standalone: true` est la valeur par défaut
+ */
+const STANDALONE_DEFAULT_VERSION = 19;
+
+/**
+ * Propriétés de NgModule qui listent des déclarables
+ */
+const DECLARATION_PROPERTIES = ['declarations', 'entryComponents'];
+
+/**
+ * Transformateur de conversion vers les composants standalone
+ * Les composants reçoivent la liste exacte des imports utilisés par leur template ;
+ * les NgModules perdent les déclarations converties et sont supprimés s'ils deviennent vides
+ */
+export class StandaloneTransformer {
+  private logger: Logger;
+  private scopeAnalyzer: StandaloneScopeAnalyzer;
+
+  constructor() {
+    this.logger = new Logger();
+    this.scopeAnalyzer = new StandaloneScopeAnalyzer();
+  }
+
+  /**
+   * Convertit les composants, directives et pipes d'un fichier en standalone
+   * `files` contient les fichiers du projet (NgModules déclarants, templates externes)
+   */
+  migrateDeclarables(content: string, fileName: string, files: AnalyzedFile[], targetMajor: number): StandaloneMigrationResult {
+    const result: StandaloneMigrationResult = { content, issues: [], deleteFile: false };
+
+    try {
+      const sourceFile = AstUtils.parse(fileName, content);
+      const edits: TextEdit[] = [];
+      const addedImports: StandaloneImport[] = [];
+
+      for (const classDeclaration of AstUtils.getClasses(sourceFile)) {
+        const name = classDeclaration.name?.text;
+        const decorator = DECLARABLE_DECORATORS
+          .map(decoratorName => AstUtils.findDecorator(classDeclaration, decoratorName))
+          .find(candidate => !!candidate);
+        const metadata = decorator && AstUtils.getDecoratorMetadata(decorator);
+        if (!name || !metadata || !this.scopeAnalyzer.isConvertible(files, name)) continue;
+        if (AstUtils.findProperty(metadata, 'standalone') || AstUtils.findProperty(metadata, 'imports')) continue;
+
+        const properties: string[] = targetMajor < STANDALONE_DEFAULT_VERSION ? ['standalone: true'] : [];
+
+        if (AstUtils.getDecoratorName(decorator!) === 'Component') {
+          const resolution = this.scopeAnalyzer.resolveImports(files, name, fileName);
+          if (resolution.imports.length > 0) {
+            properties.push(`imports: [${resolution.imports.map(entry => entry.name).join(', ')}]`);
+            addedImports.push(...resolution.imports);
+          }
+          if (resolution.unresolved.length > 0) {
+            result.issues.push(this.createIssue(
+              sourceFile,
+              decorator!,
+              `Template de ${name} : ${resolution.unresolved.join(', ')} sans déclaration connue`,
+              resolution.conservativeImports.length > 0
+                ? `Modules tiers conservés par précaution (${resolution.conservativeImports.join(', ')}) : remplacer par les composants utilisés`
+                : 'Ajouter le composant, la directive ou le pipe correspondant dans imports (ou schemas: [CUSTOM_ELEMENTS_SCHEMA])'
+            ));
+          }
+        }
+
+        if (properties.length > 0) {
+          edits.push(this.insertProperties(metadata, properties, sourceFile));
+        }
+      }
+
+      if (edits.length === 0) return result;
+
+      result.content = this.addImports(this.applyEdits(content, edits), fileName, addedImports);
+      return result;
+    } catch (error) {
+      this.logger.error(`Erreur lors de la conversion standalone de ${fileName}: ${error.message}`);
+      return result;
+    }
+  }
+
+  /**
+   * Retire des NgModules les déclarations converties et supprime les modules devenus vides
+   */
+  migrateNgModules(content: string, fileName: string, files: AnalyzedFile[]): StandaloneMigrationResult {
+    const result: StandaloneMigrationResult = { content, issues: [], deleteFile: false };
+
+    try {
+      const sourceFile = AstUtils.parse(fileName, content);
+      const edits: TextEdit[] = [];
+      const addedImports: StandaloneImport[] = [];
+      const removedNames = new Set<string>();
+      const modules = AstUtils.getClasses(sourceFile).filter(classDeclaration => !!AstUtils.findDecorator(classDeclaration, 'NgModule'));
+      const removedModules = modules.filter(classDeclaration =>
+        !!classDeclaration.name && this.scopeAnalyzer.isRemovedModule(files, classDeclaration.name.text)
+      );
+
+      // Fichier réduit à des imports et des NgModules vides : supprimé
+      const isOnlyRemovedModules = removedModules.length > 0 && sourceFile.statements.every(statement =>
+        ts.isImportDeclaration(statement) || removedModules.includes(statement as ts.ClassDeclaration)
+      );
+      if (isOnlyRemovedModules) {
+        return { content: '', issues: [], deleteFile: true };
+      }
+
+      for (const classDeclaration of modules) {
+        if (removedModules.includes(classDeclaration)) {
+          edits.push({ start: classDeclaration.getFullStart(), end: classDeclaration.getEnd(), text: '' });
+          removedNames.add(classDeclaration.name!.text);
+          continue;
+        }
+
+        const metadata = AstUtils.getDecoratorMetadata(AstUtils.findDecorator(classDeclaration, 'NgModule')!);
+        if (metadata && classDeclaration.name) {
+          edits.push(...this.updateNgModuleMetadata(classDeclaration.name.text, metadata, sourceFile, files, addedImports, removedNames, result.issues));
+        }
+      }
+
+      if (edits.length === 0) return result;
+
+      const updated = this.applyEdits(content, edits);
+      result.content = this.addImports(this.removeUnusedImports(updated, fileName, removedNames), fileName, addedImports);
+      return result;
+    } catch (error) {
+      this.logger.error(`Erreur lors de la mise à jour des NgModules de ${fileName}: ${error.message}`);
+      return result;
+    }
+  }
+
+  /**
+   * Met à jour declarations / imports / exports d'un NgModule conservé
+   */
+  private updateNgModuleMetadata(
+    moduleName: string,
+    metadata: ts.ObjectLiteralExpression,
+    sourceFile: ts.SourceFile,
+    files: AnalyzedFile[],
+    addedImports: StandaloneImport[],
+    removedNames: Set<string>,
+    issues: MigrationIssue[]
+  ): TextEdit[] {
+    const edits: TextEdit[] = [];
+    const module = this.scopeAnalyzer.getModule(files, moduleName)!;
+    const isConverted = (element: ts.Expression) => ts.isIdentifier(element) && this.scopeAnalyzer.isConvertible(files, element.text);
+    const isRemovedModule = (element: ts.Expression) => ts.isIdentifier(element) && this.scopeAnalyzer.isRemovedModule(files, element.text);
+
+    // Les déclarables convertis restent disponibles : réexportés ou utilisés par les déclarations restantes
+    const importedNames = module.exports.filter(name => module.declarations.includes(name) && this.scopeAnalyzer.isConvertible(files, name));
+    for (const name of module.declarations.filter(declaration => !this.scopeAnalyzer.isConvertible(files, declaration))) {
+      const declarable = this.scopeAnalyzer.getDeclarable(files, name);
+      if (declarable?.kind === 'component') {
+        issues.push(this.createIssue(
+          sourceFile,
+          metadata,
+          `${name} reste déclaré dans ${moduleName} (bootstrap)`,
+          'Amorcer l\'application avec bootstrapApplication() pour le convertir en standalone',
+          IssueSeverity.INFO
+        ));
+      }
+      for (const entry of this.scopeAnalyzer.resolveImports(files, name, sourceFile.fileName).imports) {
+        const isProjectDeclarable = this.scopeAnalyzer.isConvertible(files, entry.name);
+        if (isProjectDeclarable && !module.imports.includes(entry.name) && !importedNames.includes(entry.name)) {
+          importedNames.push(entry.name);
+          if (!module.declarations.includes(entry.name)) addedImports.push(entry);
+        }
+      }
+    }
+
+    for (const property of DECLARATION_PROPERTIES) {
+      edits.push(...this.rewriteArray(metadata, property, sourceFile, element => !isConverted(element), [], removedNames));
+    }
+    edits.push(...this.rewriteArray(metadata, 'imports', sourceFile, element => !isRemovedModule(element), importedNames, removedNames));
+    edits.push(...this.rewriteArray(metadata, 'exports', sourceFile, element => !isRemovedModule(element), [], removedNames));
+
+    return edits;
+  }
+
+  /**
+   * Réécrit un tableau de métadonnées (éléments filtrés, éléments ajoutés) ; la propriété est supprimée si le tableau devient vide
+   */
+  private rewriteArray(
+    metadata: ts.ObjectLiteralExpression,
+    propertyName: string,
+    sourceFile: ts.SourceFile,
+    keep: (element: ts.Expression) => boolean,
+    added: string[],
+    removedNames: Set<string>
+  ): TextEdit[] {
+    const property = AstUtils.findProperty(metadata, propertyName);
+    if (!property) {
+      return added.length > 0 ? [this.insertProperties(metadata, [`${propertyName}: [${added.join(', ')}]`], sourceFile)] : [];
+    }
+    if (!ts.isArrayLiteralExpression(property.initializer)) return [];
+
+    const array = property.initializer;
+    const kept = array.elements.filter(keep);
+    array.elements
+      .filter(element => !kept.includes(element) && ts.isIdentifier(element))
+      .forEach(element => removedNames.add((element as ts.Identifier).text));
+
+    const existing = kept.map(element => element.getText(sourceFile));
+    const elements = [...existing, ...added.filter(name => !existing.includes(name))];
+    if (kept.length === array.elements.length && elements.length === existing.length) return [];
+
+    if (elements.length === 0) {
+      return [this.removeProperty(metadata, property, sourceFile)];
+    }
+
+    const arrayText = array.getText(sourceFile);
+    if (!arrayText.includes('\n')) {
+      return [{ start: array.getStart(sourceFile), end: array.getEnd(), text: `[${elements.join(', ')}]` }];
+    }
+
+    const elementIndent = array.elements.length > 0
+      ? this.getLineIndent(sourceFile.text, array.elements[0].getStart(sourceFile))
+      : `${this.getLineIndent(sourceFile.text, property.getStart(sourceFile))}  `;
+    const closingIndent = this.getLineIndent(sourceFile.text, array.getEnd() - 1);
+    return [{
+      start: array.getStart(sourceFile),
+      end: array.getEnd(),
+      text: `[\n${elementIndent}${elements.join(`,\n${elementIndent}`)}\n${closingIndent}]`
+    }];
+  }
+
+  /**
+   * Supprime une propriété d'objet littéral avec sa virgule
+   */
+  private removeProperty(objectLiteral: ts.ObjectLiteralExpression, property: ts.ObjectLiteralElementLike, sourceFile: ts.SourceFile): TextEdit {
+    const properties = objectLiteral.properties;
+    const index = properties.indexOf(property);
+    if (index < properties.length - 1) {
+      return { start: property.getStart(sourceFile), end: properties[index + 1].getStart(sourceFile), text: '' };
+    }
+    return index > 0
+      ? { start: properties[index - 1].getEnd(), end: property.getEnd(), text: '' }
+      : { start: property.getStart(sourceFile), end: property.getEnd(), text: '' };
+  }
+
+  /**
+   * Insère des propriétés en tête d'un objet littéral en respectant sa mise en forme
+   */
+  private insertProperties(objectLiteral: ts.ObjectLiteralExpression, properties: string[], sourceFile: ts.SourceFile): TextEdit {
+    const [first] = objectLiteral.properties;
+    if (!first) {
+      const position = objectLiteral.getStart(sourceFile) + 1;
+      return { start: position, end: objectLiteral.getEnd() - 1, text: ` ${properties.join(', ')} ` };
+    }
+
+    const start = first.getStart(sourceFile);
+    const isMultiline = sourceFile.text.slice(objectLiteral.getStart(sourceFile), start).includes('\n');
+    const separator = isMultiline ? `,\n${this.getLineIndent(sourceFile.text, start)}` : ', ';
+    return { start, end: start, text: properties.join(separator) + separator };
+  }
+
+  /**
+   * Ajoute les imports TypeScript des symboles (regroupés par module, sans doublon)
+   */
+  private addImports(content: string, fileName: string, symbols: StandaloneImport[]): string {
+    if (symbols.length === 0) return content;
+
+    const sourceFile = AstUtils.parse(fileName, content);
+    const imports = AstUtils.getImports(sourceFile);
+    const imported = new Set(imports.flatMap(declaration => {
+      const bindings = declaration.importClause?.namedBindings;
+      return bindings && ts.isNamedImports(bindings) ? bindings.elements.map(element => element.name.text) : [];
+    }));
+    const localClasses = new Set(AstUtils.getClasses(sourceFile).map(classDeclaration => classDeclaration.name?.text));
+    const quote = content.includes('from "') && !content.includes('from \'') ? '"' : '\'';
+
+    const bySpecifier = new Map<string, string[]>();
+    for (const symbol of symbols) {
+      if (imported.has(symbol.name) || localClasses.has(symbol.name)) continue;
+      const names = bySpecifier.get(symbol.moduleSpecifier) || [];
+      if (!names.includes(symbol.name)) names.push(symbol.name);
+      bySpecifier.set(symbol.moduleSpecifier, names);
+    }
+
+    const edits: TextEdit[] = [];
+    const statements: string[] = [];
+    for (const [specifier, names] of bySpecifier) {
+      const existing = imports.find(declaration => AstUtils.getModuleSpecifier(declaration) === specifier);
+      const bindings = existing?.importClause?.namedBindings;
+      if (bindings && ts.isNamedImports(bindings) && bindings.elements.length > 0) {
+        const last = bindings.elements[bindings.elements.length - 1];
+        edits.push({ start: last.getEnd(), end: last.getEnd(), text: `, ${names.join(', ')}` });
+      } else {
+        statements.push(`import { ${names.join(', ')} } from ${quote}${specifier}${quote};`);
+      }
+    }
+
+    if (statements.length > 0) {
+      const anchor = imports[imports.length - 1];
+      edits.push(anchor
+        ? { start: anchor.getEnd(), end: anchor.getEnd(), text: `\n${statements.join('\n')}` }
+        : { start: 0, end: 0, text: `${statements.join('\n')}\n\n` });
+    }
+
+    return this.applyEdits(content, edits);
+  }
+
+  /**
+   * Retire des imports TypeScript les symboles qui ne sont plus référencés
+   */
+  private removeUnusedImports(content: string, fileName: string, candidates: Set<string>): string {
+    if (candidates.size === 0) return content;
+
+    const sourceFile = AstUtils.parse(fileName, content);
+    const referenced = this.collectReferencedIdentifiers(sourceFile);
+    const edits: TextEdit[] = [];
+
+    for (const declaration of AstUtils.getImports(sourceFile)) {
+      const clause = declaration.importClause;
+      const bindings = clause?.namedBindings;
+      if (!clause || !bindings || !ts.isNamedImports(bindings)) continue;
+
+      const unused = bindings.elements.filter(element => candidates.has(element.name.text) && !referenced.has(element.name.text));
+      if (unused.length === 0) continue;
+
+      const kept = bindings.elements.filter(element => !unused.includes(element));
+      if (kept.length === 0 && !clause.name) {
+        edits.push({ start: declaration.getStart(sourceFile), end: this.getLineEnd(content, declaration.getEnd()), text: '' });
+      } else {
+        edits.push({ start: bindings.getStart(sourceFile), end: bindings.getEnd(), text: kept.length > 0 ? `{ ${kept.map(element => element.getText(sourceFile)).join(', ')} }` : '' });
+      }
+    }
+
+    return this.applyEdits(content, edits);
+  }
+
+  /**
+   * Retourne les identifiants utilisés en dehors des déclarations d'import
+   */
+  private collectReferencedIdentifiers(sourceFile: ts.SourceFile): Set<string> {
+    const identifiers = new Set<string>();
+    for (const statement of sourceFile.statements) {
+      if (ts.isImportDeclaration(statement)) continue;
+      AstUtils.walk(statement, node => {
+        if (ts.isIdentifier(node)) identifiers.add(node.text);
+      });
+    }
+    return identifiers;
+  }
+
+  /**
+   * Crée un point à reprendre manuellement
+   */
+  private createIssue(sourceFile: ts.SourceFile, node: ts.Node, message: string, suggestion: string, severity: IssueSeverity = IssueSeverity.WARNING): MigrationIssue {
+    const position = AstUtils.getPosition(sourceFile, node);
+    return {
+      type: IssueType.STANDALONE_MIGRATION,
+      severity,
+      message,
+      line: position.line,
+      column: position.column,
+      suggestion
+    };
+  }
+
+  /**
+   * Retourne l'indentation de la ligne contenant une position
+   */
+  private getLineIndent(text: string, position: number): string {
+    const lineStart = text.lastIndexOf('\n', position - 1) + 1;
+    return /^[ \t]*/.exec(text.slice(lineStart))![0];
+  }
+
+  /**
+   * Étend la fin d'une déclaration supprimée jusqu'à la fin de sa ligne
+   */
+  private getLineEnd(text: string, position: number): number {
+    const match = /^[ \t]*\r?\n/.exec(text.slice(position));
+    return match ? position + match[0].length : position;
+  }
+
+  /**
+   * Applique des modifications en partant de la fin (les suppressions qui se chevauchent sont fusionnées)
+   */
+  private applyEdits(content: string, edits: TextEdit[]): string {
+    return this.mergeDeletions(edits)
+      .sort((a, b) => b.start - a.start || b.end - a.end)
+      .reduce((text, edit) => text.slice(0, edit.start) + edit.text + text.slice(edit.end), content);
+  }
+
+  /**
+   * Fusionne les suppressions qui se chevauchent (propriétés voisines supprimées avec leurs virgules)
+   */
+  private mergeDeletions(edits: TextEdit[]): TextEdit[] {
+    const merged: TextEdit[] = [];
+    const deletions = edits.filter(edit => edit.text === '' && edit.start < edit.end).sort((a, b) => a.start - b.start);
+
+    for (const deletion of deletions) {
+      const previous = merged[merged.length - 1];
+      if (previous && deletion.start < previous.end) {
+        previous.end = Math.max(previous.end, deletion.end);
+      } else {
+        merged.push({ ...deletion });
+      }
+    }
+
+    return [...merged, ...edits.filter(edit => !deletions.includes(edit))];
+  }
+}
@@ -0,0 +1,82 @@
+import { FileType } from '../types';
+import { TsconfigTransformer } from './TsconfigTransformer';
+
+describe('TsconfigTransformer', () => {
+  const transform = (lines: string[], targetMajor: number) => new TsconfigTransformer().transform({
+    path: 'tsconfig.json',
+    type: FileType.TSCONFIG,
+    content: lines.join('\n'),
+    issues: [],
+    transformations: []
+  }, undefined, targetMajor)?.after;
+
+  describe('mise en forme', () => {
+    it('conserve les commentaires et ne réécrit que les options modifiées', () => {
+      const after = transform([
+        `/* Configuration racine du workspace */`,
+        `{`,
+        `  "compileOnSave": false,`,
+        `  "compilerOptions": {`,
+        `    // Sortie du build`,
+        `    "outDir": "./dist/out-tsc",`,
+        `    "target": "es5",`,
+        `    "module": "es2015",`,
+        `    "moduleResolution": "node",`,
+        `    "lib": ["es2017", "dom"],`,
+        `  },`,
+        `  "angularCompilerOptions": {`,
+        `    "fullTemplateTypeCheck": true`,
+        `  }`,
+        `}`
+      ], 16);
+
+      expect(after).toBe([
+        `/* Configuration racine du workspace */`,
+        `{`,
+        `  "compileOnSave": false,`,
+        `  "compilerOptions": {`,
+        `    // Sortie du build`,
+        `    "outDir": "./dist/out-tsc",`,
+        `    "target": "es2022",`,
+        `    "module": "es2022",`,
+        `    "moduleResolution": "node",`,
+        `    "lib": ["es2022", "dom"],`,
+        `    "useDefineForClassFields": false,`,
+        `  },`,
+        `  "angularCompilerOptions": {`,
+        `    "strictTemplates": true,`,
+        `    "strictInjectionParameters": true`,
+        `  }`,
+        `}`
+      ].join('\n'));
+    });
+
+    it('ajoute une section absente à la fin du fichier', () => {
+      const after = transform([
+        `{`,
+        `    "compilerOptions": {`,
+        `        "target": "es2022",`,
+        `        "module": "es2022",`,
+        `        "moduleResolution": "node",`,
+        `        "useDefineForClassFields": false // requis par les décorateurs`,
+        `    }`,
+        `}`
+      ], 16);
+
+      expect(after).toBe([
+        `{`,
+        `    "compilerOptions": {`,
+        `        "target": "es2022",`,
+        `        "module": "es2022",`,
+        `        "moduleResolution": "node",`,
+        `        "useDefineForClassFields": false // requis par les décorateurs`,
+        `    },`,
+        `    "angularCompilerOptions": {`,
+        `        "strictTemplates": true,`,
+        `        "strictInjectionParameters": true`,
+        `    }`,
+        `}`
+      ].join('\n'));
+    });
+  });
+});
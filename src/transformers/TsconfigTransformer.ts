@@ -0,0 +1,131 @@
+import { AngularProject, AnalyzedFile, Transformation, TransformationType, TransformationStatus } from '../types';
+import { TsconfigUtils } from '../utils/TsconfigUtils';
+import { Logger } from '../utils/Logger';
+import {
+  ANGULAR_COMPILER_OPTIONS,
+  REMOVED_ANGULAR_COMPILER_OPTIONS,
+  STRICT_TEMPLATES_MIN_VERSION
+} from '../analyzers/TsconfigAnalyzer';
+
+/**
+ * Transformateur des fichiers tsconfig
+ * La racine de la chaîne `extends` reçoit les options de la version cible ;
+ * les fichiers qui l'étendent (tsconfig.app/spec) ne sont modifiés que sur les options qu'ils redéfinissent
+ */
+export class TsconfigTransformer {
+  private logger: Logger;
+
+  constructor() {
+    this.logger = new Logger();
+  }
+
+  /**
+   * Met à jour un tsconfig pour la version cible
+   */
+  transform(file: AnalyzedFile, project?: AngularProject, targetMajor: number = 20): Transformation | null {
+    try {
+      const chain = TsconfigUtils.resolveChain(file, project?.files || [file]);
+      const config = chain[0].config;
+      const isRoot = TsconfigUtils.isChainRoot(chain);
+      let content = file.content;
+
+      // Seules les options modifiées sont réécrites : les commentaires du fichier sont conservés
+      const compilerOptions = { ...(config.compilerOptions || {}) };
+      const compilerChanges = this.updateCompilerOptions(compilerOptions, isRoot, targetMajor);
+      if (compilerChanges.length > 0) {
+        content = TsconfigUtils.updateSection(file.path, content, 'compilerOptions', compilerOptions);
+      }
+
+      const angularOptions = { ...(config.angularCompilerOptions || {}) };
+      const angularChanges = this.updateAngularCompilerOptions(angularOptions, isRoot, targetMajor);
+      if (angularChanges.length > 0) {
+        content = TsconfigUtils.updateSection(file.path, content, 'angularCompilerOptions', angularOptions);
+      }
+
+      const changes = [...compilerChanges, ...angularChanges];
+      if (changes.length === 0) {
+        return null;
+      }
+
+      return {
+        type: TransformationType.UPDATE_TSCONFIG,
+        description: `Mise à jour de ${file.path} pour Angular ${targetMajor} : ${changes.join(', ')}`,
+        before: file.content,
+        after: content,
+        status: TransformationStatus.PENDING
+      };
+    } catch (error) {
+      this.logger.error(`Erreur lors de la transformation de ${file.path}: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Met à jour target, module, moduleResolution et lib
+   */
+  private updateCompilerOptions(options: Record<string, any>, isRoot: boolean, targetMajor: number): string[] {
+    const changes: string[] = [];
+    const baseline = TsconfigUtils.getBaseline(targetMajor);
+
+    const update = (option: string, outdated: boolean, value: any) => {
+      // Un fichier qui étend la racine hérite des valeurs : on ne touche qu'à ce qu'il redéfinit
+      if (outdated || (isRoot && options[option] === undefined)) {
+        options[option] = value;
+        changes.push(`${option} → ${Array.isArray(value) ? value.join(', ') : value}`);
+      }
+    };
+
+    if (isRoot || options.target !== undefined) {
+      update('target', TsconfigUtils.isTargetOutdated(options.target, baseline.target), baseline.target);
+    }
+    if (isRoot || options.module !== undefined) {
+      update('module', TsconfigUtils.isModuleOutdated(options.module, baseline.module), baseline.module);
+    }
+    if (isRoot || options.moduleResolution !== undefined) {
+      update('moduleResolution', TsconfigUtils.isModuleResolutionOutdated(options.moduleResolution, baseline.moduleResolution), baseline.moduleResolution);
+    }
+    if (Array.isArray(options.lib)) {
+      const lib = TsconfigUtils.updateLib(options.lib, baseline.lib);
+      if (lib.join() !== options.lib.join()) {
+        options.lib = lib;
+        changes.push(`lib → ${lib.join(', ')}`);
+      }
+    }
+
+    if (isRoot) {
+      for (const [option, value] of Object.entries(baseline.extra || {})) {
+        if (options[option] === undefined) {
+          options[option] = value;
+          changes.push(`${option} ajouté`);
+        }
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Ajoute les options de templates stricts et supprime les options Angular obsolètes
+   */
+  private updateAngularCompilerOptions(angularOptions: Record<string, unknown>, isRoot: boolean, targetMajor: number): string[] {
+    const changes: string[] = [];
+
+    for (const [option, removedIn] of Object.entries(REMOVED_ANGULAR_COMPILER_OPTIONS)) {
+      if (option in angularOptions && targetMajor >= removedIn) {
+        delete angularOptions[option];
+        changes.push(`angularCompilerOptions.${option} supprimé`);
+      }
+    }
+
+    if (isRoot && targetMajor >= STRICT_TEMPLATES_MIN_VERSION) {
+      for (const [option, value] of Object.entries(ANGULAR_COMPILER_OPTIONS)) {
+        if (angularOptions[option] === undefined) {
+          angularOptions[option] = value;
+          changes.push(`angularCompilerOptions.${option} ajouté`);
+        }
+      }
+    }
+
+    return changes;
+  }
+}
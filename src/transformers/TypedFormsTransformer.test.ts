@@ -0,0 +1,63 @@
+import { TypedFormsTransformer } from './TypedFormsTransformer';
+
+describe('TypedFormsTransformer', () => {
+  const migrate = (lines: string[]) => new TypedFormsTransformer().migrate(lines.join('\n'), 'test.ts').content;
+
+  describe('nonNullable', () => {
+    it('conserve le comportement de reset() d\'un new FormControl', () => {
+      const content = migrate([
+        `import { Component } from '@angular/core';`,
+        `import { FormControl, FormGroup } from '@angular/forms';`,
+        ``,
+        `@Component({ selector: 'app-login', template: '' })`,
+        `export class LoginComponent {`,
+        `  loginForm = new FormGroup({`,
+        `    email: new FormControl(''),`,
+        `    remember: new FormControl(false)`,
+        `  });`,
+        `}`
+      ]);
+
+      expect(content).toContain('email: FormControl<string | null>;');
+      expect(content).toContain('remember: FormControl<boolean | null>;');
+      expect(content).toContain(`email: new FormControl(''),`);
+      expect(content).not.toContain('nonNullable');
+    });
+
+    it('conserve le comportement de reset() d\'un FormBuilder', () => {
+      const content = migrate([
+        `import { Component } from '@angular/core';`,
+        `import { FormBuilder } from '@angular/forms';`,
+        ``,
+        `@Component({ selector: 'app-login', template: '' })`,
+        `export class LoginComponent {`,
+        `  loginForm = this.fb.group({ email: [''] });`,
+        ``,
+        `  constructor(private fb: FormBuilder) {}`,
+        `}`
+      ]);
+
+      expect(content).toContain('this.fb.group({ email: [\'\'] })');
+      expect(content).toContain('email: FormControl<string | null>;');
+    });
+
+    it('type sans null les contrôles déclarés nonNullable', () => {
+      const content = migrate([
+        `import { Component } from '@angular/core';`,
+        `import { FormBuilder, FormControl, FormGroup } from '@angular/forms';`,
+        ``,
+        `@Component({ selector: 'app-login', template: '' })`,
+        `export class LoginComponent {`,
+        `  loginForm = new FormGroup({ email: new FormControl('', { nonNullable: true }) });`,
+        `  searchForm = this.fb.nonNullable.group({ query: [''] });`,
+        ``,
+        `  constructor(private fb: FormBuilder) {}`,
+        `}`
+      ]);
+
+      expect(content).toContain('email: FormControl<string>;');
+      expect(content).toContain('query: FormControl<string>;');
+      expect(content).toContain('this.fb.nonNullable.group({ query: [\'\'] })');
+    });
+  });
+});
@@ -0,0 +1,534 @@
+import * as ts from 'typescript';
+import { MigrationIssue, IssueType, IssueSeverity } from '../types';
+import { AstUtils } from '../utils/AstUtils';
+import { Logger } from '../utils/Logger';
+
+/**
+ * Modification textuelle du source
+ */
+interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Résultat de la migration d'un fichier
+ */
+export interface TypedFormsMigrationResult {
+  /** Nouveau contenu (identique si rien à migrer) */
+  content: string;
+  /** Formulaires non typés (repli vers UntypedFormGroup / UntypedFormControl) */
+  issues: MigrationIssue[];
+}
+
+/**
+ * Interface générée pour un FormGroup
+ */
+interface FormInterface {
+  name: string;
+  fields: Array<{ key: string; type: string }>;
+}
+
+/**
+ * Résultat de l'inférence d'un contrôle : type du contrôle ou chemins des contrôles non inférables
+ */
+type InferenceResult = { type: string; failures?: undefined } | { type?: undefined; failures: string[] };
+
+/**
+ * Contexte de migration d'un formulaire racine
+ */
+interface FormContext {
+  sourceFile: ts.SourceFile;
+  edits: TextEdit[];
+  interfaces: FormInterface[];
+  usedNames: Set<string>;
+}
+
+/**
+ * Classes de formulaire et équivalent non typé
+ */
+const UNTYPED_CLASSES: Record<string, string> = {
+  FormGroup: 'UntypedFormGroup',
+  FormControl: 'UntypedFormControl',
+  FormArray: 'UntypedFormArray'
+};
+
+/**
+ * Validateurs qui imposent le type de la valeur
+ */
+const VALIDATOR_TYPES: Array<{ pattern: RegExp; type: string }> = [
+  { pattern: /Validators\.(email|pattern|minLength|maxLength)\b/, type: 'string' },
+  { pattern: /Validators\.(min|max)\b/, type: 'number' },
+  { pattern: /Validators\.requiredTrue\b/, type: 'boolean' }
+];
+
+/**
+ * Transformateur des formulaires réactifs vers les formulaires typés (Angular 14+)
+ * Les types des contrôles sont déduits des valeurs initiales, des validateurs et des définitions FormBuilder ;
+ * une interface est générée par formulaire, les formulaires non inférables passent en UntypedFormGroup
+ */
+export class TypedFormsTransformer {
+  private logger: Logger;
+  private formBuilders = new Set<string>();
+  private nonNullableBuilders = new Set<string>();
+  private issues: MigrationIssue[] = [];
+
+  constructor() {
+    this.logger = new Logger();
+  }
+
+  /**
+   * Type les FormGroup / FormControl / FormArray et FormBuilder d'un fichier
+   */
+  migrate(content: string, fileName: string): TypedFormsMigrationResult {
+    this.issues = [];
+
+    try {
+      const sourceFile = AstUtils.parse(fileName, content);
+      this.nonNullableBuilders = new Set<string>();
+      this.formBuilders = this.collectFormBuilders(sourceFile);
+
+      const edits: TextEdit[] = [];
+      const usedNames = new Set<string>();
+      AstUtils.walk(sourceFile, node => {
+        if ((ts.isInterfaceDeclaration(node) || ts.isClassDeclaration(node) || ts.isTypeAliasDeclaration(node)) && node.name) {
+          usedNames.add(node.name.text);
+        }
+      });
+
+      for (const classDeclaration of AstUtils.getClasses(sourceFile)) {
+        const context: FormContext = { sourceFile, edits: [], interfaces: [], usedNames };
+        AstUtils.walk(classDeclaration, node => {
+          if (this.isFormExpression(node) && !this.hasFormAncestor(node, classDeclaration)) {
+            this.migrateRoot(node as ts.Expression, classDeclaration, context);
+          }
+        });
+
+        edits.push(...context.edits);
+        if (context.interfaces.length > 0) {
+          const position = this.getDeclarationStart(classDeclaration, sourceFile);
+          const text = context.interfaces.map(formInterface => this.printInterface(formInterface)).join('\n');
+          edits.push({ start: position, end: position, text: `${text}\n` });
+        }
+      }
+
+      if (edits.length === 0) {
+        return { content, issues: [] };
+      }
+
+      const updated = this.addFormsImports(this.applyEdits(content, edits), fileName);
+      return { content: updated, issues: this.issues };
+    } catch (error) {
+      this.logger.error(`Erreur lors de la migration des formulaires typés de ${fileName}: ${error.message}`);
+      return { content, issues: [] };
+    }
+  }
+
+  /**
+   * Migre un formulaire racine (FormGroup, FormControl ou FormArray non imbriqué)
+   */
+  private migrateRoot(node: ts.Expression, classDeclaration: ts.ClassDeclaration, context: FormContext): void {
+    const target = this.getAssignmentTarget(node);
+    const baseName = this.toPascalCase(target || (classDeclaration.name?.text || 'Form').replace(/Component$/, ''));
+    const rootContext: FormContext = { ...context, edits: [], interfaces: [] };
+    const result = this.inferControl(node, baseName, target || baseName, rootContext);
+    const declaration = target ? this.findPropertyDeclaration(classDeclaration, target) : undefined;
+
+    if (result.type !== undefined) {
+      context.edits.push(...rootContext.edits);
+      context.interfaces.push(...rootContext.interfaces);
+      if (declaration?.type && ts.isTypeReferenceNode(declaration.type) && !declaration.type.typeArguments) {
+        context.edits.push({ start: declaration.type.getStart(context.sourceFile), end: declaration.type.getEnd(), text: result.type });
+      }
+      return;
+    }
+
+    // Repli : le formulaire reste non typé
+    rootContext.interfaces.forEach(formInterface => context.usedNames.delete(formInterface.name));
+    const formClass = this.getFormClass(node);
+    const untypedClass = formClass ? UNTYPED_CLASSES[formClass] : 'UntypedFormGroup';
+    this.issues.push(this.createIssue(
+      context.sourceFile,
+      node,
+      `Formulaire ${target || baseName} non typé : type non déductible pour ${result.failures.join(', ')}`,
+      `Typer les valeurs initiales (ex. \`null as string | null\`) puis remplacer ${untypedClass} par ${formClass || 'FormGroup'}<...>`
+    ));
+
+    AstUtils.walk(node, child => {
+      if (ts.isNewExpression(child) && ts.isIdentifier(child.expression) && UNTYPED_CLASSES[child.expression.text]) {
+        context.edits.push({ start: child.expression.getStart(context.sourceFile), end: child.expression.getEnd(), text: UNTYPED_CLASSES[child.expression.text] });
+      }
+    });
+    if (declaration?.type && ts.isTypeReferenceNode(declaration.type) && ts.isIdentifier(declaration.type.typeName) && UNTYPED_CLASSES[declaration.type.typeName.text]) {
+      context.edits.push({ start: declaration.type.getStart(context.sourceFile), end: declaration.type.getEnd(), text: UNTYPED_CLASSES[declaration.type.typeName.text] });
+    }
+  }
+
+  /**
+   * Déduit le type d'un contrôle (FormGroup, FormArray, FormControl ou entrée de configuration FormBuilder)
+   */
+  private inferControl(node: ts.Expression, baseName: string, controlPath: string, context: FormContext, viaBuilder: boolean = false, nonNullableBuilder: boolean = false): InferenceResult {
+    const formClass = this.getFormClass(node);
+
+    if (formClass === 'FormGroup') {
+      return this.inferGroup(node as ts.NewExpression | ts.CallExpression, baseName, controlPath, context);
+    }
+    if (formClass === 'FormArray') {
+      return this.inferArray(node as ts.NewExpression | ts.CallExpression, baseName, controlPath, context);
+    }
+    if (formClass === 'FormControl') {
+      const call = node as ts.NewExpression | ts.CallExpression;
+      return this.inferLeaf(call.arguments ? Array.from(call.arguments) : [], controlPath, context, call, this.isNonNullableBuilderCall(call));
+    }
+
+    // Entrée de FormBuilder.group : `['', Validators.required]` ou valeur initiale seule
+    if (viaBuilder) {
+      const args = ts.isArrayLiteralExpression(node) ? Array.from(node.elements) : [node];
+      return this.inferLeaf(args, controlPath, context, undefined, nonNullableBuilder);
+    }
+
+    return { failures: [controlPath] };
+  }
+
+  /**
+   * Déduit l'interface d'un FormGroup (`new FormGroup({...})` ou `fb.group({...})`)
+   */
+  private inferGroup(node: ts.NewExpression | ts.CallExpression, baseName: string, controlPath: string, context: FormContext): InferenceResult {
+    const [controls] = node.arguments || [];
+    if (!controls || !ts.isObjectLiteralExpression(controls)) {
+      return { failures: [controlPath] };
+    }
+
+    const viaBuilder = ts.isCallExpression(node);
+    const nonNullable = this.isNonNullableBuilderCall(node);
+    const fields: FormInterface['fields'] = [];
+    const failures: string[] = [];
+    const interfaceName = this.reserveName(baseName.endsWith('Form') ? baseName : `${baseName}Form`, context);
+
+    for (const property of controls.properties) {
+      const key = ts.isPropertyAssignment(property) ? AstUtils.getPropertyName(property.name) : undefined;
+      if (!key || !ts.isPropertyAssignment(property)) {
+        failures.push(`${controlPath}.${property.name ? property.name.getText(context.sourceFile) : '...'}`);
+        continue;
+      }
+
+      const childBase = `${baseName.replace(/Form$/, '')}${this.toPascalCase(key)}`;
+      const result = this.inferControl(property.initializer, childBase, `${controlPath}.${key}`, context, viaBuilder, nonNullable);
+      if (result.type !== undefined) {
+        fields.push({ key: /^[A-Za-z_$][\w$]*$/.test(key) ? key : `'${key}'`, type: result.type });
+      } else {
+        failures.push(...result.failures);
+      }
+    }
+
+    if (failures.length > 0) {
+      return { failures };
+    }
+
+    context.interfaces.push({ name: interfaceName, fields });
+    if (ts.isNewExpression(node)) {
+      context.edits.push({ start: node.expression.getEnd(), end: node.expression.getEnd(), text: `<${interfaceName}>` });
+    }
+
+    return { type: `FormGroup<${interfaceName}>` };
+  }
+
+  /**
+   * Déduit le type des éléments d'un FormArray (éléments présents et de même type)
+   */
+  private inferArray(node: ts.NewExpression | ts.CallExpression, baseName: string, controlPath: string, context: FormContext): InferenceResult {
+    const [controls] = node.arguments || [];
+    if (!controls || !ts.isArrayLiteralExpression(controls) || controls.elements.length === 0) {
+      return { failures: [controlPath] };
+    }
+
+    const viaBuilder = ts.isCallExpression(node);
+    const nonNullable = this.isNonNullableBuilderCall(node);
+    const types = new Set<string>();
+    const failures: string[] = [];
+    controls.elements.forEach((element, index) => {
+      const result = this.inferControl(element, `${baseName}Item`, `${controlPath}[${index}]`, context, viaBuilder, nonNullable);
+      if (result.type !== undefined) types.add(result.type);
+      else failures.push(...result.failures);
+    });
+
+    if (failures.length > 0) return { failures };
+    if (types.size !== 1) return { failures: [controlPath] };
+
+    const [elementType] = Array.from(types);
+    if (ts.isNewExpression(node)) {
+      context.edits.push({ start: node.expression.getEnd(), end: node.expression.getEnd(), text: `<${elementType}>` });
+    }
+    return { type: `FormArray<${elementType}>` };
+  }
+
+  /**
+   * Déduit le type d'un FormControl depuis sa valeur initiale puis ses validateurs
+   * Le contrôle n'est `nonNullable` que si le source le demande (option `nonNullable`, NonNullableFormBuilder, `fb.nonNullable`) :
+   * sinon reset() le remet à null, son type reste donc `T | null`
+   */
+  private inferLeaf(args: ts.Expression[], controlPath: string, context: FormContext, node?: ts.NewExpression | ts.CallExpression, nonNullableBuilder: boolean = false): InferenceResult {
+    const [initial, validatorsOrOptions] = args;
+    const value = initial && ts.isObjectLiteralExpression(initial) && AstUtils.findProperty(initial, 'value')
+      ? AstUtils.findProperty(initial, 'value')!.initializer
+      : initial;
+
+    const validatorsText = validatorsOrOptions ? validatorsOrOptions.getText(context.sourceFile) : '';
+    const type = this.inferValueType(value) || VALIDATOR_TYPES.find(candidate => candidate.pattern.test(validatorsText))?.type;
+    if (!type) {
+      return { failures: [controlPath] };
+    }
+
+    const hasValue = !this.isNullValue(value);
+    const options = validatorsOrOptions && ts.isObjectLiteralExpression(validatorsOrOptions) ? validatorsOrOptions : undefined;
+    const declaredNonNullable = !!options && !!AstUtils.findProperty(options, 'nonNullable');
+    const nonNullable = hasValue && (declaredNonNullable || nonNullableBuilder);
+
+    // Valeur nulle typée par ses validateurs : le type est explicité pour ne pas inférer FormControl<null>
+    if (!hasValue && !this.inferValueType(value)) {
+      if (node && !node.typeArguments) {
+        context.edits.push({ start: node.expression.getEnd(), end: node.expression.getEnd(), text: `<${type} | null>` });
+      } else if (!node && initial) {
+        context.edits.push({ start: initial.getStart(context.sourceFile), end: initial.getEnd(), text: `null as ${type} | null` });
+      }
+    }
+
+    return { type: nonNullable ? `FormControl<${type}>` : `FormControl<${type} | null>` };
+  }
+
+  /**
+   * Indique si une valeur initiale est nulle ou absente (`null as string | null` compris)
+   */
+  private isNullValue(expression: ts.Expression | undefined): boolean {
+    if (!expression) return true;
+    if (ts.isParenthesizedExpression(expression) || ts.isAsExpression(expression)) return this.isNullValue(expression.expression);
+    return expression.kind === ts.SyntaxKind.NullKeyword || (ts.isIdentifier(expression) && expression.text === 'undefined');
+  }
+
+  /**
+   * Déduit le type TypeScript d'une valeur initiale (`undefined` si le type n'est pas déductible)
+   */
+  private inferValueType(expression: ts.Expression | undefined): string | undefined {
+    if (!expression) return undefined;
+    if (ts.isParenthesizedExpression(expression)) return this.inferValueType(expression.expression);
+    if (ts.isAsExpression(expression)) return expression.type.getText().replace(/\s*\|\s*null\b|\bnull\s*\|\s*/g, '') || undefined;
+    if (ts.isStringLiteral(expression) || ts.isNoSubstitutionTemplateLiteral(expression) || ts.isTemplateExpression(expression)) return 'string';
+    if (ts.isNumericLiteral(expression)) return 'number';
+    if (ts.isPrefixUnaryExpression(expression) && ts.isNumericLiteral(expression.operand)) return 'number';
+    if (expression.kind === ts.SyntaxKind.TrueKeyword || expression.kind === ts.SyntaxKind.FalseKeyword) return 'boolean';
+    if (ts.isNewExpression(expression) && ts.isIdentifier(expression.expression) && expression.expression.text === 'Date') return 'Date';
+
+    if (ts.isArrayLiteralExpression(expression) && expression.elements.length > 0) {
+      const types = new Set(expression.elements.map(element => this.inferValueType(element)));
+      const [elementType] = Array.from(types);
+      return types.size === 1 && elementType ? `${elementType}[]` : undefined;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Retourne la classe de formulaire construite par une expression (`new FormGroup`, `fb.group`...)
+   */
+  private getFormClass(node: ts.Node): string | undefined {
+    if (ts.isNewExpression(node) && ts.isIdentifier(node.expression) && UNTYPED_CLASSES[node.expression.text]) {
+      return node.expression.text;
+    }
+
+    if (ts.isCallExpression(node) && ts.isPropertyAccessExpression(node.expression)) {
+      const receiverName = this.getBuilderName(this.skipNonNullableAccess(node.expression.expression));
+      if (!receiverName || !this.formBuilders.has(receiverName)) return undefined;
+
+      const method = node.expression.name.text;
+      return method === 'group' ? 'FormGroup' : method === 'array' ? 'FormArray' : method === 'control' ? 'FormControl' : undefined;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Indique si un appel passe par un FormBuilder non nullable (`NonNullableFormBuilder`, `fb.nonNullable.group`)
+   */
+  private isNonNullableBuilderCall(node: ts.NewExpression | ts.CallExpression): boolean {
+    if (!ts.isCallExpression(node) || !ts.isPropertyAccessExpression(node.expression)) return false;
+    const receiver = node.expression.expression;
+    const builderName = this.getBuilderName(receiver);
+    return receiver !== this.skipNonNullableAccess(receiver) || (!!builderName && this.nonNullableBuilders.has(builderName));
+  }
+
+  /**
+   * Retourne le nom d'un FormBuilder désigné par `fb` ou `this.fb`
+   */
+  private getBuilderName(receiver: ts.Expression): string | undefined {
+    if (ts.isPropertyAccessExpression(receiver) && receiver.expression.kind === ts.SyntaxKind.ThisKeyword) return receiver.name.text;
+    return ts.isIdentifier(receiver) ? receiver.text : undefined;
+  }
+
+  /**
+   * Retire l'accès `.nonNullable` d'un receveur (`this.fb.nonNullable` → `this.fb`)
+   */
+  private skipNonNullableAccess(receiver: ts.Expression): ts.Expression {
+    return ts.isPropertyAccessExpression(receiver) && receiver.name.text === 'nonNullable' ? receiver.expression : receiver;
+  }
+
+  /**
+   * Indique si un nœud construit un contrôle de formulaire
+   */
+  private isFormExpression(node: ts.Node): boolean {
+    return !!this.getFormClass(node);
+  }
+
+  /**
+   * Indique si un contrôle est imbriqué dans un autre contrôle (traité avec son formulaire racine)
+   */
+  private hasFormAncestor(node: ts.Node, boundary: ts.Node): boolean {
+    for (let current = node.parent; current && current !== boundary; current = current.parent) {
+      if (this.isFormExpression(current)) return true;
+      if (ts.isFunctionLike(current)) return false;
+    }
+    return false;
+  }
+
+  /**
+   * Recense les FormBuilder du fichier (paramètres de constructeur, propriétés, inject(FormBuilder))
+   */
+  private collectFormBuilders(sourceFile: ts.SourceFile): Set<string> {
+    const names = new Set<string>();
+    const isFormBuilderType = (type: ts.TypeNode | undefined) =>
+      !!type && ts.isTypeReferenceNode(type) && ts.isIdentifier(type.typeName) && /^(Untyped|NonNullable)?FormBuilder$/.test(type.typeName.text);
+
+    AstUtils.walk(sourceFile, node => {
+      if ((ts.isParameter(node) || ts.isPropertyDeclaration(node) || ts.isVariableDeclaration(node)) && ts.isIdentifier(node.name)) {
+        const injected = node.initializer && ts.isCallExpression(node.initializer)
+          && ts.isIdentifier(node.initializer.expression) && node.initializer.expression.text === 'inject'
+          && node.initializer.arguments.length > 0 && /^(Untyped|NonNullable)?FormBuilder$/.test(node.initializer.arguments[0].getText(sourceFile));
+        if (isFormBuilderType(node.type) || injected) {
+          names.add(node.name.text);
+          // NonNullableFormBuilder : les contrôles sont non nullables sans `.nonNullable`
+          if (/\bNonNullableFormBuilder\b/.test((injected ? node.initializer! : node.type!).getText(sourceFile))) {
+            this.nonNullableBuilders.add(node.name.text);
+          }
+        }
+      }
+    });
+
+    return names;
+  }
+
+  /**
+   * Retourne le nom de la propriété ou variable qui reçoit le formulaire
+   */
+  private getAssignmentTarget(node: ts.Node): string | undefined {
+    const parent = node.parent;
+    if (ts.isBinaryExpression(parent) && parent.operatorToken.kind === ts.SyntaxKind.EqualsToken && parent.right === node) {
+      const left = parent.left;
+      if (ts.isPropertyAccessExpression(left)) return left.name.text;
+      if (ts.isIdentifier(left)) return left.text;
+    }
+    if ((ts.isPropertyDeclaration(parent) || ts.isVariableDeclaration(parent)) && ts.isIdentifier(parent.name)) {
+      return parent.name.text;
+    }
+    return undefined;
+  }
+
+  /**
+   * Recherche la déclaration d'une propriété de classe
+   */
+  private findPropertyDeclaration(classDeclaration: ts.ClassDeclaration, name: string): ts.PropertyDeclaration | undefined {
+    return classDeclaration.members.find((member): member is ts.PropertyDeclaration =>
+      ts.isPropertyDeclaration(member) && ts.isIdentifier(member.name) && member.name.text === name
+    );
+  }
+
+  /**
+   * Réserve un nom d'interface libre dans le fichier
+   */
+  private reserveName(name: string, context: FormContext): string {
+    let candidate = name;
+    for (let index = 2; context.usedNames.has(candidate); index++) {
+      candidate = `${name}${index}`;
+    }
+    context.usedNames.add(candidate);
+    return candidate;
+  }
+
+  /**
+   * Convertit un identifiant en PascalCase (`loginForm` → `LoginForm`, `first-name` → `FirstName`)
+   */
+  private toPascalCase(name: string): string {
+    return name
+      .split(/[^A-Za-z0-9]+/)
+      .filter(part => part.length > 0)
+      .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+      .join('');
+  }
+
+  /**
+   * Retourne la position avant la classe (décorateurs et commentaire de documentation compris)
+   */
+  private getDeclarationStart(classDeclaration: ts.ClassDeclaration, sourceFile: ts.SourceFile): number {
+    const comments = ts.getLeadingCommentRanges(sourceFile.text, classDeclaration.getFullStart());
+    return comments && comments.length > 0 ? comments[0].pos : classDeclaration.getStart(sourceFile);
+  }
+
+  /**
+   * Génère le source d'une interface de formulaire
+   */
+  private printInterface(formInterface: FormInterface): string {
+    const fields = formInterface.fields.map(field => `  ${field.key}: ${field.type};`).join('\n');
+    return `export interface ${formInterface.name} {\n${fields}\n}\n`;
+  }
+
+  /**
+   * Ajoute à l'import `@angular/forms` les classes non typées utilisées
+   */
+  private addFormsImports(content: string, fileName: string): string {
+    const sourceFile = AstUtils.parse(fileName, content);
+    const used = new Set<string>();
+    AstUtils.walk(sourceFile, node => {
+      if (ts.isIdentifier(node) && Object.values(UNTYPED_CLASSES).includes(node.text) && !ts.isImportSpecifier(node.parent)) {
+        used.add(node.text);
+      }
+    });
+    if (used.size === 0) return content;
+
+    const formsImport = AstUtils.getImports(sourceFile).find(declaration => AstUtils.getModuleSpecifier(declaration) === '@angular/forms');
+    const bindings = formsImport?.importClause?.namedBindings;
+    if (!formsImport || !bindings || !ts.isNamedImports(bindings)) {
+      return `import { ${Array.from(used).join(', ')} } from '@angular/forms';\n${content}`;
+    }
+
+    const existing = new Set(bindings.elements.map(element => element.name.text));
+    const added = Array.from(used).filter(name => !existing.has(name));
+    if (added.length === 0) return content;
+
+    const last = bindings.elements[bindings.elements.length - 1];
+    return this.applyEdits(content, [{ start: last.getEnd(), end: last.getEnd(), text: `, ${added.join(', ')}` }]);
+  }
+
+  /**
+   * Crée un point à reprendre manuellement
+   */
+  private createIssue(sourceFile: ts.SourceFile, node: ts.Node, message: string, suggestion: string, severity: IssueSeverity = IssueSeverity.WARNING): MigrationIssue {
+    const position = AstUtils.getPosition(sourceFile, node);
+    return {
+      type: IssueType.TYPED_FORMS_MIGRATION,
+      severity,
+      message,
+      line: position.line,
+      column: position.column,
+      suggestion
+    };
+  }
+
+  /**
+   * Applique des modifications non chevauchantes en partant de la fin
+   */
+  private applyEdits(content: string, edits: TextEdit[]): string {
+    return edits
+      .slice()
+      .sort((a, b) => b.start - a.start || b.end - a.end)
+      .reduce((text, edit) => text.slice(0, edit.start) + edit.text + text.slice(edit.end), content);
+  }
+}
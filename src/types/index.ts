@@ -13,11 +13,28 @@ export interface AngularProject {
   config: ProjectConfig;
   /** Fichiers analysés */
   files: AnalyzedFile[];
+  /** Phases à franchir depuis la version actuelle jusqu'à la version cible */
+  phases?: MigrationPhase[];
+}
+
+export interface MigrationPhase {
+  /** Nom affiché */
+  name: string;
+  /** Version Angular de départ */
+  fromVersion: string;
+  /** Version Angular atteinte à la fin de la phase */
+  toVersion: string;
+  /** Phase à risque (rollback recommandé en cas d'échec) */
+  critical: boolean;
+  /** Durée estimée */
+  estimatedDuration: string;
 }
 
 export interface ProjectConfig {
   /** Chemin vers angular.json */
   angularJsonPath?: string;
+  /** Chemin vers .angular-cli.json (workspaces Angular CLI 1.x / Angular 5) */
+  angularCliJsonPath?: string;
   /** Chemin vers package.json */
   packageJsonPath?: string;
   /** Chemin vers tsconfig.json */
@@ -52,6 +69,38 @@ export interface AnalyzedFile {
   issues: MigrationIssue[];
   /** Transformations appliquées */
   transformations: Transformation[];
+  /** Issues et transformations ignorées par un commentaire `ng-migrate-ignore-*` */
+  suppressions?: Suppression[];
+  /** Durée d'exécution de chaque règle sur le fichier */
+  timings?: RuleTiming[];
+}
+
+export interface RuleTiming {
+  /** Règle exécutée (`plugin/règle`) */
+  rule: string;
+  /** Étape: analyse ou transformation */
+  phase: 'analysis' | 'transformation';
+  /** Début (ms depuis l'epoch, haute résolution) */
+  start: number;
+  /** Durée (ms) */
+  duration: number;
+  /** Thread d'exécution (0: thread principal, sinon worker) */
+  thread: number;
+}
+
+export interface Suppression {
+  /** Élément ignoré */
+  kind: 'issue' | 'transformation';
+  /** Type de l'issue ou de la transformation */
+  type: IssueType | TransformationType;
+  /** Règle à l'origine de l'élément (`plugin/règle`) */
+  rule: string;
+  /** Portée de la directive */
+  scope: 'next-line' | 'file';
+  /** Ligne de la directive */
+  line: number;
+  /** Message de l'issue ou description de la transformation */
+  message: string;
 }
 
 export enum FileType {
@@ -61,6 +110,7 @@ export enum FileType {
   ROUTING = 'routing',
   PACKAGE_JSON = 'package.json',
   ANGULAR_JSON = 'angular.json',
+  ANGULAR_CLI_JSON = '.angular-cli.json',
   TSCONFIG = 'tsconfig.json',
   HTML_TEMPLATE = 'html',
   CSS_STYLE = 'css',
@@ -93,7 +143,10 @@ export enum IssueType {
   INJECT_MIGRATION = 'inject_migration',
   CONTROL_FLOW_MIGRATION = 'control_flow_migration',
   TYPED_FORMS_MIGRATION = 'typed_forms_migration',
-  MODULE_DEPENDENCY = 'module_dependency'
+  MODULE_DEPENDENCY = 'module_dependency',
+  BUILD_CONFIGURATION = 'build_configuration',
+  TYPESCRIPT_CONFIGURATION = 'typescript_configuration',
+  HTTP_CLIENT_MIGRATION = 'http_client_migration'
 }
 
 export enum IssueSeverity {
@@ -112,10 +165,18 @@ export interface Transformation {
   before: string;
   /** Code après transformation */
   after: string;
+  /** Fichier produit lorsqu'il diffère du fichier analysé (création d'un nouveau fichier) */
+  targetPath?: string;
+  /** Le fichier est supprimé (NgModule devenu vide) */
+  deleteFile?: boolean;
   /** Statut de la transformation */
   status: TransformationStatus;
   /** Erreurs éventuelles */
   errors?: string[];
+  /** Points à reprendre manuellement signalés par la transformation */
+  issues?: MigrationIssue[];
+  /** Règle qui a produit la transformation (`plugin/règle`) */
+  rule?: string;
 }
 
 export enum TransformationType {
@@ -125,7 +186,12 @@ export enum TransformationType {
   UPDATE_TYPED_FORMS = 'update_typed_forms',
   UPDATE_IMPORTS = 'update_imports',
   UPDATE_DEPENDENCIES = 'update_dependencies',
-  REMOVE_NGMODULE = 'remove_ngmodule'
+  REMOVE_NGMODULE = 'remove_ngmodule',
+  CONVERT_WORKSPACE_CONFIG = 'convert_workspace_config',
+  UPDATE_BUILD_CONFIG = 'update_build_config',
+  UPDATE_TSCONFIG = 'update_tsconfig',
+  MIGRATE_RXJS = 'migrate_rxjs',
+  MIGRATE_HTTP_CLIENT = 'migrate_http_client'
 }
 
 export enum TransformationStatus {
@@ -140,6 +206,8 @@ export interface MigrationOptions {
   mode: MigrationMode;
   /** Sauvegarder avant migration */
   backup: boolean;
+  /** Nom du snapshot de sauvegarde (par défaut `pre-migration`, un par phase en migration progressive) */
+  backupName?: string;
   /** Appliquer les transformations automatiquement */
   autoApply: boolean;
   /** Fichiers à exclure */
@@ -150,6 +218,28 @@ export interface MigrationOptions {
   verbose: boolean;
   /** Créer un rapport détaillé */
   generateReport: boolean;
+  /** Revue interactive des modifications avant application */
+  interactive?: boolean;
+  /** Plugins de règles (fichier de configuration et ligne de commande) */
+  plugins?: PluginSpecifier[];
+  /** Configuration du projet (`migration.config.*`) */
+  config?: MigrationProjectConfig;
+  /** Réutiliser les résultats du cache d'analyse (activé par défaut) */
+  cache?: boolean;
+  /** Nombre de workers pour l'analyse et la transformation des fichiers (1 ou absent: séquentiel) */
+  concurrency?: number;
+  /** Trace des durées au format Chrome trace-event (`true`: chemin par défaut dans les rapports) */
+  profile?: boolean | string;
+  /** Vérifier les types après transformation et annuler celles qui introduisent des erreurs (activé par défaut) */
+  typeCheck?: boolean;
+  /** Réexécuter les transformations sur leur résultat (par défaut: uniquement en mode migrate) */
+  idempotencyCheck?: boolean;
+  /** Compiler le projet avec chaque option stricte inactive pour compter ses erreurs (une compilation par option) */
+  strictFlagsCheck?: boolean;
+  /** Appliquer les règles non idempotentes au lieu de les refuser en mode migrate */
+  force?: boolean;
+  /** Version Angular cible (`12`, `16.0.0`...), la plus récente par défaut */
+  targetVersion?: string;
 }
 
 export enum MigrationMode {
@@ -176,6 +266,85 @@ export interface MigrationReport {
   recommendations: string[];
   /** Temps d'exécution */
   executionTime: number;
+  /** Différences produites en mode dry-run */
+  dryRun?: DryRunResult;
+  /** Utilisation du cache d'analyse */
+  cache?: AnalysisCacheStats;
+  /** Fichier de trace produit avec `--profile` */
+  profilePath?: string;
+  /** Vérification de types des modifications avant écriture */
+  typeCheck?: TypeCheckResult;
+  /** Vérification d'idempotence des règles de transformation */
+  idempotency?: IdempotencyResult;
+}
+
+export interface TypeCheckResult {
+  /** tsconfig utilisé (relatif au projet) */
+  tsconfig?: string;
+  /** Erreurs de compilation introduites par les transformations */
+  newDiagnostics: number;
+  /** Transformations annulées (marquées en échec avec les erreurs du compilateur) */
+  revertedTransformations: number;
+  /** Erreurs introduites qui n'ont pu être attribuées à une transformation */
+  unresolved: string[];
+}
+
+export interface IdempotencyResult {
+  /** Fichiers transformés dont le résultat a été retransformé */
+  checkedFiles: number;
+  /** Modifications produites par la seconde exécution */
+  violations: IdempotencyViolation[];
+  /** Règles non idempotentes dont les transformations ont été refusées (mode migrate sans `force`) */
+  refusedRules: string[];
+}
+
+export interface IdempotencyViolation {
+  /** Règle non idempotente (`plugin/règle`) */
+  rule: string;
+  /** Fichier concerné (relatif au projet) */
+  file: string;
+  /** Description de la transformation produite par la seconde exécution */
+  description: string;
+}
+
+export interface AnalysisCacheStats {
+  /** Les résultats en cache ont été lus (`--no-cache` le désactive) */
+  enabled: boolean;
+  /** Fichier du cache, relatif au projet */
+  path: string;
+  /** Résultats (analyse ou transformation d'un fichier) repris du cache */
+  hits: number;
+  /** Résultats recalculés */
+  misses: number;
+}
+
+export interface DryRunResult {
+  /** Fichier .patch applicable avec `git apply` */
+  patchPath: string;
+  /** Diff unifié par fichier */
+  diffs: FileDiff[];
+  /** Blocs de modifications par type de transformation */
+  hunksByType: TransformationHunkStats[];
+}
+
+export interface FileDiff {
+  /** Chemin relatif à la racine du projet */
+  path: string;
+  /** Diff unifié du fichier */
+  diff: string;
+  /** Nombre de blocs du diff */
+  hunks: number;
+}
+
+export interface TransformationHunkStats {
+  /** Type de transformation */
+  type: TransformationType;
+  /** Nombre de transformations */
+  transformations: number;
+  /** Nombre de fichiers concernés */
+  files: number;
+  /** Nombre de blocs de modifications */
+  hunks: number;
 }
 
 export interface MigrationSummary {
@@ -189,6 +358,10 @@ export interface MigrationSummary {
   appliedTransformations: number;
   /** Nombre de transformations échouées */
   failedTransformations: number;
+  /** Nombre d'issues ignorées par un commentaire de suppression */
+  suppressedIssues: number;
+  /** Nombre de transformations ignorées (en tout ou partie) par un commentaire de suppression */
+  suppressedTransformations: number;
 }
 
 export interface FileMigrationDetails {
@@ -198,6 +371,135 @@ export interface FileMigrationDetails {
   issues: MigrationIssue[];
   /** Transformations appliquées */
   transformations: Transformation[];
-  /** Temps de traitement */
+  /** Temps de traitement (ms): durée cumulée des règles, 0 si le résultat vient du cache */
   processingTime: number;
 }
+
+export interface RuleContext {
+  /** Projet en cours de migration (accès aux autres fichiers et à la version source) */
+  project?: AngularProject;
+  /** Options de migration */
+  options?: MigrationOptions;
+}
+
+export interface MigrationRule {
+  /** Identifiant unique au sein du plugin */
+  id: string;
+  /** Description */
+  description?: string;
+  /** Types de fichiers concernés (tous si absent) */
+  fileTypes?: FileType[];
+  /** Versions Angular source concernées (`>=5 <8`, `^5.0.0`...), toutes si absent */
+  versionRange?: string;
+  /** Versions Angular cibles concernées (`>=17`...), toutes si absent */
+  targetRange?: string;
+  /** Le résultat dépend d'autres fichiers du projet: le cache est invalidé dès que l'un d'eux change */
+  crossFile?: boolean;
+}
+
+export interface AnalyzerRule extends MigrationRule {
+  /** Détecte les issues d'un fichier */
+  analyze(file: AnalyzedFile, context: RuleContext): MigrationIssue[] | Promise<MigrationIssue[]>;
+}
+
+export interface TransformerRule extends MigrationRule {
+  /** Ordre d'exécution dans la chaîne de transformations du fichier (croissant, 100 par défaut) */
+  order?: number;
+  /** Transforme `content`, résultat des règles précédentes pour ce fichier */
+  transform(
+    content: string,
+    file: AnalyzedFile,
+    context: RuleContext
+  ): Transformation | Transformation[] | null | Promise<Transformation | Transformation[] | null>;
+}
+
+export interface MigrationPlugin {
+  /** Nom unique du plugin */
+  name: string;
+  /** Version du plugin: la changer invalide le cache d'analyse */
+  version?: string;
+  /** Règles d'analyse */
+  analyzers?: AnalyzerRule[];
+  /** Règles de transformation */
+  transformers?: TransformerRule[];
+}
+
+/**
+ * Déclaration d'un plugin: nom de module ou chemin, avec options éventuelles
+ */
+export type PluginSpecifier = string | { module: string; options?: Record<string, unknown> };
+
+/**
+ * Configuration d'un projet, versionnée dans `migration.config.json` (ou `.ts`, `.yaml`)
+ * Les sections validation, rollback et reporting reprennent celles de MigrationConfig (shared/types)
+ */
+export interface MigrationProjectConfig {
+  /** Mode de migration par défaut */
+  mode?: 'analyze' | 'migrate' | 'dry-run';
+  /** Version Angular cible (majeure), la plus récente par défaut */
+  targetVersion?: string | number;
+  /** Appliquer les transformations automatiquement */
+  autoApply?: boolean;
+  /** Revue interactive des modifications avant application */
+  interactive?: boolean;
+  /** Fichiers à inclure uniquement */
+  include?: string[];
+  /** Fichiers à exclure */
+  exclude?: string[];
+  /** Niveau de verbosité */
+  verbose?: boolean;
+  /** Plugins de règles */
+  plugins?: PluginSpecifier[];
+  /** Cache d'analyse entre deux exécutions */
+  cache?: boolean;
+  /** Nombre de workers pour l'analyse et la transformation des fichiers */
+  concurrency?: number;
+  /** Vérification de types des modifications avant écriture */
+  typeCheck?: boolean;
+  /** Vérification d'idempotence des règles de transformation */
+  idempotencyCheck?: boolean;
+  /** Mesure des erreurs produites par chaque option stricte du compilateur */
+  strictFlagsCheck?: boolean;
+  /** Phases exécutées par l'orchestrateur */
+  phases?: string[];
+  validation?: ValidationSettings;
+  rollback?: RollbackSettings;
+  reporting?: ReportingSettings;
+}
+
+export interface ValidationSettings {
+  /** Validation après chaque phase */
+  enabled?: boolean;
+  /** Vérifier le build */
+  build?: boolean;
+  /** Exécuter les tests */
+  tests?: boolean;
+  /** Exécuter le linter */
+  linting?: boolean;
+  /** Vérifier les performances */
+  performance?: boolean;
+  /** Seuils de performance (remplacent ceux de la phase) */
+  thresholds?: {
+    buildTime?: number;
+    bundleSize?: number;
+    runtimePerformance?: number;
+  };
+}
+
+export interface RollbackSettings {
+  /** Retour arrière automatique en cas d'échec d'une phase */
+  automatic?: boolean;
+  /** Sauvegarder les fichiers modifiés */
+  backup?: boolean;
+  /** Rétention des sauvegardes (`7days`, `12h`, `5`...) */
+  retention?: string;
+}
+
+export interface ReportingSettings {
+  /** Générer les rapports */
+  enabled?: boolean;
+  /** Formats produits (tous par défaut) */
+  formats?: Array<'html' | 'json' | 'markdown'>;
+  /** Répertoire des rapports, relatif au projet (`migration-reports` par défaut) */
+  outputPath?: string;
+}
@@ -0,0 +1,168 @@
+import * as ts from 'typescript';
+import { AnalyzedFile } from '../types';
+
+/**
+ * Position d'un nœud dans un fichier source (base 1)
+ */
+export interface SourcePosition {
+  /** Ligne (base 1) */
+  line: number;
+  /** Colonne (base 1) */
+  column: number;
+}
+
+/**
+ * Utilitaires autour de l'API du compilateur TypeScript
+ * Centralise le parsing des fichiers .ts et la navigation dans l'AST
+ */
+export class AstUtils {
+  /**
+   * Parse le contenu TypeScript d'un fichier en AST
+   */
+  static parse(fileName: string, content: string): ts.SourceFile {
+    return ts.createSourceFile(fileName, content, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+  }
+
+  /**
+   * Retourne l'AST d'un fichier analysé en le mettant en cache dans `file.ast`
+   */
+  static getSourceFile(file: AnalyzedFile): ts.SourceFile {
+    const cached = file.ast as ts.SourceFile | undefined;
+    if (cached && cached.text === file.content) {
+      return cached;
+    }
+
+    const sourceFile = AstUtils.parse(file.path, file.content);
+    file.ast = sourceFile;
+    return sourceFile;
+  }
+
+  /**
+   * Indique si un fichier doit être parsé comme du TypeScript
+   */
+  static isTypeScriptFile(filePath: string): boolean {
+    return filePath.endsWith('.ts') && !filePath.endsWith('.d.ts');
+  }
+
+  /**
+   * Parcourt récursivement tous les nœuds de l'AST
+   */
+  static walk(node: ts.Node, visitor: (node: ts.Node) => void): void {
+    visitor(node);
+    ts.forEachChild(node, child => AstUtils.walk(child, visitor));
+  }
+
+  /**
+   * Calcule la position (ligne/colonne en base 1) du début d'un nœud
+   */
+  static getPosition(sourceFile: ts.SourceFile, node: ts.Node): SourcePosition {
+    const { line, character } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+    return { line: line + 1, column: character + 1 };
+  }
+
+  /**
+   * Retourne les décorateurs d'un nœud (classe, propriété, paramètre...)
+   */
+  static getDecorators(node: ts.Node): readonly ts.Decorator[] {
+    return ts.canHaveDecorators(node) ? ts.getDecorators(node) || [] : [];
+  }
+
+  /**
+   * Retourne le nom d'un décorateur (`Component` pour `@Component({...})`)
+   */
+  static getDecoratorName(decorator: ts.Decorator): string | undefined {
+    const expression = ts.isCallExpression(decorator.expression)
+      ? decorator.expression.expression
+      : decorator.expression;
+    return ts.isIdentifier(expression) ? expression.text : undefined;
+  }
+
+  /**
+   * Recherche un décorateur par son nom sur un nœud
+   */
+  static findDecorator(node: ts.Node, name: string): ts.Decorator | undefined {
+    return AstUtils.getDecorators(node).find(decorator => AstUtils.getDecoratorName(decorator) === name);
+  }
+
+  /**
+   * Retourne l'objet littéral passé en argument d'un décorateur (`@Component({...})`)
+   */
+  static getDecoratorMetadata(decorator: ts.Decorator): ts.ObjectLiteralExpression | undefined {
+    if (!ts.isCallExpression(decorator.expression)) return undefined;
+    const [firstArgument] = decorator.expression.arguments;
+    return firstArgument && ts.isObjectLiteralExpression(firstArgument) ? firstArgument : undefined;
+  }
+
+  /**
+   * Recherche une propriété nommée dans un objet littéral
+   */
+  static findProperty(objectLiteral: ts.ObjectLiteralExpression, name: string): ts.PropertyAssignment | undefined {
+    return objectLiteral.properties.find(
+      (property): property is ts.PropertyAssignment =>
+        ts.isPropertyAssignment(property) && AstUtils.getPropertyName(property.name) === name
+    );
+  }
+
+  /**
+   * Retourne le nom textuel d'une propriété (identifiant ou chaîne)
+   */
+  static getPropertyName(name: ts.PropertyName): string | undefined {
+    if (ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name)) {
+      return name.text;
+    }
+    return undefined;
+  }
+
+  /**
+   * Retourne les classes déclarées dans un fichier
+   */
+  static getClasses(sourceFile: ts.SourceFile): ts.ClassDeclaration[] {
+    const classes: ts.ClassDeclaration[] = [];
+    AstUtils.walk(sourceFile, node => {
+      if (ts.isClassDeclaration(node)) {
+        classes.push(node);
+      }
+    });
+    return classes;
+  }
+
+  /**
+   * Retourne les templates inline (`template:` des décorateurs @Component) sous forme littérale
+   */
+  static findInlineTemplates(sourceFile: ts.SourceFile): Array<ts.StringLiteral | ts.NoSubstitutionTemplateLiteral> {
+    const templates: Array<ts.StringLiteral | ts.NoSubstitutionTemplateLiteral> = [];
+
+    for (const classDeclaration of AstUtils.getClasses(sourceFile)) {
+      const component = AstUtils.findDecorator(classDeclaration, 'Component');
+      const metadata = component && AstUtils.getDecoratorMetadata(component);
+      const template = metadata && AstUtils.findProperty(metadata, 'template');
+
+      if (template && (ts.isStringLiteral(template.initializer) || ts.isNoSubstitutionTemplateLiteral(template.initializer))) {
+        templates.push(template.initializer);
+      }
+    }
+
+    return templates;
+  }
+
+  /**
+   * Retourne les déclarations d'import du fichier
+   */
+  static getImports(sourceFile: ts.SourceFile): ts.ImportDeclaration[] {
+    return sourceFile.statements.filter(ts.isImportDeclaration);
+  }
+
+  /**
+   * Retourne le module importé par une déclaration d'import
+   */
+  static getModuleSpecifier(declaration: ts.ImportDeclaration): string {
+    return (declaration.moduleSpecifier as ts.StringLiteral).text;
+  }
+
+  /**
+   * Indique si un paramètre de constructeur déclare une propriété (private, public, protected, readonly)
+   */
+  static isParameterProperty(parameter: ts.ParameterDeclaration): boolean {
+    return ts.isParameterPropertyDeclaration(parameter, parameter.parent);
+  }
+}
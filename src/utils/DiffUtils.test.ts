@@ -0,0 +1,57 @@
+import { execFileSync } from 'child_process';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { DiffUtils } from './DiffUtils';
+
+describe('DiffUtils', () => {
+  describe('formatUnifiedDiff', () => {
+    let repoPath: string;
+
+    beforeEach(async () => {
+      repoPath = await fs.mkdtemp(path.join(os.tmpdir(), 'diff-utils-'));
+      execFileSync('git', ['init', '-q'], { cwd: repoPath });
+    });
+
+    afterEach(async () => {
+      await fs.remove(repoPath);
+    });
+
+    const gitApply = async (filePath: string, before: string | null, after: string | null) => {
+      if (before !== null) {
+        await fs.outputFile(path.join(repoPath, filePath), before);
+      }
+      const patch = DiffUtils.formatUnifiedDiff(filePath, before, after);
+      await fs.writeFile(path.join(repoPath, 'changes.patch'), patch);
+
+      execFileSync('git', ['apply', '--check', 'changes.patch'], { cwd: repoPath, stdio: 'pipe' });
+      execFileSync('git', ['apply', 'changes.patch'], { cwd: repoPath, stdio: 'pipe' });
+
+      const target = path.join(repoPath, filePath);
+      return await fs.pathExists(target) ? fs.readFile(target, 'utf8') : null;
+    };
+
+    const lines = (count: number) => Array.from({ length: count }, (_, index) => `const value${index} = ${index};\n`).join('');
+
+    it('produit un patch accepté par git apply pour des blocs séparés', async () => {
+      const before = lines(20);
+      const after = before.replace('value2 = 2', 'value2 = 42').replace('value17 = 17', 'value17 = 1700');
+
+      expect(await gitApply('src/app.ts', before, after)).toBe(after);
+    });
+
+    it.each([
+      ['l\'ajout du saut de ligne final', lines(3).slice(0, -1), lines(4)],
+      ['le retrait du saut de ligne final', lines(4), lines(3).slice(0, -1)],
+      ['une modification loin de la fin d\'un fichier sans saut de ligne final', lines(4).slice(0, -1), lines(4).slice(0, -1).replace('value0 = 0', 'value0 = 10')],
+      ['une modification de la dernière ligne sans saut de ligne final', lines(4).slice(0, -1), lines(4).slice(0, -1).replace('value3 = 3', 'value3 = 30')]
+    ])('gère %s', async (_, before, after) => {
+      expect(await gitApply('src/app.ts', before, after)).toBe(after);
+    });
+
+    it('crée et supprime des fichiers', async () => {
+      expect(await gitApply('src/created.ts', null, lines(2))).toBe(lines(2));
+      expect(await gitApply('src/removed.ts', lines(2).slice(0, -1), null)).toBeNull();
+    });
+  });
+});
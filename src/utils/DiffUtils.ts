@@ -0,0 +1,326 @@
+/**
+ * Remplacement d'un bloc de lignes du texte d'origine
+ */
+export interface LineChange {
+  /** Première ligne remplacée (base 0) */
+  start: number;
+  /** Ligne suivant la dernière ligne remplacée (exclusive) */
+  end: number;
+  /** Lignes insérées à la place du bloc */
+  lines: string[];
+}
+
+/**
+ * Résultat d'une fusion à trois voies
+ */
+export interface MergeResult {
+  /** Contenu fusionné (les blocs en conflit conservent la version `ours`) */
+  content: string;
+  /** Blocs du texte de base modifiés des deux côtés */
+  conflicts: LineChange[];
+}
+
+/**
+ * Bloc d'un diff unifié
+ */
+export interface DiffHunk {
+  /** Première ligne du bloc dans l'ancien texte (base 1, ligne précédente si le bloc est vide) */
+  oldStart: number;
+  /** Nombre de lignes de l'ancien texte */
+  oldLines: number;
+  /** Première ligne du bloc dans le nouveau texte */
+  newStart: number;
+  /** Nombre de lignes du nouveau texte */
+  newLines: number;
+  /** Lignes préfixées par ' ', '-' ou '+' */
+  lines: string[];
+}
+
+/**
+ * Nombre maximal de différences explorées avant de considérer le bloc entièrement remplacé
+ */
+const MAX_EDIT_DISTANCE = 2000;
+
+/**
+ * Utilitaires de comparaison de textes ligne à ligne (algorithme de Myers)
+ */
+export class DiffUtils {
+  /**
+   * Découpe un texte en lignes en conservant les fins de ligne
+   */
+  static splitLines(text: string): string[] {
+    if (text.length === 0) {
+      return [];
+    }
+
+    const lines: string[] = [];
+    let start = 0;
+    for (let i = 0; i < text.length; i++) {
+      if (text[i] === '\n') {
+        lines.push(text.slice(start, i + 1));
+        start = i + 1;
+      }
+    }
+    if (start < text.length) {
+      lines.push(text.slice(start));
+    }
+    return lines;
+  }
+
+  /**
+   * Calcule les blocs de lignes à remplacer pour passer de `before` à `after`
+   */
+  static diffLines(before: string, after: string): LineChange[] {
+    const a = DiffUtils.splitLines(before);
+    const b = DiffUtils.splitLines(after);
+
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+      prefix++;
+    }
+
+    let suffix = 0;
+    while (
+      suffix < a.length - prefix &&
+      suffix < b.length - prefix &&
+      a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+    ) {
+      suffix++;
+    }
+
+    const middleA = a.slice(prefix, a.length - suffix);
+    const middleB = b.slice(prefix, b.length - suffix);
+    if (middleA.length === 0 && middleB.length === 0) {
+      return [];
+    }
+
+    const matches = DiffUtils.findMatches(middleA, middleB);
+    if (!matches) {
+      return [{ start: prefix, end: prefix + middleA.length, lines: middleB }];
+    }
+
+    const changes: LineChange[] = [];
+    let i = 0;
+    let j = 0;
+    for (const [matchA, matchB] of [...matches, [middleA.length, middleB.length] as [number, number]]) {
+      if (matchA > i || matchB > j) {
+        changes.push({ start: prefix + i, end: prefix + matchA, lines: middleB.slice(j, matchB) });
+      }
+      i = matchA + 1;
+      j = matchB + 1;
+    }
+
+    return changes;
+  }
+
+  /**
+   * Applique des remplacements de blocs (triés et disjoints) à un texte
+   */
+  static applyChanges(text: string, changes: LineChange[]): string {
+    const lines = DiffUtils.splitLines(text);
+    const result: string[] = [];
+    let index = 0;
+
+    for (const change of changes) {
+      result.push(...lines.slice(index, change.start), ...change.lines);
+      index = change.end;
+    }
+    result.push(...lines.slice(index));
+
+    return result.join('');
+  }
+
+  /**
+   * Regroupe les différences en blocs entourés de `context` lignes inchangées
+   */
+  static createHunks(before: string, after: string, context: number = 3): DiffHunk[] {
+    const a = DiffUtils.splitLines(before);
+    const changes = DiffUtils.diffLines(before, after);
+    const hunks: DiffHunk[] = [];
+    let delta = 0;
+    let index = 0;
+
+    while (index < changes.length) {
+      const group = [changes[index]];
+      index++;
+      while (index < changes.length && changes[index].start - group[group.length - 1].end <= 2 * context) {
+        group.push(changes[index]);
+        index++;
+      }
+
+      const oldFrom = Math.max(0, group[0].start - context);
+      const oldTo = Math.min(a.length, group[group.length - 1].end + context);
+      const newFrom = oldFrom + delta;
+      const lines: string[] = [];
+      let position = oldFrom;
+
+      for (const change of group) {
+        lines.push(...a.slice(position, change.start).map(line => ' ' + line));
+        lines.push(...a.slice(change.start, change.end).map(line => '-' + line));
+        lines.push(...change.lines.map(line => '+' + line));
+        delta += change.lines.length - (change.end - change.start);
+        position = change.end;
+      }
+      lines.push(...a.slice(position, oldTo).map(line => ' ' + line));
+
+      const oldLines = oldTo - oldFrom;
+      const newLines = oldLines + lines.filter(line => line[0] === '+').length - lines.filter(line => line[0] === '-').length;
+      hunks.push({
+        oldStart: oldLines === 0 ? oldFrom : oldFrom + 1,
+        oldLines,
+        newStart: newLines === 0 ? newFrom : newFrom + 1,
+        newLines,
+        lines
+      });
+    }
+
+    return hunks;
+  }
+
+  /**
+   * Produit le diff unifié d'un fichier au format `git diff` (applicable avec `git apply`)
+   * `before` vaut null pour un fichier créé, `after` vaut null pour un fichier supprimé
+   */
+  static formatUnifiedDiff(filePath: string, before: string | null, after: string | null, context: number = 3): string {
+    const hunks = DiffUtils.createHunks(before ?? '', after ?? '', context);
+    if (hunks.length === 0) {
+      return '';
+    }
+
+    const gitPath = filePath.split('\\').join('/');
+    const header = [`diff --git a/${gitPath} b/${gitPath}`];
+    if (before === null) {
+      header.push('new file mode 100644');
+    } else if (after === null) {
+      header.push('deleted file mode 100644');
+    }
+    header.push(before === null ? '--- /dev/null' : `--- a/${gitPath}`);
+    header.push(after === null ? '+++ /dev/null' : `+++ b/${gitPath}`);
+
+    const body = hunks.map(hunk => [
+      `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`,
+      ...hunk.lines.map(line => line.endsWith('\n') ? line.slice(0, -1) : `${line}\n\\ No newline at end of file`)
+    ].join('\n'));
+
+    return [...header, ...body].join('\n') + '\n';
+  }
+
+  /**
+   * Fusionne à trois voies deux évolutions (`ours`, `theirs`) d'un même texte de base
+   * Les modifications qui se chevauchent ou se touchent sont signalées en conflit
+   */
+  static merge(base: string, ours: string, theirs: string): MergeResult {
+    const tagged = [
+      ...DiffUtils.diffLines(base, ours).map(change => ({ change, side: 'ours' })),
+      ...DiffUtils.diffLines(base, theirs).map(change => ({ change, side: 'theirs' }))
+    ].sort((x, y) => x.change.start - y.change.start || x.change.end - y.change.end);
+
+    const merged: LineChange[] = [];
+    const conflicts: LineChange[] = [];
+    let index = 0;
+
+    while (index < tagged.length) {
+      const cluster = [tagged[index]];
+      let end = tagged[index].change.end;
+      index++;
+
+      while (index < tagged.length && tagged[index].change.start <= end) {
+        cluster.push(tagged[index]);
+        end = Math.max(end, tagged[index].change.end);
+        index++;
+      }
+
+      const first = cluster[0].change;
+      const identical = cluster.every(({ change }) =>
+        change.start === first.start &&
+        change.end === first.end &&
+        change.lines.join('') === first.lines.join('')
+      );
+
+      if (identical || cluster.every(({ side }) => side === cluster[0].side)) {
+        merged.push(...(identical ? [first] : cluster.map(({ change }) => change)));
+        continue;
+      }
+
+      conflicts.push({ start: first.start, end, lines: [] });
+      merged.push(...cluster.filter(({ side }) => side === 'ours').map(({ change }) => change));
+    }
+
+    return { content: DiffUtils.applyChanges(base, merged), conflicts };
+  }
+
+  /**
+   * Recherche les couples de lignes identiques d'un plus court script d'édition
+   * Retourne null lorsque les textes diffèrent trop pour une recherche raisonnable
+   */
+  private static findMatches(a: string[], b: string[]): Array<[number, number]> | null {
+    const n = a.length;
+    const m = b.length;
+    const maxDistance = Math.min(n + m, MAX_EDIT_DISTANCE);
+    const offset = maxDistance + 1;
+    const v = new Int32Array(2 * maxDistance + 3);
+    const trace: Int32Array[] = [];
+
+    for (let d = 0; d <= maxDistance; d++) {
+      for (let k = -d; k <= d; k += 2) {
+        let x: number;
+        if (d === 0) {
+          x = 0;
+        } else if (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])) {
+          x = v[offset + k + 1];
+        } else {
+          x = v[offset + k - 1] + 1;
+        }
+
+        let y = x - k;
+        while (x < n && y < m && a[x] === b[y]) {
+          x++;
+          y++;
+        }
+        v[offset + k] = x;
+
+        if (x >= n && y >= m) {
+          trace.push(v.slice(offset - d, offset + d + 1));
+          return DiffUtils.backtrack(trace, n, m);
+        }
+      }
+      trace.push(v.slice(offset - d, offset + d + 1));
+    }
+
+    return null;
+  }
+
+  /**
+   * Reconstitue les diagonales (lignes communes) à partir de la trace de Myers
+   */
+  private static backtrack(trace: Int32Array[], n: number, m: number): Array<[number, number]> {
+    const matches: Array<[number, number]> = [];
+    let x = n;
+    let y = m;
+
+    for (let d = trace.length - 1; d > 0; d--) {
+      const previous = trace[d - 1];
+      const at = (k: number) => previous[k + d - 1];
+      const k = x - y;
+      const previousK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+      const previousX = at(previousK);
+      const previousY = previousX - previousK;
+
+      while (x > previousX && y > previousY) {
+        x--;
+        y--;
+        matches.push([x, y]);
+      }
+      x = previousX;
+      y = previousY;
+    }
+
+    while (x > 0 && y > 0) {
+      x--;
+      y--;
+      matches.push([x, y]);
+    }
+
+    return matches.reverse();
+  }
+}
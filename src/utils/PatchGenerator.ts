@@ -0,0 +1,93 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { DryRunResult, FileDiff, TransformationHunkStats, TransformationType } from '../types';
+import { FileChange } from '../core/ChangeSetApplier';
+import { DiffUtils } from './DiffUtils';
+import { Logger } from './Logger';
+
+/**
+ * Générateur des diffs unifiés et du fichier .patch du mode dry-run
+ */
+export class PatchGenerator {
+  private logger: Logger;
+
+  constructor() {
+    this.logger = new Logger();
+  }
+
+  /**
+   * Produit les diffs du jeu de modifications et écrit le .patch dans `migration-reports`
+   */
+  async generate(projectPath: string, changes: FileChange[]): Promise<DryRunResult> {
+    try {
+      const diffs = this.createDiffs(changes);
+      const reportDir = path.join(projectPath, 'migration-reports');
+      await fs.ensureDir(reportDir);
+
+      const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+      const patchPath = path.join(reportDir, `migration-${timestamp}.patch`);
+      await fs.writeFile(patchPath, diffs.map(fileDiff => fileDiff.diff).join(''), 'utf-8');
+
+      this.logger.success(`🩹 Patch généré: ${patchPath}`);
+      return { patchPath, diffs, hunksByType: this.summarizeHunks(changes) };
+    } catch (error) {
+      this.logger.error(`Erreur lors de la génération du patch: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Calcule le diff unifié de chaque fichier modifié, créé ou supprimé
+   */
+  createDiffs(changes: FileChange[]): FileDiff[] {
+    const diffs: FileDiff[] = [];
+
+    for (const change of changes) {
+      const after = change.deleted ? null : change.content;
+      const diff = DiffUtils.formatUnifiedDiff(change.path, change.originalContent, after);
+      if (diff.length === 0) {
+        continue;
+      }
+
+      diffs.push({
+        path: change.path,
+        diff,
+        hunks: DiffUtils.createHunks(change.originalContent ?? '', after ?? '').length
+      });
+    }
+
+    return diffs;
+  }
+
+  /**
+   * Compte les blocs de modifications produits par chaque type de transformation
+   */
+  summarizeHunks(changes: FileChange[]): TransformationHunkStats[] {
+    const stats = new Map<TransformationType, TransformationHunkStats & { paths: Set<string> }>();
+
+    for (const change of changes) {
+      for (const transformation of change.transformations) {
+        const hunks = DiffUtils.createHunks(
+          transformation.before,
+          transformation.deleteFile ? '' : transformation.after
+        ).length;
+        if (hunks === 0) {
+          continue;
+        }
+
+        let entry = stats.get(transformation.type);
+        if (!entry) {
+          entry = { type: transformation.type, transformations: 0, files: 0, hunks: 0, paths: new Set<string>() };
+          stats.set(transformation.type, entry);
+        }
+        entry.transformations++;
+        entry.hunks += hunks;
+        entry.paths.add(change.path);
+      }
+    }
+
+    return Array.from(stats.values())
+      .map(({ paths, ...entry }) => ({ ...entry, files: paths.size }))
+      .sort((a, b) => b.hunks - a.hunks);
+  }
+}
@@ -0,0 +1,111 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { MigrationReport, RuleTiming } from '../types';
+import { Logger } from './Logger';
+
+/**
+ * Événement au format Chrome trace-event (chrome://tracing, Perfetto)
+ */
+interface TraceEvent {
+  name: string;
+  cat?: string;
+  /** `X`: durée complète, `M`: métadonnée */
+  ph: 'X' | 'M';
+  /** Début (µs) */
+  ts?: number;
+  /** Durée (µs) */
+  dur?: number;
+  pid: number;
+  tid: number;
+  args?: Record<string, unknown>;
+}
+
+const PROCESS_ID = 1;
+
+/**
+ * Générateur de la trace des durées d'analyse et de transformation (`--profile`)
+ * Chaque règle exécutée sur un fichier devient un événement, regroupé sous l'étape du fichier, par thread
+ */
+export class ProfileGenerator {
+  private logger: Logger;
+
+  constructor() {
+    this.logger = new Logger();
+  }
+
+  /**
+   * Écrit la trace du rapport et retourne son chemin
+   * Sans chemin explicite, la trace est placée avec les rapports
+   */
+  async generate(report: MigrationReport, outputPath?: string): Promise<string> {
+    try {
+      const settings = report.options.config?.reporting || {};
+      const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+      const profilePath = outputPath
+        ? path.resolve(report.project.path, outputPath)
+        : path.join(report.project.path, settings.outputPath || 'migration-reports', `migration-profile-${timestamp}.json`);
+
+      await fs.ensureDir(path.dirname(profilePath));
+      await fs.writeFile(profilePath, JSON.stringify({ traceEvents: this.createEvents(report), displayTimeUnit: 'ms' }), 'utf-8');
+
+      this.logger.success(`⏱️  Profil généré: ${profilePath}`);
+      return profilePath;
+    } catch (error) {
+      this.logger.error(`Erreur lors de la génération du profil: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Construit les événements: métadonnées des threads, étapes par fichier et règles
+   */
+  createEvents(report: MigrationReport): TraceEvent[] {
+    const timings = report.fileDetails.flatMap(detail => (detail.file.timings || []).map(timing => ({ path: detail.file.path, timing })));
+    if (timings.length === 0) {
+      return [];
+    }
+
+    // Horodatages relatifs au premier événement, en microsecondes
+    const origin = Math.min(...timings.map(({ timing }) => timing.start));
+    const micros = (ms: number) => Math.round(ms * 1000);
+    const threads = Array.from(new Set(timings.map(({ timing }) => timing.thread))).sort((a, b) => a - b);
+
+    const events: TraceEvent[] = [
+      { name: 'process_name', ph: 'M', pid: PROCESS_ID, tid: 0, args: { name: `Migration ${report.project.path}` } },
+      ...threads.map(thread => ({
+        name: 'thread_name', ph: 'M' as const, pid: PROCESS_ID, tid: thread,
+        args: { name: thread === 0 ? 'Thread principal' : `Worker ${thread}` }
+      }))
+    ];
+
+    // Étape d'un fichier: de la première à la dernière règle exécutée dans le même thread
+    const steps = new Map<string, { path: string; phase: RuleTiming['phase']; thread: number; start: number; end: number }>();
+    for (const { path: filePath, timing } of timings) {
+      const key = `${filePath}\0${timing.phase}\0${timing.thread}`;
+      const step = steps.get(key);
+      const end = timing.start + timing.duration;
+      if (step) {
+        step.start = Math.min(step.start, timing.start);
+        step.end = Math.max(step.end, end);
+      } else {
+        steps.set(key, { path: filePath, phase: timing.phase, thread: timing.thread, start: timing.start, end });
+      }
+    }
+
+    for (const step of steps.values()) {
+      events.push({
+        name: step.path, cat: `file,${step.phase}`, ph: 'X', pid: PROCESS_ID, tid: step.thread,
+        ts: micros(step.start - origin), dur: micros(step.end - step.start), args: { phase: step.phase }
+      });
+    }
+
+    for (const { path: filePath, timing } of timings) {
+      events.push({
+        name: timing.rule, cat: `rule,${timing.phase}`, ph: 'X', pid: PROCESS_ID, tid: timing.thread,
+        ts: micros(timing.start - origin), dur: micros(timing.duration), args: { file: filePath }
+      });
+    }
+
+    return events;
+  }
+}
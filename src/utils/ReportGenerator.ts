@@ -1,7 +1,28 @@
 import * as fs from 'fs-extra';
 import * as path from 'path';
-import { MigrationReport, MigrationSummary, FileMigrationDetails } from '../types';
+import { MigrationReport, MigrationSummary, FileMigrationDetails, RuleTiming, Suppression } from '../types';
 import { Logger } from './Logger';
+import { MigrationPhases } from '../config/MigrationPhases';
+
+/**
+ * Nombre de fichiers et de règles listés dans la section Performances
+ */
+const SLOWEST_LIMIT = 10;
+
+/**
+ * Durées cumulées d'une règle sur l'ensemble des fichiers
+ */
+interface RuleTimingSummary {
+  rule: string;
+  phase: RuleTiming['phase'];
+  /** Nombre d'exécutions */
+  runs: number;
+  /** Durée totale (ms) */
+  total: number;
+  /** Exécution la plus longue (ms) et son fichier */
+  max: number;
+  slowestFile: string;
+}
 
 /**
  * Générateur de rapports de migration
@@ -15,34 +36,37 @@ export class ReportGenerator {
 
   /**
    * Génère un rapport complet de migration
+   * Formats et répertoire suivent la section `reporting` de la configuration du projet
    */
   async generateReport(report: MigrationReport): Promise<void> {
     try {
-      const reportDir = path.join(report.project.path, 'migration-reports');
+      const settings = report.options.config?.reporting || {};
+      const formats = settings.formats || ['html', 'json', 'markdown'];
+      const reportDir = path.join(report.project.path, settings.outputPath || 'migration-reports');
       await fs.ensureDir(reportDir);
 
       const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-      const reportFileName = `migration-report-${timestamp}.html`;
-      const reportPath = path.join(reportDir, reportFileName);
 
       // Générer le rapport HTML
-      const htmlContent = this.generateHtmlReport(report);
-      await fs.writeFile(reportPath, htmlContent, 'utf-8');
+      if (formats.includes('html')) {
+        const reportPath = path.join(reportDir, `migration-report-${timestamp}.html`);
+        await fs.writeFile(reportPath, this.generateHtmlReport(report), 'utf-8');
+        this.logger.success(`📊 Rapport généré: ${reportPath}`);
+      }
 
       // Générer le rapport JSON
-      const jsonFileName = `migration-report-${timestamp}.json`;
-      const jsonPath = path.join(reportDir, jsonFileName);
-      await fs.writeFile(jsonPath, JSON.stringify(report, null, 2), 'utf-8');
+      if (formats.includes('json')) {
+        const jsonPath = path.join(reportDir, `migration-report-${timestamp}.json`);
+        await fs.writeFile(jsonPath, JSON.stringify(report, this.jsonReplacer, 2), 'utf-8');
+        this.logger.info(`📄 Rapport JSON: ${jsonPath}`);
+      }
 
       // Générer le rapport Markdown
-      const mdFileName = `migration-report-${timestamp}.md`;
-      const mdPath = path.join(reportDir, mdFileName);
-      const mdContent = this.generateMarkdownReport(report);
-      await fs.writeFile(mdPath, mdContent, 'utf-8');
-
-      this.logger.success(`📊 Rapport généré: ${reportPath}`);
-      this.logger.info(`📄 Rapport JSON: ${jsonPath}`);
-      this.logger.info(`📝 Rapport Markdown: ${mdPath}`);
+      if (formats.includes('markdown')) {
+        const mdPath = path.join(reportDir, `migration-report-${timestamp}.md`);
+        await fs.writeFile(mdPath, this.generateMarkdownReport(report), 'utf-8');
+        this.logger.info(`📝 Rapport Markdown: ${mdPath}`);
+      }
 
     } catch (error) {
       this.logger.error(`Erreur lors de la génération du rapport: ${error.message}`);
@@ -50,12 +74,116 @@ export class ReportGenerator {
     }
   }
 
+  /**
+   * Éléments ignorés par un commentaire de suppression, avec leur fichier
+   */
+  private collectSuppressions(report: MigrationReport): Array<{ path: string; suppression: Suppression }> {
+    return report.fileDetails.flatMap(fileDetail =>
+      (fileDetail.file.suppressions || []).map(suppression => ({ path: fileDetail.file.path, suppression }))
+    );
+  }
+
+  /**
+   * Exclut du rapport JSON les données non sérialisables (AST TypeScript)
+   */
+  private jsonReplacer(key: string, value: any): any {
+    return key === 'ast' ? undefined : value;
+  }
+
+  /**
+   * Fichiers les plus longs à traiter (durée cumulée des règles)
+   */
+  private collectSlowestFiles(report: MigrationReport): FileMigrationDetails[] {
+    return report.fileDetails
+      .filter(fileDetail => fileDetail.processingTime > 0)
+      .sort((a, b) => b.processingTime - a.processingTime)
+      .slice(0, SLOWEST_LIMIT);
+  }
+
+  /**
+   * Règles les plus coûteuses, par durée cumulée sur tous les fichiers
+   */
+  private collectSlowestRules(report: MigrationReport): RuleTimingSummary[] {
+    const rules = new Map<string, RuleTimingSummary>();
+
+    for (const fileDetail of report.fileDetails) {
+      for (const timing of fileDetail.file.timings || []) {
+        const key = `${timing.phase}\0${timing.rule}`;
+        const summary = rules.get(key) || { rule: timing.rule, phase: timing.phase, runs: 0, total: 0, max: 0, slowestFile: '' };
+        summary.runs++;
+        summary.total += timing.duration;
+        if (timing.duration >= summary.max) {
+          summary.max = timing.duration;
+          summary.slowestFile = fileDetail.file.path;
+        }
+        rules.set(key, summary);
+      }
+    }
+
+    return Array.from(rules.values())
+      .sort((a, b) => b.total - a.total)
+      .slice(0, SLOWEST_LIMIT);
+  }
+
+  private formatDuration(ms: number): string {
+    return `${ms.toFixed(1)} ms`;
+  }
+
+  /**
+   * Utilisation du cache d'analyse: résultats réutilisés et recalculés
+   */
+  formatCacheStats(report: MigrationReport): string {
+    const cache = report.cache;
+    if (!cache) {
+      return 'non utilisé';
+    }
+    if (!cache.enabled) {
+      return `désactivé (${cache.misses} résultat(s) recalculé(s))`;
+    }
+    const total = cache.hits + cache.misses;
+    const rate = total > 0 ? Math.round((cache.hits / total) * 100) : 0;
+    return `${cache.hits} résultat(s) réutilisé(s), ${cache.misses} recalculé(s) (${rate}%)`;
+  }
+
+  /**
+   * Résultat de la vérification de types: erreurs introduites et transformations annulées
+   */
+  formatTypeCheck(report: MigrationReport): string {
+    const typeCheck = report.typeCheck;
+    if (!typeCheck) {
+      return 'non effectuée';
+    }
+    if (typeCheck.newDiagnostics === 0) {
+      return `aucune erreur introduite${typeCheck.tsconfig ? ` (${typeCheck.tsconfig})` : ''}`;
+    }
+    return `${typeCheck.newDiagnostics} erreur(s) introduite(s), ${typeCheck.revertedTransformations} transformation(s) annulée(s)`;
+  }
+
+  /**
+   * Résultat de la vérification d'idempotence: règles non idempotentes et règles refusées
+   */
+  formatIdempotency(report: MigrationReport): string {
+    const idempotency = report.idempotency;
+    if (!idempotency) {
+      return 'non effectuée';
+    }
+    const rules = new Set(idempotency.violations.map(violation => violation.rule)).size;
+    if (rules === 0) {
+      return `${idempotency.checkedFiles} fichier(s) vérifié(s), règles idempotentes`;
+    }
+    return `${rules} règle(s) non idempotente(s)${idempotency.refusedRules.length > 0 ? `, ${idempotency.refusedRules.length} refusée(s)` : ''}`;
+  }
+
   /**
    * Génère un rapport HTML
    */
   private generateHtmlReport(report: MigrationReport): string {
     const summary = report.summary;
     const project = report.project;
+    const suppressions = this.collectSuppressions(report);
+    const slowestFiles = this.collectSlowestFiles(report);
+    const slowestRules = this.collectSlowestRules(report);
+    const nextPhases = MigrationPhases.remaining(project.targetVersion);
 
     return `
 <!DOCTYPE html>
@@ -146,6 +274,87 @@ export class ReportGenerator {
                 </div>
             </div>
 
+            ${suppressions.length > 0 ? `
+            <div class="section">
+                <h2>🙈 Éléments Ignorés (${summary.suppressedIssues} issue(s), ${summary.suppressedTransformations} transformation(s))</h2>
+                <div class="file-list">
+                    ${suppressions.map(({ path: filePath, suppression }) => `
+                        <div class="file-item">
+                            <div class="file-path">${filePath}:${suppression.line} — ng-migrate-ignore-${suppression.scope}</div>
+                            <div class="file-stats">
+                                <span class="stat ${suppression.kind === 'issue' ? 'issues' : 'transformations'}">${suppression.type}</span>
+                                ${suppression.rule}: ${suppression.message}
+                            </div>
+                        </div>
+                    `).join('')}
+                </div>
+            </div>
+            ` : ''}
+
+            ${report.idempotency && report.idempotency.violations.length > 0 ? `
+            <div class="section">
+                <h2>🔁 Règles Non Idempotentes (${this.formatIdempotency(report)})</h2>
+                <div class="file-list">
+                    ${report.idempotency.violations.map(violation => `
+                        <div class="file-item">
+                            <div class="file-path">${violation.file}</div>
+                            <div class="file-stats">
+                                <span class="stat issues">${violation.rule}</span>
+                                ${violation.description}
+                            </div>
+                        </div>
+                    `).join('')}
+                </div>
+            </div>
+            ` : ''}
+
+            ${nextPhases.length > 0 ? `
+            <div class="section">
+                <h2>🧭 Suite de la Migration (Angular ${project.targetVersion} → ${MigrationPhases.latestVersion()})</h2>
+                <div class="file-list">
+                    ${nextPhases.map(phase => `
+                        <div class="file-item">
+                            <div class="file-path">${phase.name}</div>
+                            <div class="file-stats">
+                                <span class="stat">${phase.estimatedDuration}</span>
+                                ${phase.critical ? 'critique' : ''}
+                            </div>
+                        </div>
+                    `).join('')}
+                </div>
+            </div>
+            ` : ''}
+
+            ${slowestRules.length > 0 ? `
+            <div class="section">
+                <h2>⏱️ Performances</h2>
+                <h3>Fichiers les plus lents</h3>
+                <div class="file-list">
+                    ${slowestFiles.map(fileDetail => `
+                        <div class="file-item">
+                            <div class="file-path">${fileDetail.file.path}</div>
+                            <div class="file-stats">
+                                <span class="stat">${this.formatDuration(fileDetail.processingTime)}</span>
+                            </div>
+                        </div>
+                    `).join('')}
+                </div>
+                <h3>Règles les plus lentes</h3>
+                <div class="file-list">
+                    ${slowestRules.map(rule => `
+                        <div class="file-item">
+                            <div class="file-path">${rule.rule} (${rule.phase === 'analysis' ? 'analyse' : 'transformation'})</div>
+                            <div class="file-stats">
+                                <span class="stat">${this.formatDuration(rule.total)} / ${rule.runs} exécution(s)</span>
+                                <span class="stat issues">max ${this.formatDuration(rule.max)}: ${rule.slowestFile}</span>
+                            </div>
+                        </div>
+                    `).join('')}
+                </div>
+                ${report.profilePath ? `<p>Trace détaillée (chrome://tracing): <code>${report.profilePath}</code></p>` : ''}
+            </div>
+            ` : ''}
+
             ${report.recommendations.length > 0 ? `
             <div class="section">
                 <h2>💡 Recommandations</h2>
@@ -160,7 +369,10 @@ export class ReportGenerator {
 
             <div class="timestamp">
                 Rapport généré le ${new Date().toLocaleString('fr-FR')} - 
-                Temps d'exécution: ${report.executionTime}ms
+                Temps d'exécution: ${report.executionTime}ms -
+                Cache d'analyse: ${this.formatCacheStats(report)} -
+                Vérification de types: ${this.formatTypeCheck(report)} -
+                Idempotence: ${this.formatIdempotency(report)}
             </div>
         </div>
     </div>
@@ -174,6 +386,10 @@ export class ReportGenerator {
   private generateMarkdownReport(report: MigrationReport): string {
     const summary = report.summary;
     const project = report.project;
+    const suppressions = this.collectSuppressions(report);
+    const slowestFiles = this.collectSlowestFiles(report);
+    const slowestRules = this.collectSlowestRules(report);
+    const nextPhases = MigrationPhases.remaining(project.targetVersion);
 
     return `# 🚀 Rapport de Migration Angular
 
@@ -194,6 +410,11 @@ export class ReportGenerator {
 | Issues détectées | ${summary.totalIssues} |
 | Transformations appliquées | ${summary.appliedTransformations} |
 | Transformations échouées | ${summary.failedTransformations} |
+| Issues ignorées | ${summary.suppressedIssues} |
+| Transformations ignorées | ${summary.suppressedTransformations} |
+| Cache d'analyse | ${this.formatCacheStats(report)} |
+| Vérification de types | ${this.formatTypeCheck(report)} |
+| Idempotence | ${this.formatIdempotency(report)} |
 
 ## 📁 Détails par Fichier
 
@@ -211,9 +432,69 @@ ${fileDetail.issues.map(issue => `- **${issue.type}**: ${issue.message}`).join('
 
 ${fileDetail.transformations.length > 0 ? `
 #### Transformations Appliquées
-${fileDetail.transformations.map(transformation => `- **${transformation.type}**: ${transformation.description}`).join('\n')}
+${fileDetail.transformations.map(transformation => `- **${transformation.type}**: ${transformation.description}${transformation.status === 'failed' && transformation.errors ? ` — ❌ ${transformation.errors.join('; ')}` : ''}`).join('\n')}
+` : ''}
+`).join('\n')}
+
+${suppressions.length > 0 ? `
+## 🙈 Éléments Ignorés
+
+Issues et transformations écartées par un commentaire \`ng-migrate-ignore-*\`, à valider en revue.
+
+| Fichier | Ligne | Directive | Type | Règle | Message |
+|---------|-------|-----------|------|-------|---------|
+${suppressions.map(({ path: filePath, suppression }) => `| ${filePath} | ${suppression.line} | ignore-${suppression.scope} | ${suppression.type} | ${suppression.rule} | ${suppression.message.replace(/\|/g, '\\|')} |`).join('\n')}
+` : ''}
+
+${report.idempotency && report.idempotency.violations.length > 0 ? `
+## 🔁 Règles Non Idempotentes
+
+Transformations produites en réexécutant les règles sur leur propre résultat${report.idempotency.refusedRules.length > 0 ? ' (règles refusées, `--force` pour les appliquer)' : ''}.
+
+| Règle | Fichier | Transformation |
+|-------|---------|----------------|
+${report.idempotency.violations.map(violation => `| ${violation.rule} | ${violation.file} | ${violation.description.replace(/\|/g, '\\|')} |`).join('\n')}
+` : ''}
+
+${nextPhases.length > 0 ? `
+## 🧭 Suite de la Migration
+
+Migration arrêtée à Angular ${project.targetVersion}: phases restantes pour atteindre Angular ${MigrationPhases.latestVersion()}.
+
+| Phase | Durée estimée | Critique |
+|-------|---------------|----------|
+${nextPhases.map(phase => `| ${phase.name} | ${phase.estimatedDuration} | ${phase.critical ? 'oui' : 'non'} |`).join('\n')}
 ` : ''}
+
+${slowestRules.length > 0 ? `
+## ⏱️ Performances
+
+### Fichiers les plus lents
+
+| Fichier | Durée |
+|---------|-------|
+${slowestFiles.map(fileDetail => `| ${fileDetail.file.path} | ${this.formatDuration(fileDetail.processingTime)} |`).join('\n')}
+
+### Règles les plus lentes
+
+| Règle | Étape | Exécutions | Durée totale | Max | Fichier le plus lent |
+|-------|-------|------------|--------------|-----|----------------------|
+${slowestRules.map(rule => `| ${rule.rule} | ${rule.phase === 'analysis' ? 'analyse' : 'transformation'} | ${rule.runs} | ${this.formatDuration(rule.total)} | ${this.formatDuration(rule.max)} | ${rule.slowestFile} |`).join('\n')}
+${report.profilePath ? `
+Trace détaillée (chrome://tracing): \`${report.profilePath}\`
+` : ''}` : ''}
+
+${report.dryRun && report.dryRun.diffs.length > 0 ? `
+## 🩹 Différences (dry-run)
+
+Patch applicable avec \`git apply\`: \`${report.dryRun.patchPath}\`
+
+${report.dryRun.diffs.map(fileDiff => `### ${fileDiff.path} (${fileDiff.hunks} bloc(s))
+
+\`\`\`diff
+${fileDiff.diff}\`\`\`
 `).join('\n')}
+` : ''}
 
 ${report.errors.length > 0 ? `
 ## ❌ Erreurs
@@ -246,9 +527,17 @@ ${report.recommendations.map(rec => `- ${rec}`).join('\n')}
       { Métrique: 'Issues détectées', Valeur: summary.totalIssues },
       { Métrique: 'Transformations appliquées', Valeur: summary.appliedTransformations },
       { Métrique: 'Transformations échouées', Valeur: summary.failedTransformations },
+      { Métrique: 'Éléments ignorés', Valeur: summary.suppressedIssues + summary.suppressedTransformations },
+      { Métrique: 'Cache d\'analyse', Valeur: this.formatCacheStats(report) },
+      { Métrique: 'Vérification de types', Valeur: this.formatTypeCheck(report) },
+      { Métrique: 'Idempotence', Valeur: this.formatIdempotency(report) },
       { Métrique: 'Temps d\'exécution', Valeur: `${report.executionTime}ms` }
     ], ['Métrique', 'Valeur']);
 
+    if (report.dryRun) {
+      this.generateDryRunSummary(report);
+    }
+
     if (report.recommendations.length > 0) {
       this.logger.section('💡 Recommandations');
       report.recommendations.forEach(rec => this.logger.info(`• ${rec}`));
@@ -259,4 +548,21 @@ ${report.recommendations.map(rec => `- ${rec}`).join('\n')}
       report.errors.forEach(error => this.logger.error(error));
     }
   }
+
+  /**
+   * Affiche les blocs de modifications du dry-run par type de transformation
+   */
+  generateDryRunSummary(report: MigrationReport): void {
+    if (!report.dryRun) {
+      return;
+    }
+
+    this.logger.section('🩹 Modifications prévues (dry-run)');
+    this.logger.table(report.dryRun.hunksByType.map(stats => ({
+      Transformation: stats.type,
+      Fichiers: stats.files,
+      Blocs: stats.hunks
+    })), ['Transformation', 'Fichiers', 'Blocs']);
+    this.logger.info(`🩹 Patch: ${report.dryRun.patchPath} (${report.dryRun.diffs.length} fichier(s))`);
+  }
 }
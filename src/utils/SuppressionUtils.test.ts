@@ -0,0 +1,46 @@
+import { SuppressionUtils } from './SuppressionUtils';
+
+describe('SuppressionUtils', () => {
+  const names = ['builtin:modernization/rxjs', 'rxjs'];
+
+  describe('filterChanges', () => {
+    const before = [
+      `import { map } from 'rxjs/operators';`,
+      `// ng-migrate-ignore-next-line rxjs`,
+      `import { filter } from 'rxjs/operators';`,
+      `import { take } from 'rxjs/operators';`
+    ].join('\n');
+    const after = before.split(`'rxjs/operators'`).join(`'rxjs'`);
+
+    it('conserve la ligne qui suit une directive next-line', () => {
+      const directives = SuppressionUtils.parse(before);
+      const result = SuppressionUtils.filterChanges(before, after, directives, names);
+
+      expect(result.after).toBe([
+        `import { map } from 'rxjs';`,
+        `// ng-migrate-ignore-next-line rxjs`,
+        `import { filter } from 'rxjs/operators';`,
+        `import { take } from 'rxjs';`
+      ].join('\n'));
+      expect(result.applied).toEqual([{ scope: 'next-line', line: 2, rules: ['rxjs'] }]);
+    });
+
+    it('ignore une directive next-line visant une autre règle', () => {
+      const content = before.replace('ignore-next-line rxjs', 'ignore-next-line inject');
+      const result = SuppressionUtils.filterChanges(content, after.replace('ignore-next-line rxjs', 'ignore-next-line inject'), SuppressionUtils.parse(content), names);
+
+      expect(result.after).not.toContain(`'rxjs/operators'`);
+      expect(result.applied).toEqual([]);
+    });
+
+    it('laisse les directives de fichier à l\'appelant', () => {
+      const content = [`/* ng-migrate-ignore-file rxjs */`, before].join('\n');
+      const directives = SuppressionUtils.parse(content).filter(directive => directive.scope === 'file');
+      const result = SuppressionUtils.filterChanges(content, [`/* ng-migrate-ignore-file rxjs */`, after].join('\n'), directives, names);
+
+      expect(result.applied).toEqual([]);
+      expect(SuppressionUtils.find(directives, names)).toEqual({ scope: 'file', line: 1, rules: ['rxjs'] });
+      expect(SuppressionUtils.find(directives, ['inject'])).toBeUndefined();
+    });
+  });
+});
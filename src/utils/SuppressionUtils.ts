@@ -0,0 +1,97 @@
+import { DiffUtils } from './DiffUtils';
+
+/**
+ * Directive de suppression dans un commentaire:
+ * `// ng-migrate-ignore-next-line <règle>`, `/* ng-migrate-ignore-file *\/` ou `<!-- ng-migrate-ignore-file -->`
+ */
+const DIRECTIVE_PATTERN = /(?:\/\/|\/\*|<!--)\s*ng-migrate-ignore-(next-line|file)\b(.*?)(?:\*\/|-->|$)/;
+
+/**
+ * Directive de suppression trouvée dans un fichier
+ */
+export interface SuppressionDirective {
+  /** Portée: la ligne suivante ou tout le fichier */
+  scope: 'next-line' | 'file';
+  /** Ligne de la directive (base 1) */
+  line: number;
+  /** Règles visées (toutes si vide) */
+  rules: string[];
+}
+
+/**
+ * Utilitaires de lecture et d'application des commentaires de suppression
+ */
+export class SuppressionUtils {
+  /**
+   * Extrait les directives de suppression d'un contenu (TypeScript ou HTML)
+   */
+  static parse(content: string): SuppressionDirective[] {
+    const directives: SuppressionDirective[] = [];
+
+    content.split('\n').forEach((text, index) => {
+      const match = text.match(DIRECTIVE_PATTERN);
+      if (match) {
+        directives.push({
+          scope: match[1] as SuppressionDirective['scope'],
+          line: index + 1,
+          rules: match[2].split(/[\s,]+/).filter(rule => rule.length > 0)
+        });
+      }
+    });
+
+    return directives;
+  }
+
+  /**
+   * Directive qui supprime un élément identifié par `names` (type, règle) à la ligne indiquée
+   * Sans ligne, seules les directives de fichier s'appliquent
+   */
+  static find(directives: SuppressionDirective[], names: string[], line?: number): SuppressionDirective | undefined {
+    return directives.find(directive =>
+      (directive.scope === 'file' || (line !== undefined && directive.line + 1 === line)) &&
+      SuppressionUtils.matches(directive, names)
+    );
+  }
+
+  /**
+   * Retire d'une modification les blocs touchant des lignes protégées par `ignore-next-line`
+   * Retourne le contenu conservé et les directives appliquées
+   */
+  static filterChanges(
+    before: string,
+    after: string,
+    directives: SuppressionDirective[],
+    names: string[]
+  ): { after: string; applied: SuppressionDirective[] } {
+    const protectedLines = directives.filter(d => d.scope === 'next-line' && SuppressionUtils.matches(d, names));
+    if (protectedLines.length === 0) {
+      return { after, applied: [] };
+    }
+
+    // Un bloc qui remplace ligne à ligne est découpé pour ne protéger que la ligne visée
+    const changes = DiffUtils.diffLines(before, after).flatMap(change =>
+      change.end - change.start === change.lines.length && change.lines.length > 1
+        ? change.lines.map((line, offset) => ({ start: change.start + offset, end: change.start + offset + 1, lines: [line] }))
+        : [change]
+    );
+
+    const applied = new Set<SuppressionDirective>();
+    const kept = changes.filter(change => {
+      // Blocs en base 0: la ligne protégée (base 1) suit immédiatement la directive
+      const hits = protectedLines.filter(d => change.start <= d.line && d.line < change.end);
+      hits.forEach(hit => applied.add(hit));
+      return hits.length === 0;
+    });
+
+    return applied.size > 0
+      ? { after: DiffUtils.applyChanges(before, kept), applied: Array.from(applied) }
+      : { after, applied: [] };
+  }
+
+  /**
+   * Indique si une directive vise l'un des noms (toute règle si elle n'en précise aucune)
+   */
+  static matches(directive: SuppressionDirective, names: string[]): boolean {
+    return directive.rules.length === 0 || directive.rules.some(rule => names.includes(rule));
+  }
+}
@@ -0,0 +1,324 @@
+import { SourcePosition } from './AstUtils';
+
+/**
+ * Attribut d'un élément de template
+ */
+export interface TemplateAttribute {
+  /** Nom brut de l'attribut (`*ngIf`, `[ngSwitch]`, `#ref`...) */
+  name: string;
+  /** Valeur de l'attribut (sans les guillemets) */
+  value?: string;
+  /** Position de début de l'attribut dans le template */
+  start: number;
+  /** Position de fin de l'attribut dans le template */
+  end: number;
+}
+
+/**
+ * Élément HTML du template
+ */
+export interface TemplateElement {
+  kind: 'element';
+  /** Nom de la balise */
+  name: string;
+  /** Attributs dans l'ordre du source */
+  attributes: TemplateAttribute[];
+  /** Nœuds enfants */
+  children: TemplateNode[];
+  /** Position du `<` ouvrant */
+  start: number;
+  /** Position suivant le `>` de la balise ouvrante */
+  startTagEnd: number;
+  /** Position de la balise fermante (égale à `end` si absente) */
+  endTagStart: number;
+  /** Position de fin de l'élément */
+  end: number;
+  /** Élément auto-fermant (`/>`) ou élément vide (`<input>`) */
+  selfClosing: boolean;
+}
+
+/**
+ * Nœud texte du template
+ */
+export interface TemplateText {
+  kind: 'text';
+  value: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Commentaire HTML du template
+ */
+export interface TemplateComment {
+  kind: 'comment';
+  value: string;
+  start: number;
+  end: number;
+}
+
+export type TemplateNode = TemplateElement | TemplateText | TemplateComment;
+
+/**
+ * Template parsé sous forme d'arbre
+ */
+export interface TemplateDocument {
+  /** Source d'origine du template */
+  source: string;
+  /** Nœuds racine */
+  children: TemplateNode[];
+}
+
+/**
+ * Éléments HTML sans balise fermante
+ */
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input',
+  'link', 'meta', 'param', 'source', 'track', 'wbr'
+]);
+
+/**
+ * Parseur de templates Angular
+ * Construit un arbre éléments/attributs en conservant les positions du source,
+ * ce qui permet de réécrire un template sans perdre sa mise en forme
+ */
+export class TemplateParser {
+  /**
+   * Parse un template HTML Angular
+   */
+  parse(source: string): TemplateDocument {
+    const root: TemplateElement = this.createElement('#root', 0);
+    const stack: TemplateElement[] = [root];
+    let index = 0;
+
+    while (index < source.length) {
+      const current = stack[stack.length - 1];
+
+      if (source.startsWith('<!--', index)) {
+        const closing = source.indexOf('-->', index + 4);
+        const end = closing === -1 ? source.length : closing + 3;
+        current.children.push({ kind: 'comment', value: source.slice(index, end), start: index, end });
+        index = end;
+      } else if (source[index] === '<' && source[index + 1] === '/' && this.isNameStart(source[index + 2])) {
+        index = this.parseEndTag(source, index, stack);
+      } else if (source[index] === '<' && this.isNameStart(source[index + 1])) {
+        index = this.parseStartTag(source, index, stack);
+      } else {
+        const end = this.findTextEnd(source, index);
+        current.children.push({ kind: 'text', value: source.slice(index, end), start: index, end });
+        index = end;
+      }
+    }
+
+    // Les éléments non fermés se terminent avec le template
+    while (stack.length > 1) {
+      const element = stack.pop()!;
+      element.endTagStart = source.length;
+      element.end = source.length;
+    }
+
+    return { source, children: root.children };
+  }
+
+  /**
+   * Parcourt récursivement tous les nœuds du template
+   */
+  static walk(nodes: TemplateNode[], visitor: (node: TemplateNode, parent?: TemplateElement) => void, parent?: TemplateElement): void {
+    for (const node of nodes) {
+      visitor(node, parent);
+      if (node.kind === 'element') {
+        TemplateParser.walk(node.children, visitor, node);
+      }
+    }
+  }
+
+  /**
+   * Recherche un attribut par son nom
+   */
+  static findAttribute(element: TemplateElement, name: string): TemplateAttribute | undefined {
+    return element.attributes.find(attribute => attribute.name === name);
+  }
+
+  /**
+   * Calcule la position (ligne/colonne en base 1) d'un offset du template
+   */
+  static getPosition(source: string, offset: number): SourcePosition {
+    const lines = source.substring(0, offset).split('\n');
+    return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+  }
+
+  /**
+   * Parse une balise ouvrante et ses attributs
+   */
+  private parseStartTag(source: string, index: number, stack: TemplateElement[]): number {
+    const nameMatch = /^<([^\s/>]+)/.exec(source.slice(index));
+    const element = this.createElement(nameMatch![1], index);
+    let position = index + nameMatch![0].length;
+
+    while (position < source.length) {
+      while (position < source.length && /\s/.test(source[position])) position++;
+
+      if (source.startsWith('/>', position)) {
+        element.selfClosing = true;
+        position += 2;
+        break;
+      }
+      if (source[position] === '>') {
+        position++;
+        break;
+      }
+
+      position = this.parseAttribute(source, position, element);
+    }
+
+    element.startTagEnd = position;
+    element.endTagStart = position;
+    element.end = position;
+    stack[stack.length - 1].children.push(element);
+
+    if (VOID_ELEMENTS.has(element.name.toLowerCase())) {
+      element.selfClosing = true;
+    } else if (!element.selfClosing) {
+      stack.push(element);
+    }
+
+    return position;
+  }
+
+  /**
+   * Parse un attribut (nom et valeur éventuelle)
+   */
+  private parseAttribute(source: string, index: number, element: TemplateElement): number {
+    let position = index;
+    while (position < source.length && !/[\s=>]/.test(source[position]) && !source.startsWith('/>', position)) {
+      position++;
+    }
+
+    // Caractère inattendu : on avance pour ne pas boucler
+    if (position === index) {
+      return index + 1;
+    }
+
+    const attribute: TemplateAttribute = { name: source.slice(index, position), start: index, end: position };
+
+    let lookahead = position;
+    while (lookahead < source.length && /\s/.test(source[lookahead])) lookahead++;
+
+    if (source[lookahead] === '=') {
+      lookahead++;
+      while (lookahead < source.length && /\s/.test(source[lookahead])) lookahead++;
+
+      const quote = source[lookahead];
+      if (quote === '"' || quote === '\'') {
+        const closing = source.indexOf(quote, lookahead + 1);
+        const end = closing === -1 ? source.length : closing;
+        attribute.value = source.slice(lookahead + 1, end);
+        position = Math.min(end + 1, source.length);
+      } else {
+        let end = lookahead;
+        while (end < source.length && !/[\s>]/.test(source[end])) end++;
+        attribute.value = source.slice(lookahead, end);
+        position = end;
+      }
+      attribute.end = position;
+    }
+
+    element.attributes.push(attribute);
+    return position;
+  }
+
+  /**
+   * Parse une balise fermante et ferme les éléments correspondants
+   */
+  private parseEndTag(source: string, index: number, stack: TemplateElement[]): number {
+    const closing = source.indexOf('>', index);
+    const end = closing === -1 ? source.length : closing + 1;
+    const name = source.slice(index + 2, end - 1).trim().toLowerCase();
+
+    const matchIndex = this.findOpenElement(stack, name);
+    if (matchIndex === -1) {
+      // Balise fermante orpheline : conservée telle quelle
+      stack[stack.length - 1].children.push({ kind: 'text', value: source.slice(index, end), start: index, end });
+      return end;
+    }
+
+    // Les éléments ouverts au-dessus sont fermés implicitement
+    while (stack.length - 1 > matchIndex) {
+      const unclosed = stack.pop()!;
+      unclosed.endTagStart = index;
+      unclosed.end = index;
+    }
+
+    const element = stack.pop()!;
+    element.endTagStart = index;
+    element.end = end;
+    return end;
+  }
+
+  /**
+   * Recherche dans la pile l'élément ouvert portant ce nom
+   */
+  private findOpenElement(stack: TemplateElement[], name: string): number {
+    for (let i = stack.length - 1; i > 0; i--) {
+      if (stack[i].name.toLowerCase() === name) {
+        return i;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * Trouve la fin d'un nœud texte (en ignorant les interpolations)
+   */
+  private findTextEnd(source: string, index: number): number {
+    let position = index;
+
+    while (position < source.length) {
+      if (source.startsWith('{{', position)) {
+        const closing = source.indexOf('}}', position + 2);
+        position = closing === -1 ? source.length : closing + 2;
+        continue;
+      }
+      if (position > index && source[position] === '<' && this.isTagStart(source, position)) {
+        break;
+      }
+      position++;
+    }
+
+    return position;
+  }
+
+  /**
+   * Indique si un `<` ouvre une balise ou un commentaire
+   */
+  private isTagStart(source: string, index: number): boolean {
+    const next = source[index + 1];
+    return this.isNameStart(next)
+      || (next === '/' && this.isNameStart(source[index + 2]))
+      || source.startsWith('<!--', index);
+  }
+
+  /**
+   * Indique si un caractère peut débuter un nom de balise
+   */
+  private isNameStart(char: string | undefined): boolean {
+    return !!char && /[a-zA-Z]/.test(char);
+  }
+
+  /**
+   * Crée un élément vide
+   */
+  private createElement(name: string, start: number): TemplateElement {
+    return {
+      kind: 'element',
+      name,
+      attributes: [],
+      children: [],
+      start,
+      startTagEnd: start,
+      endTagStart: start,
+      end: start,
+      selfClosing: false
+    };
+  }
+}
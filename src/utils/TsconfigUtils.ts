@@ -0,0 +1,389 @@
+import * as path from 'path';
+import * as ts from 'typescript';
+import { AnalyzedFile } from '../types';
+
+/**
+ * Options de compilation générées par Angular CLI pour une version majeure
+ */
+export interface TsconfigBaseline {
+  target: string;
+  module: string;
+  moduleResolution: string;
+  lib: string[];
+  /** Options supplémentaires ajoutées par `ng update` */
+  extra?: Record<string, any>;
+}
+
+/**
+ * Maillon d'une chaîne `extends`
+ */
+export interface TsconfigChainEntry {
+  /** Fichier du projet (absent si la configuration étendue est un paquet npm ou introuvable) */
+  file?: AnalyzedFile;
+  /** Chemin tel qu'écrit dans `extends` ou chemin du fichier */
+  reference: string;
+  /** Configuration parsée */
+  config: any;
+}
+
+/**
+ * Modification textuelle d'un fichier tsconfig
+ */
+interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Mise en forme d'un fichier JSON (indentation et fins de ligne)
+ */
+interface JsonFormat {
+  indentUnit: string;
+  eol: string;
+}
+
+/**
+ * Configurations de référence par version majeure (fin de chaque phase de migration)
+ */
+const BASELINES: Record<number, TsconfigBaseline> = {
+  8: { target: 'es2015', module: 'esnext', moduleResolution: 'node', lib: ['es2018', 'dom'] },
+  12: { target: 'es2017', module: 'es2020', moduleResolution: 'node', lib: ['es2018', 'dom'] },
+  16: {
+    target: 'es2022',
+    module: 'es2022',
+    moduleResolution: 'node',
+    lib: ['es2022', 'dom'],
+    extra: { useDefineForClassFields: false }
+  },
+  20: {
+    target: 'es2022',
+    module: 'preserve',
+    moduleResolution: 'bundler',
+    lib: ['es2022', 'dom'],
+    extra: { useDefineForClassFields: false }
+  }
+};
+
+/**
+ * Ordre des valeurs de `target` (et des bibliothèques `lib` es*)
+ */
+const TARGET_ORDER = ['es3', 'es5', 'es6', 'es2015', 'es2016', 'es2017', 'es2018', 'es2019', 'es2020', 'es2021', 'es2022', 'es2023', 'es2024', 'esnext'];
+
+/**
+ * Ordre des valeurs de `module`
+ */
+const MODULE_ORDER = ['none', 'commonjs', 'amd', 'umd', 'system', 'es2015', 'es6', 'es2020', 'es2022', 'esnext', 'node16', 'nodenext', 'preserve'];
+
+/**
+ * Ordre des valeurs de `moduleResolution`
+ */
+const MODULE_RESOLUTION_ORDER = ['classic', 'node', 'node10', 'node16', 'nodenext', 'bundler'];
+
+/**
+ * Utilitaires de lecture des fichiers tsconfig (JSON avec commentaires, chaînes `extends`)
+ */
+export class TsconfigUtils {
+  /**
+   * Indique si un nom de fichier correspond à une configuration TypeScript
+   */
+  static isTsconfigFile(fileName: string): boolean {
+    return /^tsconfig(\.[\w-]+)*\.json$/.test(path.basename(fileName));
+  }
+
+  /**
+   * Parse un tsconfig (les commentaires et virgules finales sont tolérés)
+   */
+  static parse(fileName: string, content: string): any {
+    const result = ts.parseConfigFileTextToJson(fileName, content);
+    if (result.error) {
+      throw new Error(ts.flattenDiagnosticMessageText(result.error.messageText, '\n'));
+    }
+    return result.config || {};
+  }
+
+  /**
+   * Retourne la configuration de référence pour la version cible (dernière phase atteinte)
+   */
+  static getBaseline(targetMajor: number): TsconfigBaseline {
+    const majors = Object.keys(BASELINES).map(Number).sort((a, b) => a - b);
+    const major = majors.filter(candidate => candidate <= targetMajor).pop() ?? majors[0];
+    return BASELINES[major];
+  }
+
+  /**
+   * Résout la chaîne `extends` d'un tsconfig parmi les fichiers du projet (du fichier vers la racine)
+   */
+  static resolveChain(file: AnalyzedFile, files: AnalyzedFile[]): TsconfigChainEntry[] {
+    const chain: TsconfigChainEntry[] = [];
+    const visited = new Set<string>();
+    let current: TsconfigChainEntry | undefined = { file, reference: file.path, config: TsconfigUtils.parse(file.path, file.content) };
+
+    while (current) {
+      chain.push(current);
+      if (current.file) visited.add(TsconfigUtils.normalize(current.file.path));
+
+      const extendsValue: unknown = current.config.extends;
+      if (typeof extendsValue !== 'string' || !current.file) break;
+
+      // Configuration publiée dans un paquet (@tsconfig/..., @angular/...) : fin de la chaîne locale
+      if (!extendsValue.startsWith('.') && !path.isAbsolute(extendsValue)) {
+        chain.push({ reference: extendsValue, config: {} });
+        break;
+      }
+
+      const target = TsconfigUtils.resolveExtendsPath(current.file.path, extendsValue);
+      if (visited.has(target)) break;
+
+      const parent = files.find(candidate => TsconfigUtils.normalize(candidate.path) === target);
+      current = parent
+        ? { file: parent, reference: extendsValue, config: TsconfigUtils.parse(parent.path, parent.content) }
+        : undefined;
+
+      if (!parent) {
+        chain.push({ reference: extendsValue, config: {} });
+      }
+    }
+
+    return chain;
+  }
+
+  /**
+   * Indique si un tsconfig est la racine de sa chaîne locale (pas d'`extends` ou `extends` vers un paquet npm)
+   */
+  static isChainRoot(chain: TsconfigChainEntry[]): boolean {
+    return chain.length === 1 || (!chain[1].file && !chain[1].reference.startsWith('.'));
+  }
+
+  /**
+   * Fusionne les `compilerOptions` de la chaîne (le fichier le plus spécifique l'emporte)
+   */
+  static mergeCompilerOptions(chain: TsconfigChainEntry[]): Record<string, any> {
+    return chain
+      .slice()
+      .reverse()
+      .reduce((options, entry) => ({ ...options, ...(entry.config.compilerOptions || {}) }), {} as Record<string, any>);
+  }
+
+  /**
+   * Indique si une valeur de `target` est antérieure à la référence
+   */
+  static isTargetOutdated(value: string | undefined, baseline: string): boolean {
+    return TsconfigUtils.isLower(TARGET_ORDER, value, baseline);
+  }
+
+  /**
+   * Indique si une valeur de `module` est antérieure à la référence
+   */
+  static isModuleOutdated(value: string | undefined, baseline: string): boolean {
+    return TsconfigUtils.isLower(MODULE_ORDER, value, baseline);
+  }
+
+  /**
+   * Indique si une valeur de `moduleResolution` est antérieure à la référence
+   */
+  static isModuleResolutionOutdated(value: string | undefined, baseline: string): boolean {
+    return TsconfigUtils.isLower(MODULE_RESOLUTION_ORDER, value, baseline);
+  }
+
+  /**
+   * Met à jour `lib` : les entrées es* antérieures sont remplacées, les autres (dom, webworker...) conservées
+   */
+  static updateLib(lib: string[], baseline: string[]): string[] {
+    const baselineEs = baseline.find(entry => /^es/i.test(entry)) || 'es2015';
+    const isEsEntry = (entry: string) => TARGET_ORDER.includes(entry.toLowerCase().split('.')[0]);
+    const kept = lib.filter(entry => !isEsEntry(entry) || !TsconfigUtils.isLower(TARGET_ORDER, entry.toLowerCase().split('.')[0], baselineEs));
+
+    return kept.some(isEsEntry) ? kept : [baselineEs, ...kept];
+  }
+
+  /**
+   * Remplace le contenu d'une section (`compilerOptions`, `angularCompilerOptions`) par `values`
+   * Seules les propriétés ajoutées, supprimées ou modifiées sont réécrites : commentaires et mise en forme sont conservés
+   */
+  static updateSection(fileName: string, content: string, section: string, values: Record<string, unknown>): string {
+    const sourceFile = ts.parseJsonText(fileName, content);
+    const root = sourceFile.statements[0]?.expression;
+    if (!root || !ts.isObjectLiteralExpression(root)) {
+      throw new Error(`${fileName} ne contient pas d'objet JSON`);
+    }
+
+    const format: JsonFormat = {
+      indentUnit: content.match(/^[ \t]+(?=\S)/m)?.[0] || '  ',
+      eol: content.includes('\r\n') ? '\r\n' : '\n'
+    };
+    const sectionProperty = TsconfigUtils.getJsonProperties(root).find(property => TsconfigUtils.getJsonPropertyName(property) === section);
+
+    if (!sectionProperty) {
+      return TsconfigUtils.applyEdits(content, [TsconfigUtils.insertJsonProperties(content, sourceFile, root, TsconfigUtils.getJsonProperties(root).length, { [section]: values }, format)]);
+    }
+    if (!ts.isObjectLiteralExpression(sectionProperty.initializer)) {
+      throw new Error(`${section} n'est pas un objet dans ${fileName}`);
+    }
+
+    const object = sectionProperty.initializer;
+    const current: Record<string, unknown> = TsconfigUtils.parse(fileName, content)[section] || {};
+    const properties = TsconfigUtils.getJsonProperties(object);
+    const isKept = (property: ts.PropertyAssignment) => TsconfigUtils.getJsonPropertyName(property) in values;
+    const lastKept = properties.map(isKept).lastIndexOf(true);
+    if (lastKept === -1) {
+      return TsconfigUtils.applyEdits(content, [TsconfigUtils.insertJsonProperties(content, sourceFile, object, 0, values, format)]);
+    }
+
+    const edits: TextEdit[] = [];
+    properties.forEach((property, index) => {
+      const name = TsconfigUtils.getJsonPropertyName(property);
+      if (!isKept(property)) {
+        // Les propriétés supprimées en fin d'objet sont retirées avec la virgule qui les précède
+        if (index > lastKept) {
+          if (index === lastKept + 1) {
+            edits.push({ start: properties[lastKept].end, end: properties[properties.length - 1].end, text: '' });
+          }
+        } else {
+          edits.push(TsconfigUtils.removeJsonProperty(content, sourceFile, property));
+        }
+      } else if (JSON.stringify(current[name]) !== JSON.stringify(values[name])) {
+        const indent = TsconfigUtils.getLineIndent(content, property.getStart(sourceFile));
+        edits.push({
+          start: property.initializer.getStart(sourceFile),
+          end: property.initializer.end,
+          text: TsconfigUtils.formatJsonValue(values[name], indent, format)
+        });
+      }
+    });
+
+    const known = new Set(properties.map(property => TsconfigUtils.getJsonPropertyName(property)));
+    const added = Object.fromEntries(Object.entries(values).filter(([name, value]) => !known.has(name) && value !== undefined));
+    if (Object.keys(added).length > 0) {
+      edits.push(TsconfigUtils.insertJsonProperties(content, sourceFile, object, lastKept + 1, added, format));
+    }
+
+    return TsconfigUtils.applyEdits(content, edits);
+  }
+
+  /**
+   * Propriétés `"nom": valeur` d'un objet JSON
+   */
+  private static getJsonProperties(object: ts.ObjectLiteralExpression): ts.PropertyAssignment[] {
+    return object.properties.filter(ts.isPropertyAssignment);
+  }
+
+  /**
+   * Nom d'une propriété JSON
+   */
+  private static getJsonPropertyName(property: ts.PropertyAssignment): string {
+    return ts.isStringLiteral(property.name) || ts.isIdentifier(property.name) ? property.name.text : property.name.getText();
+  }
+
+  /**
+   * Ajoute des propriétés après les `keptCount` premières propriétés d'un objet
+   * Sans propriété conservée, l'objet est réécrit entièrement
+   */
+  private static insertJsonProperties(
+    content: string,
+    sourceFile: ts.JsonSourceFile,
+    object: ts.ObjectLiteralExpression,
+    keptCount: number,
+    values: Record<string, unknown>,
+    format: JsonFormat
+  ): TextEdit {
+    const properties = TsconfigUtils.getJsonProperties(object);
+
+    if (keptCount === 0) {
+      const indent = TsconfigUtils.getLineIndent(content, object.getStart(sourceFile));
+      return { start: object.getStart(sourceFile), end: object.end, text: TsconfigUtils.formatJsonValue(values, indent, format) };
+    }
+
+    const anchor = properties[keptCount - 1];
+    const indent = TsconfigUtils.getLineIndent(content, anchor.getStart(sourceFile));
+    const text = Object.entries(values)
+      .map(([name, value]) => `,${format.eol}${indent}${JSON.stringify(name)}: ${TsconfigUtils.formatJsonValue(value, indent, format)}`)
+      .join('');
+    return { start: anchor.end, end: anchor.end, text };
+  }
+
+  /**
+   * Retire une propriété suivie d'une autre, avec sa virgule, son commentaire de fin de ligne et sa ligne si elle l'occupe seule
+   */
+  private static removeJsonProperty(content: string, sourceFile: ts.JsonSourceFile, property: ts.PropertyAssignment): TextEdit {
+    let start = property.getStart(sourceFile);
+    let end = property.end;
+
+    while (/[ \t]/.test(content[end])) end++;
+    if (content[end] === ',') end++;
+    while (/[ \t]/.test(content[end])) end++;
+    // Un commentaire en fin de ligne accompagne la propriété
+    if (content.startsWith('//', end)) {
+      end = content.indexOf('\n', end) === -1 ? content.length : content.indexOf('\n', end);
+      if (content[end - 1] === '\r') end--;
+    }
+
+    const lineStart = content.lastIndexOf('\n', start - 1) + 1;
+    if (/^[ \t]*$/.test(content.substring(lineStart, start)) && /[\r\n]/.test(content[end] ?? '')) {
+      start = lineStart;
+      end = content.indexOf('\n', end) + 1;
+    }
+
+    return { start, end, text: '' };
+  }
+
+  /**
+   * Met en forme une valeur JSON : objets sur plusieurs lignes, tableaux de valeurs simples sur une ligne
+   */
+  private static formatJsonValue(value: unknown, indent: string, format: JsonFormat): string {
+    if (Array.isArray(value) && value.every(item => item === null || typeof item !== 'object')) {
+      return `[${value.map(item => JSON.stringify(item)).join(', ')}]`;
+    }
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      const entries = Object.entries(value).filter(([, entry]) => entry !== undefined);
+      if (entries.length === 0) return '{}';
+
+      const inner = indent + format.indentUnit;
+      const lines = entries.map(([name, entry]) => `${inner}${JSON.stringify(name)}: ${TsconfigUtils.formatJsonValue(entry, inner, format)}`);
+      return `{${format.eol}${lines.join(`,${format.eol}`)}${format.eol}${indent}}`;
+    }
+    return JSON.stringify(value, null, format.indentUnit).split('\n').join(`${format.eol}${indent}`);
+  }
+
+  /**
+   * Retourne l'indentation de la ligne contenant une position
+   */
+  private static getLineIndent(content: string, position: number): string {
+    const lineStart = content.lastIndexOf('\n', position - 1) + 1;
+    return content.substring(lineStart).match(/^[ \t]*/)![0];
+  }
+
+  /**
+   * Applique des modifications textuelles, de la fin vers le début du fichier
+   */
+  private static applyEdits(content: string, edits: TextEdit[]): string {
+    return edits
+      .slice()
+      .sort((a, b) => b.start - a.start || b.end - a.end)
+      .reduce((result, edit) => result.substring(0, edit.start) + edit.text + result.substring(edit.end), content);
+  }
+
+  /**
+   * Compare deux valeurs selon un ordre donné (valeur inconnue : considérée à jour)
+   */
+  private static isLower(order: string[], value: string | undefined, baseline: string): boolean {
+    if (!value) return false;
+    const index = order.indexOf(value.toLowerCase());
+    return index !== -1 && index < order.indexOf(baseline.toLowerCase());
+  }
+
+  /**
+   * Résout le chemin d'un `extends` relatif au fichier qui le déclare
+   */
+  private static resolveExtendsPath(fromFile: string, extendsValue: string): string {
+    const resolved = path.posix.join(path.posix.dirname(TsconfigUtils.normalize(fromFile)), extendsValue);
+    return TsconfigUtils.normalize(resolved.endsWith('.json') ? resolved : `${resolved}.json`);
+  }
+
+  /**
+   * Normalise un chemin relatif au projet (séparateurs POSIX)
+   */
+  private static normalize(filePath: string): string {
+    return path.posix.normalize(filePath.split(path.sep).join('/')).replace(/^\.\//, '');
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Version décomposée (majeure, mineure, correctif)
+ */
+type VersionTuple = [number, number, number];
+
+/**
+ * Borne d'un intervalle de versions
+ */
+interface Comparator {
+  operator: '>=' | '<' | '>' | '<=' | '=';
+  version: VersionTuple;
+}
+
+/**
+ * Utilitaires de comparaison de versions et d'intervalles (sous-ensemble de la syntaxe semver)
+ * Intervalles acceptés: `*`, `5`, `5.x`, `^5.2.0`, `~5.2.0`, `>=5 <8`, `5.x || 6.x`
+ */
+export class VersionUtils {
+  /**
+   * Décompose une version (`5.2.11`, `^5.2.0`, `~5.0.0-rc.1`)
+   */
+  static parse(version: string): VersionTuple | null {
+    const match = version.trim().match(/(\d+)(?:\.(\d+))?(?:\.(\d+))?/);
+    if (!match) {
+      return null;
+    }
+    return [parseInt(match[1], 10), parseInt(match[2] || '0', 10), parseInt(match[3] || '0', 10)];
+  }
+
+  /**
+   * Version majeure (0 si la version est illisible)
+   */
+  static major(version: string): number {
+    return VersionUtils.parse(version)?.[0] ?? 0;
+  }
+
+  /**
+   * Compare deux versions (négatif, nul ou positif)
+   */
+  static compare(a: string, b: string): number {
+    return VersionUtils.compareTuples(VersionUtils.parse(a) || [0, 0, 0], VersionUtils.parse(b) || [0, 0, 0]);
+  }
+
+  /**
+   * Indique si une version appartient à un intervalle
+   */
+  static satisfies(version: string, range: string): boolean {
+    const parsed = VersionUtils.parse(version);
+    if (!parsed) {
+      return false;
+    }
+
+    return range.split('||').some(alternative => {
+      const comparators = alternative.trim().split(/\s+/).filter(Boolean).flatMap(part => VersionUtils.toComparators(part));
+      return comparators.every(comparator => VersionUtils.test(parsed, comparator));
+    });
+  }
+
+  /**
+   * Convertit un élément d'intervalle en bornes
+   */
+  private static toComparators(part: string): Comparator[] {
+    if (part === '*' || part.toLowerCase() === 'x') {
+      return [];
+    }
+
+    const match = part.match(/^(>=|<=|>|<|=|\^|~)?v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?/);
+    if (!match) {
+      throw new Error(`Intervalle de versions invalide: ${part}`);
+    }
+
+    const [, operator, ...rawParts] = match;
+    const isWildcard = (value?: string) => value === undefined || /^[xX*]$/.test(value);
+    const numbers = rawParts.map(value => isWildcard(value) ? 0 : parseInt(value!, 10)) as VersionTuple;
+    const precision = rawParts.findIndex(value => isWildcard(value));
+    const specified = precision === -1 ? 3 : precision;
+
+    const next: VersionTuple = specified === 1 ? [numbers[0] + 1, 0, 0] : [numbers[0], numbers[1] + 1, 0];
+    if (operator && !['^', '~'].includes(operator)) {
+      // Une version partielle couvre toute sa plage: `<=7` équivaut à `<8`, `>7` à `>=8`
+      if (specified < 3 && (operator === '<=' || operator === '>')) {
+        return [{ operator: operator === '<=' ? '<' : '>=', version: next }];
+      }
+      return [{ operator: operator as Comparator['operator'], version: numbers }];
+    }
+
+    let upper: VersionTuple;
+    if (operator === '^') {
+      upper = numbers[0] > 0 || specified === 1 ? [numbers[0] + 1, 0, 0]
+        : numbers[1] > 0 || specified === 2 ? [0, numbers[1] + 1, 0]
+          : [0, 0, numbers[2] + 1];
+    } else if (specified === 3 && !operator) {
+      return [{ operator: '=', version: numbers }];
+    } else {
+      upper = next;
+    }
+
+    return [{ operator: '>=', version: numbers }, { operator: '<', version: upper }];
+  }
+
+  private static test(version: VersionTuple, comparator: Comparator): boolean {
+    const comparison = VersionUtils.compareTuples(version, comparator.version);
+    switch (comparator.operator) {
+      case '>=': return comparison >= 0;
+      case '>': return comparison > 0;
+      case '<=': return comparison <= 0;
+      case '<': return comparison < 0;
+      default: return comparison === 0;
+    }
+  }
+
+  private static compareTuples(a: VersionTuple, b: VersionTuple): number {
+    return a[0] - b[0] || a[1] - b[1] || a[2] - b[2];
+  }
+}
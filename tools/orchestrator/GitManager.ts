@@ -0,0 +1,200 @@
+/**
+ * Intégration Git de l'orchestrateur
+ * Isole la migration sur une branche dédiée avec un commit et un tag par phase
+ */
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { Logger } from '../../shared/utils/Logger';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Répertoires produits par l'outil, jamais commités
+ */
+const EXCLUDED_PATHS = ['migration-reports', '.migration-backups'];
+
+export interface GitMigrationSession {
+  /** Branche de départ de l'utilisateur */
+  baseBranch: string;
+  /** Branche dédiée à la migration */
+  branch: string;
+  /** Tag posé sur le commit de départ */
+  startTag: string;
+  /** Tags posés après chaque phase, dans l'ordre */
+  phaseTags: string[];
+}
+
+export class GitManager {
+  private logger = new Logger('GitManager');
+  private projectPath: string;
+  private runId: string;
+  private session: GitMigrationSession | null = null;
+
+  constructor(projectPath: string) {
+    this.projectPath = projectPath;
+    this.runId = new Date().toISOString().replace(/[-:]/g, '').replace('T', '-').slice(0, 15);
+  }
+
+  /**
+   * Vérifie que l'arbre de travail est propre, crée la branche de migration et tague le point de départ
+   */
+  async startSession(): Promise<GitMigrationSession> {
+    if (!(await this.isRepository())) {
+      throw new Error(`${this.projectPath} n'est pas un dépôt Git`);
+    }
+
+    await this.ensureCleanTree();
+
+    const baseBranch = (await this.git('rev-parse', '--abbrev-ref', 'HEAD')).trim();
+    const branch = `migration/angular-${this.runId}`;
+    await this.git('checkout', '-b', branch);
+
+    const startTag = this.tagName('start');
+    await this.git('tag', '-a', startTag, '-m', `Point de départ de la migration (${baseBranch})`);
+
+    this.session = { baseBranch, branch, startTag, phaseTags: [] };
+    this.logger.info(`🌿 Branche de migration créée: ${branch} (depuis ${baseBranch})`);
+    return this.session;
+  }
+
+  /**
+   * Commite les changements d'une phase et pose son tag
+   * Avec `groups`, un commit est créé par type de transformation (fichiers listés), puis un commit pour le reste
+   */
+  async commitPhase(phase: string, groups?: Map<string, string[]>): Promise<string> {
+    const session = this.requireSession();
+    await this.ensureOnMigrationBranch();
+
+    for (const [type, files] of groups || new Map<string, string[]>()) {
+      const changed = files.length > 0 ? await this.changedPaths(files) : [];
+      if (changed.length === 0) {
+        continue;
+      }
+      await this.git('add', '-A', '--', ...changed);
+      await this.commitStaged(`migration(${phase}): ${type}`);
+    }
+
+    await this.git('add', '-A', '--', '.', ...EXCLUDED_PATHS.map(excluded => `:(exclude)${excluded}`));
+    await this.commitStaged(`migration(${phase}): fin de phase`);
+
+    const tag = this.tagName(phase);
+    await this.git('tag', '-a', tag, '-m', `Migration: ${phase} terminée`);
+    session.phaseTags.push(tag);
+
+    this.logger.info(`🏷️ Phase ${phase} commitée et taguée: ${tag}`);
+    return tag;
+  }
+
+  /**
+   * Revient au tag de la dernière phase réussie (ou au point de départ)
+   * Les changements non commités de la phase échouée sont mis de côté dans un stash, jamais supprimés
+   */
+  async rollbackToLastPhase(): Promise<string> {
+    const session = this.requireSession();
+    await this.ensureOnMigrationBranch();
+
+    const tag = session.phaseTags[session.phaseTags.length - 1] || session.startTag;
+    if ((await this.status()).length > 0) {
+      await this.git(
+        'stash', 'push', '--include-untracked', '-m', `migration: changements abandonnés avant retour à ${tag}`,
+        '--', '.', ...EXCLUDED_PATHS.map(excluded => `:(exclude)${excluded}`)
+      );
+      this.logger.warn('📦 Changements non commités conservés dans `git stash`');
+    }
+
+    // La branche est dédiée à la migration: la déplacer ne touche à aucun travail de l'utilisateur
+    await this.git('reset', '--hard', tag);
+    this.logger.info(`🔄 Retour au tag ${tag}`);
+    return tag;
+  }
+
+  /**
+   * Échoue si l'arbre de travail contient des changements (hors répertoires de l'outil)
+   */
+  async ensureCleanTree(): Promise<void> {
+    const changes = await this.status();
+    if (changes.length > 0) {
+      throw new Error(
+        `L'arbre de travail doit être propre avant la migration (${changes.length} changement(s)):\n${changes.join('\n')}`
+      );
+    }
+  }
+
+  /**
+   * Indique si le projet est dans un dépôt Git
+   */
+  async isRepository(): Promise<boolean> {
+    try {
+      return (await this.git('rev-parse', '--is-inside-work-tree')).trim() === 'true';
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Session en cours
+   */
+  getSession(): GitMigrationSession | null {
+    return this.session;
+  }
+
+  /**
+   * Changements de l'arbre de travail au format porcelain
+   */
+  private async status(): Promise<string[]> {
+    const output = await this.git(
+      'status', '--porcelain', '--', '.', ...EXCLUDED_PATHS.map(excluded => `:(exclude)${excluded}`)
+    );
+    return output.split('\n').filter(line => line.trim().length > 0);
+  }
+
+  /**
+   * Crée un commit si l'index contient des changements
+   */
+  private async commitStaged(message: string): Promise<void> {
+    const staged = await this.git('diff', '--cached', '--name-only');
+    if (staged.trim().length === 0) {
+      return;
+    }
+    await this.git('commit', '-m', message);
+  }
+
+  /**
+   * Refuse toute écriture hors de la branche de migration
+   */
+  private async ensureOnMigrationBranch(): Promise<void> {
+    const session = this.requireSession();
+    const current = (await this.git('rev-parse', '--abbrev-ref', 'HEAD')).trim();
+    if (current !== session.branch) {
+      throw new Error(`Branche courante ${current} différente de la branche de migration ${session.branch}`);
+    }
+  }
+
+  /**
+   * Chemins modifiés, créés ou supprimés parmi `files`
+   */
+  private async changedPaths(files: string[]): Promise<string[]> {
+    const output = await this.git('status', '--porcelain', '-z', '--untracked-files=all', '--', ...files);
+    return output.split('\0').filter(entry => entry.length > 3).map(entry => entry.slice(3));
+  }
+
+  private requireSession(): GitMigrationSession {
+    if (!this.session) {
+      throw new Error('Aucune session de migration Git en cours');
+    }
+    return this.session;
+  }
+
+  private tagName(phase: string): string {
+    return `migration/${this.runId}/${phase.replace(/[^A-Za-z0-9._-]+/g, '-')}`;
+  }
+
+  /**
+   * Exécute une commande Git dans le projet (sans shell)
+   */
+  private async git(...args: string[]): Promise<string> {
+    const { stdout } = await execFileAsync('git', args, { cwd: this.projectPath, maxBuffer: 16 * 1024 * 1024 });
+    return stdout;
+  }
+}
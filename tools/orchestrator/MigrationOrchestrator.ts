@@ -3,17 +3,25 @@
  * Gère l'exécution séquentielle des 4 phases de migration
  */
 
+import * as fs from 'fs';
+import * as path from 'path';
 import { Logger } from '../../shared/utils/Logger';
 import { ReportGenerator } from '../../shared/utils/ReportGenerator';
+import { GitManager } from './GitManager';
+import { MigrationProjectConfig } from '../../src/types';
 
 export interface MigrationOptions {
   projectPath: string;
   phases?: string[];
   validate?: boolean;
   backup?: boolean;
+  /** Un commit par type de transformation au sein de chaque phase */
+  commitPerTransformation?: boolean;
   rollback?: boolean;
   parallel?: boolean;
   verbose?: boolean;
+  /** Configuration du projet (`migration.config.*`) */
+  config?: MigrationProjectConfig;
 }
 
 export interface PhaseResult {
@@ -42,6 +50,7 @@ export interface MigrationResult {
 export class MigrationOrchestrator {
   private logger = new Logger('MigrationOrchestrator');
   private reportGenerator = new ReportGenerator();
+  private git: GitManager | null = null;
 
   /**
    * Exécute la migration complète en 4 phases
@@ -61,9 +70,10 @@ export class MigrationOrchestrator {
     let currentPhase = 0;
 
     try {
-      // Créer un backup initial
+      // Isoler la migration sur une branche dédiée (arbre de travail propre exigé)
       if (options.backup) {
-        await this.createInitialBackup(options.projectPath);
+        this.git = new GitManager(options.projectPath);
+        await this.git.startSession();
       }
 
       // Exécuter les phases
@@ -77,8 +87,8 @@ export class MigrationOrchestrator {
         if (!phaseResult.success) {
           this.logger.error(`❌ Phase ${currentPhase} échouée: ${phase}`);
 
-          if (options.rollback) {
-            await this.rollbackToPreviousPhase(options.projectPath, currentPhase - 1);
+          if (options.rollback && this.git) {
+            await this.rollbackToPreviousPhase(currentPhase - 1);
           }
 
           break;
@@ -87,6 +97,11 @@ export class MigrationOrchestrator {
         this.logger.info(`✅ Phase ${currentPhase} terminée avec succès: ${phase}`);
       }
 
+      const session = this.git?.getSession();
+      if (session) {
+        this.logger.info(`🌿 Migration disponible sur ${session.branch}, à fusionner dans ${session.baseBranch} après revue`);
+      }
+
       const totalDuration = Date.now() - startTime;
       const summary = this.generateSummary(results);
 
@@ -126,11 +141,6 @@ export class MigrationOrchestrator {
     try {
       this.logger.info(`🔄 Début de ${phase}`);
 
-      // Créer un backup avant la phase
-      if (options.backup) {
-        await this.createPhaseBackup(projectPath, phase);
-      }
-
       // Exécuter la migration de la phase
       const migrationResult = await this.runPhaseMigration(projectPath, phase, options);
 
@@ -142,6 +152,14 @@ export class MigrationOrchestrator {
         }
       }
 
+      // Commiter et taguer la phase sur la branche de migration
+      if (this.git) {
+        const groups = options.commitPerTransformation
+          ? this.loadTransformationGroups(projectPath, startTime, options.config?.reporting?.outputPath)
+          : undefined;
+        await this.git.commitPhase(phase, groups);
+      }
+
       const duration = Date.now() - startTime;
 
       return {
@@ -234,59 +252,48 @@ export class MigrationOrchestrator {
   }
 
   /**
-   * Crée un backup initial
+   * Regroupe les fichiers modifiés par type de transformation d'après le rapport JSON de la phase
    */
-  private async createInitialBackup(projectPath: string): Promise<void> {
-    this.logger.info('💾 Création du backup initial');
-
-    const { exec } = await import('child_process');
-    const { promisify } = await import('util');
-    const execAsync = promisify(exec);
-
-    try {
-      await execAsync(`git add . && git commit -m "Backup initial avant migration Angular 5→20"`, {
-        cwd: projectPath
-      });
-      this.logger.info('✅ Backup initial créé');
-    } catch (error) {
-      this.logger.warn('⚠️ Impossible de créer le backup initial', error);
+  private loadTransformationGroups(projectPath: string, since: number, outputPath = 'migration-reports'): Map<string, string[]> {
+    const groups = new Map<string, string[]>();
+    const reportDir = path.join(projectPath, outputPath);
+    if (!fs.existsSync(reportDir)) {
+      return groups;
     }
-  }
-
-  /**
-   * Crée un backup avant une phase
-   */
-  private async createPhaseBackup(projectPath: string, phase: string): Promise<void> {
-    this.logger.info(`💾 Création du backup pour ${phase}`);
 
-    const { exec } = await import('child_process');
-    const { promisify } = await import('util');
-    const execAsync = promisify(exec);
-
-    try {
-      await execAsync(`git add . && git commit -m "Backup avant ${phase}"`, {
-        cwd: projectPath
-      });
-      this.logger.info(`✅ Backup créé pour ${phase}`);
-    } catch (error) {
-      this.logger.warn(`⚠️ Impossible de créer le backup pour ${phase}`, error);
+    const reports = fs.readdirSync(reportDir)
+      .filter(name => name.startsWith('migration-report-') && name.endsWith('.json'))
+      .map(name => path.join(reportDir, name))
+      .filter(file => fs.statSync(file).mtimeMs >= since);
+
+    for (const reportPath of reports) {
+      try {
+        const report = JSON.parse(fs.readFileSync(reportPath, 'utf-8'));
+        for (const detail of report.fileDetails || []) {
+          const applied = (detail.transformations || []).filter((t: any) => t.status === 'applied');
+          // Un fichier touché par plusieurs types est commité avec le premier
+          if (applied.length > 0) {
+            const paths: string[] = applied.map((t: any) => t.targetPath || detail.file.path);
+            groups.set(applied[0].type, [...(groups.get(applied[0].type) || []), ...new Set(paths)]);
+          }
+        }
+      } catch (error) {
+        this.logger.warn(`Rapport illisible: ${reportPath}`, error);
+      }
     }
+
+    return groups;
   }
 
   /**
-   * Effectue un rollback vers une phase précédente
+   * Effectue un rollback vers le tag de la phase précédente
    */
-  private async rollbackToPreviousPhase(projectPath: string, phaseIndex: number): Promise<void> {
+  private async rollbackToPreviousPhase(phaseIndex: number): Promise<void> {
     this.logger.info(`🔄 Rollback vers la phase ${phaseIndex}`);
 
-    const { exec } = await import('child_process');
-    const { promisify } = await import('util');
-    const execAsync = promisify(exec);
-
     try {
-      // Rollback vers le commit précédent
-      await execAsync(`git reset --hard HEAD~1`, { cwd: projectPath });
-      this.logger.info(`✅ Rollback réussi vers la phase ${phaseIndex}`);
+      const tag = await this.git!.rollbackToLastPhase();
+      this.logger.info(`✅ Rollback réussi vers la phase ${phaseIndex} (${tag})`);
     } catch (error) {
       this.logger.error(`❌ Erreur lors du rollback vers la phase ${phaseIndex}`, error);
       throw error;
@@ -6,6 +6,7 @@
  */
 
 import { MigrationOrchestrator, MigrationOptions } from './MigrationOrchestrator';
+import { ConfigLoader } from '../../src/config/ConfigLoader';
 import { Logger } from '../../shared/utils/Logger';
 
 const logger = new Logger('OrchestratorCLI');
@@ -27,22 +28,29 @@ async function main() {
       process.exit(1);
     }
 
-    // Configuration des options
+    // Configuration des options: ligne de commande, puis migration.config.* du projet, puis valeurs par défaut
+    const loaded = await new ConfigLoader().load(args.projectPath);
+    const config = loaded?.config;
     const options: MigrationOptions = {
       projectPath: args.projectPath,
-      phases: args.phases,
-      validate: args.validate !== false, // true par défaut
-      backup: args.backup !== false, // true par défaut
-      rollback: args.rollback !== false, // true par défaut
+      phases: args.phases ?? config?.phases,
+      validate: args.validate ?? config?.validation?.enabled ?? true,
+      backup: args.backup ?? config?.rollback?.backup ?? true,
+      commitPerTransformation: args.commitPerTransformation || false,
+      rollback: args.rollback ?? config?.rollback?.automatic ?? true,
       parallel: args.parallel || false,
-      verbose: args.verbose || false
+      verbose: args.verbose ?? config?.verbose ?? false,
+      config
     };
 
     logger.info('🚀 Démarrage de l\'orchestrateur de migration');
     logger.info(`📁 Projet: ${options.projectPath}`);
+    if (loaded) {
+      logger.info(`⚙️  Configuration: ${loaded.path}`);
+    }
     logger.info(`📋 Phases: ${options.phases?.join(', ') || 'Toutes'}`);
     logger.info(`✅ Validation: ${options.validate ? 'Activée' : 'Désactivée'}`);
-    logger.info(`💾 Backup: ${options.backup ? 'Activé' : 'Désactivé'}`);
+    logger.info(`💾 Backup: ${options.backup ? 'Activé (branche Git dédiée, tag par phase)' : 'Désactivé'}`);
     logger.info(`🔄 Rollback: ${options.rollback ? 'Activé' : 'Désactivé'}`);
 
     // Exécution de la migration
@@ -80,6 +88,8 @@ function parseArguments(): any {
       args.validate = false;
     } else if (arg === '--no-backup') {
       args.backup = false;
+    } else if (arg === '--commit-per-transformation') {
+      args.commitPerTransformation = true;
     } else if (arg === '--no-rollback') {
       args.rollback = false;
     } else if (arg === '--parallel') {
@@ -106,12 +116,17 @@ Options:
   -p, --project-path <path>    Chemin vers le projet Angular à migrer
   -ph, --phases <phases>       Phases à exécuter (séparées par des virgules)
   --no-validate               Désactiver la validation après chaque phase
-  --no-backup                 Désactiver la création de backups
-  --no-rollback               Désactiver le rollback automatique
+  --no-backup                 Désactiver la branche de migration et les commits tagués par phase
+  --commit-per-transformation Un commit par type de transformation dans chaque phase
+  --no-rollback               Désactiver le rollback automatique (retour au tag de la phase précédente)
   --parallel                  Exécuter les phases en parallèle (expérimental)
   -v, --verbose               Mode verbeux
   -h, --help                  Afficher cette aide
 
+Configuration:
+  Un fichier migration.config.json (ou .ts, .yaml) à la racine du projet fournit les valeurs
+  par défaut (phases, validation, rollback, reporting); les options ci-dessus les remplacent.
+
 Exemples:
   # Migration complète
   node tools/orchestrator/index.js -p /path/to/project